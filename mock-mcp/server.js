@@ -0,0 +1,165 @@
+// Mock Translation Helps MCP server
+//
+// Serves fixtures for the MCP endpoints the app and edge functions call (scripture, notes,
+// questions, word links, words, academy, search, catalog) plus the Door43 catalog lists the
+// language picker reads, so development and tests run offline with the same answers every time.
+//
+//   npm run mock:mcp                 serve fixtures on http://localhost:8787
+//   npm run mock:mcp -- --record     fetch misses from the real servers and save them as fixtures
+//
+// Point the stack at it with MCP_BASE_URL (edge functions) and VITE_CATALOG_API_URL (app).
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+// Where --record fetches from, by path prefix
+const UPSTREAMS = [
+  { prefix: '/api/v1/catalog/', url: 'https://git.door43.org' },
+  { prefix: '/api/', url: 'https://translation-helps-mcp.pages.dev' },
+];
+
+// Params a fixture may leave out and still match on: language, owner and text version, so the
+// fallback and resource-switching paths work offline, and the scope of searches and word lookups.
+// Anything else in the request (filter, term, format...) has to be in the fixture.
+const LOOSE_PARAMS = new Set(['language', 'organization', 'owner', 'resource', 'lang', 'reference', 'testament']);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function normalize(value) {
+  return String(value).trim().toLowerCase();
+}
+
+// "Ruth 1:3" → ["Ruth 1:3", "Ruth 1", "Ruth"], so one chapter fixture answers for its verses
+function widenReference(reference) {
+  const candidates = [reference];
+  const chapter = reference.match(/^(.+?\s+\d+):[\d\-,:]+$/);
+  if (chapter) candidates.push(chapter[1]);
+  const book = reference.match(/^(.+?)\s+\d+(?::[\d\-,:]+)?$/);
+  if (book) candidates.push(book[1]);
+  return candidates;
+}
+
+function fixtureMatches(fixture, params) {
+  const fixtureParams = fixture.params || {};
+  for (const [key, value] of Object.entries(fixtureParams)) {
+    if (params[key] === undefined || normalize(params[key]) !== normalize(value)) return false;
+  }
+  return Object.keys(params).every(key => key in fixtureParams || LOOSE_PARAMS.has(key));
+}
+
+const bySpecificity = (a, b) => Object.keys(b.params || {}).length - Object.keys(a.params || {}).length;
+
+/**
+ * Fixture for a request: one for the exact reference, else its chapter, else its book, else
+ * one that doesn't name a reference. Among equals the one pinning the most params wins.
+ */
+export function findFixture(fixtures, params) {
+  const references = params.reference ? widenReference(params.reference) : [];
+  for (const reference of references) {
+    const matches = fixtures.filter(fixture => fixture.params?.reference && fixtureMatches(fixture, { ...params, reference }));
+    if (matches.length > 0) return matches.sort(bySpecificity)[0];
+  }
+  const matches = fixtures.filter(fixture => !fixture.params?.reference && fixtureMatches(fixture, params));
+  return matches.sort(bySpecificity)[0] || null;
+}
+
+function fixtureFile(fixturesDir, pathname) {
+  const relative = path.normalize(pathname).replace(/^([/\\])+/, '').replace(/[/\\]+$/, '');
+  const file = path.join(fixturesDir, `${relative}.json`);
+  return file.startsWith(fixturesDir + path.sep) ? file : null;
+}
+
+function loadFixtures(file) {
+  if (!file || !fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function readBody(fixture, file) {
+  if (fixture.bodyFile) return fs.readFileSync(path.join(path.dirname(file), fixture.bodyFile), 'utf8');
+  return typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body ?? null);
+}
+
+function slugify(params) {
+  return Object.values(params).join('-').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'default';
+}
+
+// Fetch a miss from the real server and append it to the endpoint's fixtures
+async function recordFixture(file, pathname, params) {
+  const upstream = UPSTREAMS.find(u => pathname.startsWith(u.prefix));
+  if (!upstream) return null;
+
+  const url = new URL(pathname, upstream.url);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.append(key, value));
+  const response = await fetch(url);
+  const contentType = response.headers.get('content-type') || 'text/plain';
+  const text = await response.text();
+
+  const fixture = { params, status: response.status, contentType };
+  if (contentType.includes('application/json')) {
+    fixture.body = JSON.parse(text);
+  } else {
+    const endpoint = path.basename(file, '.json');
+    fixture.bodyFile = `${endpoint}/${slugify(params)}.md`;
+    fs.mkdirSync(path.join(path.dirname(file), endpoint), { recursive: true });
+    fs.writeFileSync(path.join(path.dirname(file), fixture.bodyFile), text);
+  }
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify([...loadFixtures(file), fixture], null, 2) + '\n');
+  console.log(`[mock-mcp] Recorded ${pathname} ${JSON.stringify(params)} (${response.status})`);
+  return fixture;
+}
+
+export function createMockMcpServer({ fixturesDir = DEFAULT_FIXTURES_DIR, record = false, log = false } = {}) {
+  return http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams.entries());
+    const file = fixtureFile(fixturesDir, url.pathname);
+
+    try {
+      let fixture = findFixture(loadFixtures(file), params);
+      if (!fixture && record && file) fixture = await recordFixture(file, url.pathname, params);
+
+      if (!fixture) {
+        if (log) console.log(`[mock-mcp] 404 ${url.pathname}${url.search}`);
+        res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `No fixture for ${url.pathname}`, params }));
+        return;
+      }
+
+      if (log) console.log(`[mock-mcp] ${fixture.status || 200} ${url.pathname}${url.search}`);
+      res.writeHead(fixture.status || 200, {
+        ...CORS_HEADERS,
+        'Content-Type': fixture.contentType || (fixture.bodyFile ? 'text/markdown; charset=utf-8' : 'application/json'),
+      });
+      res.end(readBody(fixture, file));
+    } catch (error) {
+      console.error('[mock-mcp] Error:', error);
+      res.writeHead(500, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }));
+    }
+  });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.MOCK_MCP_PORT) || DEFAULT_PORT;
+  const record = process.argv.includes('--record');
+  createMockMcpServer({ record, log: true }).listen(port, () => {
+    console.log(`[mock-mcp] Serving fixtures on http://localhost:${port}${record ? ' (recording misses)' : ''}`);
+  });
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { UserRound, Mail, LogOut, Loader2, Check } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+// Guests see a magic-link form to keep their data across devices; signed-in users see who they are
+export function AccountPanel() {
+  const { user, isAnonymous, isLoading, sendMagicLink, signOut } = useAuth();
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  if (isLoading) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address) return;
+
+    setIsSending(true);
+    const result = await sendMagicLink(address);
+    setIsSending(false);
+
+    if (!result.ok) {
+      toast({
+        title: 'Could not send sign-in link',
+        description: result.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSentTo(address);
+  };
+
+  if (user && !isAnonymous) {
+    return (
+      <div className="flex items-center gap-2 p-4 border-t border-border/50">
+        <UserRound className="w-4 h-4 text-primary shrink-0" />
+        <span className="flex-1 text-xs text-foreground truncate">{user.email}</span>
+        <button
+          onClick={signOut}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <LogOut className="w-3 h-3" />
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border-t border-border/50 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <UserRound className="w-4 h-4 shrink-0" />
+        <span>Guest - your notes and history are stored for this browser only</span>
+      </div>
+      {sentTo ? (
+        <p className="flex items-center gap-1.5 text-xs text-primary">
+          <Check className="w-3 h-3" />
+          Check {sentTo} for a sign-in link
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email to sync across devices"
+            className="flex-1 min-w-0 bg-muted/50 rounded-lg px-3 py-1.5 text-xs text-foreground outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !email.trim()}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-primary/10 hover:bg-primary/20 text-primary text-xs font-medium transition-colors disabled:opacity-50"
+          >
+            {isSending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Mail className="w-3 h-3" />}
+            Send link
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
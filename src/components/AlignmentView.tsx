@@ -0,0 +1,297 @@
+import { memo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronLeft, ChevronRight, BookMarked, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChapterSkeleton } from '@/components/VerseSkeleton';
+import { useAlignment, AlignmentSelection, WordLookupStatus } from '@/hooks/useAlignment';
+import { TranslationWord } from '@/services/translationHelpsApi';
+import {
+  AlignedVerse,
+  OriginalWord,
+  findAlignmentForOriginal,
+  getAlignmentGloss,
+  isOriginalHebrew,
+  isSameOriginalWord,
+  formatStrong,
+  describeMorph,
+} from '@/lib/usfmAlignment';
+import { cn } from '@/lib/utils';
+
+interface AlignmentViewProps {
+  bookName: string;
+  chapter: number;
+  totalChapters: number;
+  onChapterChange: (chapter: number) => void;
+  selectedVerse: { chapter: number; verse: number } | null;
+  onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
+}
+
+const AlignedVerseRow = memo(function AlignedVerseRow({
+  verse,
+  selectedAlignment,
+  isFocused,
+  isHebrew,
+  onSelect,
+  onVerseClick
+}: {
+  verse: AlignedVerse;
+  selectedAlignment: number | null;
+  isFocused: boolean;
+  isHebrew: boolean;
+  onSelect: (selection: AlignmentSelection) => void;
+  onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
+}) {
+  const selectedSources = selectedAlignment !== null ? verse.alignments[selectedAlignment]?.sources || [] : [];
+
+  const handleOriginalClick = (word: OriginalWord, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const alignment = findAlignmentForOriginal(verse, word);
+    if (alignment !== null) onSelect({ verse: verse.verse, alignment });
+  };
+
+  return (
+    <div
+      data-verse={`${verse.chapter}:${verse.verse}`}
+      onClick={(e) => onVerseClick(verse.chapter, verse.verse, e)}
+      className={cn(
+        "py-2 border-b border-border/20 rounded-sm cursor-pointer",
+        isFocused && "bg-primary/10"
+      )}
+    >
+      <p className="scripture-text text-base">
+        <sup className="scripture-verse">{verse.verse}</sup>
+        {verse.tokens.map((token, index) => {
+          if (token.type === 'text' || token.alignment === null) {
+            return <span key={index}>{token.text}</span>;
+          }
+          const alignment = token.alignment;
+          return (
+            <span
+              key={index}
+              role="button"
+              tabIndex={0}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelect({ verse: verse.verse, alignment });
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && onSelect({ verse: verse.verse, alignment })}
+              className={cn(
+                "rounded-sm transition-colors hover:bg-primary/10",
+                selectedAlignment === alignment && "bg-primary/25 text-primary"
+              )}
+            >
+              {token.text}
+            </span>
+          );
+        })}
+      </p>
+      {verse.original.length > 0 && (
+        <p
+          dir={isHebrew ? 'rtl' : 'ltr'}
+          lang={isHebrew ? 'hbo' : 'grc'}
+          className={cn("mt-1 text-muted-foreground leading-relaxed", isHebrew ? "text-lg" : "text-base")}
+        >
+          {verse.original.map((word, index) => (
+            <span key={index}>
+              <span
+                onClick={(e) => handleOriginalClick(word, e)}
+                className={cn(
+                  "rounded-sm transition-colors hover:text-foreground",
+                  selectedSources.some(source => isSameOriginalWord(source, word)) && "bg-primary/25 text-primary"
+                )}
+              >
+                {word.text.replace(/\//g, '')}
+              </span>{' '}
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+});
+
+function GlossPanel({
+  verse,
+  alignment,
+  isHebrew,
+  translationWord,
+  wordStatus,
+  onLookup,
+  onClose
+}: {
+  verse: AlignedVerse;
+  alignment: number;
+  isHebrew: boolean;
+  translationWord: TranslationWord | null;
+  wordStatus: WordLookupStatus;
+  onLookup: () => void;
+  onClose: () => void;
+}) {
+  const group = verse.alignments[alignment];
+  if (!group) return null;
+  const gloss = getAlignmentGloss(verse, group);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="sticky bottom-0 glass-card rounded-xl p-4 mt-4 shadow-lg"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-2 mb-3">
+        <div>
+          <span className="text-[10px] uppercase tracking-wider text-muted-foreground">
+            {verse.chapter}:{verse.verse}
+          </span>
+          <p className="text-sm font-medium text-foreground">{gloss}</p>
+        </div>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors" aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {group.sources.map((source, index) => {
+          const partOfSpeech = describeMorph(source.morph);
+          return (
+            <div key={index} className="flex items-baseline gap-3 flex-wrap">
+              <span dir={isHebrew ? 'rtl' : 'ltr'} className="text-lg text-primary">
+                {source.text.replace(/[/⁠]/g, '')}
+              </span>
+              <span className="text-sm text-foreground">{source.lemma}</span>
+              {source.strong && (
+                <span className="text-xs font-mono text-muted-foreground">{formatStrong(source.strong)}</span>
+              )}
+              {(partOfSpeech || source.morph) && (
+                <span className="text-xs text-muted-foreground" title={source.morph}>
+                  {partOfSpeech || source.morph}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 pt-3 border-t border-border/40">
+        {wordStatus === 'found' && translationWord ? (
+          <div>
+            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Translation Word</span>
+            <p className="text-sm font-medium text-foreground">{translationWord.term}</p>
+            <p className="text-xs text-muted-foreground line-clamp-4 mt-1">
+              {translationWord.definition || translationWord.content}
+            </p>
+          </div>
+        ) : wordStatus === 'missing' ? (
+          <p className="text-xs text-muted-foreground">No Translation Word article for this term.</p>
+        ) : (
+          <Button variant="outline" size="sm" onClick={onLookup} disabled={wordStatus === 'loading'} className="gap-2">
+            {wordStatus === 'loading' ? <Loader2 className="w-4 h-4 animate-spin" /> : <BookMarked className="w-4 h-4" />}
+            Translation Word
+          </Button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+// Aligned text with the original-language words underneath each verse
+export function AlignmentView({
+  bookName,
+  chapter,
+  totalChapters,
+  onChapterChange,
+  selectedVerse,
+  onVerseClick,
+}: AlignmentViewProps) {
+  const {
+    verses,
+    hasOriginalText,
+    isLoading,
+    error,
+    selection,
+    selectAlignment,
+    translationWord,
+    wordStatus,
+    lookupTranslationWord,
+  } = useAlignment(bookName, chapter);
+
+  const isHebrew = verses.some(verse => isOriginalHebrew(verse.original));
+  const hasAlignments = verses.some(verse => verse.alignments.length > 0);
+  const selectedVerseData = selection ? verses.find(v => v.verse === selection.verse) : undefined;
+
+  return (
+    <div className="pt-2">
+      <div className="flex items-center justify-between mb-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChapterChange(chapter - 1)}
+          disabled={chapter <= 1}
+          aria-label="Previous chapter"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-center">
+          <span className="text-xs text-muted-foreground">Chapter {chapter}</span>
+          {!isLoading && hasAlignments && (
+            <p className="text-[10px] text-muted-foreground/60">
+              Tap a word to see the {isHebrew ? 'Hebrew' : 'Greek'}
+              {!hasOriginalText && ' (original text rebuilt from alignments)'}
+            </p>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChapterChange(chapter + 1)}
+          disabled={chapter >= totalChapters}
+          aria-label="Next chapter"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <ChapterSkeleton chapterNumber={chapter} height={400} />
+      ) : error ? (
+        <p className="text-sm text-destructive text-center py-8">{error}</p>
+      ) : !hasAlignments ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          This text has no word alignment data for {bookName} {chapter}.
+        </p>
+      ) : (
+        <>
+          {verses.map(verse => (
+            <AlignedVerseRow
+              key={verse.verse}
+              verse={verse}
+              selectedAlignment={selection?.verse === verse.verse ? selection.alignment : null}
+              isFocused={selectedVerse?.chapter === verse.chapter && selectedVerse?.verse === verse.verse}
+              isHebrew={isHebrew}
+              onSelect={selectAlignment}
+              onVerseClick={onVerseClick}
+            />
+          ))}
+          <AnimatePresence>
+            {selection && selectedVerseData && (
+              <GlossPanel
+                key={`${selection.verse}-${selection.alignment}`}
+                verse={selectedVerseData}
+                alignment={selection.alignment}
+                isHebrew={isHebrew}
+                translationWord={translationWord}
+                wordStatus={wordStatus}
+                onLookup={() => lookupTranslationWord(
+                  selection.verse,
+                  getAlignmentGloss(selectedVerseData, selectedVerseData.alignments[selection.alignment])
+                )}
+                onClose={() => selectAlignment(null)}
+              />
+            )}
+          </AnimatePresence>
+        </>
+      )}
+    </div>
+  );
+}
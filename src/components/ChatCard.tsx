@@ -1,6 +1,6 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sparkles, Globe, Languages, Loader2, RotateCcw, X } from 'lucide-react';
+import { Sparkles, Globe, Languages, Loader2, RotateCcw, X, Pencil, ChevronLeft, ChevronRight } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { Message, ResourceLink } from '@/types';
 import { cn } from '@/lib/utils';
@@ -11,9 +11,13 @@ import { ScriptureReferenceText } from '@/components/ScriptureReferenceText';
 import { PlayButton } from '@/components/PlayButton';
 import { VoiceConversation } from '@/components/VoiceConversation';
 import { VoiceStatus } from '@/hooks/useVoiceConversation';
+import { getBranchPosition } from '@/lib/messageTree';
 
 interface ChatCardProps {
-  messages: Message[];
+  messages: Message[];           // The open branch
+  allMessages?: Message[];       // Every branch, for the switcher on edited messages
+  onEditMessage?: (message: Message, content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
   onResourceClick: (resource: ResourceLink) => void;
   onScriptureClick?: (reference: string) => void;
   isLoading?: boolean;
@@ -39,13 +43,14 @@ interface ChatCardProps {
 }
 
 export function ChatCard({ 
-  messages, onResourceClick, onScriptureClick, isLoading, 
+  messages, allMessages, onEditMessage, onSwitchBranch, onResourceClick, onScriptureClick, isLoading, 
   currentLanguage, onChangeLanguage, t, hasStaticTranslations, onTranslateUi, isTranslatingUi,
   showVoiceMode = false, onShowVoiceMode, voiceStatus = 'idle', voiceIsAgentSpeaking = false,
   voiceUserTranscript = '', voiceAgentTranscript = '', voiceIsConnected = false, onStartVoice, onEndVoice,
   showResetConfirm = false, onShowResetConfirm
 }: ChatCardProps) {
   const [isResetting, setIsResetting] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { resetSession } = useResetSession();
 
@@ -53,6 +58,24 @@ export function ChatCard({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Alternatives for each user message on the open branch, where it has been edited
+  const branchPositions = useMemo(() => {
+    const positions = new Map<string, ReturnType<typeof getBranchPosition>>();
+    if (!allMessages) return positions;
+    messages.forEach(message => {
+      if (message.role !== 'user') return;
+      const position = getBranchPosition(allMessages, message);
+      if (position.count > 1) positions.set(message.id, position);
+    });
+    return positions;
+  }, [messages, allMessages]);
+
+  const submitEdit = (message: Message) => {
+    if (!editing?.content.trim()) return;
+    onEditMessage?.(message, editing.content.trim());
+    setEditing(null);
+  };
+
   const handleReset = async () => {
     setIsResetting(true);
     await resetSession();
@@ -192,117 +215,187 @@ export function ChatCard({
                     : 'glass-card ai-message'
                 )}
               >
-                {/* Action buttons */}
-                <div className="absolute top-2 right-2 flex items-center gap-0.5">
-                  {message.role === 'assistant' && !message.isStreaming && (
-                    <PlayButton 
-                      text={message.content}
-                      id={`chat-${message.id}`}
-                      language={currentLanguage?.id}
+                {editing?.id === message.id ? (
+                  <div className="min-w-[16rem]">
+                    <textarea
+                      autoFocus
+                      value={editing.content}
+                      onChange={(e) => setEditing({ id: message.id, content: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          submitEdit(message);
+                        }
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      rows={Math.min(6, editing.content.split('\n').length + 1)}
+                      className="w-full resize-none rounded-lg bg-primary-foreground/10 px-2 py-1.5 text-sm text-primary-foreground outline-none placeholder:text-primary-foreground/60"
                     />
-                  )}
-                  <CopyButton text={message.content} />
-                </div>
-                
-                <div className="prose prose-sm prose-invert max-w-none pr-6">
-                  <ReactMarkdown
-                    components={{
-                      p: ({ children }) => (
-                        <p className="text-sm leading-relaxed mb-2 last:mb-0">
-                          <ScriptureReferenceText 
-                            text={typeof children === 'string' ? children : ''} 
-                            onReferenceClick={onScriptureClick}
-                            variant={message.role === 'user' ? 'user' : 'default'}
-                          />
-                          {typeof children !== 'string' && children}
-                        </p>
-                      ),
-                      strong: ({ children }) => (
-                        <strong className={cn(
-                          "font-semibold",
-                          message.role === 'user' ? 'text-primary-foreground' : 'text-primary'
-                        )}>
-                          {children}
-                        </strong>
-                      ),
-                      em: ({ children }) => (
-                        <em className={cn(
-                          "italic",
-                          message.role === 'user' ? 'text-primary-foreground/80' : 'text-muted-foreground'
-                        )}>
-                          {children}
-                        </em>
-                      ),
-                      ul: ({ children }) => <ul className="list-disc list-inside space-y-1 mb-2 ml-2">{children}</ul>,
-                      ol: ({ children }) => <ol className="list-decimal list-inside space-y-1 mb-2 ml-2">{children}</ol>,
-                      li: ({ children }) => <li className="text-sm leading-relaxed">{children}</li>,
-                      h1: ({ children }) => <h1 className={cn("text-lg font-bold mb-2 mt-3", message.role === 'user' ? 'text-primary-foreground' : 'text-primary')}>{children}</h1>,
-                      h2: ({ children }) => <h2 className={cn("text-base font-semibold mb-2 mt-3", message.role === 'user' ? 'text-primary-foreground' : 'text-primary')}>{children}</h2>,
-                      h3: ({ children }) => <h3 className={cn("text-sm font-semibold mb-1 mt-2", message.role === 'user' ? 'text-primary-foreground' : 'text-accent')}>{children}</h3>,
-                      h4: ({ children }) => <h4 className="text-sm font-medium mb-1 mt-2 text-foreground">{children}</h4>,
-                      blockquote: ({ children }) => (
-                        <blockquote className={cn(
-                          "border-l-2 pl-3 my-2 italic",
-                          message.role === 'user' ? 'border-primary-foreground/50 text-primary-foreground/80' : 'border-primary/50 text-muted-foreground'
-                        )}>
-                          {children}
-                        </blockquote>
-                      ),
-                      code: ({ children, className }) => {
-                        const isInline = !className;
-                        return isInline ? (
-                          <code className={cn(
-                            "px-1.5 py-0.5 rounded text-xs font-mono",
-                            message.role === 'user' ? 'bg-primary-foreground/20 text-primary-foreground' : 'bg-muted/50 text-accent'
-                          )}>
-                            {children}
-                          </code>
-                        ) : (
-                          <code className="block bg-muted/30 p-3 rounded-lg text-xs font-mono overflow-x-auto my-2">
-                            {children}
-                          </code>
-                        );
-                      },
-                      pre: ({ children }) => <pre className="bg-muted/30 p-3 rounded-lg overflow-x-auto my-2">{children}</pre>,
-                      a: ({ href, children }) => (
-                        <a 
-                          href={href} 
-                          target="_blank" 
-                          rel="noopener noreferrer" 
-                          className={cn(
-                            "underline",
-                            message.role === 'user' ? 'text-primary-foreground hover:text-primary-foreground/80' : 'text-primary hover:text-primary/80'
-                          )}
+                    <div className="flex justify-end gap-2 mt-2 text-xs">
+                      <button onClick={() => setEditing(null)} className="px-2 py-1 rounded-md text-primary-foreground/80 hover:text-primary-foreground">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => submitEdit(message)}
+                        disabled={!editing.content.trim() || isLoading}
+                        className="px-2 py-1 rounded-md bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground font-medium disabled:opacity-50"
+                      >
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    {/* Action buttons */}
+                    <div className="absolute top-2 right-2 flex items-center gap-0.5">
+                      {message.role === 'user' && onEditMessage && !isLoading && (
+                        <button
+                          onClick={() => setEditing({ id: message.id, content: message.content })}
+                          className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity text-primary-foreground/70 hover:text-primary-foreground"
+                          title="Edit and regenerate"
+                          aria-label="Edit message"
                         >
-                          {children}
-                        </a>
-                      ),
-                      hr: () => <hr className="border-border/30 my-3" />,
-                    }}
-                  >
-                    {message.content.replace(/\\n/g, '\n')}
-                  </ReactMarkdown>
+                          <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      {message.role === 'assistant' && !message.isStreaming && (
+                        <PlayButton 
+                          text={message.content}
+                          id={`chat-${message.id}`}
+                          language={currentLanguage?.id}
+                        />
+                      )}
+                      <CopyButton text={message.content} />
+                    </div>
+                
+                    <div className="prose prose-sm prose-invert max-w-none pr-6">
+                      <ReactMarkdown
+                        components={{
+                          p: ({ children }) => (
+                            <p className="text-sm leading-relaxed mb-2 last:mb-0">
+                              <ScriptureReferenceText 
+                                text={typeof children === 'string' ? children : ''} 
+                                onReferenceClick={onScriptureClick}
+                                variant={message.role === 'user' ? 'user' : 'default'}
+                                language={currentLanguage?.id}
+                              />
+                              {typeof children !== 'string' && children}
+                            </p>
+                          ),
+                          strong: ({ children }) => (
+                            <strong className={cn(
+                              "font-semibold",
+                              message.role === 'user' ? 'text-primary-foreground' : 'text-primary'
+                            )}>
+                              {children}
+                            </strong>
+                          ),
+                          em: ({ children }) => (
+                            <em className={cn(
+                              "italic",
+                              message.role === 'user' ? 'text-primary-foreground/80' : 'text-muted-foreground'
+                            )}>
+                              {children}
+                            </em>
+                          ),
+                          ul: ({ children }) => <ul className="list-disc list-inside space-y-1 mb-2 ml-2">{children}</ul>,
+                          ol: ({ children }) => <ol className="list-decimal list-inside space-y-1 mb-2 ml-2">{children}</ol>,
+                          li: ({ children }) => <li className="text-sm leading-relaxed">{children}</li>,
+                          h1: ({ children }) => <h1 className={cn("text-lg font-bold mb-2 mt-3", message.role === 'user' ? 'text-primary-foreground' : 'text-primary')}>{children}</h1>,
+                          h2: ({ children }) => <h2 className={cn("text-base font-semibold mb-2 mt-3", message.role === 'user' ? 'text-primary-foreground' : 'text-primary')}>{children}</h2>,
+                          h3: ({ children }) => <h3 className={cn("text-sm font-semibold mb-1 mt-2", message.role === 'user' ? 'text-primary-foreground' : 'text-accent')}>{children}</h3>,
+                          h4: ({ children }) => <h4 className="text-sm font-medium mb-1 mt-2 text-foreground">{children}</h4>,
+                          blockquote: ({ children }) => (
+                            <blockquote className={cn(
+                              "border-l-2 pl-3 my-2 italic",
+                              message.role === 'user' ? 'border-primary-foreground/50 text-primary-foreground/80' : 'border-primary/50 text-muted-foreground'
+                            )}>
+                              {children}
+                            </blockquote>
+                          ),
+                          code: ({ children, className }) => {
+                            const isInline = !className;
+                            return isInline ? (
+                              <code className={cn(
+                                "px-1.5 py-0.5 rounded text-xs font-mono",
+                                message.role === 'user' ? 'bg-primary-foreground/20 text-primary-foreground' : 'bg-muted/50 text-accent'
+                              )}>
+                                {children}
+                              </code>
+                            ) : (
+                              <code className="block bg-muted/30 p-3 rounded-lg text-xs font-mono overflow-x-auto my-2">
+                                {children}
+                              </code>
+                            );
+                          },
+                          pre: ({ children }) => <pre className="bg-muted/30 p-3 rounded-lg overflow-x-auto my-2">{children}</pre>,
+                          a: ({ href, children }) => (
+                            <a 
+                              href={href} 
+                              target="_blank" 
+                              rel="noopener noreferrer" 
+                              className={cn(
+                                "underline",
+                                message.role === 'user' ? 'text-primary-foreground hover:text-primary-foreground/80' : 'text-primary hover:text-primary/80'
+                              )}
+                            >
+                              {children}
+                            </a>
+                          ),
+                          hr: () => <hr className="border-border/30 my-3" />,
+                        }}
+                      >
+                        {message.content.replace(/\\n/g, '\n')}
+                      </ReactMarkdown>
                   
-                  {/* Inline streaming indicator */}
-                  {message.isStreaming && (
-                    <span className="inline-flex gap-1 ml-1 align-middle">
-                      <span className="w-1.5 h-1.5 bg-accent rounded-full animate-pulse-subtle" />
-                      <span className="w-1.5 h-1.5 bg-accent rounded-full animate-pulse-subtle" style={{ animationDelay: '0.2s' }} />
-                      <span className="w-1.5 h-1.5 bg-accent rounded-full animate-pulse-subtle" style={{ animationDelay: '0.4s' }} />
-                    </span>
-                  )}
-                </div>
+                      {/* Inline streaming indicator */}
+                      {message.isStreaming && (
+                        <span className="inline-flex gap-1 ml-1 align-middle">
+                          <span className="w-1.5 h-1.5 bg-accent rounded-full animate-pulse-subtle" />
+                          <span className="w-1.5 h-1.5 bg-accent rounded-full animate-pulse-subtle" style={{ animationDelay: '0.2s' }} />
+                          <span className="w-1.5 h-1.5 bg-accent rounded-full animate-pulse-subtle" style={{ animationDelay: '0.4s' }} />
+                        </span>
+                      )}
+                    </div>
 
-                {/* Tool calls are now replayed on-demand, not displayed as static links */}
-                {message.navigationHint && !message.isStreaming && (
-                  <div className="mt-3 pt-3 border-t border-border/30">
-                    <span className="text-xs text-muted-foreground">
-                      {message.navigationHint === 'scripture' && '📖 Scripture loaded — swipe right to view'}
-                      {message.navigationHint === 'resources' && '📚 Resources found — swipe right to explore'}
-                      {message.navigationHint === 'search' && '🔍 Search results ready — swipe right to view'}
-                      {message.navigationHint === 'notes' && '📝 Notes updated — swipe right to view'}
-                    </span>
-                  </div>
+                    {/* Tool calls are now replayed on-demand, not displayed as static links */}
+                    {message.navigationHint && !message.isStreaming && (
+                      <div className="mt-3 pt-3 border-t border-border/30">
+                        <span className="text-xs text-muted-foreground">
+                          {message.navigationHint === 'scripture' && '📖 Scripture loaded — swipe right to view'}
+                          {message.navigationHint === 'resources' && '📚 Resources found — swipe right to explore'}
+                          {message.navigationHint === 'search' && '🔍 Search results ready — swipe right to view'}
+                          {message.navigationHint === 'notes' && '📝 Notes updated — swipe right to view'}
+                        </span>
+                      </div>
+                    )}
+
+                    {/* Earlier and later wordings of an edited message */}
+                    {branchPositions.has(message.id) && (() => {
+                      const { index, count, siblings } = branchPositions.get(message.id)!;
+                      return (
+                        <div className="flex items-center justify-end gap-1 mt-2 -mb-1 text-[11px] text-primary-foreground/70 tabular-nums">
+                          <button
+                            onClick={() => onSwitchBranch?.(siblings[index - 1].id)}
+                            disabled={index === 0 || isLoading}
+                            className="p-0.5 rounded hover:text-primary-foreground disabled:opacity-40"
+                            aria-label="Previous version"
+                          >
+                            <ChevronLeft className="w-3.5 h-3.5" />
+                          </button>
+                          {index + 1}/{count}
+                          <button
+                            onClick={() => onSwitchBranch?.(siblings[index + 1].id)}
+                            disabled={index === count - 1 || isLoading}
+                            className="p-0.5 rounded hover:text-primary-foreground disabled:opacity-40"
+                            aria-label="Next version"
+                          >
+                            <ChevronRight className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      );
+                    })()}
+                  </>
                 )}
               </div>
             </motion.div>
@@ -0,0 +1,237 @@
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ReactMarkdown from 'react-markdown';
+import { ChevronLeft, ChevronRight, Check, X, MessageCircleQuestion, Loader2, FileText, HelpCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Resource, VerseCheck, CheckStatus } from '@/types';
+import { CheckInput } from '@/hooks/useVerseChecks';
+import {
+  CHECK_STATUSES,
+  isCheckableResource,
+  getCheckResourceType,
+  getCheckItemId,
+  getCheckKey,
+  resolveCheckReference,
+  CHECK_STATUS_COLORS,
+  CHECK_HEAT_COLORS,
+} from '@/lib/checking';
+import { formatRef } from '@/lib/scriptureReference';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface CheckingPanelProps {
+  resources: Resource[];
+  fallbackReference: string; // Used for TN/TQ items whose own reference has no book
+  checksByKey: Map<string, VerseCheck>;
+  onRecordCheck: (input: CheckInput) => Promise<VerseCheck | null>;
+}
+
+interface CheckItem {
+  key: string;
+  resource: Resource;
+  sourceReference: string;
+  resourceType: 'tn' | 'tq';
+  resourceId: string;
+  sortKey: number;
+}
+
+const statusIcons = {
+  pass: Check,
+  discuss: MessageCircleQuestion,
+  fail: X,
+};
+
+// Walks through every note and question in view, verse by verse, recording a verdict for each
+export function CheckingPanel({ resources, fallbackReference, checksByKey, onRecordCheck }: CheckingPanelProps) {
+  const items = useMemo<CheckItem[]>(() => {
+    return resources
+      .filter(isCheckableResource)
+      .map((resource, index) => {
+        const ref = resolveCheckReference(resource.reference, fallbackReference);
+        const start = ref?.ranges[0]?.start;
+        const sourceReference = ref ? formatRef(ref) : fallbackReference;
+        const resourceType = getCheckResourceType(resource);
+        const resourceId = getCheckItemId(resource);
+        return {
+          key: getCheckKey(sourceReference, resourceType, resourceId),
+          resource,
+          sourceReference,
+          resourceType,
+          resourceId,
+          // Notes before questions within a verse, original order otherwise
+          sortKey: ((start?.chapter ?? 0) * 1000 + (start?.verse ?? 0)) * 10000 + (resourceType === 'tn' ? 0 : 5000) + index,
+        };
+      })
+      .sort((a, b) => a.sortKey - b.sortKey);
+  }, [resources, fallbackReference]);
+
+  const [position, setPosition] = useState(() => {
+    const firstUnchecked = items.findIndex(item => !checksByKey.has(item.key));
+    return firstUnchecked === -1 ? 0 : firstUnchecked;
+  });
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [savingStatus, setSavingStatus] = useState<CheckStatus | null>(null);
+
+  const counts = useMemo(() => {
+    const result: Record<CheckStatus, number> = { pass: 0, discuss: 0, fail: 0 };
+    items.forEach(item => {
+      const check = checksByKey.get(item.key);
+      if (check) result[check.status]++;
+    });
+    return result;
+  }, [items, checksByKey]);
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No translation notes or questions to check for this passage.
+      </p>
+    );
+  }
+
+  const index = Math.min(position, items.length - 1);
+  const item = items[index];
+  const existing = checksByKey.get(item.key);
+  const comment = comments[item.key] ?? existing?.comment ?? '';
+  const checkedCount = counts.pass + counts.discuss + counts.fail;
+  const Icon = item.resourceType === 'tn' ? FileText : HelpCircle;
+
+  const handleStatus = async (status: CheckStatus) => {
+    setSavingStatus(status);
+    const saved = await onRecordCheck({
+      sourceReference: item.sourceReference,
+      resourceType: item.resourceType,
+      resourceId: item.resourceId,
+      status,
+      comment,
+    });
+    setSavingStatus(null);
+
+    if (!saved) {
+      toast({
+        title: 'Check not saved',
+        description: `Could not record ${item.sourceReference}. Check your connection and try again.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Move on to the next item still waiting for a verdict, wrapping around once
+    const next = [...items.slice(index + 1), ...items.slice(0, index)]
+      .find(candidate => candidate.key !== item.key && !checksByKey.has(candidate.key));
+    if (next) setPosition(items.indexOf(next));
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Progress */}
+      <div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+          <span>{checkedCount} of {items.length} checked</span>
+          <span className="flex items-center gap-2">
+            {CHECK_STATUSES.map(({ id, label }) => (
+              <span key={id} className={cn('px-1.5 rounded border', CHECK_STATUS_COLORS[id])} title={label}>
+                {counts[id]}
+              </span>
+            ))}
+          </span>
+        </div>
+        <div className="flex h-1.5 rounded-full overflow-hidden bg-muted/50">
+          {items.map(candidate => {
+            const status = checksByKey.get(candidate.key)?.status;
+            return (
+              <button
+                key={candidate.key}
+                onClick={() => setPosition(items.indexOf(candidate))}
+                className={cn(
+                  'flex-1 border-r border-background/40 last:border-r-0',
+                  status && CHECK_HEAT_COLORS[status],
+                  candidate.key === item.key && 'ring-1 ring-inset ring-foreground/60'
+                )}
+                aria-label={`Go to ${candidate.sourceReference}`}
+              />
+            );
+          })}
+        </div>
+      </div>
+
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={item.key}
+          initial={{ opacity: 0, x: 12 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: -12 }}
+          className="glass-card rounded-xl p-4 space-y-3"
+        >
+          <div className="flex items-center gap-2 text-xs">
+            <Icon className={cn('w-4 h-4', item.resourceType === 'tn' ? 'text-emerald-400' : 'text-violet-400')} />
+            <span className="font-medium text-foreground">{item.sourceReference}</span>
+            <span className="text-muted-foreground">
+              {item.resourceType === 'tn' ? 'Translation Note' : 'Checking Question'}
+            </span>
+            {existing && (
+              <span className={cn('ml-auto px-1.5 py-0.5 rounded border text-[10px]', CHECK_STATUS_COLORS[existing.status])}>
+                {CHECK_STATUSES.find(s => s.id === existing.status)?.label}
+              </span>
+            )}
+          </div>
+
+          <h4 className="text-sm font-medium text-foreground">{item.resource.title}</h4>
+          <div className="text-sm text-muted-foreground prose prose-sm prose-invert max-w-none">
+            <ReactMarkdown>{item.resource.content}</ReactMarkdown>
+          </div>
+
+          <textarea
+            value={comment}
+            onChange={(e) => setComments(prev => ({ ...prev, [item.key]: e.target.value }))}
+            placeholder="Comment (optional)"
+            rows={2}
+            className="w-full bg-muted/30 rounded-lg text-sm text-foreground resize-none outline-none px-3 py-2"
+          />
+
+          <div className="grid grid-cols-3 gap-2">
+            {CHECK_STATUSES.map(({ id, label }) => {
+              const StatusIcon = statusIcons[id];
+              return (
+                <button
+                  key={id}
+                  onClick={() => handleStatus(id)}
+                  disabled={savingStatus !== null}
+                  className={cn(
+                    'flex items-center justify-center gap-1 text-xs px-2 py-2 rounded-lg border transition-colors',
+                    existing?.status === id ? CHECK_STATUS_COLORS[id] : 'border-border/50 text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {savingStatus === id ? <Loader2 className="w-3 h-3 animate-spin" /> : <StatusIcon className="w-3 h-3" />}
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </motion.div>
+      </AnimatePresence>
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setPosition(index - 1)}
+          disabled={index === 0}
+          aria-label="Previous item"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-xs text-muted-foreground">{index + 1} / {items.length}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setPosition(index + 1)}
+          disabled={index >= items.length - 1}
+          aria-label="Next item"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, Pencil, History, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScriptureChapter, DraftRevision } from '@/types';
+import { ImportedDraft } from '@/services/resourceCache';
+import { useDraftRevisions } from '@/hooks/useDraftRevisions';
+import { diffWords } from '@/lib/textDiff';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface DraftEditorViewProps {
+  drafts: ImportedDraft[]; // Drafts of the current book
+  chapter: number;
+  totalChapters: number;
+  onChapterChange: (chapter: number) => void;
+  referenceChapter?: ScriptureChapter;
+  referenceLabel: string;
+  selectedVerse: { chapter: number; verse: number } | null;
+  onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
+  onSaveVerse: (draftId: string, chapter: number, verse: number, text: string) => Promise<boolean>;
+}
+
+function formatRevisionAuthor(revision: DraftRevision, userId?: string): string {
+  if (!revision.userId) return 'Reviewer';
+  return revision.userId === userId ? 'You' : `Reviewer …${revision.userId.slice(-6)}`;
+}
+
+function DiffText({ before, after }: { before: string; after: string }) {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+  return (
+    <p className="text-sm leading-relaxed">
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.type === 'insert' && 'bg-primary/20 text-primary rounded-sm',
+            segment.type === 'delete' && 'bg-destructive/10 text-destructive/80 line-through rounded-sm'
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+// Compare any two versions of a verse - the imported text or one of its revisions
+function RevisionHistory({ revisions, userId }: { revisions: DraftRevision[]; userId?: string }) {
+  const versions = useMemo(() => [
+    { id: 'imported', label: 'Imported text', content: revisions[0]?.previousContent ?? '' },
+    ...revisions.map((revision, index) => ({
+      id: revision.id,
+      label: `#${index + 1} · ${formatRevisionAuthor(revision, userId)} · ${revision.createdAt.toLocaleString()}`,
+      content: revision.content,
+    })),
+  ], [revisions, userId]);
+
+  const [fromId, setFromId] = useState(versions[versions.length - 2]?.id ?? 'imported');
+  const [toId, setToId] = useState(versions[versions.length - 1].id);
+  const from = versions.find(v => v.id === fromId) || versions[0];
+  const to = versions.find(v => v.id === toId) || versions[versions.length - 1];
+
+  const selectClassName = "w-full bg-muted/50 rounded-md px-2 py-1 text-xs text-foreground outline-none";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      className="mt-2 rounded-lg bg-muted/30 p-3 space-y-2"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] uppercase tracking-wider text-muted-foreground space-y-1">
+          <span>From</span>
+          <select value={from.id} onChange={(e) => setFromId(e.target.value)} className={selectClassName}>
+            {versions.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase tracking-wider text-muted-foreground space-y-1">
+          <span>To</span>
+          <select value={to.id} onChange={(e) => setToId(e.target.value)} className={selectClassName}>
+            {versions.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+          </select>
+        </label>
+      </div>
+      <DiffText before={from.content} after={to.content} />
+    </motion.div>
+  );
+}
+
+function DraftVerseRow({
+  chapter,
+  verse,
+  referenceText,
+  draftText,
+  revisions,
+  userId,
+  isFocused,
+  onVerseClick,
+  onSave
+}: {
+  chapter: number;
+  verse: number;
+  referenceText?: string;
+  draftText: string;
+  revisions: DraftRevision[];
+  userId?: string;
+  isFocused: boolean;
+  onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
+  onSave: (verse: number, text: string, previous: string) => Promise<boolean>;
+}) {
+  const [editText, setEditText] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleSave = async () => {
+    if (editText === null) return;
+    const text = editText.trim();
+    if (text === draftText.trim()) {
+      setEditText(null);
+      return;
+    }
+    setIsSaving(true);
+    const saved = await onSave(verse, text, draftText);
+    setIsSaving(false);
+    if (saved) setEditText(null);
+  };
+
+  return (
+    <div
+      data-verse={`${chapter}:${verse}`}
+      onClick={(e) => onVerseClick(chapter, verse, e)}
+      className={cn("py-2 border-b border-border/20 rounded-sm cursor-pointer", isFocused && "bg-primary/10")}
+    >
+      {referenceText && (
+        <p className="text-xs text-muted-foreground leading-relaxed mb-1">
+          <sup className="scripture-verse">{verse}</sup>
+          {referenceText}
+        </p>
+      )}
+
+      {editText !== null ? (
+        <div className="glass-card rounded-xl p-2" onClick={(e) => e.stopPropagation()}>
+          <textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave();
+              if (e.key === 'Escape') setEditText(null);
+            }}
+            rows={3}
+            autoFocus
+            className="w-full bg-transparent text-foreground resize-none outline-none px-3 py-2 text-base scripture-text"
+          />
+          <div className="flex justify-end gap-2 px-2 pb-1">
+            <button
+              onClick={() => setEditText(null)}
+              className="text-xs px-3 py-1.5 rounded-lg bg-muted text-muted-foreground"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="text-xs px-3 py-1.5 rounded-lg bg-primary text-primary-foreground flex items-center gap-1"
+            >
+              {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+              Save revision
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start gap-2 group">
+          <p className={cn("flex-1 scripture-text text-base", !draftText && "text-muted-foreground/50 italic")}>
+            {!referenceText && <sup className="scripture-verse">{verse}</sup>}
+            {draftText || 'Not yet translated'}
+          </p>
+          <div className="flex items-center gap-1 shrink-0">
+            {revisions.length > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowHistory(prev => !prev);
+                }}
+                className={cn(
+                  "flex items-center gap-0.5 text-[10px] px-1.5 py-1 rounded-md transition-colors",
+                  showHistory ? "bg-primary/10 text-primary" : "text-muted-foreground hover:text-foreground"
+                )}
+                title="Revision history"
+              >
+                <History className="w-3 h-3" />
+                {revisions.length}
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditText(draftText);
+              }}
+              className="p-1 rounded-md text-muted-foreground hover:text-foreground transition-colors"
+              title="Edit verse"
+              aria-label={`Edit verse ${verse}`}
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showHistory && revisions.length > 0 && (
+        <RevisionHistory key={revisions.length} revisions={revisions} userId={userId} />
+      )}
+    </div>
+  );
+}
+
+// Inline verse editing of an imported draft, one chapter at a time, with the active text above each verse
+export function DraftEditorView({
+  drafts,
+  chapter,
+  totalChapters,
+  onChapterChange,
+  referenceChapter,
+  referenceLabel,
+  selectedVerse,
+  onVerseClick,
+  onSaveVerse,
+}: DraftEditorViewProps) {
+  const [draftId, setDraftId] = useState(drafts[0]?.id ?? null);
+  const draft = drafts.find(d => d.id === draftId) || drafts[0];
+  const { revisionsByReference, userId, saveRevision, isLoading } = useDraftRevisions(draft?.id ?? null);
+
+  const draftChapter = draft?.chapters.find(ch => ch.chapter === chapter);
+  const verseNumbers = useMemo(() => {
+    const numbers = new Set<number>();
+    referenceChapter?.verses.forEach(v => numbers.add(v.number));
+    draftChapter?.verses.forEach(v => numbers.add(v.number));
+    return [...numbers].sort((a, b) => a - b);
+  }, [referenceChapter, draftChapter]);
+
+  if (!draft) return null;
+
+  const handleSave = async (verse: number, text: string, previous: string) => {
+    const sourceReference = `${draft.book} ${chapter}:${verse}`;
+    const revision = await saveRevision(sourceReference, text, previous);
+    if (!revision) {
+      toast({
+        title: 'Revision not saved',
+        description: `Could not save ${sourceReference}. Check your connection and try again.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+    await onSaveVerse(draft.id, chapter, verse, text);
+    return true;
+  };
+
+  return (
+    <div className="pt-2">
+      <div className="flex items-center justify-between mb-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChapterChange(chapter - 1)}
+          disabled={chapter <= 1}
+          aria-label="Previous chapter"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-center min-w-0">
+          <span className="text-xs text-muted-foreground">Chapter {chapter}</span>
+          {drafts.length > 1 ? (
+            <select
+              value={draft.id}
+              onChange={(e) => setDraftId(e.target.value)}
+              className="block mx-auto bg-transparent text-[10px] text-primary outline-none max-w-[12rem] truncate"
+            >
+              {drafts.map(d => <option key={d.id} value={d.id}>{d.title}</option>)}
+            </select>
+          ) : (
+            <p className="text-[10px] text-primary truncate">{draft.title}</p>
+          )}
+          <p className="text-[10px] text-muted-foreground/60">
+            Compared with {referenceLabel}
+            {isLoading && ' · loading revisions…'}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChapterChange(chapter + 1)}
+          disabled={chapter >= totalChapters}
+          aria-label="Next chapter"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {verseNumbers.map(verse => {
+        const sourceReference = `${draft.book} ${chapter}:${verse}`;
+        return (
+          <DraftVerseRow
+            key={`${draft.id}-${chapter}-${verse}`}
+            chapter={chapter}
+            verse={verse}
+            referenceText={referenceChapter?.verses.find(v => v.number === verse)?.text}
+            draftText={draftChapter?.verses.find(v => v.number === verse)?.text || ''}
+            revisions={revisionsByReference.get(sourceReference) || []}
+            userId={userId}
+            isFocused={selectedVerse?.chapter === chapter && selectedVerse?.verse === verse}
+            onVerseClick={onVerseClick}
+            onSave={handleSave}
+          />
+        );
+      })}
+    </div>
+  );
+}
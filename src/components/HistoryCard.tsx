@@ -1,15 +1,238 @@
-import { History, MessageSquare, Book, Plus } from 'lucide-react';
+import { useState, useMemo, useEffect } from 'react';
+import { History, MessageSquare, Book, Plus, Search, X, Loader2, Pin, Folder, FolderInput, FolderMinus, FolderPlus } from 'lucide-react';
 import { HistoryItem } from '@/types';
 import { TranslationStrings } from '@/i18n/translations';
+import { AccountPanel } from '@/components/AccountPanel';
+import { ReportExportMenu } from '@/components/ReportExportMenu';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ReportFormat } from '@/lib/report';
+import { ConversationSearchMatch, ConversationOrganization } from '@/hooks/useConversations';
+import { getSearchTerms, matchesSearch, highlightTerms, HighlightSegment } from '@/lib/noteSearch';
+import { HistoryGrouping, groupConversations, collectFolders, splitHeadline } from '@/lib/conversationHistory';
+import { cn } from '@/lib/utils';
 
 interface HistoryCardProps {
   items: HistoryItem[];
   onSelectItem: (item: HistoryItem) => void;
   onNewConversation: () => void;
+  onExportConversation?: (item: HistoryItem, format: ReportFormat) => void;
+  onSearch?: (query: string) => Promise<ConversationSearchMatch[]>;
+  onOrganize?: (id: string, changes: ConversationOrganization) => void;
   t: (key: keyof TranslationStrings) => string;
 }
 
-export function HistoryCard({ items, onSelectItem, onNewConversation, t }: HistoryCardProps) {
+const GROUPINGS: { id: HistoryGrouping; label: string }[] = [
+  { id: 'recent', label: 'Recent' },
+  { id: 'book', label: 'Book' },
+  { id: 'folder', label: 'Folder' },
+];
+
+const SEARCH_DELAY_MS = 300;
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm">{segment.text}</mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
+export function HistoryCard({ items, onSelectItem, onNewConversation, onExportConversation, onSearch, onOrganize, t }: HistoryCardProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [serverMatches, setServerMatches] = useState<ConversationSearchMatch[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [grouping, setGrouping] = useState<HistoryGrouping>('recent');
+  const [newFolderFor, setNewFolderFor] = useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = useState('');
+
+  const searchTerms = useMemo(() => getSearchTerms(searchQuery), [searchQuery]);
+  const folders = useMemo(() => collectFolders(items), [items]);
+
+  // Message content isn't loaded, so typing also runs the server search after a pause
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!onSearch || query.length < 2) {
+      setServerMatches(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const matches = await onSearch(query);
+      if (cancelled) return;
+      setServerMatches(matches);
+      setIsSearching(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, onSearch]);
+
+  // Server hits first by rank, then anything else the loaded titles and previews match
+  const searchResults = useMemo(() => {
+    if (searchTerms.length === 0) return null;
+    const byId = new Map(items.map(item => [item.id, item]));
+    const ranked = (serverMatches || [])
+      .filter(match => byId.has(match.conversationId))
+      .map(match => ({ item: byId.get(match.conversationId)!, match }));
+    const rankedIds = new Set(ranked.map(result => result.item.id));
+    const local = items
+      .filter(item => !rankedIds.has(item.id))
+      .filter(item => matchesSearch(`${item.title} ${item.preview} ${item.scriptureReference || ''} ${item.folder || ''}`, searchTerms))
+      .map(item => ({ item, match: undefined as ConversationSearchMatch | undefined }));
+    return [...ranked, ...local];
+  }, [items, serverMatches, searchTerms]);
+
+  const groups = useMemo(() => groupConversations(items, grouping), [items, grouping]);
+
+  const moveToNewFolder = (id: string) => {
+    if (newFolderName.trim()) onOrganize?.(id, { folder: newFolderName });
+    setNewFolderFor(null);
+    setNewFolderName('');
+  };
+
+  const renderItem = (item: HistoryItem, match?: ConversationSearchMatch) => (
+    <div key={item.id} className="relative group">
+      <button
+        onClick={() => onSelectItem(item)}
+        className="w-full text-left glass-card rounded-xl p-3 hover:bg-muted/50
+                 transition-colors group active:scale-[0.98]"
+      >
+        <div className="flex items-start gap-3">
+          <div className="p-1.5 rounded-lg bg-primary/10 shrink-0">
+            <MessageSquare className="w-3 h-3 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-sm font-medium text-foreground truncate">
+              <Highlighted segments={highlightTerms(item.title, searchTerms)} />
+            </h3>
+            <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+              {match?.messageId
+                ? <Highlighted segments={splitHeadline(match.headline)} />
+                : <Highlighted segments={highlightTerms(item.preview, searchTerms)} />}
+            </p>
+            {(item.scripture || item.scriptureReference || item.folder) && (
+              <div className="flex items-center gap-3 mt-2 pr-20 text-xs">
+                {(item.scripture || item.scriptureReference) && (
+                  <span className="flex items-center gap-1 text-primary">
+                    <Book className="w-3 h-3" />
+                    {item.scripture || item.scriptureReference}
+                  </span>
+                )}
+                {item.folder && grouping !== 'folder' && (
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Folder className="w-3 h-3" />
+                    {item.folder}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+          <span className="text-xs text-muted-foreground/50 shrink-0">
+            {new Date(item.timestamp).toLocaleDateString()}
+          </span>
+        </div>
+      </button>
+
+      {/* Siblings of the item button so the menu triggers aren't nested buttons */}
+      {onOrganize && (
+        <div className={cn("absolute bottom-2 flex items-center gap-0.5", onExportConversation ? "right-9" : "right-2")}>
+          <button
+            onClick={() => onOrganize(item.id, { pinned: !item.pinned })}
+            className={cn(
+              "p-1.5 rounded-md transition-colors hover:bg-muted/50",
+              item.pinned ? "text-primary" : "text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 focus:opacity-100"
+            )}
+            title={item.pinned ? 'Unpin' : 'Pin'}
+            aria-label={item.pinned ? 'Unpin conversation' : 'Pin conversation'}
+          >
+            <Pin className={cn("w-3.5 h-3.5", item.pinned && "fill-current")} />
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className="p-1.5 rounded-md transition-colors text-muted-foreground hover:text-foreground hover:bg-muted/50 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                title="Move to folder"
+                aria-label="Move to folder"
+              >
+                <FolderInput className="w-3.5 h-3.5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48" onCloseAutoFocus={(e) => e.preventDefault()}>
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Move to folder</DropdownMenuLabel>
+              {folders.map(folder => (
+                <DropdownMenuItem
+                  key={folder}
+                  onClick={() => onOrganize(item.id, { folder })}
+                  disabled={folder === item.folder}
+                  className="gap-2 cursor-pointer"
+                >
+                  <Folder className="w-4 h-4" />
+                  <span className="truncate">{folder}</span>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuItem onClick={() => setNewFolderFor(item.id)} className="gap-2 cursor-pointer">
+                <FolderPlus className="w-4 h-4" />
+                New folder…
+              </DropdownMenuItem>
+              {item.folder && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => onOrganize(item.id, { folder: null })} className="gap-2 cursor-pointer">
+                    <FolderMinus className="w-4 h-4" />
+                    Remove from folder
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+      {onExportConversation && (
+        <ReportExportMenu
+          label="Export transcript"
+          onExport={(format) => onExportConversation(item, format)}
+          className="absolute bottom-2 right-2 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+        />
+      )}
+
+      {newFolderFor === item.id && (
+        <div className="flex items-center gap-2 mt-1.5 px-1">
+          <FolderPlus className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+          <input
+            autoFocus
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') moveToNewFolder(item.id);
+              if (e.key === 'Escape') setNewFolderFor(null);
+            }}
+            onBlur={() => moveToNewFolder(item.id)}
+            placeholder="Folder name"
+            className="flex-1 min-w-0 bg-muted/50 rounded-md px-2 py-1 text-xs text-foreground outline-none"
+          />
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="h-full flex flex-col bg-card">
       {/* Header */}
@@ -27,6 +250,47 @@ export function HistoryCard({ items, onSelectItem, onNewConversation, t }: Histo
         </button>
       </div>
 
+      {/* Search and grouping */}
+      {items.length > 0 && (
+        <div className="px-4 pt-3 space-y-2">
+          <div className="flex items-center gap-2 rounded-lg bg-muted/50 px-3 py-1.5">
+            <Search className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+            <input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setSearchQuery('');
+              }}
+              placeholder="Search conversations"
+              className="flex-1 min-w-0 bg-transparent text-xs text-foreground outline-none placeholder:text-muted-foreground"
+            />
+            {isSearching && <Loader2 className="w-3 h-3 text-muted-foreground animate-spin" />}
+            {searchQuery && (
+              <button onClick={() => setSearchQuery('')} className="text-muted-foreground hover:text-foreground" aria-label="Clear search">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          {!searchResults && (
+            <div className="flex items-center gap-1 text-xs">
+              <span className="text-muted-foreground mr-1">Group by</span>
+              {GROUPINGS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setGrouping(id)}
+                  className={cn(
+                    'px-2.5 py-1 rounded-full transition-colors',
+                    grouping === id ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* History items */}
       <div className="flex-1 overflow-y-auto p-4">
         {items.length === 0 ? (
@@ -39,42 +303,37 @@ export function HistoryCard({ items, onSelectItem, onNewConversation, t }: Histo
               {t('history.startHint')}
             </p>
           </div>
+        ) : searchResults ? (
+          searchResults.length === 0 ? (
+            <p className="text-center text-muted-foreground text-sm py-12">
+              {isSearching ? 'Searching…' : `No conversations match "${searchQuery.trim()}"`}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {searchResults.map(({ item, match }) => renderItem(item, match))}
+            </div>
+          )
         ) : (
-          <div className="space-y-2">
-            {items.map((item) => (
-              <button
-                key={item.id}
-                onClick={() => onSelectItem(item)}
-                className="w-full text-left glass-card rounded-xl p-3 hover:bg-muted/50 
-                         transition-colors group active:scale-[0.98]"
-              >
-                <div className="flex items-start gap-3">
-                  <div className="p-1.5 rounded-lg bg-primary/10 shrink-0">
-                    <MessageSquare className="w-3 h-3 text-primary" />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <h3 className="text-sm font-medium text-foreground truncate">
-                      {item.title}
-                    </h3>
-                    <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-                      {item.preview}
-                    </p>
-                    {(item.scripture || item.scriptureReference) && (
-                      <div className="flex items-center gap-1 mt-2 text-xs text-primary">
-                        <Book className="w-3 h-3" />
-                        <span>{item.scripture || item.scriptureReference}</span>
-                      </div>
-                    )}
-                  </div>
-                  <span className="text-xs text-muted-foreground/50 shrink-0">
-                    {new Date(item.timestamp).toLocaleDateString()}
-                  </span>
-                </div>
-              </button>
+          <div className="space-y-4">
+            {groups.map(group => (
+              <section key={group.key} className="space-y-2">
+                {group.label && (
+                  <h4 className="flex items-center gap-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+                    {group.key === 'pinned' && <Pin className="w-3 h-3" />}
+                    {group.key.startsWith('book:') && <Book className="w-3 h-3" />}
+                    {group.key.startsWith('folder:') && <Folder className="w-3 h-3" />}
+                    {group.label}
+                    <span className="text-muted-foreground/50 normal-case">{group.items.length}</span>
+                  </h4>
+                )}
+                {group.items.map(item => renderItem(item))}
+              </section>
             ))}
           </div>
         )}
       </div>
+
+      <AccountPanel />
     </div>
   );
 }
@@ -0,0 +1,95 @@
+import { useState, useRef } from 'react';
+import { WorkspaceMember } from '@/types';
+import { getMentionQuery } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: WorkspaceMember[];
+  placeholder?: string;
+  rows?: number;
+  autoFocus?: boolean;
+  className?: string;
+  onSubmit?: () => void; // Cmd/Ctrl+Enter
+}
+
+// Textarea that suggests workspace members after typing @
+export function MentionTextarea({ value, onChange, members, placeholder, rows = 2, autoFocus, className, onSubmit }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const mention = members.length > 0 ? getMentionQuery(value, caret) : null;
+  const suggestions = mention
+    ? members.filter(m => m.displayName.toLowerCase().startsWith(mention.query.toLowerCase())).slice(0, 5)
+    : [];
+
+  const insertMention = (member: WorkspaceMember) => {
+    if (!mention) return;
+    const inserted = `@${member.displayName} `;
+    const next = value.slice(0, mention.start) + inserted + value.slice(caret);
+    const nextCaret = mention.start + inserted.length;
+    onChange(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setHighlighted(0);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={(e) => {
+          if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+              e.preventDefault();
+              const step = e.key === 'ArrowDown' ? 1 : -1;
+              setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+              return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+              e.preventDefault();
+              insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+              return;
+            }
+          }
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) onSubmit?.();
+        }}
+        placeholder={placeholder}
+        rows={rows}
+        autoFocus={autoFocus}
+        className={className}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-2 bottom-full mb-1 z-20 min-w-[10rem] rounded-lg border border-border/50 bg-popover shadow-lg py-1">
+          {suggestions.map((member, index) => (
+            <button
+              key={member.userId}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(member);
+              }}
+              className={cn(
+                'w-full text-left px-3 py-1.5 text-xs transition-colors',
+                index === highlighted ? 'bg-primary/10 text-primary' : 'text-foreground hover:bg-muted/50'
+              )}
+            >
+              @{member.displayName}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
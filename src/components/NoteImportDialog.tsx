@@ -0,0 +1,205 @@
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileUp, X, Loader2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Note, Workspace } from '@/types';
+import { BOOKS } from '@/lib/scriptureReference';
+import { ParsedNoteFile, NoteImportPreview, NoteImportStatus, ConflictResolution, previewNoteImport } from '@/lib/noteImport';
+import { cn } from '@/lib/utils';
+
+interface NoteImportDialogProps {
+  file: ParsedNoteFile | null;
+  existingNotes: Note[];
+  userId?: string;
+  workspace?: Workspace | null;
+  isImporting: boolean;
+  onImport: (previews: NoteImportPreview[], conflictResolution: ConflictResolution, workspaceId?: string) => void;
+  onCancel: () => void;
+}
+
+const FORMAT_LABELS: Record<ParsedNoteFile['format'], string> = {
+  'tn-tsv': 'unfoldingWord TN TSV',
+  tsv: 'TSV',
+  csv: 'CSV',
+};
+
+const STATUS_STYLES: Record<NoteImportStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-emerald-500/15 text-emerald-400' },
+  duplicate: { label: 'Duplicate', className: 'bg-muted text-muted-foreground' },
+  conflict: { label: 'Conflict', className: 'bg-amber-500/15 text-amber-400' },
+  invalid: { label: 'Skipped', className: 'bg-destructive/15 text-destructive' },
+};
+
+const RESOLUTIONS: { id: ConflictResolution; label: string }[] = [
+  { id: 'skip', label: 'Skip' },
+  { id: 'update', label: 'Overwrite' },
+  { id: 'keep-both', label: 'Keep both' },
+];
+
+// Preview of a parsed notes file: every row with its resolved reference and what the import will do
+export function NoteImportDialog({ file, existingNotes, userId, workspace, isImporting, onImport, onCancel }: NoteImportDialogProps) {
+  const [bookCode, setBookCode] = useState<string | undefined>(file?.bookCode);
+  const [conflictResolution, setConflictResolution] = useState<ConflictResolution>('skip');
+  const [shareWithTeam, setShareWithTeam] = useState(false);
+
+  const previews = useMemo(
+    () => (file ? previewNoteImport(file, existingNotes, { bookCode, userId }) : []),
+    [file, existingNotes, bookCode, userId]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<NoteImportStatus, number> = { new: 0, duplicate: 0, conflict: 0, invalid: 0 };
+    previews.forEach(p => { result[p.status]++; });
+    return result;
+  }, [previews]);
+
+  if (!file) return null;
+
+  const importCount = counts.new + (conflictResolution === 'skip' ? 0 : counts.conflict);
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="bg-card border border-border rounded-xl shadow-lg max-w-lg w-full max-h-[85vh] flex flex-col p-5"
+        >
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="p-2 rounded-full bg-primary/10">
+                <FileUp className="w-5 h-5 text-primary" />
+              </div>
+              <div className="min-w-0">
+                <h3 className="text-lg font-semibold text-foreground">Import notes</h3>
+                <p className="text-xs text-muted-foreground truncate">
+                  {file.fileName} · {FORMAT_LABELS[file.format]} · {file.rows.length} rows
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onCancel}
+              className="p-1 rounded-full hover:bg-muted transition-colors"
+              disabled={isImporting}
+            >
+              <X className="w-5 h-5 text-muted-foreground" />
+            </button>
+          </div>
+
+          {file.relativeReferences && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground mb-3">
+              <span className="shrink-0">Book for chapter:verse references</span>
+              <select
+                value={bookCode || ''}
+                onChange={(e) => setBookCode(e.target.value || undefined)}
+                className="flex-1 bg-muted/50 rounded-md px-2 py-1 text-xs text-foreground outline-none"
+              >
+                <option value="">Choose a book…</option>
+                {BOOKS.map(book => (
+                  <option key={book.code} value={book.code}>{book.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {(Object.keys(STATUS_STYLES) as NoteImportStatus[])
+              .filter(status => counts[status] > 0)
+              .map(status => (
+                <span key={status} className={cn('text-[10px] px-2 py-1 rounded-full font-medium', STATUS_STYLES[status].className)}>
+                  {counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                </span>
+              ))}
+          </div>
+
+          {counts.conflict > 0 && (
+            <div className="flex items-center gap-2 mb-3 text-xs">
+              <span className="text-muted-foreground">Conflicts:</span>
+              {RESOLUTIONS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setConflictResolution(id)}
+                  className={cn(
+                    'px-2.5 py-1 rounded-full transition-colors',
+                    conflictResolution === id ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <ScrollArea className="flex-1 min-h-0 -mx-1 px-1">
+            <div className="space-y-1.5 pb-1">
+              {previews.map(preview => (
+                <div key={preview.row.line} className="rounded-lg bg-muted/30 px-3 py-2">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-muted-foreground/60 tabular-nums w-8 shrink-0">#{preview.row.line}</span>
+                    <span className={cn('text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0', STATUS_STYLES[preview.status].className)}>
+                      {STATUS_STYLES[preview.status].label}
+                    </span>
+                    <span className="text-primary truncate">{preview.sourceReference || preview.row.reference || '—'}</span>
+                    {preview.row.externalId && (
+                      <span className="ml-auto text-muted-foreground/60 font-mono text-[10px] shrink-0">{preview.row.externalId}</span>
+                    )}
+                  </div>
+                  {preview.row.quote && (
+                    <p className="text-xs text-muted-foreground italic mt-1 truncate">
+                      “{preview.row.quote}”{preview.row.occurrence && preview.row.occurrence > 1 ? ` (occurrence ${preview.row.occurrence})` : ''}
+                    </p>
+                  )}
+                  <p className="text-xs text-foreground/80 mt-1 line-clamp-2 whitespace-pre-line">{preview.content || preview.row.note}</p>
+                  {preview.reason && <p className="text-[10px] text-muted-foreground mt-1">{preview.reason}</p>}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {workspace && (
+            <label className="flex items-center gap-2 mt-3 text-xs text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={shareWithTeam}
+                onChange={(e) => setShareWithTeam(e.target.checked)}
+                className="accent-primary"
+              />
+              <Users className="w-3.5 h-3.5" />
+              Share imported notes with {workspace.name}
+            </label>
+          )}
+
+          <div className="flex gap-3 mt-4">
+            <Button variant="outline" onClick={onCancel} disabled={isImporting} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onImport(previews, conflictResolution, shareWithTeam ? workspace?.id : undefined)}
+              disabled={isImporting || importCount === 0}
+              className="flex-1"
+            >
+              {isImporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Import {importCount} {importCount === 1 ? 'note' : 'notes'}
+                </>
+              )}
+            </Button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { X, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getTagColor, parseTags } from '@/lib/noteTags';
+
+interface NoteTagBadgesProps {
+  tags: string[];
+  onRemove?: (tag: string) => void;
+  onSelect?: (tag: string) => void;
+  size?: 'xs' | 'sm';
+  className?: string;
+}
+
+export function NoteTagBadges({ tags, onRemove, onSelect, size = 'sm', className }: NoteTagBadgesProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <span className={cn('inline-flex flex-wrap gap-1', className)}>
+      {tags.map(tag => (
+        <span
+          key={tag}
+          onClick={onSelect ? (e) => { e.stopPropagation(); onSelect(tag); } : undefined}
+          className={cn(
+            'inline-flex items-center gap-0.5 rounded-full font-medium leading-none',
+            size === 'xs' ? 'text-[9px] px-1.5 py-0.5' : 'text-[10px] px-2 py-1',
+            onSelect && 'cursor-pointer hover:opacity-80',
+            getTagColor(tag)
+          )}
+        >
+          {tag}
+          {onRemove && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(tag);
+              }}
+              className="opacity-60 hover:opacity-100"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="w-2.5 h-2.5" />
+            </button>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+interface NoteTagEditorProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+  onClose: () => void;
+}
+
+// Inline tag input - Enter or comma adds, suggestions are tags already in use
+export function NoteTagEditor({ tags, suggestions, onChange, onClose }: NoteTagEditorProps) {
+  const [input, setInput] = useState('');
+
+  const addTags = (value: string) => {
+    const added = parseTags(value).filter(tag => !tags.includes(tag));
+    if (added.length > 0) onChange([...tags, ...added]);
+    setInput('');
+  };
+
+  const query = input.trim().toLowerCase();
+  const available = suggestions
+    .filter(tag => !tags.includes(tag) && tag.includes(query))
+    .slice(0, 6);
+
+  return (
+    <div className="mt-2 rounded-lg bg-muted/30 p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          value={input}
+          onChange={(e) => {
+            if (e.target.value.endsWith(',')) {
+              addTags(e.target.value);
+            } else {
+              setInput(e.target.value);
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              if (input.trim()) addTags(input);
+              else onClose();
+            }
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder="Add tag, e.g. key term"
+          autoFocus
+          className="flex-1 min-w-0 bg-transparent text-xs text-foreground outline-none placeholder:text-muted-foreground px-1"
+        />
+        <button onClick={onClose} className="text-xs text-muted-foreground hover:text-foreground">
+          Done
+        </button>
+      </div>
+      {available.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {available.map(tag => (
+            <button
+              key={tag}
+              onClick={() => addTags(tag)}
+              className="inline-flex items-center gap-0.5 rounded-full text-[10px] px-2 py-1 bg-muted/60 text-muted-foreground hover:text-foreground"
+            >
+              <Plus className="w-2.5 h-2.5" />
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,41 +1,279 @@
-import { useState } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { PenLine, Trash2, ChevronLeft, ChevronRight, Bug, StickyNote, MessageSquare } from 'lucide-react';
-import { Note, NoteType } from '@/types';
+import { PenLine, Trash2, ChevronLeft, ChevronRight, Bug, StickyNote, MessageSquare, Users, CheckCircle2, RotateCcw, Reply, Lock, Search, Sparkles, X, Loader2, Square, CheckSquare, Tag, FileUp, AlertTriangle } from 'lucide-react';
+import { Note, NoteStatus, WorkspaceMember, VerseHighlight } from '@/types';
 import { cn } from '@/lib/utils';
 import { TranslationStrings } from '@/i18n/translations';
 import { CopyButton } from '@/components/CopyButton';
 import { PlayButton } from '@/components/PlayButton';
+import { WorkspaceMenu } from '@/components/WorkspaceMenu';
+import { MentionTextarea } from '@/components/MentionTextarea';
+import { NoteShareOptions, NoteSearchMatch, NoteSearchMode, NoteImportResult } from '@/hooks/useNotes';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useAuth } from '@/hooks/useAuth';
+import { extractMentions, splitMentions } from '@/lib/mentions';
+import { getSearchTerms, matchesSearch, highlightTerms } from '@/lib/noteSearch';
+import { collectTags, SUGGESTED_TAGS } from '@/lib/noteTags';
+import { NoteTagBadges, NoteTagEditor } from '@/components/NoteTags';
+import { ReportExportMenu } from '@/components/ReportExportMenu';
+import { NotesExportOptions } from '@/hooks/useReportExport';
+import { ReportFormat } from '@/lib/report';
+import { NoteImportDialog } from '@/components/NoteImportDialog';
+import { parseNotesFile, ParsedNoteFile, NoteImportPreview, ConflictResolution } from '@/lib/noteImport';
+import { toast } from '@/hooks/use-toast';
+import { isNoteInScope, formatScopeLabel } from '@/lib/referenceScope';
+import { HIGHLIGHT_STYLES } from '@/lib/verseMarkers';
+import { AnchorResolution } from '@/lib/noteAnchors';
 
 interface NotesCardProps {
   notes: Note[];
-  onAddNote: (content: string) => void;
+  onAddNote: (content: string, options?: NoteShareOptions) => void;
   onDeleteNote: (id: string) => void;
+  onReply?: (parent: Note, content: string, mentions: string[]) => void;
+  onResolveThread?: (id: string, resolved: boolean) => void;
+  onSearch?: (query: string, mode?: NoteSearchMode) => Promise<NoteSearchMatch[]>;
+  onUpdateTags?: (id: string, tags: string[]) => void;
+  onSetStatus?: (id: string, status: NoteStatus) => void;
+  onExport?: (notes: Note[], format: ReportFormat, options: NotesExportOptions) => void;
+  isExporting?: boolean;
+  onImport?: (previews: NoteImportPreview[], conflictResolution: ConflictResolution, options: { workspaceId?: string }) => Promise<NoteImportResult | null>;
+  verseScope?: string | null;        // Opened from a verse marker in the scripture card
+  onClearVerseScope?: () => void;
+  highlights?: VerseHighlight[];
+  anchorStatuses?: Map<string, AnchorResolution>; // Quote anchors resolved against the open scripture
+  currentTranslation?: string;
   t: (key: keyof TranslationStrings) => string;
   currentLanguage?: string;
+  currentOrganization?: string;
 }
 
 type FilterType = 'all' | 'note' | 'bug_report' | 'feedback';
+type ScopeFilter = 'all' | 'mine' | 'team' | 'unresolved';
 
-export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }: NotesCardProps) {
+const SCOPE_FILTERS: { id: ScopeFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'mine', label: 'Mine' },
+  { id: 'team', label: 'Team' },
+  { id: 'unresolved', label: 'Unresolved' },
+];
+
+function MentionText({ content, members, currentUserId, terms = [] }: { content: string; members: WorkspaceMember[]; currentUserId?: string; terms?: string[] }) {
+  const segments = useMemo(() => splitMentions(content, members), [content, members]);
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.userId ? (
+          <span
+            key={index}
+            className={cn(
+              'rounded px-0.5 font-medium',
+              segment.userId === currentUserId ? 'bg-amber-500/20 text-amber-400' : 'text-primary'
+            )}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>
+            {highlightTerms(segment.text, terms).map((part, i) =>
+              part.match ? (
+                <mark key={i} className="rounded bg-primary/25 text-foreground px-0.5">{part.text}</mark>
+              ) : (
+                part.text
+              )
+            )}
+          </span>
+        )
+      )}
+    </>
+  );
+}
+
+export function NotesCard({ notes, onAddNote, onDeleteNote, onReply, onResolveThread, onSearch, onUpdateTags, onSetStatus, onExport, isExporting, onImport, verseScope, onClearVerseScope, highlights = [], anchorStatuses, currentTranslation, t, currentLanguage, currentOrganization }: NotesCardProps) {
+  const { user } = useAuth();
+  const { activeWorkspace, members } = useWorkspace();
   const [newNote, setNewNote] = useState('');
   const [filter, setFilter] = useState<FilterType>('all');
+  const [scope, setScope] = useState<ScopeFilter>('all');
+  const [shareWithTeam, setShareWithTeam] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  // Ranked note-agent results for the current query; null = plain keyword filtering
+  const [semanticMatches, setSemanticMatches] = useState<NoteSearchMatch[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<NoteStatus | null>(null);
+  const [editingTagsFor, setEditingTagsFor] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<ParsedNoteFile | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const currentUserId = user?.id;
+  const isSharing = !!activeWorkspace && shareWithTeam;
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
     if (newNote.trim()) {
-      onAddNote(newNote.trim());
+      const content = newNote.trim();
+      onAddNote(content, isSharing
+        ? { workspaceId: activeWorkspace.id, mentions: extractMentions(content, members) }
+        : undefined);
       setNewNote('');
     }
   };
 
+  const searchTerms = useMemo(() => getSearchTerms(searchQuery), [searchQuery]);
+
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    setSemanticMatches(null);
+  };
+
+  const handleSemanticSearch = async () => {
+    const query = searchQuery.trim();
+    if (!query || !onSearch) return;
+    setIsSearching(true);
+    const matches = await onSearch(query, 'hybrid');
+    setIsSearching(false);
+    setSemanticMatches(matches);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseNotesFile(await file.text(), file.name);
+      if (parsed.rows.length === 0) throw new Error(`No notes found in ${file.name}`);
+      setImportFile(parsed);
+    } catch (error) {
+      console.error('[NotesCard] Import failed:', error);
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async (previews: NoteImportPreview[], conflictResolution: ConflictResolution, workspaceId?: string) => {
+    if (!onImport) return;
+    setIsImporting(true);
+    const result = await onImport(previews, conflictResolution, { workspaceId });
+    setIsImporting(false);
+    if (!result) {
+      toast({ title: 'Import failed', description: 'Some notes could not be saved', variant: 'destructive' });
+      return;
+    }
+    setImportFile(null);
+    toast({
+      title: 'Notes imported',
+      description: `${result.inserted} added, ${result.updated} updated, ${result.skipped} skipped`,
+    });
+  };
+
+  const handleReply = (parent: Note) => {
+    const content = replyText.trim();
+    if (!content || !onReply) return;
+    onReply(parent, content, extractMentions(content, members));
+    setReplyText('');
+    setReplyingTo(null);
+  };
+
+  const getAuthorName = (note: Note) => {
+    if (!note.userId || note.userId === currentUserId) return 'You';
+    return members.find(m => m.userId === note.userId)?.displayName || 'Former member';
+  };
+
+  // Replies render under their thread; orphaned replies (parent not loaded) stand alone
+  const { threads, repliesByParent } = useMemo(() => {
+    const ids = new Set(notes.map(n => n.id));
+    const byParent = new Map<string, Note[]>();
+    const roots: Note[] = [];
+    notes.forEach(note => {
+      if (note.parentId && ids.has(note.parentId)) {
+        const list = byParent.get(note.parentId) || [];
+        list.push(note);
+        byParent.set(note.parentId, list);
+      } else {
+        roots.push(note);
+      }
+    });
+    byParent.forEach(list => list.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+    return { threads: roots, repliesByParent: byParent };
+  }, [notes]);
+
+  // A thread matches when its root or any reply does; semantic results keep their rank order
+  const searchedNotes = useMemo(() => {
+    if (semanticMatches) {
+      const rootOf = new Map<string, Note>();
+      threads.forEach(root => {
+        rootOf.set(root.id, root);
+        (repliesByParent.get(root.id) || []).forEach(reply => rootOf.set(reply.id, root));
+      });
+      const ranked: Note[] = [];
+      semanticMatches.forEach(match => {
+        const root = rootOf.get(match.noteId);
+        if (root && !ranked.includes(root)) ranked.push(root);
+      });
+      return ranked;
+    }
+    if (searchTerms.length === 0) return threads;
+    return threads.filter(root =>
+      [root, ...(repliesByParent.get(root.id) || [])].some(note =>
+        matchesSearch(`${note.content} ${note.sourceReference || ''}`, searchTerms)
+      )
+    );
+  }, [threads, repliesByParent, searchTerms, semanticMatches]);
+
+  const semanticOnly = useMemo(
+    () => new Set((semanticMatches || []).filter(m => m.match === 'semantic').map(m => m.noteId)),
+    [semanticMatches]
+  );
+
+  const tagCounts = useMemo(() => collectTags(threads), [threads]);
+  const tagSuggestions = useMemo(
+    () => Array.from(new Set([...tagCounts.map(t => t.tag), ...SUGGESTED_TAGS])),
+    [tagCounts]
+  );
+  const doneCount = threads.filter(note => note.status === 'done').length;
+
+  // Whole-verse highlight colour by canonical reference, shown beside a note's reference
+  const highlightByReference = useMemo(() => new Map(
+    highlights.filter(h => !h.quote).map(h => [formatScopeLabel(h.sourceReference), h.color])
+  ), [highlights]);
+
+  const scopedNotes = searchedNotes.filter(note => {
+    if (verseScope && !isNoteInScope(note.sourceReference, verseScope)) return false;
+    if (tagFilter && !note.tags?.includes(tagFilter)) return false;
+    if (statusFilter && (note.status || 'open') !== statusFilter) return false;
+    if (scope === 'mine') return !note.userId || note.userId === currentUserId;
+    if (scope === 'team') return !!activeWorkspace && note.workspaceId === activeWorkspace.id;
+    if (scope === 'unresolved') return !!note.workspaceId && !note.resolvedAt;
+    return true;
+  });
+
   const filteredNotes = filter === 'all' 
-    ? notes 
-    : notes.filter(note => note.noteType === filter);
+    ? scopedNotes 
+    : scopedNotes.filter(note => note.noteType === filter);
+
+  const noteCount = scopedNotes.filter(n => n.noteType === 'note').length;
+  const bugCount = scopedNotes.filter(n => n.noteType === 'bug_report').length;
+  const feedbackCount = scopedNotes.filter(n => n.noteType === 'feedback').length;
 
-  const noteCount = notes.filter(n => n.noteType === 'note').length;
-  const bugCount = notes.filter(n => n.noteType === 'bug_report').length;
-  const feedbackCount = notes.filter(n => n.noteType === 'feedback').length;
+  // Exports what is on screen: the filtered threads with their replies
+  const handleExport = (format: ReportFormat, includes: { includeScripture: boolean; includeTranslationNotes: boolean }) => {
+    if (!onExport) return;
+    const exported = filteredNotes.flatMap(note => [note, ...(repliesByParent.get(note.id) || [])]);
+    const title = [activeWorkspace ? `${activeWorkspace.name} notes` : 'My notes', tagFilter && `#${tagFilter}`]
+      .filter(Boolean)
+      .join(' ');
+    onExport(exported, format, {
+      ...includes,
+      title,
+      getAuthorName: note => (note.workspaceId ? getAuthorName(note) : undefined),
+    });
+  };
 
   const getResourceTypeLabel = (type: string) => {
     const labels: Record<string, string> = {
@@ -60,9 +298,98 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
         <div className="flex items-center gap-2 text-foreground">
           <PenLine className="w-4 h-4 text-emerald-400" />
           <span className="text-sm font-medium">{t('notes.title')}</span>
+          {onImport && (
+            <>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="ml-auto p-1.5 rounded-md transition-colors text-muted-foreground hover:text-foreground hover:bg-muted/50 disabled:opacity-50"
+                title="Import notes from CSV or TSV"
+                aria-label="Import notes from CSV or TSV"
+              >
+                <FileUp className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          {onExport && (
+            <ReportExportMenu
+              label="Export notes report"
+              showIncludes
+              isExporting={isExporting}
+              disabled={filteredNotes.length === 0}
+              onExport={handleExport}
+              className={cn(!onImport && 'ml-auto')}
+            />
+          )}
+        </div>
+        <div className="mt-1">
+          <WorkspaceMenu defaultLanguage={currentLanguage} defaultOrganization={currentOrganization} />
         </div>
       </div>
 
+      {/* Search */}
+      <div className="px-4 pb-2">
+        <div className="flex items-center gap-2 max-w-xl mx-auto rounded-lg bg-muted/50 px-3 py-1.5">
+          <Search className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+          <input
+            value={searchQuery}
+            onChange={(e) => handleSearchChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSemanticSearch();
+              if (e.key === 'Escape') handleSearchChange('');
+            }}
+            placeholder="Search notes"
+            className="flex-1 min-w-0 bg-transparent text-xs text-foreground outline-none placeholder:text-muted-foreground"
+          />
+          {searchQuery && (
+            <button onClick={() => handleSearchChange('')} className="text-muted-foreground hover:text-foreground" aria-label="Clear search">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onSearch && (
+            <button
+              onClick={handleSemanticSearch}
+              disabled={!searchQuery.trim() || isSearching}
+              title="Search by meaning (Enter)"
+              className={cn(
+                'flex items-center gap-1 text-[11px] font-medium transition-colors disabled:opacity-50',
+                semanticMatches ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {isSearching ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+              Meaning
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Scope tabs - only meaningful once a team workspace is active */}
+      {activeWorkspace && (
+        <div className="px-4 pb-2">
+          <div className="flex gap-1 max-w-xl mx-auto">
+            {SCOPE_FILTERS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setScope(id)}
+                className={cn(
+                  'flex-1 py-1 px-2 rounded-md text-[11px] font-medium transition-colors',
+                  scope === id ? 'bg-primary/15 text-primary' : 'text-muted-foreground hover:bg-muted/50'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Filter tabs */}
       <div className="px-4 pb-3">
         <div className="flex gap-1.5 max-w-xl mx-auto">
@@ -75,7 +402,7 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
                 : 'bg-muted/50 text-muted-foreground hover:bg-muted'
             )}
           >
-            All ({notes.length})
+            All ({scopedNotes.length})
           </button>
           <button
             onClick={() => setFilter('note')}
@@ -116,6 +443,55 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
         </div>
       </div>
 
+      {/* Verse the list was opened from */}
+      {verseScope && (
+        <div className="px-4 pb-3 -mt-1">
+          <div className="flex items-center gap-2 max-w-xl mx-auto">
+            <span className="flex items-center gap-1.5 rounded-full bg-primary/15 text-primary text-[11px] font-medium pl-2.5 pr-1.5 py-1">
+              Notes on {formatScopeLabel(verseScope)}
+              {onClearVerseScope && (
+                <button onClick={onClearVerseScope} className="opacity-70 hover:opacity-100" aria-label="Show all notes">
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Tag and checklist filters */}
+      {(tagCounts.length > 0 || doneCount > 0) && (
+        <div className="px-4 pb-3 -mt-1">
+          <div className="flex items-center flex-wrap gap-1.5 max-w-xl mx-auto">
+            {(['open', 'done'] as NoteStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(prev => (prev === status ? null : status))}
+                className={cn(
+                  'shrink-0 flex items-center gap-1 rounded-full text-[10px] px-2 py-1 font-medium transition-colors',
+                  statusFilter === status ? 'bg-primary text-primary-foreground' : 'bg-muted/50 text-muted-foreground hover:bg-muted'
+                )}
+              >
+                {status === 'done' ? <CheckSquare className="w-3 h-3" /> : <Square className="w-3 h-3" />}
+                {status === 'done' ? `Done (${doneCount})` : `Open (${threads.length - doneCount})`}
+              </button>
+            ))}
+            {tagCounts.map(({ tag, count }) => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(prev => (prev === tag ? null : tag))}
+                className={cn(
+                  'shrink-0 rounded-full text-[10px] px-2 py-1 font-medium transition-colors',
+                  tagFilter === tag ? 'bg-primary text-primary-foreground' : 'bg-muted/50 text-muted-foreground hover:bg-muted'
+                )}
+              >
+                #{tag} ({count})
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Notes list */}
       <div className="flex-1 overflow-y-auto px-4 pb-4 fade-edges">
         <div className="max-w-xl mx-auto space-y-3">
@@ -126,12 +502,20 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
                   ? 'No bug reports yet'
                   : filter === 'feedback'
                   ? 'No feedback yet'
+                  : searchQuery.trim()
+                  ? 'No notes match your search'
+                  : scope === 'unresolved'
+                  ? 'No open threads'
                   : t('notes.empty.description')}
               </p>
             </div>
           )}
 
-          {filteredNotes.map((note, index) => (
+          {filteredNotes.map((note, index) => {
+            const replies = repliesByParent.get(note.id) || [];
+            const isMine = !note.userId || note.userId === currentUserId;
+            const mentionsMe = !!currentUserId && !isMine && !!note.mentions?.includes(currentUserId);
+            return (
             <motion.div
               key={note.id}
               initial={{ opacity: 0, y: 10 }}
@@ -141,9 +525,32 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
                 'glass-card rounded-xl p-4 group relative',
                 note.noteType === 'bug_report' 
                   ? 'border-destructive/30 bg-destructive/5'
+                  : mentionsMe
+                  ? 'border-amber-500/40'
                   : note.highlighted && 'border-primary/30 bg-primary/5'
               )}
             >
+              {semanticOnly.has(note.id) && (
+                <div className="flex items-center gap-1 text-[10px] text-primary/80 mb-1.5">
+                  <Sparkles className="w-3 h-3" />
+                  Related by meaning
+                </div>
+              )}
+
+              {/* Team thread header */}
+              {note.workspaceId && (
+                <div className="flex items-center gap-1.5 text-xs mb-2 pr-16">
+                  <Users className="w-3 h-3 text-primary" />
+                  <span className="font-medium text-foreground">{getAuthorName(note)}</span>
+                  {note.resolvedAt && (
+                    <span className="flex items-center gap-0.5 text-emerald-400">
+                      <CheckCircle2 className="w-3 h-3" />
+                      Resolved
+                    </span>
+                  )}
+                </div>
+              )}
+
               {/* Note type badge */}
               {note.noteType === 'bug_report' && (
                 <div className="flex items-center gap-1.5 text-destructive text-xs font-medium mb-2">
@@ -161,31 +568,185 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
                 </div>
               )}
               
-              <p className="text-sm text-foreground/90 leading-relaxed pr-16 whitespace-pre-wrap">
-                {note.content}
-              </p>
+              <div className="flex items-start gap-2 pr-16">
+                {isMine && onSetStatus && (
+                  <button
+                    onClick={() => onSetStatus(note.id, note.status === 'done' ? 'open' : 'done')}
+                    className="mt-0.5 text-muted-foreground hover:text-primary transition-colors shrink-0"
+                    aria-label={note.status === 'done' ? 'Mark as open' : 'Mark as done'}
+                  >
+                    {note.status === 'done' ? <CheckSquare className="w-4 h-4 text-primary" /> : <Square className="w-4 h-4" />}
+                  </button>
+                )}
+                <p className={cn(
+                  "flex-1 text-sm text-foreground/90 leading-relaxed whitespace-pre-wrap",
+                  note.resolvedAt && "opacity-60",
+                  note.status === 'done' && "line-through opacity-60"
+                )}>
+                  <MentionText content={note.content} members={members} currentUserId={currentUserId} terms={searchTerms} />
+                </p>
+              </div>
               {note.sourceReference && (
-                <p className="text-xs text-primary mt-2">
+                <p className="flex items-center gap-1.5 text-xs text-primary mt-2">
+                  {highlightByReference.has(formatScopeLabel(note.sourceReference)) && (
+                    <span
+                      className={cn('w-2 h-2 rounded-full', HIGHLIGHT_STYLES[highlightByReference.get(formatScopeLabel(note.sourceReference))!].swatch)}
+                      aria-label="Highlighted verse"
+                    />
+                  )}
                   {note.sourceReference}
                 </p>
               )}
+              {note.quote && (
+                <p className="text-xs text-muted-foreground italic mt-1">
+                  “{note.quote}”
+                  {note.occurrence && note.occurrence > 1 && <span className="not-italic"> (occurrence {note.occurrence})</span>}
+                  {note.quoteSource && <span className="not-italic text-muted-foreground/60"> · {note.quoteSource}</span>}
+                </p>
+              )}
+              {anchorStatuses?.get(note.id)?.status === 'missing' && (
+                <p className="flex items-center gap-1 text-[10px] text-amber-400 mt-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  Quote not found in {currentTranslation || 'the open text'}
+                </p>
+              )}
               <p className="text-xs text-muted-foreground/50 mt-2">
                 {new Date(note.createdAt).toLocaleDateString()}
               </p>
+
+              {/* Tags - authors can edit, anyone can filter by clicking one */}
+              {((note.tags?.length ?? 0) > 0 || (isMine && onUpdateTags)) && (
+                <div className="flex items-center flex-wrap gap-1 mt-2">
+                  <NoteTagBadges
+                    tags={note.tags || []}
+                    onSelect={setTagFilter}
+                    onRemove={isMine && onUpdateTags
+                      ? (tag) => onUpdateTags(note.id, (note.tags || []).filter(t => t !== tag))
+                      : undefined}
+                  />
+                  {isMine && onUpdateTags && editingTagsFor !== note.id && (
+                    <button
+                      onClick={() => setEditingTagsFor(note.id)}
+                      className={cn(
+                        "flex items-center gap-0.5 text-[10px] text-muted-foreground hover:text-foreground transition-opacity",
+                        !note.tags?.length && "opacity-0 group-hover:opacity-100"
+                      )}
+                    >
+                      <Tag className="w-3 h-3" />
+                      Tag
+                    </button>
+                  )}
+                </div>
+              )}
+              {editingTagsFor === note.id && onUpdateTags && (
+                <NoteTagEditor
+                  tags={note.tags || []}
+                  suggestions={tagSuggestions}
+                  onChange={(tags) => onUpdateTags(note.id, tags)}
+                  onClose={() => setEditingTagsFor(null)}
+                />
+              )}
               
               <div className="absolute top-3 right-3 flex items-center gap-1">
                 <PlayButton text={note.content} id={`note-${note.id}`} language={currentLanguage} />
                 <CopyButton text={note.content} />
-                <button
-                  onClick={() => onDeleteNote(note.id)}
-                  className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 
-                           transition-opacity bg-destructive/10 text-destructive hover:bg-destructive/20"
-                >
-                  <Trash2 className="w-3 h-3" />
-                </button>
+                {isMine && (
+                  <button
+                    onClick={() => onDeleteNote(note.id)}
+                    className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 
+                             transition-opacity bg-destructive/10 text-destructive hover:bg-destructive/20"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
               </div>
+
+              {/* Thread replies */}
+              {replies.length > 0 && (
+                <div className="mt-3 space-y-2 border-l-2 border-border/50 pl-3">
+                  {replies.map(reply => (
+                    <div key={reply.id} className="text-sm">
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="font-medium text-foreground">{getAuthorName(reply)}</span>
+                        <span className="text-muted-foreground/50">{new Date(reply.createdAt).toLocaleDateString()}</span>
+                        {reply.userId === currentUserId && (
+                          <button
+                            onClick={() => onDeleteNote(reply.id)}
+                            className="opacity-0 group-hover:opacity-100 transition-opacity text-destructive/70 hover:text-destructive"
+                            aria-label="Delete reply"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-foreground/80 whitespace-pre-wrap">
+                        <MentionText content={reply.content} members={members} currentUserId={currentUserId} terms={searchTerms} />
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Thread actions */}
+              {note.workspaceId && (onReply || onResolveThread) && (
+                <div className="mt-3">
+                  {replyingTo === note.id ? (
+                    <div className="rounded-lg bg-muted/30 p-2">
+                      <MentionTextarea
+                        value={replyText}
+                        onChange={setReplyText}
+                        members={members}
+                        placeholder="Reply… (@ to mention)"
+                        autoFocus
+                        onSubmit={() => handleReply(note)}
+                        className="w-full bg-transparent text-foreground placeholder:text-muted-foreground resize-none outline-none px-2 py-1 text-sm"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setReplyingTo(null)}
+                          className="text-xs px-3 py-1 rounded-lg bg-muted text-muted-foreground"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleReply(note)}
+                          disabled={!replyText.trim()}
+                          className="text-xs px-3 py-1 rounded-lg bg-primary text-primary-foreground disabled:opacity-50"
+                        >
+                          Reply
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      {onReply && (
+                        <button
+                          onClick={() => {
+                            setReplyingTo(note.id);
+                            setReplyText('');
+                          }}
+                          className="flex items-center gap-1 hover:text-foreground transition-colors"
+                        >
+                          <Reply className="w-3 h-3" />
+                          Reply{replies.length > 0 && ` (${replies.length})`}
+                        </button>
+                      )}
+                      {onResolveThread && (
+                        <button
+                          onClick={() => onResolveThread(note.id, !note.resolvedAt)}
+                          className="flex items-center gap-1 hover:text-foreground transition-colors"
+                        >
+                          {note.resolvedAt ? <RotateCcw className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+                          {note.resolvedAt ? 'Reopen' : 'Resolve'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </motion.div>
-          ))}
+            );
+          })}
         </div>
       </div>
 
@@ -193,15 +754,27 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
       <div className="p-4 pt-0">
         <form onSubmit={handleSubmit} className="max-w-xl mx-auto">
           <div className="glass-card rounded-xl p-2">
-            <textarea
+            <MentionTextarea
               value={newNote}
-              onChange={(e) => setNewNote(e.target.value)}
+              onChange={setNewNote}
+              members={isSharing ? members : []}
               placeholder={t('notes.placeholder')}
-              rows={2}
+              onSubmit={handleSubmit}
               className="w-full bg-transparent text-foreground placeholder:text-muted-foreground 
                        resize-none outline-none px-3 py-2 text-sm"
             />
-            <div className="flex justify-end px-2 pb-1">
+            <div className="flex items-center justify-end gap-2 px-2 pb-1">
+              {activeWorkspace && (
+                <button
+                  type="button"
+                  onClick={() => setShareWithTeam(prev => !prev)}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors mr-auto"
+                  title={shareWithTeam ? `Shared with ${activeWorkspace.name}` : 'Only you can see this note'}
+                >
+                  {shareWithTeam ? <Users className="w-3 h-3 text-primary" /> : <Lock className="w-3 h-3" />}
+                  {shareWithTeam ? activeWorkspace.name : 'Private'}
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={!newNote.trim()}
@@ -230,6 +803,16 @@ export function NotesCard({ notes, onAddNote, onDeleteNote, t, currentLanguage }
           <ChevronRight className="w-4 h-4" />
         </div>
       </div>
+      <NoteImportDialog
+        key={importFile ? `${importFile.fileName}:${importFile.rows.length}` : 'none'}
+        file={importFile}
+        existingNotes={notes}
+        userId={currentUserId}
+        workspace={activeWorkspace}
+        isImporting={isImporting}
+        onImport={handleImport}
+        onCancel={() => setImportFile(null)}
+      />
     </div>
   );
 }
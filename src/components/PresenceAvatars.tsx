@@ -0,0 +1,60 @@
+import { BookViewer } from '@/hooks/useBookPresence';
+import { cn } from '@/lib/utils';
+
+const AVATAR_COLORS = [
+  'bg-sky-500/80',
+  'bg-violet-500/80',
+  'bg-emerald-500/80',
+  'bg-amber-500/80',
+  'bg-rose-500/80',
+  'bg-teal-500/80',
+];
+
+// Stable colour per user so a reviewer looks the same in every chapter header
+function avatarColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+function initials(name: string): string {
+  const parts = name.trim().split(/\s+/);
+  return ((parts[0]?.[0] || '') + (parts.length > 1 ? parts[parts.length - 1][0] : '')).toUpperCase() || '?';
+}
+
+interface PresenceAvatarsProps {
+  viewers: BookViewer[];
+  max?: number;
+  className?: string;
+}
+
+// Overlapping initials for teammates currently reading this chapter
+export function PresenceAvatars({ viewers, max = 3, className }: PresenceAvatarsProps) {
+  if (viewers.length === 0) return null;
+  const shown = viewers.slice(0, max);
+  const hidden = viewers.length - shown.length;
+
+  return (
+    <div className={cn('flex items-center -space-x-1.5', className)}>
+      {shown.map(viewer => (
+        <span
+          key={viewer.userId}
+          title={`${viewer.displayName} · ${viewer.chapter}${viewer.verse ? `:${viewer.verse}` : ''}`}
+          className={cn(
+            'w-5 h-5 rounded-full ring-2 ring-background flex items-center justify-center text-[9px] font-semibold text-white',
+            avatarColor(viewer.userId)
+          )}
+        >
+          {initials(viewer.displayName)}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="w-5 h-5 rounded-full ring-2 ring-background bg-muted flex items-center justify-center text-[9px] text-muted-foreground">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { FileDown, FileText, FileType, Printer, Loader2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ReportFormat } from '@/lib/report';
+import { cn } from '@/lib/utils';
+
+export interface ReportIncludes {
+  includeScripture: boolean;
+  includeTranslationNotes: boolean;
+}
+
+interface ReportExportMenuProps {
+  label: string;
+  onExport: (format: ReportFormat, includes: ReportIncludes) => void;
+  showIncludes?: boolean; // Verse text / TN options - notes reports only
+  isExporting?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+const FORMATS: { id: ReportFormat; label: string; icon: typeof FileText }[] = [
+  { id: 'markdown', label: 'Markdown (.md)', icon: FileText },
+  { id: 'docx', label: 'Word (.docx)', icon: FileType },
+  { id: 'pdf', label: 'PDF (print…)', icon: Printer },
+];
+
+export function ReportExportMenu({ label, onExport, showIncludes, isExporting, disabled, className }: ReportExportMenuProps) {
+  const [includes, setIncludes] = useState<ReportIncludes>({ includeScripture: true, includeTranslationNotes: false });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          disabled={disabled || isExporting}
+          onClick={(e) => e.stopPropagation()}
+          className={cn(
+            "p-1.5 rounded-md transition-colors text-muted-foreground hover:text-foreground hover:bg-muted/50 disabled:opacity-50",
+            className
+          )}
+          title={label}
+          aria-label={label}
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel className="text-xs text-muted-foreground">{label}</DropdownMenuLabel>
+        {showIncludes && (
+          <>
+            <DropdownMenuCheckboxItem
+              checked={includes.includeScripture}
+              onCheckedChange={(checked) => setIncludes(prev => ({ ...prev, includeScripture: !!checked }))}
+              onSelect={(e) => e.preventDefault()}
+            >
+              Quote verse text
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={includes.includeTranslationNotes}
+              onCheckedChange={(checked) => setIncludes(prev => ({ ...prev, includeTranslationNotes: !!checked }))}
+              onSelect={(e) => e.preventDefault()}
+            >
+              Include translation notes
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuSeparator />
+          </>
+        )}
+        {FORMATS.map(({ id, label: formatLabel, icon: Icon }) => (
+          <DropdownMenuItem key={id} onClick={() => onExport(id, includes)} className="gap-2 cursor-pointer">
+            <Icon className="w-4 h-4" />
+            {formatLabel}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Check, Globe, BookOpen, AlertCircle } from 'lucide-react';
+import { Check, Globe, BookOpen, AlertCircle, Download, CloudOff, Loader2, Trash2 } from 'lucide-react';
 import { ScriptureResource } from '@/hooks/useLanguage';
+import { useOfflineBooks } from '@/hooks/useOfflineBooks';
+import { getBookFromReference } from '@/services/resourceCache';
+import { formatPackSize, PackProgress } from '@/services/bookPacks';
+import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { normalizeBookName } from '@/lib/scriptureReference';
 import { supabase } from '@/integrations/supabase/client';
 
 interface ResourceSelectorProps {
@@ -23,6 +28,14 @@ const SCRIPTURE_RESOURCES = [
   { id: 'udb', name: 'Unlocked Dynamic Bible', description: 'Legacy dynamic translation' },
 ];
 
+const PACK_PHASE_LABELS: Record<PackProgress['phase'], string> = {
+  scripture: 'Scripture',
+  helps: 'Notes, questions & word links',
+  words: 'Translation words',
+  academy: 'Academy articles',
+  done: 'Finishing',
+};
+
 interface ResourceAvailability extends ScriptureResource {
   isAvailable: boolean;
 }
@@ -37,6 +50,18 @@ export function ResourceSelector({
 }: ResourceSelectorProps) {
   const [availableResources, setAvailableResources] = useState<ResourceAvailability[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const {
+    offlineBooks,
+    isOnline,
+    isSaving,
+    progress,
+    isBookOffline,
+    makeBookAvailableOffline,
+    removeBookFromOffline,
+  } = useOfflineBooks();
+
+  const currentBook = getBookFromReference(currentReference);
+  const activeResource = resourcePreferences[0];
 
   // Check if a specific resource is available by making a test request
   const checkResourceAvailability = async (
@@ -44,6 +69,11 @@ export function ResourceSelector({
     resource: string, 
     book: string
   ): Promise<boolean> => {
+    // No network - only books saved for offline use can be opened
+    if (!navigator.onLine) {
+      return offlineBooks.some(b => b.language === lang && b.resource === resource && b.book.toLowerCase() === book.toLowerCase());
+    }
+
     try {
       // Normalize book name to English for API calls (e.g., "Rut" -> "Ruth")
       const normalizedBook = normalizeBookName(book);
@@ -72,46 +102,6 @@ export function ResourceSelector({
     }
   };
   
-  // Normalize localized book names to English for API calls
-  const normalizeBookName = (book: string): string => {
-    const bookAliases: Record<string, string> = {
-      // Spanish
-      'rut': 'Ruth',
-      'génesis': 'Genesis',
-      'éxodo': 'Exodus',
-      'salmos': 'Psalms',
-      'proverbios': 'Proverbs',
-      'mateo': 'Matthew',
-      'marcos': 'Mark',
-      'lucas': 'Luke',
-      'juan': 'John',
-      'hechos': 'Acts',
-      'romanos': 'Romans',
-      'apocalipsis': 'Revelation',
-      // Portuguese
-      'gênesis': 'Genesis',
-      'êxodo': 'Exodus',
-      'salmo': 'Psalms',
-      'provérbios': 'Proverbs',
-      'mateus': 'Matthew',
-      'joão': 'John',
-      'atos': 'Acts',
-      // French
-      'genèse': 'Genesis',
-      'exode': 'Exodus',
-      'psaumes': 'Psalms',
-      'proverbes': 'Proverbs',
-      'matthieu': 'Matthew',
-      'marc': 'Mark',
-      'luc': 'Luke',
-      'jean': 'John',
-      'actes': 'Acts',
-      'romains': 'Romans',
-    };
-    
-    return bookAliases[book.toLowerCase()] || book;
-  };
-
   // Fetch available scripture resources when opened
   useEffect(() => {
     if (!isOpen) return;
@@ -120,7 +110,7 @@ export function ResourceSelector({
       setIsLoading(true);
       try {
         // Get the book from current reference for availability check
-        const book = currentReference?.split(' ')[0] || 'John';
+        const book = currentBook || 'John';
         
         console.log('[ResourceSelector] Checking resources for:', { currentLanguage, book });
         
@@ -173,13 +163,25 @@ export function ResourceSelector({
     };
 
     loadResources();
-  }, [isOpen, currentLanguage, currentReference]);
+  }, [isOpen, currentLanguage, currentReference, isOnline, offlineBooks]);
 
   const handleResourceClick = (resource: ScriptureResource) => {
     onResourceSelect(resource);
     onClose();
   };
 
+  const activeBookIsOffline = !!(currentBook && activeResource?.resource && isBookOffline(
+    currentBook,
+    activeResource.language,
+    activeResource.organization,
+    activeResource.resource
+  ));
+
+  const handleSaveOffline = async () => {
+    if (!currentBook || !activeResource?.resource) return;
+    await makeBookAvailableOffline(currentBook, activeResource.resource);
+  };
+
   const isResourceActive = (resource: ScriptureResource) => {
     const active = resourcePreferences[0];
     return active?.language === resource.language && 
@@ -332,6 +334,88 @@ export function ResourceSelector({
                       </div>
                     </div>
                   )}
+
+                  {/* Offline books */}
+                  <div>
+                    <div className="flex items-center gap-2 mb-3">
+                      <CloudOff className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                        Available Offline
+                      </span>
+                      {!isOnline && (
+                        <span className="text-xs text-amber-500 ml-auto">
+                          You are offline
+                        </span>
+                      )}
+                    </div>
+
+                    {currentBook && activeResource?.resource && !activeBookIsOffline && (
+                      <button
+                        onClick={handleSaveOffline}
+                        disabled={isSaving || !isOnline}
+                        className={cn(
+                          'w-full flex items-center gap-3 px-4 py-3 mb-2 rounded-lg transition-all text-left',
+                          'hover:bg-primary/10 active:scale-[0.98] disabled:opacity-50'
+                        )}
+                      >
+                        {isSaving ? (
+                          <Loader2 className="w-4 h-4 text-primary animate-spin flex-shrink-0" />
+                        ) : (
+                          <Download className="w-4 h-4 text-primary flex-shrink-0" />
+                        )}
+                        <span className="text-sm text-foreground">
+                          {isSaving
+                            ? `Downloading ${currentBook}...`
+                            : `Download ${currentBook} (${activeResource.resource.toUpperCase()}) for offline review`}
+                        </span>
+                      </button>
+                    )}
+
+                    {isSaving && progress && (
+                      <div className="px-4 pb-3 space-y-1.5">
+                        <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} className="h-1.5" />
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>{PACK_PHASE_LABELS[progress.phase]}</span>
+                          <span>{progress.completed}/{progress.total}</span>
+                        </div>
+                      </div>
+                    )}
+
+                    {offlineBooks.length > 0 ? (
+                      <div className="space-y-1">
+                        {offlineBooks.map((offlineBook) => (
+                          <div
+                            key={offlineBook.id}
+                            className="flex items-center justify-between px-4 py-2 rounded-lg bg-muted/30"
+                          >
+                            <div className="flex flex-col gap-0.5">
+                              <span className="text-sm text-foreground">{offlineBook.book}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {offlineBook.language} · {offlineBook.organization} · {offlineBook.resource.toUpperCase()} · {formatPackSize(offlineBook.sizeBytes)}
+                              </span>
+                              {offlineBook.status === 'partial' && (
+                                <span className="text-xs text-amber-500">Some items failed to download</span>
+                              )}
+                              {offlineBook.status === 'downloading' && !isSaving && (
+                                <span className="text-xs text-amber-500">Download interrupted</span>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => removeBookFromOffline(offlineBook)}
+                              className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                              aria-label={`Remove ${offlineBook.book} from offline storage`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground py-2">
+                        No books saved for offline use yet.
+                      </p>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
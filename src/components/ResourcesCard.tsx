@@ -1,14 +1,17 @@
 import { useState, useCallback, useRef, useEffect, memo, type FC } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileText, HelpCircle, BookOpen, GraduationCap, ChevronLeft, ChevronRight, AlertCircle, Loader2, RefreshCw, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { FileText, HelpCircle, BookOpen, GraduationCap, ChevronLeft, ChevronRight, AlertCircle, Loader2, RefreshCw, ChevronDown, ChevronUp, X, ClipboardCheck } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { Resource } from '@/types';
+import { Resource, VerseCheck } from '@/types';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { fetchTranslationWord, fetchTranslationAcademy } from '@/services/translationHelpsApi';
 import { CopyButton } from '@/components/CopyButton';
 import { PlayButton } from '@/components/PlayButton';
+import { CheckingPanel } from '@/components/CheckingPanel';
+import { CheckInput } from '@/hooks/useVerseChecks';
+import { isCheckableResource } from '@/lib/checking';
 
 interface ResourcesCardProps {
   resources: Resource[];
@@ -22,6 +25,9 @@ interface ResourcesCardProps {
   scrollToType?: Resource['type'] | null;
   onScrollComplete?: () => void;
   currentLanguage?: string;
+  scriptureReference?: string; // Gives book context to chapter:verse-only TN/TQ references
+  checksByKey?: Map<string, VerseCheck>;
+  onRecordCheck?: (input: CheckInput) => Promise<VerseCheck | null>;
 }
 
 const resourceIcons = {
@@ -244,327 +250,330 @@ function ExpandableResource({ resource, index, onAddToNotes, onSearch, currentLa
               ) : isExpanded ? (
                 <ChevronUp className="w-4 h-4" />
               ) : (
-                <ChevronDown className="w-4 h-4" />
-              )}
-            </div>
-          )}
+                  <ChevronDown className="w-4 h-4" />
+                )}
+              </div>
+            )}
+          </div>
         </div>
-      </div>
-      
-      <AnimatePresence>
-        {isExpanded && (
-          <motion.div
-            initial={{ height: 0, opacity: 0 }}
-            animate={{ height: 'auto', opacity: 1 }}
-            exit={{ height: 0, opacity: 0 }}
-            transition={{ duration: 0.2 }}
-            className="overflow-hidden"
-          >
-            <div 
-              className="px-4 pb-4 pt-0"
-              onMouseUp={handleTextSelection}
-              onTouchEnd={handleTextSelection}
+        
+        <AnimatePresence>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              className="overflow-hidden"
             >
-              <div className="pl-11 prose prose-sm prose-invert max-w-none">
-                <ReactMarkdown
-                  components={{
-                    p: ({ children }) => <p className="text-sm text-muted-foreground leading-relaxed mb-2 last:mb-0">{children}</p>,
-                    strong: ({ children }) => <strong className="text-foreground font-semibold">{children}</strong>,
-                    em: ({ children }) => <em className="italic">{children}</em>,
-                    ul: ({ children }) => <ul className="list-disc list-inside space-y-1 mb-2 text-sm text-muted-foreground">{children}</ul>,
-                    ol: ({ children }) => <ol className="list-decimal list-inside space-y-1 mb-2 text-sm text-muted-foreground">{children}</ol>,
-                    li: ({ children }) => <li className="text-sm">{children}</li>,
-                    h1: ({ children }) => <h1 className="text-base font-bold mb-2 text-foreground">{children}</h1>,
-                    h2: ({ children }) => <h2 className="text-sm font-semibold mb-2 text-foreground">{children}</h2>,
-                    h3: ({ children }) => <h3 className="text-sm font-medium mb-1 text-foreground">{children}</h3>,
-                    blockquote: ({ children }) => (
-                      <blockquote className="border-l-2 border-primary/50 pl-3 my-2 italic text-muted-foreground">
-                        {children}
-                      </blockquote>
-                    ),
-                    a: ({ href, children }) => {
-                      const handleClick = (e: React.MouseEvent) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        const searchTerm = typeof children === 'string' ? children : 
-                          (href?.split('/').pop()?.replace(/\.md$/, '').replace(/-/g, ' ') || 'topic');
-                        onSearch?.(searchTerm);
-                      };
-                      return (
-                        <span 
-                          role="button"
-                          tabIndex={0}
-                          onClick={handleClick}
-                          onKeyDown={(e) => e.key === 'Enter' && handleClick(e as any)}
-                          className="text-primary underline hover:text-primary/80 inline text-left cursor-pointer"
-                        >
+              <div 
+                className="px-4 pb-4 pt-0"
+                onMouseUp={handleTextSelection}
+                onTouchEnd={handleTextSelection}
+              >
+                <div className="pl-11 prose prose-sm prose-invert max-w-none">
+                  <ReactMarkdown
+                    components={{
+                      p: ({ children }) => <p className="text-sm text-muted-foreground leading-relaxed mb-2 last:mb-0">{children}</p>,
+                      strong: ({ children }) => <strong className="text-foreground font-semibold">{children}</strong>,
+                      em: ({ children }) => <em className="italic">{children}</em>,
+                      ul: ({ children }) => <ul className="list-disc list-inside space-y-1 mb-2 text-sm text-muted-foreground">{children}</ul>,
+                      ol: ({ children }) => <ol className="list-decimal list-inside space-y-1 mb-2 text-sm text-muted-foreground">{children}</ol>,
+                      li: ({ children }) => <li className="text-sm">{children}</li>,
+                      h1: ({ children }) => <h1 className="text-base font-bold mb-2 text-foreground">{children}</h1>,
+                      h2: ({ children }) => <h2 className="text-sm font-semibold mb-2 text-foreground">{children}</h2>,
+                      h3: ({ children }) => <h3 className="text-sm font-medium mb-1 text-foreground">{children}</h3>,
+                      blockquote: ({ children }) => (
+                        <blockquote className="border-l-2 border-primary/50 pl-3 my-2 italic text-muted-foreground">
                           {children}
-                        </span>
-                      );
-                    },
-                  }}
-                >
-                  {isLoadingFull ? 'Loading full article...' : displayContent}
-                </ReactMarkdown>
+                        </blockquote>
+                      ),
+                      a: ({ href, children }) => {
+                        const handleClick = (e: React.MouseEvent) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          const searchTerm = typeof children === 'string' ? children : 
+                            (href?.split('/').pop()?.replace(/\.md$/, '').replace(/-/g, ' ') || 'topic');
+                          onSearch?.(searchTerm);
+                        };
+                        return (
+                          <span 
+                            role="button"
+                            tabIndex={0}
+                            onClick={handleClick}
+                            onKeyDown={(e) => e.key === 'Enter' && handleClick(e as any)}
+                            className="text-primary underline hover:text-primary/80 inline text-left cursor-pointer"
+                          >
+                            {children}
+                          </span>
+                        );
+                      },
+                    }}
+                  >
+                    {isLoadingFull ? 'Loading full article...' : displayContent}
+                  </ReactMarkdown>
+                </div>
               </div>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </div>
-  );
-}
-
-// Memoize to prevent re-renders during swipe animations
-const MemoizedExpandableResource = memo(ExpandableResource);
-
-function ResourcesCardInner({ resources, onAddToNotes, onSearch, onClearVerseFilter, verseFilter, isLoading, error, onRetry, scrollToType, onScrollComplete, currentLanguage }: ResourcesCardProps) {
-  const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const sectionRefs = useRef<Record<string, HTMLDivElement | null>>({});
-  const [activeType, setActiveType] = useState<string | null>(null);
-
-  // Group resources by type
-  const groupedResources = resources.reduce((acc, resource) => {
-    if (!acc[resource.type]) acc[resource.type] = [];
-    acc[resource.type].push(resource);
-    return acc;
-  }, {} as Record<string, Resource[]>);
-
-  const resourceTypes = ['translation-note', 'translation-question', 'translation-word', 'academy-article'] as const;
-  const availableTypes = resourceTypes.filter(type => groupedResources[type]?.length > 0);
-
-  // Track which section is in view - throttled for performance
-  useEffect(() => {
-    const container = scrollContainerRef.current;
-    if (!container || availableTypes.length === 0) return;
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    );
+  }
 
-    let ticking = false;
-    
-    const updateActiveType = () => {
-      const containerRect = container.getBoundingClientRect();
-      let currentType: string | null = null;
-      let closestDistance = Infinity;
-
-      for (const type of availableTypes) {
-        const section = sectionRefs.current[type];
-        if (section) {
-          const sectionRect = section.getBoundingClientRect();
-          const distance = sectionRect.top - containerRect.top;
-          
-          if (distance <= 50 && Math.abs(distance) < closestDistance) {
-            closestDistance = Math.abs(distance);
-            currentType = type;
-          }
-        }
-      }
+  // Memoize to prevent re-renders during swipe animations
+  const MemoizedExpandableResource = memo(ExpandableResource);
+
+  function ResourcesCardInner({ resources, onAddToNotes, onSearch, onClearVerseFilter, verseFilter, isLoading, error, onRetry, scrollToType, onScrollComplete, currentLanguage, scriptureReference, checksByKey, onRecordCheck }: ResourcesCardProps) {
+    const scrollContainerRef = useRef<HTMLDivElement>(null);
+    const sectionRefs = useRef<Record<string, HTMLDivElement | null>>({});
+    const [activeType, setActiveType] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+
+    // Group resources by type
+    const groupedResources = resources.reduce((acc, resource) => {
+      if (!acc[resource.type]) acc[resource.type] = [];
+      acc[resource.type].push(resource);
+      return acc;
+    }, {} as Record<string, Resource[]>);
+
+    const resourceTypes = ['translation-note', 'translation-question', 'translation-word', 'academy-article'] as const;
+    const availableTypes = resourceTypes.filter(type => groupedResources[type]?.length > 0);
+    const checkReference = verseFilter || scriptureReference;
+    const canCheck = !!(checksByKey && onRecordCheck && checkReference) && resources.some(isCheckableResource);
+
+    // Track which section is in view - throttled for performance
+    useEffect(() => {
+      const container = scrollContainerRef.current;
+      if (!container || availableTypes.length === 0) return;
+
+      let ticking = false;
+      
+      const updateActiveType = () => {
+        const containerRect = container.getBoundingClientRect();
+        let currentType: string | null = null;
+        let closestDistance = Infinity;
 
-      if (!currentType) {
         for (const type of availableTypes) {
           const section = sectionRefs.current[type];
           if (section) {
             const sectionRect = section.getBoundingClientRect();
-            if (sectionRect.top < containerRect.bottom && sectionRect.bottom > containerRect.top) {
+            const distance = sectionRect.top - containerRect.top;
+            
+            if (distance <= 50 && Math.abs(distance) < closestDistance) {
+              closestDistance = Math.abs(distance);
               currentType = type;
-              break;
             }
           }
         }
-      }
 
-      setActiveType(currentType || availableTypes[0]);
-      ticking = false;
-    };
+        if (!currentType) {
+          for (const type of availableTypes) {
+            const section = sectionRefs.current[type];
+            if (section) {
+              const sectionRect = section.getBoundingClientRect();
+              if (sectionRect.top < containerRect.bottom && sectionRect.bottom > containerRect.top) {
+                currentType = type;
+                break;
+              }
+            }
+          }
+        }
 
-    const handleScroll = () => {
-      if (!ticking) {
-        requestAnimationFrame(updateActiveType);
-        ticking = true;
-      }
-    };
+        setActiveType(currentType || availableTypes[0]);
+        ticking = false;
+      };
 
-    setActiveType(availableTypes[0]);
-    container.addEventListener('scroll', handleScroll, { passive: true });
-    return () => container.removeEventListener('scroll', handleScroll);
-  }, [availableTypes.join(',')]);
+      const handleScroll = () => {
+        if (!ticking) {
+          requestAnimationFrame(updateActiveType);
+          ticking = true;
+        }
+      };
 
-  // Scroll to specific resource type when triggered from chat links
-  useEffect(() => {
-    if (!scrollToType || !scrollContainerRef.current) return;
-    
-    // Wait for resources to be available
-    if (resources.length === 0) return;
-    
-    const sectionEl = sectionRefs.current[scrollToType];
-    const containerEl = scrollContainerRef.current;
-    
-    if (sectionEl && containerEl) {
-      // Use requestAnimationFrame to ensure DOM is ready
-      requestAnimationFrame(() => {
+      setActiveType(availableTypes[0]);
+      container.addEventListener('scroll', handleScroll, { passive: true });
+      return () => container.removeEventListener('scroll', handleScroll);
+    }, [availableTypes.join(',')]);
+
+    // Scroll to specific resource type when triggered from chat links
+    useEffect(() => {
+      if (!scrollToType || !scrollContainerRef.current) return;
+      
+      // Wait for resources to be available
+      if (resources.length === 0) return;
+      
+      const sectionEl = sectionRefs.current[scrollToType];
+      const containerEl = scrollContainerRef.current;
+      
+      if (sectionEl && containerEl) {
+        // Use requestAnimationFrame to ensure DOM is ready
+        requestAnimationFrame(() => {
+          const offsetTop = sectionEl.offsetTop - containerEl.offsetTop - 8;
+          containerEl.scrollTo({ top: offsetTop, behavior: 'smooth' });
+          onScrollComplete?.();
+        });
+      } else {
+        // If section not found, still complete to reset state
+        onScrollComplete?.();
+      }
+    }, [scrollToType, resources.length, onScrollComplete]);
+
+    const scrollToSection = (type: string) => {
+      const sectionEl = sectionRefs.current[type];
+      const containerEl = scrollContainerRef.current;
+      if (sectionEl && containerEl) {
         const offsetTop = sectionEl.offsetTop - containerEl.offsetTop - 8;
         containerEl.scrollTo({ top: offsetTop, behavior: 'smooth' });
-        onScrollComplete?.();
-      });
-    } else {
-      // If section not found, still complete to reset state
-      onScrollComplete?.();
-    }
-  }, [scrollToType, resources.length, onScrollComplete]);
-
-  const scrollToSection = (type: string) => {
-    const sectionEl = sectionRefs.current[type];
-    const containerEl = scrollContainerRef.current;
-    if (sectionEl && containerEl) {
-      const offsetTop = sectionEl.offsetTop - containerEl.offsetTop - 8;
-      containerEl.scrollTo({ top: offsetTop, behavior: 'smooth' });
-    }
-  };
+      }
+    };
 
-  // Skeleton loading component
-  const ResourcesSkeleton = () => (
-    <div className="flex flex-col h-full">
-      <div className="pt-4 pb-2">
-        <div className="swipe-indicator" />
-      </div>
-      {/* Type filter skeleton */}
-      <div className="px-4 pb-3">
-        <div className="flex gap-2">
-          {[1, 2, 3, 4].map((i) => (
-            <Skeleton key={i} className="w-20 h-8 rounded-full" />
-          ))}
+    // Skeleton loading component
+    const ResourcesSkeleton = () => (
+      <div className="flex flex-col h-full">
+        <div className="pt-4 pb-2">
+          <div className="swipe-indicator" />
         </div>
-      </div>
-      {/* Resource cards skeleton */}
-      <div className="flex-1 overflow-hidden px-4 pb-24">
-        <div className="space-y-3">
-          {[1, 2, 3, 4, 5].map((i) => (
-            <div key={i} className="glass-card rounded-xl p-4">
-              <div className="flex items-start gap-3">
-                <Skeleton className="w-10 h-10 rounded-lg shrink-0" />
-                <div className="flex-1 space-y-2">
-                  <div className="flex items-center gap-2">
-                    <Skeleton className="w-20 h-3" />
-                    <Skeleton className="w-16 h-3" />
-                  </div>
-                  <Skeleton className="w-3/4 h-4" />
-                  <div className="space-y-1.5">
-                    <Skeleton className="w-full h-3" />
-                    <Skeleton className="w-full h-3" />
-                    <Skeleton className="w-2/3 h-3" />
+        {/* Type filter skeleton */}
+        <div className="px-4 pb-3">
+          <div className="flex gap-2">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="w-20 h-8 rounded-full" />
+            ))}
+          </div>
+        </div>
+        {/* Resource cards skeleton */}
+        <div className="flex-1 overflow-hidden px-4 pb-24">
+          <div className="space-y-3">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <div key={i} className="glass-card rounded-xl p-4">
+                <div className="flex items-start gap-3">
+                  <Skeleton className="w-10 h-10 rounded-lg shrink-0" />
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Skeleton className="w-20 h-3" />
+                      <Skeleton className="w-16 h-3" />
+                    </div>
+                    <Skeleton className="w-3/4 h-4" />
+                    <div className="space-y-1.5">
+                      <Skeleton className="w-full h-3" />
+                      <Skeleton className="w-full h-3" />
+                      <Skeleton className="w-2/3 h-3" />
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            ))}
+          </div>
         </div>
       </div>
-    </div>
-  );
-
-  // Show skeleton when loading without existing data
-  if (isLoading && resources.length === 0) {
-    return <ResourcesSkeleton />;
-  }
+    );
 
-  // Subtle loading overlay when refreshing with existing data
-  const loadingOverlay = isLoading && resources.length > 0 ? (
-    <div className="absolute inset-0 z-20 pointer-events-none">
-      <div className="absolute inset-0 bg-background/60 backdrop-blur-[2px]" />
-    </div>
-  ) : null;
+    // Show skeleton when loading without existing data
+    if (isLoading && resources.length === 0) {
+      return <ResourcesSkeleton />;
+    }
 
-  if (error) {
-    return (
-      <div className="flex flex-col h-full items-center justify-center">
-        <motion.div
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          className="text-center px-8 max-w-sm"
-        >
-          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-destructive/10 mb-6">
-            <AlertCircle className="w-8 h-8 text-destructive" />
-          </div>
-          <h2 className="text-lg font-medium text-foreground mb-2">
-            Unable to Load Resources
-          </h2>
-          <p className="text-muted-foreground text-sm mb-6">
-            {error.includes('404') 
-              ? 'No resources found for this scripture reference.'
-              : error.includes('network') || error.includes('fetch')
-              ? 'Network error. Please check your connection.'
-              : 'Something went wrong while fetching resources.'}
-          </p>
-          {onRetry && (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onRetry}
-              className="gap-2"
-            >
-              <RefreshCw className="w-4 h-4" />
-              Try Again
-            </Button>
-          )}
-        </motion.div>
+    // Subtle loading overlay when refreshing with existing data
+    const loadingOverlay = isLoading && resources.length > 0 ? (
+      <div className="absolute inset-0 z-20 pointer-events-none">
+        <div className="absolute inset-0 bg-background/60 backdrop-blur-[2px]" />
       </div>
-    );
-  }
+    ) : null;
 
-  if (resources.length === 0) {
-    return (
-      <div className="flex flex-col h-full items-center justify-center">
-        <div className="text-center px-8">
-          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-accent/10 mb-6">
-            <BookOpen className="w-8 h-8 text-accent" />
-          </div>
-          <h2 className="text-lg font-medium text-foreground mb-2">
-            Resources
-          </h2>
-          <p className="text-muted-foreground text-sm">
-            Translation notes, questions, and articles will appear here
-          </p>
+    if (error) {
+      return (
+        <div className="flex flex-col h-full items-center justify-center">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="text-center px-8 max-w-sm"
+          >
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-destructive/10 mb-6">
+              <AlertCircle className="w-8 h-8 text-destructive" />
+            </div>
+            <h2 className="text-lg font-medium text-foreground mb-2">
+              Unable to Load Resources
+            </h2>
+            <p className="text-muted-foreground text-sm mb-6">
+              {error.includes('404') 
+                ? 'No resources found for this scripture reference.'
+                : error.includes('network') || error.includes('fetch')
+                ? 'Network error. Please check your connection.'
+                : 'Something went wrong while fetching resources.'}
+            </p>
+            {onRetry && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onRetry}
+                className="gap-2"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Try Again
+              </Button>
+            )}
+          </motion.div>
         </div>
-        
-        <div className="absolute bottom-20 left-0 right-0 flex justify-between px-6 text-muted-foreground/40">
-          <div className="flex items-center gap-1 text-xs">
-            <ChevronLeft className="w-4 h-4" />
-            <span>Scripture</span>
+      );
+    }
+
+    if (resources.length === 0) {
+      return (
+        <div className="flex flex-col h-full items-center justify-center">
+          <div className="text-center px-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-accent/10 mb-6">
+              <BookOpen className="w-8 h-8 text-accent" />
+            </div>
+            <h2 className="text-lg font-medium text-foreground mb-2">
+              Resources
+            </h2>
+            <p className="text-muted-foreground text-sm">
+              Translation notes, questions, and articles will appear here
+            </p>
           </div>
-          <div className="flex items-center gap-1 text-xs">
-            <span>Notes</span>
-            <ChevronRight className="w-4 h-4" />
+          
+          <div className="absolute bottom-20 left-0 right-0 flex justify-between px-6 text-muted-foreground/40">
+            <div className="flex items-center gap-1 text-xs">
+              <ChevronLeft className="w-4 h-4" />
+              <span>Scripture</span>
+            </div>
+            <div className="flex items-center gap-1 text-xs">
+              <span>Notes</span>
+              <ChevronRight className="w-4 h-4" />
+            </div>
           </div>
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  return (
-    <div className="flex flex-col h-full relative">
-      {loadingOverlay}
-      {/* Swipe indicator */}
-      <div className="pt-4 pb-2">
-        <div className="swipe-indicator" />
-      </div>
+    return (
+      <div className="flex flex-col h-full relative">
+        {loadingOverlay}
+        {/* Swipe indicator */}
+        <div className="pt-4 pb-2">
+          <div className="swipe-indicator" />
+        </div>
 
-      {/* Verse filter badge */}
-      {verseFilter && (
-        <motion.div
-          initial={{ opacity: 0, y: -10 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="px-4 pb-2"
-        >
-          <div className="flex items-center justify-between bg-primary/10 rounded-lg px-3 py-2">
-            <span className="text-xs text-primary font-medium">
-              Filtered: {verseFilter}
-            </span>
-            <button
-              onClick={onClearVerseFilter}
-              className="text-primary/70 hover:text-primary transition-colors"
-            >
-              <X className="w-4 h-4" />
-            </button>
-          </div>
-        </motion.div>
+        {/* Verse filter badge */}
+        {verseFilter && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="px-4 pb-2"
+          >
+            <div className="flex items-center justify-between bg-primary/10 rounded-lg px-3 py-2">
+              <span className="text-xs text-primary font-medium">
+                Filtered: {verseFilter}
+              </span>
+              <button
+                onClick={onClearVerseFilter}
+                className="text-primary/70 hover:text-primary transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </motion.div>
       )}
 
       {/* Type summary - clickable icons with active state */}
@@ -589,10 +598,38 @@ function ResourcesCardInner({ resources, onAddToNotes, onSearch, onClearVerseFil
               </button>
             );
           })}
+          {canCheck && (
+            <button
+              onClick={() => setIsChecking(prev => !prev)}
+              className={cn(
+                'inline-flex items-center gap-1.5 px-2 py-1 rounded-full text-xs border transition-all hover:scale-105 active:scale-95',
+                isChecking
+                  ? 'bg-primary/15 text-primary border-primary/30'
+                  : 'text-muted-foreground border-border/50'
+              )}
+              title="Check notes and questions verse by verse"
+            >
+              <ClipboardCheck className="w-3 h-3" />
+              <span>Check</span>
+            </button>
+          )}
         </div>
       </div>
 
-      {/* Resources list - grouped by type with section headers */}
+      {/* Checking mode, or the resources list grouped by type with section headers */}
+      {isChecking && canCheck ? (
+        <div className="flex-1 overflow-y-auto px-4 pb-20">
+          <div className="max-w-xl mx-auto pt-2">
+            <CheckingPanel
+              key={checkReference}
+              resources={resources}
+              fallbackReference={checkReference}
+              checksByKey={checksByKey}
+              onRecordCheck={onRecordCheck}
+            />
+          </div>
+        </div>
+      ) : (
       <div ref={scrollContainerRef} className="flex-1 overflow-y-auto px-4 pb-20 fade-edges">
         <div className="max-w-xl mx-auto space-y-6 pt-2">
           {resourceTypes.map(type => {
@@ -638,6 +675,7 @@ function ResourcesCardInner({ resources, onAddToNotes, onSearch, onClearVerseFil
           })}
         </div>
       </div>
+      )}
     </div>
   );
 }
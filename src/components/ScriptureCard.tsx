@@ -1,7 +1,7 @@
 import { useEffect, useRef, useCallback, memo, useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Book, ChevronLeft, ChevronRight, AlertCircle, RefreshCw, X, ChevronDown } from 'lucide-react';
-import { ScripturePassage, ScriptureChapter } from '@/types';
+import { Book, ChevronLeft, ChevronRight, AlertCircle, RefreshCw, X, ChevronDown, AlignJustify, Columns3, Rows3, Loader2, Languages, PenLine, StickyNote, Eraser, AlertTriangle } from 'lucide-react';
+import { ScripturePassage, ScriptureChapter, Note, VerseCheck, CheckStatus, VerseHighlight, HighlightColor, NoteAnchor } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { FallbackBadge } from '@/components/FallbackBadge';
@@ -10,12 +10,26 @@ import { ResourceSelector } from '@/components/ResourceSelector';
 import { ScriptureResource } from '@/hooks/useLanguage';
 import { cn } from '@/lib/utils';
 import { useVirtualizedScripture } from '@/hooks/useVirtualizedScripture';
+import { useParallelScripture, toEstimateChapters, ParallelChapter, ParallelColumn, ParallelLayout } from '@/hooks/useParallelScripture';
 import { PlayButton } from '@/components/PlayButton';
 import { ChapterSkeleton } from '@/components/VerseSkeleton';
+import { AlignmentView } from '@/components/AlignmentView';
+import { ScriptureFileMenu } from '@/components/ScriptureFileMenu';
+import { DraftEditorView } from '@/components/DraftEditorView';
+import { useDrafts } from '@/hooks/useDrafts';
+import { toUsfmCode, findBook } from '@/lib/scriptureReference';
+import { summarizeChecks, CHECK_HEAT_COLORS } from '@/lib/checking';
+import { useBookPresence, BookViewer } from '@/hooks/useBookPresence';
+import { PresenceAvatars } from '@/components/PresenceAvatars';
+import { NoteTagBadges } from '@/components/NoteTags';
+import { summarizeVerseTags } from '@/lib/noteTags';
+import { summarizeVerseMarks, splitHighlightedText, VerseMarks, HIGHLIGHT_COLORS, HIGHLIGHT_STYLES } from '@/lib/verseMarkers';
+import { getOccurrenceAt } from '@/lib/noteAnchors';
+import { HighlightInput } from '@/hooks/useVerseHighlights';
 
 interface ScriptureCardProps {
   passage: ScripturePassage | null;
-  onAddToNotes: (text: string) => void;
+  onAddToNotes: (text: string, reference?: string, anchor?: NoteAnchor) => void;
   onVerseSelect?: (reference: string) => void;
   verseFilter?: string | null;
   isLoading?: boolean;
@@ -27,6 +41,69 @@ interface ScriptureCardProps {
   resourcePreferences?: ScriptureResource[];
   onResourceSelect?: (resource: ScriptureResource) => void;
   currentLanguage?: string;
+  notes?: Note[];
+  checks?: VerseCheck[];
+  highlights?: VerseHighlight[];
+  onSetHighlight?: (input: HighlightInput) => void;
+  onClearHighlight?: (id: string) => void;
+  onOpenNotes?: (reference: string) => void; // Notes card, filtered to the reference
+}
+
+// Text selected inside one verse - the anchor for a word-span highlight or note
+interface PendingSelection {
+  text: string;
+  chapter?: number;
+  verse?: number;
+  occurrence?: number;
+  source?: string; // Text the selection was made in, e.g. "ULT" or a draft column
+}
+
+// Verse text with word-span highlights and note quotes marked. Anchors resolve against
+// this text, so each parallel column underlines its own wording of the quote.
+function HighlightedText({ text, marks, verseKey, source }: { text: string; marks?: VerseMarks; verseKey?: string; source?: string }) {
+  const segments = useMemo(
+    () => splitHighlightedText(text, marks?.spans, marks?.anchors),
+    [text, marks?.spans, marks?.anchors]
+  );
+  return (
+    <span data-verse-text={verseKey} data-verse-source={source}>
+      {segments.map((segment, index) => {
+        const anchored = segment.anchored && "underline decoration-dotted decoration-emerald-400 underline-offset-4";
+        return segment.color ? (
+          <mark key={index} className={cn("rounded-sm text-inherit px-0.5 -mx-0.5", HIGHLIGHT_STYLES[segment.color].mark, anchored)}>
+            {segment.text}
+          </mark>
+        ) : anchored ? (
+          <span key={index} className={anchored}>{segment.text}</span>
+        ) : (
+          segment.text
+        );
+      })}
+    </span>
+  );
+}
+
+function NoteMarker({ count, stale, onClick }: { count: number; stale?: number; onClick?: () => void }) {
+  const label = `${count} ${count === 1 ? 'note' : 'notes'}`;
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick?.();
+      }}
+      className={cn(
+        "inline-flex items-center gap-0.5 mx-1 px-1 rounded align-super text-[10px] font-sans font-medium leading-none",
+        stale ? "text-amber-400 hover:bg-amber-400/10" : "text-emerald-400 hover:bg-emerald-400/10"
+      )}
+      title={stale
+        ? `${label} - ${stale} quoting words not in this text`
+        : `${label} - open in Notes`}
+      aria-label={`${label} on this verse`}
+    >
+      {stale ? <AlertTriangle className="w-2.5 h-2.5" /> : <StickyNote className="w-2.5 h-2.5" />}
+      {count}
+    </button>
+  );
 }
 
 // Helper to get chapter text for TTS
@@ -42,7 +119,10 @@ const VirtualizedVerse = memo(function VirtualizedVerse({
   isSelected,
   isHighlighted,
   onVerseClick,
-  registerVerse
+  registerVerse,
+  tags,
+  marks,
+  onOpenNotes
 }: {
   verse: { number: number; text: string; isParagraphEnd?: boolean };
   chapterNum: number;
@@ -51,6 +131,9 @@ const VirtualizedVerse = memo(function VirtualizedVerse({
   isHighlighted: boolean;
   onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
   registerVerse: (chapter: number, verse: number, el: HTMLElement | null) => void;
+  tags?: string[];
+  marks?: VerseMarks;
+  onOpenNotes?: (chapter: number, verse: number) => void;
 }) {
   const ref = useRef<HTMLSpanElement>(null);
   
@@ -67,13 +150,16 @@ const VirtualizedVerse = memo(function VirtualizedVerse({
         onClick={(e) => onVerseClick(chapterNum, verse.number, e)}
         className={cn(
           "cursor-pointer transition-all rounded-sm",
+          marks?.highlight && HIGHLIGHT_STYLES[marks.highlight].verse,
           isSelected && "bg-primary/20 ring-1 ring-primary/30",
           isHighlighted && "animate-verse-highlight"
         )}
       >
         <span className="drop-cap-chapter">{chapterNum}</span>
         <sup className="scripture-verse">{verse.number}</sup>
-        {verse.text}
+        <HighlightedText text={verse.text} marks={marks} verseKey={`${chapterNum}:${verse.number}`} />
+        {marks?.noteCount && <NoteMarker count={marks.noteCount} stale={marks.staleCount} onClick={() => onOpenNotes?.(chapterNum, verse.number)} />}
+        {tags && <NoteTagBadges tags={tags} size="xs" className="mx-1 align-middle" />}
         {verse.isParagraphEnd && <span className="block h-4" />}
         {!verse.isParagraphEnd && ' '}
       </span>
@@ -87,18 +173,37 @@ const VirtualizedVerse = memo(function VirtualizedVerse({
       onClick={(e) => onVerseClick(chapterNum, verse.number, e)}
       className={cn(
         "cursor-pointer transition-all rounded-sm hover:bg-primary/5",
+        marks?.highlight && HIGHLIGHT_STYLES[marks.highlight].verse,
         isSelected && "bg-primary/20 ring-1 ring-primary/30",
         isHighlighted && "animate-verse-highlight"
       )}
     >
       <sup className="scripture-verse">{verse.number}</sup>
-      {verse.text}
+      <HighlightedText text={verse.text} marks={marks} verseKey={`${chapterNum}:${verse.number}`} />
+      {marks?.noteCount && <NoteMarker count={marks.noteCount} stale={marks.staleCount} onClick={() => onOpenNotes?.(chapterNum, verse.number)} />}
+      {tags && <NoteTagBadges tags={tags} size="xs" className="mx-1 align-middle" />}
       {verse.isParagraphEnd && <span className="block h-4" />}
       {!verse.isParagraphEnd && ' '}
     </span>
   );
 });
 
+// Checking progress for one chapter - a cell per verse, coloured by its worst verdict
+function ChapterCheckStrip({ verseNumbers, statuses }: { verseNumbers: number[]; statuses?: Map<number, CheckStatus> }) {
+  const checked = verseNumbers.filter(verse => statuses?.has(verse)).length;
+  return (
+    <div className="flex items-center gap-2 flex-1 min-w-0 mx-3" title={`${checked} of ${verseNumbers.length} verses checked`}>
+      <div className="flex flex-1 h-1.5 max-w-[10rem] rounded-full overflow-hidden bg-muted/50">
+        {verseNumbers.map(verse => {
+          const status = statuses?.get(verse);
+          return <div key={verse} className={cn("flex-1", status && CHECK_HEAT_COLORS[status])} />;
+        })}
+      </div>
+      <span className="text-[10px] text-muted-foreground/70 shrink-0">{checked}/{verseNumbers.length}</span>
+    </div>
+  );
+}
+
 // Virtualized chapter component
 const VirtualizedChapter = memo(function VirtualizedChapter({
   chapter,
@@ -107,7 +212,12 @@ const VirtualizedChapter = memo(function VirtualizedChapter({
   highlightedVerse,
   onVerseClick,
   currentLanguage,
-  registerVerse
+  registerVerse,
+  checkStatuses,
+  viewers,
+  verseTags,
+  verseMarks,
+  onOpenNotes
 }: {
   chapter: ScriptureChapter;
   bookName: string;
@@ -116,14 +226,24 @@ const VirtualizedChapter = memo(function VirtualizedChapter({
   onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
   currentLanguage?: string;
   registerVerse: (chapter: number, verse: number, el: HTMLElement | null) => void;
+  checkStatuses?: Map<number, CheckStatus> | null; // null = nothing checked in this book
+  viewers?: BookViewer[];
+  verseTags?: Map<number, string[]>; // Tags of open notes on each verse
+  verseMarks?: Map<number, VerseMarks>;
+  onOpenNotes?: (chapter: number, verse: number) => void;
 }) {
   const chapterText = useMemo(() => getChapterText(chapter), [chapter]);
+  const verseNumbers = useMemo(() => chapter.verses.map(v => v.number), [chapter]);
   
   return (
     <div className="scripture-text text-lg group">
       {/* Chapter play button */}
       <div className="flex items-center justify-between mb-2">
-        <span className="text-xs text-muted-foreground">Chapter {chapter.chapter}</span>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Chapter {chapter.chapter}</span>
+          {viewers && <PresenceAvatars viewers={viewers} />}
+        </div>
+        {checkStatuses !== null && <ChapterCheckStrip verseNumbers={verseNumbers} statuses={checkStatuses} />}
         <PlayButton 
           text={chapterText}
           id={`scripture-ch-${chapter.chapter}`}
@@ -141,6 +261,139 @@ const VirtualizedChapter = memo(function VirtualizedChapter({
           isHighlighted={highlightedVerse?.chapter === chapter.chapter && highlightedVerse?.verse === verse.number}
           onVerseClick={onVerseClick}
           registerVerse={registerVerse}
+          tags={verseTags?.get(verse.number)}
+          marks={verseMarks?.get(verse.number)}
+          onOpenNotes={onOpenNotes}
+        />
+      ))}
+    </div>
+  );
+});
+
+const PARALLEL_LAYOUTS: { id: ParallelLayout; label: string; icon: typeof AlignJustify }[] = [
+  { id: 'single', label: 'Single text', icon: AlignJustify },
+  { id: 'columns', label: 'Parallel columns', icon: Columns3 },
+  { id: 'rows', label: 'Interleaved rows', icon: Rows3 },
+];
+
+// One verse across every parallel text - a single row so the texts stay aligned
+const ParallelVerseRow = memo(function ParallelVerseRow({
+  verse,
+  chapterNum,
+  columns,
+  layout,
+  isSelected,
+  isHighlighted,
+  onVerseClick,
+  registerVerse,
+  tags,
+  marks,
+  onOpenNotes
+}: {
+  verse: ParallelChapter['verses'][number];
+  chapterNum: number;
+  columns: ParallelColumn[];
+  layout: ParallelLayout;
+  isSelected: boolean;
+  isHighlighted: boolean;
+  onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
+  registerVerse: (chapter: number, verse: number, el: HTMLElement | null) => void;
+  tags?: string[];
+  marks?: VerseMarks;
+  onOpenNotes?: (chapter: number, verse: number) => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    registerVerse(chapterNum, verse.number, ref.current);
+    return () => registerVerse(chapterNum, verse.number, null);
+  }, [chapterNum, verse.number, registerVerse]);
+
+  return (
+    <div
+      ref={ref}
+      data-verse={`${chapterNum}:${verse.number}`}
+      onClick={(e) => onVerseClick(chapterNum, verse.number, e)}
+      className={cn(
+        "cursor-pointer transition-all rounded-sm hover:bg-primary/5 py-1.5 border-b border-border/20",
+        layout === 'columns' && "grid gap-4",
+        marks?.highlight && HIGHLIGHT_STYLES[marks.highlight].verse,
+        isSelected && "bg-primary/20 ring-1 ring-primary/30",
+        isHighlighted && "animate-verse-highlight"
+      )}
+      style={layout === 'columns' ? { gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` } : undefined}
+    >
+      {columns.map((column, index) => (
+        <div key={column.id} className={cn("scripture-text text-base", layout === 'rows' && index > 0 && "mt-1")}>
+          {layout === 'rows' && (
+            <span className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground mr-2">
+              {column.label}
+            </span>
+          )}
+          <sup className="scripture-verse">{verse.number}</sup>
+          {verse.texts[index] != null
+            ? <HighlightedText text={verse.texts[index]!} marks={marks} verseKey={`${chapterNum}:${verse.number}`} source={column.label} />
+            : <span className="text-muted-foreground/50">—</span>}
+          {index === 0 && marks?.noteCount && (
+            <NoteMarker count={marks.noteCount} stale={marks.staleCount} onClick={() => onOpenNotes?.(chapterNum, verse.number)} />
+          )}
+          {index === 0 && tags && <NoteTagBadges tags={tags} size="xs" className="mx-1 align-middle" />}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+// Virtualized chapter in parallel mode
+const VirtualizedParallelChapter = memo(function VirtualizedParallelChapter({
+  chapter,
+  columns,
+  layout,
+  selectedVerse,
+  highlightedVerse,
+  onVerseClick,
+  registerVerse,
+  checkStatuses,
+  viewers,
+  verseTags,
+  verseMarks,
+  onOpenNotes
+}: {
+  chapter: ParallelChapter;
+  columns: ParallelColumn[];
+  layout: ParallelLayout;
+  selectedVerse: { chapter: number; verse: number } | null;
+  highlightedVerse: { chapter: number; verse: number } | null;
+  onVerseClick: (chapter: number, verseNum: number, e: React.MouseEvent) => void;
+  registerVerse: (chapter: number, verse: number, el: HTMLElement | null) => void;
+  checkStatuses?: Map<number, CheckStatus> | null;
+  viewers?: BookViewer[];
+  verseTags?: Map<number, string[]>;
+  verseMarks?: Map<number, VerseMarks>;
+  onOpenNotes?: (chapter: number, verse: number) => void;
+}) {
+  const verseNumbers = useMemo(() => chapter.verses.map(v => v.number), [chapter]);
+  return (
+    <div className="group">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-xs text-muted-foreground">Chapter {chapter.chapter}</span>
+        {viewers && <PresenceAvatars viewers={viewers} />}
+        {checkStatuses !== null && <ChapterCheckStrip verseNumbers={verseNumbers} statuses={checkStatuses} />}
+      </div>
+      {chapter.verses.map((verse) => (
+        <ParallelVerseRow
+          key={`${chapter.chapter}-${verse.number}`}
+          verse={verse}
+          chapterNum={chapter.chapter}
+          columns={columns}
+          layout={layout}
+          isSelected={selectedVerse?.chapter === chapter.chapter && selectedVerse?.verse === verse.number}
+          isHighlighted={highlightedVerse?.chapter === chapter.chapter && highlightedVerse?.verse === verse.number}
+          onVerseClick={onVerseClick}
+          registerVerse={registerVerse}
+          tags={verseTags?.get(verse.number)}
+          marks={verseMarks?.get(verse.number)}
+          onOpenNotes={onOpenNotes}
         />
       ))}
     </div>
@@ -161,9 +414,19 @@ export function ScriptureCard({
   resourcePreferences = [],
   onResourceSelect,
   currentLanguage = 'en',
+  notes = [],
+  checks = [],
+  highlights = [],
+  onSetHighlight,
+  onClearHighlight,
+  onOpenNotes,
 }: ScriptureCardProps) {
   const [isResourceSelectorOpen, setIsResourceSelectorOpen] = useState(false);
   const [highlightedVerse, setHighlightedVerse] = useState<{ chapter: number; verse: number } | null>(null);
+  // Alignment and draft editing show one chapter at a time instead of the scrolling book
+  const [chapterView, setChapterView] = useState<{ mode: 'alignment' | 'draft'; chapter: number } | null>(null);
+  const [pendingSelection, setPendingSelection] = useState<PendingSelection | null>(null);
+  const [selectionNote, setSelectionNote] = useState<string | null>(null); // Note being written on the selected quote
   const chapterRefs = useRef<Map<number, HTMLDivElement>>(new Map());
   const hasScrolledToTarget = useRef(false);
   const passageRef = useRef<string | null>(null);
@@ -202,8 +465,59 @@ export function ScriptureCard({
     }
   }, [passage?.reference, passage?.targetChapter, passage?.targetVerse, passage?.book?.book]);
 
-  // Use virtualized scripture hook
-  const chapters = passage?.book?.chapters || [];
+  // Imported USFM drafts of this book join the parallel view as extra columns
+  const { drafts, isImporting, importDraft, updateDraftVerse, deleteDraft } = useDrafts();
+  const bookCode = passage?.book?.book ? toUsfmCode(passage.book.book) : null;
+  const bookDrafts = useMemo(() => drafts.filter(d => d.code === bookCode), [drafts, bookCode]);
+
+  // TN/TQ checking progress for this book, shown on chapter headers once anything is checked
+  const checkSummary = useMemo(() => summarizeChecks(checks, bookCode), [checks, bookCode]);
+  const checkProgress = useMemo(() => {
+    const book = bookCode ? findBook(bookCode) : null;
+    if (!book || checkSummary.size === 0) return null;
+    let checked = 0;
+    checkSummary.forEach(verses => { checked += verses.size; });
+    return { checked, total: book.verses.reduce((sum, count) => sum + count, 0) };
+  }, [checkSummary, bookCode]);
+  const getCheckStatuses = (chapter: number) => (checkProgress ? checkSummary.get(chapter) : null);
+
+  // Note tags as verse badges
+  const verseTags = useMemo(() => summarizeVerseTags(notes, bookCode), [notes, bookCode]);
+
+  // Note markers and colour highlights on verses
+  const verseMarks = useMemo(
+    () => summarizeVerseMarks(notes, highlights, bookCode, passage?.book?.chapters),
+    [notes, highlights, bookCode, passage?.book?.chapters]
+  );
+  const verseReference = useCallback(
+    (chapter: number, verse: number) => `${passage?.book?.book || ''} ${chapter}:${verse}`,
+    [passage?.book?.book]
+  );
+  const handleOpenNotes = useCallback(
+    (chapter: number, verse: number) => onOpenNotes?.(verseReference(chapter, verse)),
+    [onOpenNotes, verseReference]
+  );
+
+  // Parallel ULT / UST / gateway-language view
+  const parallel = useParallelScripture({
+    bookName: passage?.book?.book,
+    activeResource: resourcePreferences[0],
+    primaryBook: passage?.book,
+    primaryUsedFallback: fallbackState?.hasFallback,
+    drafts: bookDrafts,
+  });
+  const showParallel = parallel.isParallel && parallel.chapters.length > 0;
+  const parallelChapters = useMemo(
+    () => new Map(parallel.chapters.map(ch => [ch.chapter, ch])),
+    [parallel.chapters]
+  );
+
+  // Use virtualized scripture hook - in parallel mode it tracks the aligned rows
+  const bookChapters = passage?.book?.chapters;
+  const chapters = useMemo(() => {
+    if (showParallel) return toEstimateChapters(parallel.chapters, parallel.layout);
+    return bookChapters || [];
+  }, [showParallel, parallel.chapters, parallel.layout, bookChapters]);
   const {
     containerRef,
     registerChapter,
@@ -227,6 +541,14 @@ export function ScriptureCard({
     return null;
   }, [verseFilter]);
 
+  // Share where we are reading with teammates in the same workspace and book
+  const presenceChapter = chapterView?.chapter || selectedVerse?.chapter || passage?.targetChapter;
+  const { viewers, viewersByChapter } = useBookPresence({
+    bookCode,
+    chapter: presenceChapter,
+    verse: selectedVerse?.chapter === presenceChapter ? selectedVerse.verse : undefined,
+  });
+
   // Scroll to target verse once chapter is rendered
   useEffect(() => {
     if (!passage?.targetChapter || hasScrolledToTarget.current) return;
@@ -246,14 +568,91 @@ export function ScriptureCard({
     return () => clearTimeout(timer);
   }, [passage?.targetChapter, passage?.targetVerse, passage?.book?.book, shouldRenderChapter, scrollToVerse, onVerseSelect]);
 
+  // A selection inside one verse can be highlighted as a word span; any selection can go to notes
   const handleTextSelection = () => {
     const selection = window.getSelection();
-    if (selection && selection.toString().trim()) {
-      const selectedText = selection.toString().trim();
-      if (confirm(`Add to notes?\n\n"${selectedText.substring(0, 100)}${selectedText.length > 100 ? '...' : ''}"`)) {
-        onAddToNotes(selectedText);
-      }
+    const selectedText = selection?.toString().trim();
+    if (!selection || !selectedText || selection.rangeCount === 0) {
+      // Leave the toolbar alone while a note on the quote is being written
+      if (selectionNote === null) setPendingSelection(null);
+      return;
+    }
+    setSelectionNote(null);
+
+    const range = selection.getRangeAt(0);
+    const verseTextOf = (node: Node) =>
+      (node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement)?.closest('[data-verse-text]');
+    const verseText = verseTextOf(range.startContainer);
+    if (!verseText || verseText !== verseTextOf(range.endContainer)) {
+      setPendingSelection({ text: selectedText });
+      return;
     }
+
+    // Offset of the selection within the verse text, ignoring selected leading whitespace
+    const before = document.createRange();
+    before.selectNodeContents(verseText);
+    before.setEnd(range.startContainer, range.startOffset);
+    const raw = selection.toString();
+    const offset = before.toString().length + (raw.length - raw.trimStart().length);
+    const [chapter, verse] = (verseText.getAttribute('data-verse-text') || '').split(':').map(Number);
+
+    setPendingSelection({
+      text: selectedText,
+      chapter,
+      verse,
+      occurrence: getOccurrenceAt(verseText.textContent || '', selectedText, offset),
+      source: verseText.getAttribute('data-verse-source') || passage?.translation,
+    });
+  };
+
+  const dismissSelection = () => {
+    window.getSelection()?.removeAllRanges();
+    setPendingSelection(null);
+    setSelectionNote(null);
+  };
+
+  // A selection inside one verse becomes the note's quote; the note text is asked for inline
+  const addSelectionToNotes = () => {
+    if (!pendingSelection) return;
+    const { text, chapter, verse, occurrence = 1, source } = pendingSelection;
+    if (!chapter || !verse) {
+      onAddToNotes(text);
+    } else if (selectionNote === null) {
+      setSelectionNote('');
+      return;
+    } else {
+      onAddToNotes(selectionNote.trim() || text, verseReference(chapter, verse), { quote: text, occurrence, source });
+    }
+    dismissSelection();
+  };
+
+  // Picking the colour a verse already has clears it
+  const toggleVerseHighlight = (chapter: number, verse: number, color: HighlightColor) => {
+    const sourceReference = verseReference(chapter, verse);
+    const existing = highlights.find(h => !h.quote && h.sourceReference === sourceReference);
+    if (existing?.color === color) {
+      onClearHighlight?.(existing.id);
+    } else {
+      onSetHighlight?.({ sourceReference, color });
+    }
+  };
+
+  const pendingSpan = pendingSelection?.chapter && pendingSelection.verse
+    ? highlights.find(h =>
+        h.sourceReference === verseReference(pendingSelection.chapter!, pendingSelection.verse!) &&
+        h.quote === pendingSelection.text &&
+        h.occurrence === pendingSelection.occurrence)
+    : undefined;
+
+  const highlightSelection = (color: HighlightColor) => {
+    if (!pendingSelection?.chapter || !pendingSelection.verse) return;
+    onSetHighlight?.({
+      sourceReference: verseReference(pendingSelection.chapter, pendingSelection.verse),
+      quote: pendingSelection.text,
+      occurrence: pendingSelection.occurrence,
+      color,
+    });
+    dismissSelection();
   };
 
   const handleVerseClick = useCallback((chapter: number, verseNum: number, e: React.MouseEvent) => {
@@ -272,12 +671,111 @@ export function ScriptureCard({
     }
   }, [passage?.book?.book, selectedVerse, onVerseSelect]);
 
+  // Chapter views start from the focused verse and follow navigation
+  const toggleChapterView = (mode: 'alignment' | 'draft') => {
+    setChapterView(prev => prev?.mode === mode
+      ? null
+      : { mode, chapter: prev?.chapter || selectedVerse?.chapter || passage?.targetChapter || 1 });
+  };
+
+  useEffect(() => {
+    if (passage?.targetChapter) {
+      setChapterView(prev => prev && { ...prev, chapter: passage.targetChapter! });
+    }
+  }, [passage?.targetChapter, passage?.book?.book]);
+
+  // Draft editing needs a draft of the open book
+  useEffect(() => {
+    if (bookDrafts.length === 0) {
+      setChapterView(prev => (prev?.mode === 'draft' ? null : prev));
+    }
+  }, [bookDrafts.length]);
+
+  const setChapterViewChapter = useCallback((chapter: number) => {
+    setChapterView(prev => prev && { ...prev, chapter });
+  }, []);
+
+  const handleImportDraft = async (file: File) => {
+    const draft = await importDraft(file);
+    // Show a draft of the open book next to the other texts straight away
+    if (draft && draft.code === bookCode && !parallel.isParallel) {
+      parallel.setLayout('columns');
+      setChapterView(null);
+    }
+  };
+
   const clearVerseSelection = () => {
     if (selectedVerse && passage?.book?.book) {
       onVerseSelect?.(`${passage.book.book} ${selectedVerse.chapter}`);
     }
   };
 
+  const selectionToolbar = pendingSelection && (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="absolute bottom-16 left-4 right-4 z-20 max-w-xl mx-auto flex items-center gap-2 rounded-xl border border-border bg-card/95 backdrop-blur-sm shadow-lg px-3 py-2"
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <span className={cn("min-w-0 truncate text-xs text-muted-foreground", selectionNote === null ? "flex-1" : "max-w-[35%]")}>
+        "{pendingSelection.text}"
+      </span>
+      {selectionNote !== null && (
+        <input
+          autoFocus
+          value={selectionNote}
+          onChange={(e) => setSelectionNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addSelectionToNotes();
+            if (e.key === 'Escape') dismissSelection();
+          }}
+          placeholder="Note on this quote…"
+          className="flex-1 min-w-0 bg-muted/50 rounded-md px-2 py-1 text-xs text-foreground outline-none"
+        />
+      )}
+      {selectionNote === null && pendingSelection.verse && onSetHighlight && (
+        <div className="flex items-center gap-1 shrink-0">
+          {HIGHLIGHT_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => highlightSelection(color)}
+              className={cn(
+                "w-4 h-4 rounded-full transition-transform hover:scale-110",
+                HIGHLIGHT_STYLES[color].swatch,
+                pendingSpan?.color === color && "ring-2 ring-offset-1 ring-offset-card ring-foreground/60"
+              )}
+              title={`Highlight ${HIGHLIGHT_STYLES[color].label.toLowerCase()}`}
+              aria-label={`Highlight ${HIGHLIGHT_STYLES[color].label.toLowerCase()}`}
+            />
+          ))}
+          {pendingSpan && onClearHighlight && (
+            <button
+              onClick={() => {
+                onClearHighlight(pendingSpan.id);
+                dismissSelection();
+              }}
+              className="p-1 text-muted-foreground hover:text-foreground"
+              title="Remove highlight"
+              aria-label="Remove highlight"
+            >
+              <Eraser className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+      <button
+        onClick={addSelectionToNotes}
+        className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg bg-primary/10 hover:bg-primary/20 text-primary text-xs font-medium transition-colors"
+      >
+        <PenLine className="w-3 h-3" />
+        {selectionNote === null ? 'Add to notes' : 'Save'}
+      </button>
+      <button onClick={dismissSelection} className="shrink-0 text-muted-foreground hover:text-foreground" aria-label="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </motion.div>
+  );
+
   // Loading skeleton - show when loading OR when passage exists but has no chapters yet
   const showLoadingSkeleton = isLoading && (!passage || !passage.book?.chapters?.length);
   
@@ -390,16 +888,45 @@ export function ScriptureCard({
             animate={{ opacity: 1, y: 0 }}
             className="px-6 pb-2"
           >
-            <div className="flex items-center justify-between bg-primary/10 rounded-lg px-3 py-2">
-              <span className="text-xs text-primary font-medium">
+            <div className="flex items-center justify-between gap-2 bg-primary/10 rounded-lg px-3 py-2">
+              <span className="text-xs text-primary font-medium truncate">
                 Focused: {passage.book.book} {selectedVerse.chapter}:{selectedVerse.verse}
               </span>
-              <button
-                onClick={clearVerseSelection}
-                className="text-primary/70 hover:text-primary transition-colors"
-              >
-                <X className="w-4 h-4" />
-              </button>
+              <div className="flex items-center gap-2 shrink-0">
+                {onOpenNotes && (verseMarks.get(selectedVerse.chapter)?.get(selectedVerse.verse)?.noteCount ?? 0) > 0 && (
+                  <button
+                    onClick={() => handleOpenNotes(selectedVerse.chapter, selectedVerse.verse)}
+                    className="flex items-center gap-1 text-[11px] text-emerald-400 hover:text-emerald-300"
+                  >
+                    <StickyNote className="w-3 h-3" />
+                    {verseMarks.get(selectedVerse.chapter)!.get(selectedVerse.verse)!.noteCount} notes
+                  </button>
+                )}
+                {onSetHighlight && (
+                  <div className="flex items-center gap-1">
+                    {HIGHLIGHT_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => toggleVerseHighlight(selectedVerse.chapter, selectedVerse.verse, color)}
+                        className={cn(
+                          "w-3.5 h-3.5 rounded-full transition-transform hover:scale-110",
+                          HIGHLIGHT_STYLES[color].swatch,
+                          verseMarks.get(selectedVerse.chapter)?.get(selectedVerse.verse)?.highlight === color &&
+                            "ring-2 ring-offset-1 ring-offset-background ring-foreground/60"
+                        )}
+                        title={`Highlight verse ${HIGHLIGHT_STYLES[color].label.toLowerCase()}`}
+                        aria-label={`Highlight verse ${HIGHLIGHT_STYLES[color].label.toLowerCase()}`}
+                      />
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={clearVerseSelection}
+                  className="text-primary/70 hover:text-primary transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
             </div>
           </motion.div>
         )}
@@ -408,12 +935,12 @@ export function ScriptureCard({
         <motion.div
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
-          className="px-6 pb-3 bg-background/95 backdrop-blur-sm z-10"
+          className="px-6 pb-3 bg-background/95 backdrop-blur-sm z-10 flex items-center gap-3"
         >
           <button
             onClick={() => onResourceSelect && setIsResourceSelectorOpen(true)}
             className={cn(
-              "flex items-center justify-between w-full text-left",
+              "flex items-center justify-between flex-1 min-w-0 text-left",
               onResourceSelect && "hover:bg-primary/5 -mx-2 px-2 py-1 rounded-lg transition-colors"
             )}
             disabled={!onResourceSelect}
@@ -425,6 +952,16 @@ export function ScriptureCard({
                 {onResourceSelect && <ChevronDown className="w-3 h-3 text-primary/60" />}
               </div>
               <span className="text-xs text-muted-foreground">{passage.translation}</span>
+              {checkProgress && (
+                <span className="block text-[10px] text-muted-foreground/70">
+                  {checkProgress.checked} of {checkProgress.total} verses checked
+                </span>
+              )}
+              {viewers.length > 0 && (
+                <span className="block text-[10px] text-muted-foreground/70">
+                  {viewers.length} {viewers.length === 1 ? 'teammate' : 'teammates'} reading this book
+                </span>
+              )}
             </div>
             {fallbackState?.hasFallback && (
               <div onClick={(e) => e.stopPropagation()}>
@@ -436,8 +973,90 @@ export function ScriptureCard({
               </div>
             )}
           </button>
+          <div className="flex items-center rounded-lg bg-muted/50 p-0.5 shrink-0">
+            {PARALLEL_LAYOUTS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => {
+                  parallel.setLayout(id);
+                  setChapterView(null);
+                }}
+                title={label}
+                aria-label={label}
+                aria-pressed={!chapterView && parallel.layout === id}
+                className={cn(
+                  "p-1.5 rounded-md transition-colors",
+                  !chapterView && parallel.layout === id
+                    ? "bg-background text-primary shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                <Icon className="w-3.5 h-3.5" />
+              </button>
+            ))}
+            <button
+              onClick={() => toggleChapterView('alignment')}
+              title="Original-language alignment"
+              aria-label="Original-language alignment"
+              aria-pressed={chapterView?.mode === 'alignment'}
+              className={cn(
+                "p-1.5 rounded-md transition-colors",
+                chapterView?.mode === 'alignment'
+                  ? "bg-background text-primary shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <Languages className="w-3.5 h-3.5" />
+            </button>
+            {bookDrafts.length > 0 && (
+              <button
+                onClick={() => toggleChapterView('draft')}
+                title="Edit draft"
+                aria-label="Edit draft"
+                aria-pressed={chapterView?.mode === 'draft'}
+                className={cn(
+                  "p-1.5 rounded-md transition-colors",
+                  chapterView?.mode === 'draft'
+                    ? "bg-background text-primary shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                <PenLine className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          <ScriptureFileMenu
+            bookName={passage.book.book}
+            chapters={passage.book.chapters}
+            currentChapter={chapterView?.chapter || selectedVerse?.chapter || passage.targetChapter || 1}
+            notes={notes}
+            drafts={bookDrafts}
+            isImporting={isImporting}
+            onImportDraft={handleImportDraft}
+            onDeleteDraft={deleteDraft}
+          />
         </motion.div>
 
+        {/* Parallel text labels */}
+        {parallel.isParallel && !chapterView && (
+          <div
+            className={cn(
+              "px-6 pb-2 max-w-5xl w-full mx-auto gap-4 text-[11px] text-muted-foreground",
+              parallel.layout === 'columns' ? "grid" : "flex flex-wrap"
+            )}
+            style={parallel.layout === 'columns' ? { gridTemplateColumns: `repeat(${parallel.columns.length}, minmax(0, 1fr))` } : undefined}
+          >
+            {parallel.columns.map(column => (
+              <div key={column.id} className="flex items-center gap-1 min-w-0">
+                <span className="font-medium uppercase tracking-wide truncate">{column.label}</span>
+                {column.isLoading && <Loader2 className="w-3 h-3 animate-spin shrink-0" />}
+                {column.error && <AlertCircle className="w-3 h-3 text-destructive shrink-0" aria-label={column.error} />}
+                {column.usedFallback && <span className="text-muted-foreground/60 truncate">(fallback)</span>}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Resource Selector */}
         {onResourceSelect && (
           <ResourceSelector
@@ -457,9 +1076,31 @@ export function ScriptureCard({
           onMouseUp={handleTextSelection}
           onTouchEnd={handleTextSelection}
         >
-          <div className="max-w-xl mx-auto pt-2">
-            {chapters.map((chapter) => {
+          <div className={cn("mx-auto pt-2", showParallel && !chapterView ? "max-w-5xl" : "max-w-xl")}>
+            {chapterView?.mode === 'alignment' ? (
+              <AlignmentView
+                bookName={passage.book.book}
+                chapter={chapterView.chapter}
+                totalChapters={passage.book.chapters.length}
+                onChapterChange={setChapterViewChapter}
+                selectedVerse={selectedVerse}
+                onVerseClick={handleVerseClick}
+              />
+            ) : chapterView?.mode === 'draft' ? (
+              <DraftEditorView
+                drafts={bookDrafts}
+                chapter={chapterView.chapter}
+                totalChapters={passage.book.chapters.length}
+                onChapterChange={setChapterViewChapter}
+                referenceChapter={passage.book.chapters.find(ch => ch.chapter === chapterView.chapter)}
+                referenceLabel={passage.translation}
+                selectedVerse={selectedVerse}
+                onVerseClick={handleVerseClick}
+                onSaveVerse={updateDraftVerse}
+              />
+            ) : chapters.map((chapter) => {
               const isRendered = shouldRenderChapter(chapter.chapter);
+              const parallelChapter = showParallel ? parallelChapters.get(chapter.chapter) : undefined;
               
               return (
                 <div
@@ -475,7 +1116,22 @@ export function ScriptureCard({
                   data-chapter={chapter.chapter}
                   style={!isRendered ? { minHeight: getChapterHeight(chapter.chapter) } : undefined}
                 >
-                  {isRendered ? (
+                  {isRendered && parallelChapter ? (
+                    <VirtualizedParallelChapter
+                      chapter={parallelChapter}
+                      columns={parallel.columns}
+                      layout={parallel.layout}
+                      selectedVerse={selectedVerse}
+                      highlightedVerse={highlightedVerse}
+                      onVerseClick={handleVerseClick}
+                      registerVerse={registerVerse}
+                      checkStatuses={getCheckStatuses(chapter.chapter)}
+                      viewers={viewersByChapter.get(chapter.chapter)}
+                      verseTags={verseTags.get(chapter.chapter)}
+                      verseMarks={verseMarks.get(chapter.chapter)}
+                      onOpenNotes={onOpenNotes ? handleOpenNotes : undefined}
+                    />
+                  ) : isRendered ? (
                     <VirtualizedChapter
                       chapter={chapter}
                       bookName={passage.book!.book}
@@ -484,6 +1140,11 @@ export function ScriptureCard({
                       onVerseClick={handleVerseClick}
                       currentLanguage={currentLanguage}
                       registerVerse={registerVerse}
+                      checkStatuses={getCheckStatuses(chapter.chapter)}
+                      viewers={viewersByChapter.get(chapter.chapter)}
+                      verseTags={verseTags.get(chapter.chapter)}
+                      verseMarks={verseMarks.get(chapter.chapter)}
+                      onOpenNotes={onOpenNotes ? handleOpenNotes : undefined}
                     />
                   ) : (
                     <ChapterSkeleton 
@@ -499,11 +1160,13 @@ export function ScriptureCard({
         </div>
 
         {/* Selection hint */}
-        <div className="absolute bottom-20 left-0 right-0 text-center">
-          <p className="text-xs text-muted-foreground/50">
-            {selectedVerse ? 'Tap verse again to clear filter' : 'Tap a verse to focus resources'}
-          </p>
-        </div>
+        {selectionToolbar || (
+          <div className="absolute bottom-20 left-0 right-0 text-center">
+            <p className="text-xs text-muted-foreground/50">
+              {selectedVerse ? 'Tap verse again to clear filter' : 'Tap a verse to focus resources'}
+            </p>
+          </div>
+        )}
       </div>
     );
   }
@@ -551,11 +1214,13 @@ export function ScriptureCard({
         </motion.div>
       </div>
 
-      <div className="absolute bottom-20 left-0 right-0 text-center">
-        <p className="text-xs text-muted-foreground/50">
-          Select text to add to notes
-        </p>
-      </div>
+      {selectionToolbar || (
+        <div className="absolute bottom-20 left-0 right-0 text-center">
+          <p className="text-xs text-muted-foreground/50">
+            Select text to add to notes
+          </p>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,122 @@
+import { useRef } from 'react';
+import { MoreVertical, FileDown, FileUp, Trash2, Loader2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ScriptureChapter, Note } from '@/types';
+import { ImportedDraft } from '@/services/resourceCache';
+import { exportUsfm, downloadTextFile, UsfmNoteMode } from '@/lib/usfm';
+import { toast } from '@/hooks/use-toast';
+
+interface ScriptureFileMenuProps {
+  bookName: string;
+  chapters: ScriptureChapter[];
+  currentChapter: number;
+  notes: Note[];
+  drafts: ImportedDraft[]; // Drafts of the current book
+  isImporting: boolean;
+  onImportDraft: (file: File) => void;
+  onDeleteDraft: (id: string) => void;
+}
+
+// USFM export of the loaded text and import of local drafts
+export function ScriptureFileMenu({
+  bookName,
+  chapters,
+  currentChapter,
+  notes,
+  drafts,
+  isImporting,
+  onImportDraft,
+  onDeleteDraft,
+}: ScriptureFileMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (noteMode: UsfmNoteMode, chapter?: number) => {
+    try {
+      const result = exportUsfm({ bookName, chapters, notes, noteMode, chapter });
+      downloadTextFile(result.fileName, result.usfm);
+      if (result.sidecar) {
+        downloadTextFile(result.sidecar.fileName, result.sidecar.content, 'text/tab-separated-values');
+      }
+    } catch (error) {
+      console.error('[ScriptureFileMenu] Export failed:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportDraft(file);
+    e.target.value = '';
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".usfm,.sfm,.txt"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="p-1.5 rounded-md transition-colors text-muted-foreground hover:text-foreground hover:bg-muted/50 shrink-0"
+            title="Import / export USFM"
+            aria-label="Import / export USFM"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <MoreVertical className="w-4 h-4" />}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Export USFM</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => handleExport('footnotes', currentChapter)} className="gap-2 cursor-pointer">
+            <FileDown className="w-4 h-4" />
+            {bookName} {currentChapter} with notes
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('footnotes')} className="gap-2 cursor-pointer">
+            <FileDown className="w-4 h-4" />
+            {bookName} with notes as footnotes
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('sidecar')} className="gap-2 cursor-pointer">
+            <FileDown className="w-4 h-4" />
+            {bookName} + notes file (TSV)
+          </DropdownMenuItem>
+
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Drafts</DropdownMenuLabel>
+          <DropdownMenuItem
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="gap-2 cursor-pointer"
+          >
+            <FileUp className="w-4 h-4" />
+            Import USFM draft…
+          </DropdownMenuItem>
+          {drafts.map(draft => (
+            <DropdownMenuItem
+              key={draft.id}
+              onClick={() => onDeleteDraft(draft.id)}
+              className="gap-2 cursor-pointer text-muted-foreground"
+              title={`Remove ${draft.fileName}`}
+            >
+              <Trash2 className="w-4 h-4 shrink-0" />
+              <span className="truncate">Remove {draft.title}</span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 import { ReactNode, useMemo } from 'react';
 import { segmentTextWithReferences, ScriptureReference } from '@/lib/scriptureReferenceParser';
+import { formatRef } from '@/lib/scriptureReference';
 import { cn } from '@/lib/utils';
 
 interface ScriptureReferenceTextProps {
@@ -7,25 +8,21 @@ interface ScriptureReferenceTextProps {
   onReferenceClick?: (reference: string) => void;
   className?: string;
   variant?: 'default' | 'user'; // 'user' for user message bubbles with primary background
+  language?: string; // Also recognize this language's book names
 }
 
 export function ScriptureReferenceText({ 
   text, 
   onReferenceClick,
   className,
-  variant = 'default'
+  variant = 'default',
+  language,
 }: ScriptureReferenceTextProps) {
-  const segments = useMemo(() => segmentTextWithReferences(text), [text]);
+  const segments = useMemo(() => segmentTextWithReferences(text, language), [text, language]);
 
   const handleClick = (ref: ScriptureReference) => {
-    // Construct the reference string: "Book Chapter:Verse" or "Book Chapter"
-    let refString = `${ref.book} ${ref.chapter}`;
-    if (ref.verse) {
-      refString += `:${ref.verse}`;
-      if (ref.endVerse) {
-        refString += `-${ref.endVerse}`;
-      }
-    }
+    // Canonical form keeps verse lists and cross-chapter ranges ("Romans 1:1, 5, 7")
+    const refString = formatRef(ref.parsed);
     onReferenceClick?.(refString);
   };
 
@@ -79,8 +79,8 @@ export function SearchCard({
   // Memoize markdown components with current search term and click handler
   const searchQuery = results?.query || filterQuery || '';
   const markdownComponents = useMemo(
-    () => createMarkdownComponents(searchQuery, onVerseClick),
-    [searchQuery, onVerseClick]
+    () => createMarkdownComponents(searchQuery, onVerseClick, currentLanguage),
+    [searchQuery, onVerseClick, currentLanguage]
   );
 
   // Handle empty state
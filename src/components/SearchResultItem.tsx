@@ -203,7 +203,7 @@ function SearchResultItemInner({
   };
 
   // Create markdown components with search highlighting and reference clicking
-  const markdownComponents = createMarkdownComponents(searchQuery, onVerseClick);
+  const markdownComponents = createMarkdownComponents(searchQuery, onVerseClick, currentLanguage);
 
   // Handle click - LLM-driven interactions (Prompt over code)
   const handleClick = () => {
@@ -241,7 +241,7 @@ function SearchResultItemInner({
 
   // Memoize preview components that include scripture reference parsing
   const previewComponents = useMemo(() => {
-    const fullComponents = createMarkdownComponents(searchQuery, onVerseClick);
+    const fullComponents = createMarkdownComponents(searchQuery, onVerseClick, currentLanguage);
     return {
       ...fullComponents,
       // Override with line-clamping for preview while keeping reference parsing
@@ -274,7 +274,7 @@ function SearchResultItemInner({
         );
       },
     };
-  }, [searchQuery, onVerseClick, onSearch]);
+  }, [searchQuery, onVerseClick, onSearch, currentLanguage]);
 
   return (
     <div className="glass-card rounded-xl overflow-hidden group relative animate-fade-in border border-border/30 max-w-full">
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Users, UserRound, ChevronDown, Plus, LogIn, Copy, LogOut, Loader2, Check } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useAuth } from '@/hooks/useAuth';
+import { parseBookList, describeWorkspaceBooks } from '@/lib/workspaces';
+import { toast } from '@/hooks/use-toast';
+
+interface WorkspaceMenuProps {
+  defaultLanguage?: string;
+  defaultOrganization?: string;
+}
+
+type Panel = 'create' | 'join' | null;
+
+const inputClassName = "w-full bg-muted/50 rounded-lg px-3 py-1.5 text-xs text-foreground outline-none placeholder:text-muted-foreground";
+
+// Switch between personal notes and team workspaces, or create / join one
+export function WorkspaceMenu({ defaultLanguage = 'en', defaultOrganization = 'unfoldingWord' }: WorkspaceMenuProps) {
+  const { user, isAnonymous } = useAuth();
+  const { workspaces, activeWorkspace, members, setActiveWorkspaceId, createWorkspace, joinWorkspace, leaveWorkspace } = useWorkspace();
+  const [panel, setPanel] = useState<Panel>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState({
+    name: '',
+    language: defaultLanguage,
+    organization: defaultOrganization,
+    books: '',
+    inviteCode: '',
+    displayName: user?.email?.split('@')[0] || '',
+  });
+
+  const updateForm = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { codes, unknown } = parseBookList(form.books);
+    if (unknown.length > 0) {
+      toast({ title: 'Unknown books', description: unknown.join(', '), variant: 'destructive' });
+      return;
+    }
+    setIsSaving(true);
+    const workspace = await createWorkspace({
+      name: form.name.trim(),
+      language: form.language.trim(),
+      organization: form.organization.trim(),
+      books: codes,
+      displayName: form.displayName.trim(),
+    });
+    setIsSaving(false);
+    if (!workspace) {
+      toast({ title: 'Could not create workspace', variant: 'destructive' });
+      return;
+    }
+    setPanel(null);
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const workspace = await joinWorkspace(form.inviteCode.trim(), form.displayName.trim());
+    setIsSaving(false);
+    if (!workspace) {
+      toast({ title: 'Could not join workspace', description: 'Check the invite code and try again.', variant: 'destructive' });
+      return;
+    }
+    toast({ title: `Joined ${workspace.name}` });
+    setPanel(null);
+  };
+
+  const handleCopyInvite = async () => {
+    if (!activeWorkspace) return;
+    await navigator.clipboard.writeText(activeWorkspace.inviteCode);
+    toast({ title: 'Invite code copied', description: `Share ${activeWorkspace.inviteCode} with your team` });
+  };
+
+  return (
+    <div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors max-w-full">
+            {activeWorkspace ? <Users className="w-3 h-3 text-primary shrink-0" /> : <UserRound className="w-3 h-3 shrink-0" />}
+            <span className="truncate">{activeWorkspace ? activeWorkspace.name : 'Personal notes'}</span>
+            {activeWorkspace && <span className="text-muted-foreground/60 shrink-0">· {members.length}</span>}
+            <ChevronDown className="w-3 h-3 shrink-0" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onClick={() => setActiveWorkspaceId(null)}>
+            <UserRound className="w-4 h-4 mr-2" />
+            <span className="flex-1">Personal notes</span>
+            {!activeWorkspace && <Check className="w-3 h-3" />}
+          </DropdownMenuItem>
+          {workspaces.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Team workspaces</DropdownMenuLabel>
+              {workspaces.map(workspace => (
+                <DropdownMenuItem key={workspace.id} onClick={() => setActiveWorkspaceId(workspace.id)}>
+                  <Users className="w-4 h-4 mr-2" />
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{workspace.name}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {workspace.language} · {workspace.organization} · {describeWorkspaceBooks(workspace)}
+                    </p>
+                  </div>
+                  {activeWorkspace?.id === workspace.id && <Check className="w-3 h-3" />}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setPanel('create')}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create workspace…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setPanel('join')}>
+            <LogIn className="w-4 h-4 mr-2" />
+            Join with invite code…
+          </DropdownMenuItem>
+          {activeWorkspace && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={handleCopyInvite}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy invite code
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => leaveWorkspace(activeWorkspace.id)} className="text-destructive focus:text-destructive">
+                <LogOut className="w-4 h-4 mr-2" />
+                Leave {activeWorkspace.name}
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {panel && (
+        <motion.form
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          onSubmit={panel === 'create' ? handleCreate : handleJoin}
+          className="mt-2 rounded-xl bg-muted/30 p-3 space-y-2"
+        >
+          {isAnonymous && (
+            <p className="text-[10px] text-muted-foreground">
+              Tip: add your email in History so you keep access to the workspace on other devices.
+            </p>
+          )}
+          {panel === 'create' ? (
+            <>
+              <input value={form.name} onChange={updateForm('name')} placeholder="Workspace name" className={inputClassName} required />
+              <div className="grid grid-cols-2 gap-2">
+                <input value={form.language} onChange={updateForm('language')} placeholder="Language" className={inputClassName} required />
+                <input value={form.organization} onChange={updateForm('organization')} placeholder="Organization" className={inputClassName} required />
+              </div>
+              <input value={form.books} onChange={updateForm('books')} placeholder="Books, e.g. Ruth, Jonah (empty = whole Bible)" className={inputClassName} />
+            </>
+          ) : (
+            <input value={form.inviteCode} onChange={updateForm('inviteCode')} placeholder="Invite code" className={inputClassName} required />
+          )}
+          <input value={form.displayName} onChange={updateForm('displayName')} placeholder="Your name in this team" className={inputClassName} required />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setPanel(null)} className="text-xs px-3 py-1.5 rounded-lg bg-muted text-muted-foreground">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="text-xs px-3 py-1.5 rounded-lg bg-primary text-primary-foreground flex items-center gap-1">
+              {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+              {panel === 'create' ? 'Create' : 'Join'}
+            </button>
+          </div>
+        </motion.form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useTrace } from '@/contexts/TraceContext';
+import { AuthContext } from '@/hooks/useAuth';
+import { getDeviceId } from '@/hooks/useDeviceId';
+import { claimLegacyDeviceData } from '@/lib/legacyClaim';
+
+// Claim token of the guest session that is signing in to an existing account
+const GUEST_CLAIM_KEY = 'bible-study-guest-claim';
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { trace } = useTrace();
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const claimedUsers = useRef<Set<string>>(new Set());
+  const legacyClaimStarted = useRef(false);
+
+  // A guest who signed in to an existing account brings their data along, using the
+  // claim token their guest session got from the server before leaving
+  const claimGuestData = useCallback(async (user: User) => {
+    const token = localStorage.getItem(GUEST_CLAIM_KEY);
+    if (!token || user.is_anonymous || claimedUsers.current.has(user.id)) return;
+    claimedUsers.current.add(user.id);
+
+    trace('auth', 'start', 'Claiming guest data', {
+      displayName: 'Auth',
+      layer: 'client',
+    });
+
+    const { data, error } = await supabase.rpc('claim_guest_data', { p_token: token });
+    if (error) {
+      console.error('[Auth] Error claiming guest data:', error);
+      trace('auth', 'error', error.message);
+      claimedUsers.current.delete(user.id);
+      return;
+    }
+    localStorage.removeItem(GUEST_CLAIM_KEY);
+    trace('auth', 'complete', `Claimed ${data} rows`);
+  }, [trace]);
+
+  // Rows this browser wrote before accounts existed go to its first session, once
+  const claimLegacyData = useCallback(async () => {
+    if (legacyClaimStarted.current) return;
+    legacyClaimStarted.current = true;
+
+    const claimed = await claimLegacyDeviceData(
+      deviceId => supabase.rpc('claim_legacy_device_data', { p_device_id: deviceId }),
+      getDeviceId(),
+    );
+    if (claimed) {
+      trace('auth', 'complete', `Claimed ${claimed} rows from before accounts`, {
+        displayName: 'Auth',
+        layer: 'client',
+      });
+    }
+  }, [trace]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const applySession = async (next: Session | null) => {
+      if (next?.user) {
+        await claimGuestData(next.user);
+        await claimLegacyData();
+      }
+      if (!cancelled) {
+        setSession(next);
+        setIsLoading(false);
+      }
+    };
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, next) => {
+      if (event === 'INITIAL_SESSION') return;
+      // Supabase warns against awaiting client calls inside this callback
+      setTimeout(() => applySession(next), 0);
+    });
+
+    // Everyone gets a session - guests are anonymous users until they add an email
+    supabase.auth.getSession().then(async ({ data }) => {
+      if (data.session) {
+        await applySession(data.session);
+        return;
+      }
+      const { data: anonymous, error } = await supabase.auth.signInAnonymously();
+      if (error) {
+        console.error('[Auth] Anonymous sign-in failed:', error);
+        if (!cancelled) setIsLoading(false);
+        return;
+      }
+      await applySession(anonymous.session);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [claimGuestData, claimLegacyData]);
+
+  // Guests keep their user id by attaching the email; otherwise this signs in to an existing account
+  const sendMagicLink = useCallback(async (email: string) => {
+    const emailRedirectTo = window.location.origin;
+    const { error } = session?.user?.is_anonymous
+      ? await supabase.auth.updateUser({ email }, { emailRedirectTo })
+      : await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo } });
+
+    if (error) {
+      console.error('[Auth] Magic link failed:', error);
+      // The email already belongs to an account - sign in to it instead; the guest's data follows
+      if (session?.user?.is_anonymous && /already (been )?registered|already exists/i.test(error.message)) {
+        const { data: claimToken, error: claimError } = await supabase.rpc('create_guest_claim');
+        if (claimError) console.error('[Auth] Could not prepare guest data claim:', claimError);
+        if (claimToken) localStorage.setItem(GUEST_CLAIM_KEY, claimToken);
+
+        const { error: otpError } = await supabase.auth.signInWithOtp({
+          email,
+          options: { emailRedirectTo, shouldCreateUser: false },
+        });
+        if (!otpError) return { ok: true };
+        return { ok: false, error: otpError.message };
+      }
+      return { ok: false, error: error.message };
+    }
+    return { ok: true };
+  }, [session]);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    // Back to a fresh guest session so the app keeps working
+    const { data, error } = await supabase.auth.signInAnonymously();
+    if (error) {
+      console.error('[Auth] Anonymous sign-in failed:', error);
+      setSession(null);
+      return;
+    }
+    setSession(data.session);
+  }, []);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: session?.user ?? null,
+        session,
+        isLoading,
+        isAnonymous: session?.user?.is_anonymous ?? true,
+        sendMagicLink,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Workspace, WorkspaceMember } from '@/types';
+import { NewWorkspace, WorkspaceContext } from '@/hooks/useWorkspace';
+import { useAuth } from '@/hooks/useAuth';
+import { useTrace } from '@/contexts/TraceContext';
+import { getActiveWorkspaceId, storeActiveWorkspaceId, toWorkspace, toWorkspaceMember } from '@/lib/workspaces';
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { trace } = useTrace();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(getActiveWorkspaceId);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const setActiveWorkspaceId = useCallback((id: string | null) => {
+    storeActiveWorkspaceId(id);
+    setActiveId(id);
+  }, []);
+
+  // RLS only returns workspaces the user is a member of
+  const fetchWorkspaces = useCallback(async () => {
+    if (!userId) return;
+
+    trace('workspaces', 'start', 'Fetching workspaces', {
+      displayName: 'Workspaces',
+      layer: 'client',
+    });
+
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching workspaces:', error);
+      trace('workspaces', 'error', error.message);
+    } else {
+      trace('workspaces', 'complete', `Fetched ${data.length} workspaces`);
+      setWorkspaces(data.map(toWorkspace));
+    }
+    setIsLoading(false);
+  }, [userId, trace]);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  const activeWorkspace = workspaces.find(w => w.id === activeId) || null;
+  const activeWorkspaceId = activeWorkspace?.id;
+
+  useEffect(() => {
+    if (!activeWorkspaceId) {
+      setMembers([]);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from('workspace_members')
+      .select('*')
+      .eq('workspace_id', activeWorkspaceId)
+      .order('display_name', { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching workspace members:', error);
+          return;
+        }
+        setMembers(data.map(toWorkspaceMember));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeWorkspaceId]);
+
+  const createWorkspace = useCallback(async (input: NewWorkspace) => {
+    trace('workspaces', 'start', `Creating ${input.name}`, {
+      displayName: 'Workspaces',
+      layer: 'client',
+    });
+
+    const { data, error } = await supabase.rpc('create_workspace', {
+      p_name: input.name,
+      p_language: input.language,
+      p_organization: input.organization,
+      p_books: input.books,
+      p_display_name: input.displayName,
+    });
+
+    if (error) {
+      console.error('Error creating workspace:', error);
+      trace('workspaces', 'error', error.message);
+      return null;
+    }
+
+    trace('workspaces', 'complete', `Created ${input.name}`);
+    const workspace = toWorkspace(data);
+    setWorkspaces(prev => [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+    setActiveWorkspaceId(workspace.id);
+    return workspace;
+  }, [trace, setActiveWorkspaceId]);
+
+  const joinWorkspace = useCallback(async (inviteCode: string, displayName: string) => {
+    trace('workspaces', 'start', 'Joining workspace', {
+      displayName: 'Workspaces',
+      layer: 'client',
+    });
+
+    const { data, error } = await supabase.rpc('join_workspace', {
+      p_invite_code: inviteCode,
+      p_display_name: displayName,
+    });
+
+    if (error) {
+      console.error('Error joining workspace:', error);
+      trace('workspaces', 'error', error.message);
+      return null;
+    }
+
+    trace('workspaces', 'complete', `Joined ${data.name}`);
+    const workspace = toWorkspace(data);
+    setWorkspaces(prev => [...prev.filter(w => w.id !== workspace.id), workspace].sort((a, b) => a.name.localeCompare(b.name)));
+    setActiveWorkspaceId(workspace.id);
+    return workspace;
+  }, [trace, setActiveWorkspaceId]);
+
+  const leaveWorkspace = useCallback(async (id: string) => {
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error leaving workspace:', error);
+      return false;
+    }
+
+    setWorkspaces(prev => prev.filter(w => w.id !== id));
+    if (activeId === id) setActiveWorkspaceId(null);
+    return true;
+  }, [userId, activeId, setActiveWorkspaceId]);
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        activeWorkspace,
+        members,
+        isLoading,
+        setActiveWorkspaceId,
+        createWorkspace,
+        joinWorkspace,
+        leaveWorkspace,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
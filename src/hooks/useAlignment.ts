@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchAlignedChapter,
+  fetchTranslationWordLinks,
+  fetchTranslationWord,
+  AlignedChapter,
+  TranslationWord,
+} from '@/services/translationHelpsApi';
+import { useTrace } from '@/contexts/TraceContext';
+
+export interface AlignmentSelection {
+  verse: number;
+  alignment: number;
+}
+
+export type WordLookupStatus = 'idle' | 'loading' | 'found' | 'missing';
+
+// TW articles are keyed by English term - prefer the verse's word links, then the gloss itself
+async function resolveTranslationWord(reference: string, gloss: string): Promise<TranslationWord | null> {
+  const glossWords = gloss.toLowerCase().split(/[^\p{L}\p{N}'-]+/u).filter(w => w.length > 2);
+  if (glossWords.length === 0) return null;
+
+  const links = await fetchTranslationWordLinks(reference);
+  const link = links.find(l => {
+    const terms = l.word.toLowerCase().split(/[^\p{L}\p{N}'-]+/u);
+    return glossWords.some(w => terms.includes(w) || l.articleId === w);
+  });
+  if (link) {
+    const word = await fetchTranslationWord(link.articleId);
+    if (word) return word;
+  }
+
+  for (const term of [...glossWords].reverse()) {
+    const word = await fetchTranslationWord(term);
+    if (word) return word;
+  }
+  return null;
+}
+
+export function useAlignment(bookName: string | undefined, chapter: number) {
+  const { trace } = useTrace();
+  const [data, setData] = useState<AlignedChapter | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<AlignmentSelection | null>(null);
+  const [translationWord, setTranslationWord] = useState<TranslationWord | null>(null);
+  const [wordStatus, setWordStatus] = useState<WordLookupStatus>('idle');
+
+  useEffect(() => {
+    if (!bookName || !chapter) return;
+    let cancelled = false;
+    const reference = `${bookName} ${chapter}`;
+
+    setIsLoading(true);
+    setError(null);
+    setSelection(null);
+    setTranslationWord(null);
+    setWordStatus('idle');
+    trace('alignment', 'start', `Loading alignment for ${reference}`, {
+      displayName: 'Alignment',
+      layer: 'client',
+    });
+
+    fetchAlignedChapter(bookName, chapter)
+      .then(result => {
+        if (cancelled) return;
+        setData(result);
+        trace('alignment', 'complete', `${result.verses.length} aligned verses for ${reference}`);
+      })
+      .catch(err => {
+        console.error('[useAlignment] Failed to load alignment:', err);
+        if (cancelled) return;
+        setData(null);
+        setError(err instanceof Error ? err.message : 'Failed to load alignment');
+        trace('alignment', 'error', `Alignment failed for ${reference}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [bookName, chapter, trace]);
+
+  const selectAlignment = useCallback((next: AlignmentSelection | null) => {
+    setSelection(prev =>
+      next && prev?.verse === next.verse && prev.alignment === next.alignment ? null : next
+    );
+    setTranslationWord(null);
+    setWordStatus('idle');
+  }, []);
+
+  const lookupTranslationWord = useCallback(async (verse: number, gloss: string) => {
+    if (!bookName) return null;
+    setWordStatus('loading');
+    try {
+      const word = await resolveTranslationWord(`${bookName} ${chapter}:${verse}`, gloss);
+      setTranslationWord(word);
+      setWordStatus(word ? 'found' : 'missing');
+      return word;
+    } catch (err) {
+      console.error('[useAlignment] Translation word lookup failed:', err);
+      setWordStatus('missing');
+      return null;
+    }
+  }, [bookName, chapter]);
+
+  return {
+    verses: data?.verses || [],
+    hasOriginalText: data?.hasOriginalText ?? false,
+    fallbackInfo: data?.fallbackInfo,
+    isLoading,
+    error,
+    selection,
+    selectAlignment,
+    translationWord,
+    wordStatus,
+    lookupTranslationWord,
+  };
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+
+export interface AuthContextValue {
+  user: User | null;
+  session: Session | null;
+  isLoading: boolean;
+  isAnonymous: boolean;
+  sendMagicLink: (email: string) => Promise<{ ok: boolean; error?: string }>;
+  signOut: () => Promise<void>;
+}
+
+// Provided by AuthProvider in contexts/AuthContext
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useWorkspace } from '@/hooks/useWorkspace';
+
+export interface BookViewer {
+  userId: string;
+  displayName: string;
+  chapter: number;
+  verse?: number;
+  at: number; // ms timestamp of the last position update
+}
+
+interface UseBookPresenceOptions {
+  bookCode: string | null;
+  chapter?: number;
+  verse?: number;
+}
+
+// Team members viewing the same book, over a Realtime presence channel per workspace + book.
+// Returns everyone except the current user, grouped by the chapter they are on.
+export function useBookPresence({ bookCode, chapter, verse }: UseBookPresenceOptions) {
+  const { user } = useAuth();
+  const { activeWorkspace, members } = useWorkspace();
+  const userId = user?.id;
+  const workspaceId = activeWorkspace?.id;
+  const displayName = members.find(m => m.userId === userId)?.displayName || 'Reviewer';
+  const [viewers, setViewers] = useState<BookViewer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const subscribedRef = useRef(false);
+
+  // Latest position, read when the channel (re)subscribes
+  const position = useMemo<BookViewer | null>(
+    () => (userId && chapter ? { userId, displayName, chapter, verse, at: Date.now() } : null),
+    [userId, displayName, chapter, verse]
+  );
+  const positionRef = useRef(position);
+  positionRef.current = position;
+
+  useEffect(() => {
+    if (!workspaceId || !bookCode || !userId) {
+      setViewers([]);
+      return;
+    }
+
+    const channel = supabase.channel(`book:${workspaceId}:${bookCode}`, {
+      config: { presence: { key: userId } },
+    });
+    channelRef.current = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<BookViewer>();
+        const latest = new Map<string, BookViewer>();
+        Object.values(state).flat().forEach(entry => {
+          if (entry.userId === userId) return;
+          const current = latest.get(entry.userId);
+          if (!current || entry.at > current.at) latest.set(entry.userId, entry);
+        });
+        setViewers(Array.from(latest.values()));
+      })
+      .subscribe(async (status) => {
+        subscribedRef.current = status === 'SUBSCRIBED';
+        if (subscribedRef.current && positionRef.current) {
+          await channel.track(positionRef.current);
+        }
+      });
+
+    return () => {
+      subscribedRef.current = false;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [workspaceId, bookCode, userId]);
+
+  // Broadcast position changes on the open channel
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel || !subscribedRef.current) return;
+    if (position) {
+      channel.track(position);
+    } else {
+      channel.untrack();
+    }
+  }, [position]);
+
+  const viewersByChapter = useMemo(() => {
+    const byChapter = new Map<number, BookViewer[]>();
+    viewers.forEach(viewer => {
+      const list = byChapter.get(viewer.chapter) || [];
+      list.push(viewer);
+      byChapter.set(viewer.chapter, list);
+    });
+    return byChapter;
+  }, [viewers]);
+
+  return { viewers, viewersByChapter };
+}
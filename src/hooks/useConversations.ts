@@ -1,57 +1,87 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { HistoryItem, Message } from '@/types';
+import { Database } from '@/integrations/supabase/types';
 import { useDeviceId } from './useDeviceId';
+import { useAuth } from '@/hooks/useAuth';
+
+// The search vector stays on the server
+type ConversationRow = Omit<Database['public']['Tables']['conversations']['Row'], 'search_vector'>;
+const CONVERSATION_COLUMNS = 'id, device_id, user_id, title, preview, scripture_reference, language, pinned, folder, active_leaf_id, created_at, updated_at';
+const MESSAGE_COLUMNS = 'id, conversation_id, role, content, agent, tool_calls, navigation_hint, parent_id, created_at';
+
+export interface ConversationSearchMatch {
+  conversationId: string;
+  score: number;
+  headline: string;  // Best matching snippet, hits wrapped in **
+  messageId?: string; // Set when the best hit is in a message rather than the title
+}
+
+export interface ConversationOrganization {
+  pinned?: boolean;
+  folder?: string | null; // null takes it out of its folder
+}
+
+function toHistoryItem(row: ConversationRow): HistoryItem {
+  return {
+    id: row.id,
+    title: row.title,
+    preview: row.preview || '',
+    timestamp: new Date(row.updated_at),
+    scriptureReference: row.scripture_reference || undefined,
+    pinned: row.pinned || undefined,
+    folder: row.folder || undefined,
+    activeLeafId: row.active_leaf_id || undefined,
+  };
+}
 
 export function useConversations(currentLanguage: string = 'en') {
   const deviceId = useDeviceId();
+  const { user } = useAuth();
+  const userId = user?.id;
   const [conversations, setConversations] = useState<HistoryItem[]>([]);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Fetch conversations filtered by language
   useEffect(() => {
-    if (!deviceId) return;
+    if (!userId) return;
 
     const fetchConversations = async () => {
       setIsLoading(true);
       const { data, error } = await supabase
         .from('conversations')
-        .select('*')
-        .eq('device_id', deviceId)
+        .select(CONVERSATION_COLUMNS)
+        .eq('user_id', userId)
         .eq('language', currentLanguage)
+        .order('pinned', { ascending: false })
         .order('updated_at', { ascending: false });
 
       if (error) {
         console.error('Error fetching conversations:', error);
       } else {
-        setConversations(data.map(conv => ({
-          id: conv.id,
-          title: conv.title,
-          preview: conv.preview || '',
-          timestamp: new Date(conv.updated_at),
-          scriptureReference: conv.scripture_reference || undefined,
-        })));
+        setConversations(data.map(toHistoryItem));
       }
       setIsLoading(false);
     };
 
     fetchConversations();
-  }, [deviceId, currentLanguage]);
+  }, [userId, currentLanguage]);
 
   const createConversation = useCallback(async (title: string, preview?: string, scriptureReference?: string, language?: string) => {
-    if (!deviceId) return null;
+    if (!deviceId || !userId) return null;
 
     const { data, error } = await supabase
       .from('conversations')
       .insert({
         device_id: deviceId,
+        user_id: userId,
         title,
         preview,
         scripture_reference: scriptureReference,
         language: language || currentLanguage,
       })
-      .select()
+      .select(CONVERSATION_COLUMNS)
       .single();
 
     if (error) {
@@ -59,18 +89,12 @@ export function useConversations(currentLanguage: string = 'en') {
       return null;
     }
 
-    const newConv: HistoryItem = {
-      id: data.id,
-      title: data.title,
-      preview: data.preview || '',
-      timestamp: new Date(data.updated_at),
-      scriptureReference: data.scripture_reference || undefined,
-    };
+    const newConv = toHistoryItem(data);
 
     setConversations(prev => [newConv, ...prev]);
     setCurrentConversationId(data.id);
     return data.id;
-  }, [deviceId, currentLanguage]);
+  }, [deviceId, userId, currentLanguage]);
 
   const updateConversation = useCallback(async (id: string, updates: { title?: string; preview?: string; scriptureReference?: string }) => {
     const { error } = await supabase
@@ -101,6 +125,70 @@ export function useConversations(currentLanguage: string = 'en') {
     return true;
   }, []);
 
+  // Pin, or file into a folder; neither counts as activity, so the timestamp is left alone
+  const organizeConversation = useCallback(async (id: string, changes: ConversationOrganization) => {
+    const folder = changes.folder === undefined ? undefined : changes.folder?.trim() || null;
+    const { error } = await supabase
+      .from('conversations')
+      .update({ pinned: changes.pinned, folder })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error organizing conversation:', error);
+      return false;
+    }
+
+    setConversations(prev => prev.map(conv =>
+      conv.id === id
+        ? {
+            ...conv,
+            pinned: changes.pinned === undefined ? conv.pinned : changes.pinned || undefined,
+            folder: folder === undefined ? conv.folder : folder || undefined,
+          }
+        : conv
+    ));
+    return true;
+  }, []);
+
+  // Full-text search over titles, previews and every message, in the current language
+  const searchConversations = useCallback(async (query: string): Promise<ConversationSearchMatch[]> => {
+    if (!userId || !query.trim()) return [];
+
+    const { data, error } = await supabase.rpc('search_conversations', {
+      p_query: query,
+      p_language: currentLanguage,
+      p_limit: 50,
+    });
+
+    if (error) {
+      console.error('Error searching conversations:', error);
+      return [];
+    }
+
+    return data.map(match => ({
+      conversationId: match.id,
+      score: match.score,
+      headline: match.headline,
+      messageId: match.message_id || undefined,
+    }));
+  }, [userId, currentLanguage]);
+
+  // Remember the open branch so the conversation reopens on it
+  const setActiveBranch = useCallback(async (id: string, leafId: string) => {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ active_leaf_id: leafId })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error saving active branch:', error);
+      return false;
+    }
+
+    setConversations(prev => prev.map(conv => (conv.id === id ? { ...conv, activeLeafId: leafId } : conv)));
+    return true;
+  }, []);
+
   const deleteConversation = useCallback(async (id: string) => {
     const { error } = await supabase
       .from('conversations')
@@ -123,7 +211,9 @@ export function useConversations(currentLanguage: string = 'en') {
     const { error } = await supabase
       .from('messages')
       .insert({
+        id: message.id,
         conversation_id: conversationId,
+        parent_id: message.parentId || null,
         role: message.role,
         content: message.content,
         agent: message.agent || null,
@@ -141,7 +231,7 @@ export function useConversations(currentLanguage: string = 'en') {
   const loadConversationMessages = useCallback(async (conversationId: string): Promise<Message[]> => {
     const { data, error } = await supabase
       .from('messages')
-      .select('*')
+      .select(MESSAGE_COLUMNS)
       .eq('conversation_id', conversationId)
       .order('created_at', { ascending: true });
 
@@ -158,6 +248,7 @@ export function useConversations(currentLanguage: string = 'en') {
       timestamp: new Date(msg.created_at),
       toolCalls: (msg.tool_calls as unknown as Message['toolCalls']) || undefined,
       navigationHint: msg.navigation_hint as Message['navigationHint'] || undefined,
+      parentId: msg.parent_id || undefined,
     }));
   }, []);
 
@@ -169,6 +260,9 @@ export function useConversations(currentLanguage: string = 'en') {
     createConversation,
     updateConversation,
     deleteConversation,
+    organizeConversation,
+    searchConversations,
+    setActiveBranch,
     saveMessage,
     loadConversationMessages,
   };
@@ -6,16 +6,21 @@ function generateDeviceId(): string {
   return 'device_' + crypto.randomUUID();
 }
 
+// Identifies this browser - rows record which device wrote them, ownership is the signed-in user
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = generateDeviceId();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
 export function useDeviceId() {
   const [deviceId, setDeviceId] = useState<string>('');
 
   useEffect(() => {
-    let id = localStorage.getItem(DEVICE_ID_KEY);
-    if (!id) {
-      id = generateDeviceId();
-      localStorage.setItem(DEVICE_ID_KEY, id);
-    }
-    setDeviceId(id);
+    setDeviceId(getDeviceId());
   }, []);
 
   return deviceId;
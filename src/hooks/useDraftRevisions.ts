@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DraftRevision } from '@/types';
+import { Database } from '@/integrations/supabase/types';
+import { useDeviceId } from './useDeviceId';
+import { useAuth } from '@/hooks/useAuth';
+import { useTrace } from '@/contexts/TraceContext';
+
+// Signed-in users can't read device_id - revisions are told apart by author
+const REVISION_COLUMNS = 'id, user_id, draft_id, source_reference, content, previous_content, created_at';
+
+type DraftRevisionRow = Omit<Database['public']['Tables']['draft_revisions']['Row'], 'device_id'>;
+
+function toRevision(row: DraftRevisionRow): DraftRevision {
+  return {
+    id: row.id,
+    draftId: row.draft_id,
+    sourceReference: row.source_reference,
+    content: row.content,
+    previousContent: row.previous_content ?? undefined,
+    userId: row.user_id ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export function useDraftRevisions(draftId: string | null) {
+  const { trace } = useTrace();
+  const deviceId = useDeviceId();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [revisions, setRevisions] = useState<DraftRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!draftId || !userId) {
+      setRevisions([]);
+      return;
+    }
+
+    trace('draft-revisions', 'start', `Fetching revisions for ${draftId}`, {
+      displayName: 'Draft Revisions',
+      layer: 'client',
+    });
+
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('draft_revisions')
+      .select(REVISION_COLUMNS)
+      .eq('draft_id', draftId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching draft revisions:', error);
+      trace('draft-revisions', 'error', error.message);
+    } else {
+      trace('draft-revisions', 'complete', `Fetched ${data.length} revisions`);
+      setRevisions(data.map(toRevision));
+    }
+    setIsLoading(false);
+  }, [draftId, userId, trace]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  // Every edit is a new row - revisions are never updated in place
+  const saveRevision = useCallback(async (sourceReference: string, content: string, previousContent?: string) => {
+    if (!deviceId || !userId || !draftId) return null;
+
+    trace('draft-revisions', 'start', `Saving revision of ${sourceReference}`, {
+      displayName: 'Draft Revisions',
+      layer: 'client',
+    });
+
+    const { data, error } = await supabase
+      .from('draft_revisions')
+      .insert({
+        device_id: deviceId,
+        user_id: userId,
+        draft_id: draftId,
+        source_reference: sourceReference,
+        content,
+        previous_content: previousContent,
+      })
+      .select(REVISION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving draft revision:', error);
+      trace('draft-revisions', 'error', error.message);
+      return null;
+    }
+
+    trace('draft-revisions', 'complete', `Saved revision of ${sourceReference}`);
+
+    const revision = toRevision(data);
+    setRevisions(prev => [...prev, revision]);
+    return revision;
+  }, [deviceId, userId, draftId, trace]);
+
+  // Oldest first, per verse reference
+  const revisionsByReference = useMemo(() => {
+    const byReference = new Map<string, DraftRevision[]>();
+    revisions.forEach(revision => {
+      const list = byReference.get(revision.sourceReference) || [];
+      list.push(revision);
+      byReference.set(revision.sourceReference, list);
+    });
+    return byReference;
+  }, [revisions]);
+
+  return {
+    revisions,
+    revisionsByReference,
+    isLoading,
+    userId,
+    saveRevision,
+    refetchRevisions: fetchRevisions,
+  };
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ImportedDraft, listDrafts, saveDraft, removeDraft } from '@/services/resourceCache';
+import { parseUsfmBook } from '@/lib/usfm';
+import { useTrace } from '@/contexts/TraceContext';
+import { toast } from '@/hooks/use-toast';
+
+export function useDrafts() {
+  const { trace } = useTrace();
+  const [drafts, setDrafts] = useState<ImportedDraft[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const refreshDrafts = useCallback(async () => {
+    setDrafts(await listDrafts());
+  }, []);
+
+  useEffect(() => {
+    refreshDrafts();
+  }, [refreshDrafts]);
+
+  // Parse a local USFM file and store it; re-importing the same file replaces it
+  const importDraft = useCallback(async (file: File): Promise<ImportedDraft | null> => {
+    setIsImporting(true);
+    trace('drafts', 'start', `Importing ${file.name}`, {
+      displayName: 'Drafts',
+      layer: 'client',
+    });
+
+    try {
+      const parsed = parseUsfmBook(await file.text(), file.name);
+      const draft: ImportedDraft = {
+        id: `${parsed.code}:${file.name}`,
+        code: parsed.code,
+        book: parsed.bookName,
+        title: parsed.title,
+        fileName: file.name,
+        chapters: parsed.chapters,
+        importedAt: Date.now(),
+      };
+
+      if (!(await saveDraft(draft))) {
+        throw new Error('Could not store the draft on this device');
+      }
+      await refreshDrafts();
+
+      const verseCount = draft.chapters.reduce((sum, ch) => sum + ch.verses.length, 0);
+      trace('drafts', 'complete', `${draft.book}: ${draft.chapters.length} chapters, ${verseCount} verses`);
+      toast({
+        title: 'Draft imported',
+        description: `${draft.title} - ${draft.book}, ${draft.chapters.length} chapters`,
+      });
+      return draft;
+    } catch (error) {
+      console.error('[useDrafts] Import failed:', error);
+      trace('drafts', 'error', error instanceof Error ? error.message : 'Unknown error');
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  }, [trace, refreshDrafts]);
+
+  // Keep the stored draft in step with edits so it survives reloads and exports the latest text
+  const updateDraftVerse = useCallback(async (id: string, chapter: number, verse: number, text: string) => {
+    const draft = drafts.find(d => d.id === id);
+    if (!draft) return false;
+
+    // Verses the draft hadn't translated yet are added in order
+    const existing = draft.chapters.find(ch => ch.chapter === chapter) || { chapter, verses: [] };
+    const verses = existing.verses.some(v => v.number === verse)
+      ? existing.verses.map(v => (v.number === verse ? { ...v, text } : v))
+      : [...existing.verses, { number: verse, text }].sort((a, b) => a.number - b.number);
+
+    const updated: ImportedDraft = {
+      ...draft,
+      chapters: [...draft.chapters.filter(ch => ch.chapter !== chapter), { ...existing, verses }]
+        .sort((a, b) => a.chapter - b.chapter),
+    };
+
+    const saved = await saveDraft(updated);
+    if (saved) {
+      setDrafts(prev => prev.map(d => (d.id === id ? updated : d)));
+    }
+    return saved;
+  }, [drafts]);
+
+  const deleteDraft = useCallback(async (id: string) => {
+    await removeDraft(id);
+    await refreshDrafts();
+  }, [refreshDrafts]);
+
+  return {
+    drafts,
+    isImporting,
+    importDraft,
+    updateDraftVerse,
+    deleteDraft,
+    refreshDrafts,
+  };
+}
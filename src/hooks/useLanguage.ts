@@ -4,6 +4,9 @@ const LANGUAGE_KEY = 'bible-study-language';
 const ORGANIZATION_KEY = 'bible-study-organization';
 const RESOURCE_PREFERENCES_KEY = 'bible-study-resource-preferences';
 
+// Door43 catalog API; VITE_CATALOG_API_URL points it elsewhere, e.g. the mock server offline
+const CATALOG_API_URL = (import.meta.env.VITE_CATALOG_API_URL || 'https://git.door43.org/api/v1/catalog').replace(/\/+$/, '');
+
 export interface LanguageOption {
   id: string;
   name: string;
@@ -58,7 +61,7 @@ export function useLanguage() {
   const fetchLanguages = useCallback(async () => {
     try {
       console.log('[useLanguage] Fetching languages from Door43 catalog API...');
-      const response = await fetch('https://git.door43.org/api/v1/catalog/list/languages');
+      const response = await fetch(`${CATALOG_API_URL}/list/languages`);
       
       if (!response.ok) {
         console.error('[useLanguage] Failed to fetch languages:', response.status);
@@ -106,7 +109,7 @@ export function useLanguage() {
   const fetchOwnersForLanguage = useCallback(async (langId: string) => {
     try {
       console.log(`[useLanguage] Fetching owners for language: ${langId}`);
-      const response = await fetch(`https://git.door43.org/api/v1/catalog/list/owners?lang=${langId}`);
+      const response = await fetch(`${CATALOG_API_URL}/list/owners?lang=${langId}`);
       
       if (!response.ok) {
         console.error('[useLanguage] Failed to fetch owners:', response.status);
@@ -1,7 +1,8 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { Resource, ScripturePassage } from '@/types';
+import { Resource, ScripturePassage, Message } from '@/types';
 import { useTrace } from '@/contexts/TraceContext';
 import { supabase } from '@/integrations/supabase/client';
+import { getDeviceId } from '@/hooks/useDeviceId';
 
 // Tool call signature stored in messages
 export interface ToolCall {
@@ -237,16 +238,20 @@ async function replayToolCall(
           layer: 'edge',
         });
 
-        const deviceId = localStorage.getItem('device-id');
         const { data, error } = await supabase.functions.invoke('note-agent', {
           body: {
             action: args.action || 'read',
-            device_id: args.device_id || deviceId,
+            device_id: args.device_id || getDeviceId(),
             scope: args.scope,
             reference: args.reference,
             limit: args.limit,
             content: args.content,
             note_id: args.note_id,
+            query: args.query,
+            mode: args.mode,
+            tags: args.tags,
+            tag: args.tag,
+            status: args.status,
           },
         });
 
@@ -473,6 +478,18 @@ export function useMcpReplay() {
     }
   }, [trace]);
 
+  // Replay the tools behind the last answer on a branch, so the cards match the branch on screen.
+  // Returns the replayed calls, or null when nothing on the branch used tools.
+  const replayBranch = useCallback((branch: Message[]) => {
+    const lastWithTools = [...branch].reverse().find(
+      m => m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0
+    );
+    if (!lastWithTools?.toolCalls) return null;
+
+    replayToolCalls(lastWithTools.toolCalls);
+    return lastWithTools.toolCalls;
+  }, [replayToolCalls]);
+
   // Clear state
   const clearState = useCallback(() => {
     setState({
@@ -496,6 +513,7 @@ export function useMcpReplay() {
   return {
     ...state,
     replayToolCalls,
+    replayBranch,
     clearState,
   };
 }
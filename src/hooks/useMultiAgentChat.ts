@@ -1,6 +1,10 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { Message, ToolCall } from '@/types';
 import { useTrace } from '@/contexts/TraceContext';
+import { supabase } from '@/integrations/supabase/client';
+import { getDeviceId } from '@/hooks/useDeviceId';
+import { getActiveWorkspaceId } from '@/lib/workspaces';
+import { getActivePath, getPathTo } from '@/lib/messageTree';
 
 interface SearchMatch {
   book: string;
@@ -10,7 +14,7 @@ interface SearchMatch {
 }
 
 // Tool results structure - ALL data the LLM received from tools
-interface ToolResults {
+export interface ToolResults {
   scripture?: {
     reference: string;
     text: string;
@@ -34,6 +38,20 @@ interface UseMultiAgentChatOptions {
   onBugReport?: (errorMessage: string, context: string) => void;
 }
 
+export interface ChatSendOptions {
+  parentId?: string | null; // Message to answer after; null starts a new root. Default: end of the open branch
+  messageId?: string;       // Id for the user message, when the caller has already saved it
+  onToolResults?: (toolResults: ToolResults) => void; // Each time a tool call finishes, with everything found so far
+}
+
+// Trace names for the router's tool calls, which the server reports as they run in parallel
+const TOOL_DISPLAY_NAMES: Record<string, string> = {
+  get_scripture: 'Scripture Tool',
+  search_resources: 'Search Tool',
+  get_resources: 'Resources Tool',
+  manage_notes: 'Notes Tool',
+};
+
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/multi-agent-chat`;
 
 // Get current resource preferences from localStorage
@@ -59,28 +77,43 @@ function getResourcePrefs() {
 
 export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
   const { trace } = useTrace();
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Every branch of the conversation; the chat shows the one ending at activeLeafId
+  const [allMessages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const setMessagesExternal = useCallback((newMessages: Message[]) => {
+  const messages = useMemo(() => getActivePath(allMessages, activeLeafId), [allMessages, activeLeafId]);
+
+  const setMessagesExternal = useCallback((newMessages: Message[], leafId?: string | null) => {
     setMessages(newMessages);
+    setActiveLeafId(leafId || null);
   }, []);
 
+  // Show the branch through messageId, following its newest replies; returns that branch
+  const switchBranch = useCallback((messageId: string) => {
+    const path = getActivePath(allMessages, messageId);
+    setActiveLeafId(path[path.length - 1]?.id || null);
+    return path;
+  }, [allMessages]);
+
   const sendMessage = useCallback(async (
     content: string, 
     scriptureContext?: string,
     onScriptureReference?: (ref: string) => void,
-    responseLanguage?: string
+    responseLanguage?: string,
+    { parentId = messages.filter(m => !m.isError).pop()?.id ?? null, messageId = crypto.randomUUID(), onToolResults }: ChatSendOptions = {}
   ) => {
     // Add user message
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: messageId,
       role: 'user',
       content,
       timestamp: new Date(),
+      parentId: parentId || undefined,
     };
-    setMessages(prev => [...prev, userMessage]);
+    setMessages(prev => [...prev.filter(m => m.id !== messageId), userMessage]);
+    setActiveLeafId(userMessage.id);
     setIsLoading(true);
     
     // Start trace with entity metadata (DRY - metadata defined at source)
@@ -89,11 +122,12 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
       layer: 'edge',
     });
     let firstTokenReceived = false;
+    let streamingMessageId: string | null = null;
 
     try {
       setError(null);
-      // Build conversation history for context
-      const conversationHistory = messages.slice(-6).map(m => ({
+      // Build conversation history for context - only the branch being answered
+      const conversationHistory = getPathTo(allMessages, parentId).slice(-6).map(m => ({
         role: m.role,
         content: m.content,
       }));
@@ -101,14 +135,15 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
       // Get current user preferences for resources
       const userPrefs = getResourcePrefs();
       
-      // Include deviceId for note operations
-      const deviceId = localStorage.getItem('device-id');
+      // Note operations run as the signed-in user; deviceId records where they came from
+      const deviceId = getDeviceId();
+      const { data: { session } } = await supabase.auth.getSession();
 
       const response = await fetch(CHAT_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
         },
         body: JSON.stringify({
           message: content,
@@ -118,6 +153,7 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
           userPrefs: {
             ...userPrefs,
             deviceId,
+            workspaceId: getActiveWorkspaceId(),
           },
           stream: true,
         }),
@@ -143,7 +179,7 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
       let metadata: ChatMetadata | null = null;
       let toolResults: ToolResults | null = null;
       let assistantContent = "";
-      const assistantMessageId = `${Date.now()}-response`;
+      const assistantMessageId = crypto.randomUUID();
 
       // Create initial assistant message placeholder with streaming flag
       const initialAssistantMessage: Message = {
@@ -152,8 +188,11 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
         content: '',
         timestamp: new Date(),
         isStreaming: true,
+        parentId: userMessage.id,
       };
       setMessages(prev => [...prev, initialAssistantMessage]);
+      setActiveLeafId(assistantMessageId);
+      streamingMessageId = assistantMessageId;
       setIsLoading(false);
 
       while (true) {
@@ -180,6 +219,16 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
             if (parsed.type === 'tool_results') {
               toolResults = parsed.data;
               console.log('[Chat] Received tool_results:', Object.keys(parsed.data || {}).filter(k => parsed.data[k]));
+              if (toolResults) onToolResults?.(toolResults);
+            } else if (parsed.type === 'tool_call') {
+              if (parsed.status === 'started') {
+                trace(parsed.tool, 'start', `Step ${parsed.step}: ${parsed.arguments || ''}`.substring(0, 80), {
+                  displayName: TOOL_DISPLAY_NAMES[parsed.tool] || parsed.tool,
+                  layer: 'edge',
+                });
+              } else {
+                trace(parsed.tool, 'complete', `Step ${parsed.step} done`);
+              }
             } else if (parsed.type === 'metadata') {
               metadata = parsed;
               // Also capture tool_results from metadata if present
@@ -224,6 +273,7 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
         toolCalls: metadata?.tool_calls || undefined,
         navigationHint: metadata?.navigation_hint || undefined,
         isStreaming: false,
+        parentId: userMessage.id,
       };
 
       // Update final message
@@ -264,8 +314,12 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
         role: 'assistant',
         content: `I encountered an error: ${errorMsg}. Please try again.`,
         timestamp: new Date(),
+        parentId: streamingMessageId || userMessage.id,
+        isError: true,
       };
-      setMessages(prev => [...prev, errorMessage]);
+      // A half-streamed answer isn't saved either, so it can't be replied to
+      setMessages(prev => [...prev.map(m => (m.id === streamingMessageId ? { ...m, isError: true } : m)), errorMessage]);
+      setActiveLeafId(errorMessage.id);
       
       return null;
     } finally {
@@ -273,17 +327,21 @@ export function useMultiAgentChat(options: UseMultiAgentChatOptions = {}) {
       // Ensure no messages are left in streaming state
       setMessages(prev => prev.map(m => m.isStreaming ? { ...m, isStreaming: false } : m));
     }
-  }, [messages]);
+  }, [messages, allMessages]);
 
   const clearMessages = useCallback(() => {
     setMessages([]);
+    setActiveLeafId(null);
   }, []);
 
   return {
     messages,
+    allMessages,
+    activeLeafId,
     isLoading,
     error,
     sendMessage,
+    switchBranch,
     clearMessages,
     setMessages: setMessagesExternal,
   };
@@ -1,17 +1,77 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Note, NoteType, ResourceType } from '@/types';
+import { Note, NoteType, NoteStatus, NoteAnchor, ResourceType } from '@/types';
+import { Database } from '@/integrations/supabase/types';
+import { normalizeTags } from '@/lib/noteTags';
+import { NoteImportPreview, ConflictResolution } from '@/lib/noteImport';
 import { useDeviceId } from './useDeviceId';
+import { useAuth } from '@/hooks/useAuth';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { useTrace } from '@/contexts/TraceContext';
 
+// Search columns stay on the server - embeddings alone are ~1536 floats per note
+type NoteRow = Omit<Database['public']['Tables']['notes']['Row'], 'embedding' | 'search_vector'>;
+const NOTE_COLUMNS = 'id, device_id, user_id, workspace_id, parent_id, mentions, resolved_at, resolved_by, content, source_reference, note_type, resource_type, resource_id, highlighted, tags, status, external_id, quote, occurrence, quote_source, created_at, updated_at';
+
+export type NoteSearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export interface NoteSearchMatch {
+  noteId: string;
+  score: number;
+  match: 'keyword' | 'semantic' | 'both';
+}
+
+export interface NoteImportResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+const IMPORT_BATCH_SIZE = 500;
+
+export interface NoteShareOptions {
+  workspaceId?: string | null; // Share with this team workspace
+  parentId?: string;           // Reply in this thread
+  mentions?: string[];
+  anchor?: NoteAnchor;         // Attach to a quote in the verse
+}
+
+function toNote(row: NoteRow): Note {
+  return {
+    id: row.id,
+    content: row.content,
+    sourceReference: row.source_reference || undefined,
+    createdAt: new Date(row.created_at),
+    highlighted: row.highlighted || false,
+    noteType: (row.note_type as NoteType) || 'note',
+    resourceType: (row.resource_type as ResourceType) || undefined,
+    resourceId: row.resource_id || undefined,
+    userId: row.user_id || undefined,
+    workspaceId: row.workspace_id || undefined,
+    parentId: row.parent_id || undefined,
+    mentions: row.mentions?.length ? row.mentions : undefined,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    tags: row.tags?.length ? row.tags : undefined,
+    status: (row.status as NoteStatus) || 'open',
+    externalId: row.external_id || undefined,
+    quote: row.quote || undefined,
+    occurrence: row.quote ? row.occurrence || 1 : undefined,
+    quoteSource: row.quote_source || undefined,
+  };
+}
+
 export function useNotes() {
   const { trace } = useTrace();
   const deviceId = useDeviceId();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { activeWorkspace } = useWorkspace();
+  const workspaceId = activeWorkspace?.id;
   const [notes, setNotes] = useState<Note[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   // Fetch notes function
   const fetchNotes = useCallback(async () => {
-    if (!deviceId) return;
+    if (!userId) return;
 
     trace('notes-db', 'start', 'Fetching notes', {
       displayName: 'Notes DB',
@@ -19,10 +79,11 @@ export function useNotes() {
     });
 
     setIsLoading(true);
+    // Own notes everywhere, plus everything shared with the active workspace
     const { data, error } = await supabase
       .from('notes')
-      .select('*')
-      .eq('device_id', deviceId)
+      .select(NOTE_COLUMNS)
+      .or(workspaceId ? `user_id.eq.${userId},workspace_id.eq.${workspaceId}` : `user_id.eq.${userId}`)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -30,33 +91,47 @@ export function useNotes() {
       trace('notes-db', 'error', error.message);
     } else {
       trace('notes-db', 'complete', `Fetched ${data.length} notes`);
-      setNotes(data.map(note => ({
-        id: note.id,
-        content: note.content,
-        sourceReference: note.source_reference || undefined,
-        createdAt: new Date(note.created_at),
-        highlighted: note.highlighted || false,
-        noteType: (note.note_type as NoteType) || 'note',
-        resourceType: (note.resource_type as ResourceType) || undefined,
-        resourceId: note.resource_id || undefined,
-      })));
+      setNotes(data.map(toNote));
     }
     setIsLoading(false);
-  }, [deviceId, trace]);
+  }, [userId, workspaceId, trace]);
 
-  // Fetch notes on mount and when deviceId changes
+  // Fetch notes on mount and when the signed-in user or workspace changes
   useEffect(() => {
     fetchNotes();
   }, [fetchNotes]);
 
+  // Teammates' notes and thread changes arrive over Realtime instead of a refetch
+  useEffect(() => {
+    if (!workspaceId || !userId) return;
+
+    const filter = `workspace_id=eq.${workspaceId}`;
+    const channel = supabase
+      .channel(`notes:${workspaceId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notes', filter }, (payload) => {
+        const note = toNote(payload.new as NoteRow);
+        setNotes(prev => (prev.some(n => n.id === note.id) ? prev : [note, ...prev]));
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'notes', filter }, (payload) => {
+        const note = toNote(payload.new as NoteRow);
+        setNotes(prev => prev.map(n => (n.id === note.id ? note : n)));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [workspaceId, userId]);
+
   const addNote = useCallback(async (
     content: string, 
     sourceReference?: string, 
     noteType: NoteType = 'note',
     resourceType?: ResourceType,
-    resourceId?: string
+    resourceId?: string,
+    options: NoteShareOptions = {}
   ) => {
-    if (!deviceId) return null;
+    if (!deviceId || !userId) return null;
 
     trace('notes-db', 'start', `Adding ${noteType}`, {
       displayName: 'Notes DB',
@@ -67,14 +142,21 @@ export function useNotes() {
       .from('notes')
       .insert({
         device_id: deviceId,
+        user_id: userId,
         content,
         source_reference: sourceReference,
         highlighted: true,
         note_type: noteType,
         resource_type: resourceType,
         resource_id: resourceId,
+        workspace_id: options.workspaceId || null,
+        parent_id: options.parentId || null,
+        mentions: options.mentions || [],
+        quote: options.anchor?.quote || null,
+        occurrence: options.anchor ? options.anchor.occurrence : null,
+        quote_source: options.anchor?.source || null,
       })
-      .select()
+      .select(NOTE_COLUMNS)
       .single();
 
     if (error) {
@@ -85,20 +167,12 @@ export function useNotes() {
 
     trace('notes-db', 'complete', `Added ${noteType}`);
 
-    const newNote: Note = {
-      id: data.id,
-      content: data.content,
-      sourceReference: data.source_reference || undefined,
-      createdAt: new Date(data.created_at),
-      highlighted: data.highlighted || false,
-      noteType: (data.note_type as NoteType) || 'note',
-      resourceType: (data.resource_type as ResourceType) || undefined,
-      resourceId: data.resource_id || undefined,
-    };
+    const newNote = toNote(data);
 
-    setNotes(prev => [newNote, ...prev]);
+    // The Realtime echo of a shared note can land before the insert resolves
+    setNotes(prev => [newNote, ...prev.filter(n => n.id !== newNote.id)]);
     return newNote;
-  }, [deviceId, trace]);
+  }, [deviceId, userId, trace]);
 
   // Convenience method for adding bug reports
   const addBugReport = useCallback(async (errorMessage: string, context?: string) => {
@@ -118,6 +192,183 @@ export function useNotes() {
     return addNote(feedback, sourceReference, 'feedback', resourceType, resourceId);
   }, [addNote]);
 
+  // Replies inherit the thread's reference and workspace
+  const replyToNote = useCallback(async (parent: Note, content: string, mentions?: string[]) => {
+    return addNote(content, parent.sourceReference, 'note', undefined, undefined, {
+      workspaceId: parent.workspaceId,
+      parentId: parent.id,
+      mentions,
+    });
+  }, [addNote]);
+
+  const resolveThread = useCallback(async (id: string, resolved: boolean) => {
+    const { data, error } = await supabase.rpc('set_thread_resolved', {
+      p_note_id: id,
+      p_resolved: resolved,
+    });
+
+    if (error) {
+      console.error('Error resolving thread:', error);
+      return false;
+    }
+
+    const updated = toNote(data);
+    setNotes(prev => prev.map(note => (note.id === id ? updated : note)));
+    return true;
+  }, []);
+
+  // Ranked matches from note-agent - hybrid fuses keyword hits with embedding similarity
+  const searchNotes = useCallback(async (query: string, mode: NoteSearchMode = 'hybrid'): Promise<NoteSearchMatch[]> => {
+    trace('note-agent', 'start', `search "${query}"`, {
+      displayName: 'Note Agent',
+      layer: 'edge',
+    });
+
+    const { data, error } = await supabase.functions.invoke('note-agent', {
+      body: {
+        action: 'search',
+        query,
+        mode,
+        workspace_id: workspaceId || null,
+        device_id: deviceId,
+        limit: 30,
+      },
+    });
+
+    if (error || !data?.success) {
+      const message = error?.message || data?.error || 'Search failed';
+      console.error('Error searching notes:', message);
+      trace('note-agent', 'error', message);
+      return [];
+    }
+
+    trace('note-agent', 'complete', `${data.count} matches`);
+    return (data.matches || []).map((m: { note_id: string; score: number; match: NoteSearchMatch['match'] }) => ({
+      noteId: m.note_id,
+      score: m.score,
+      match: m.match,
+    }));
+  }, [workspaceId, deviceId, trace]);
+
+  // Bulk insert of previewed rows; conflicts are skipped, overwrite the earlier import, or are added alongside it
+  const importNotes = useCallback(async (
+    previews: NoteImportPreview[],
+    conflictResolution: ConflictResolution = 'skip',
+    options: Pick<NoteShareOptions, 'workspaceId'> = {}
+  ): Promise<NoteImportResult | null> => {
+    if (!deviceId || !userId) return null;
+
+    const toInsert = previews.filter(p =>
+      p.status === 'new' || (p.status === 'conflict' && conflictResolution === 'keep-both')
+    );
+    const toUpdate = conflictResolution === 'update'
+      ? previews.filter(p => p.status === 'conflict' && p.existing)
+      : [];
+
+    trace('notes-db', 'start', `Importing ${toInsert.length} notes, updating ${toUpdate.length}`, {
+      displayName: 'Notes DB',
+      layer: 'client',
+    });
+
+    const rows = toInsert.map(p => ({
+      device_id: deviceId,
+      user_id: userId,
+      content: p.content,
+      source_reference: p.sourceReference,
+      highlighted: true,
+      note_type: 'note',
+      tags: normalizeTags(p.row.tags),
+      external_id: p.row.externalId || null,
+      quote: p.row.quote || null,
+      occurrence: p.row.quote ? Math.max(p.row.occurrence || 1, 1) : null, // TN uses 0 and -1 for none / every
+      workspace_id: options.workspaceId || null,
+    }));
+
+    const inserted: Note[] = [];
+    for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('notes')
+        .insert(rows.slice(i, i + IMPORT_BATCH_SIZE))
+        .select(NOTE_COLUMNS);
+
+      if (error) {
+        console.error('Error importing notes:', error);
+        trace('notes-db', 'error', error.message);
+        // Keep what the earlier batches wrote
+        setNotes(prev => [...inserted, ...prev]);
+        return null;
+      }
+      inserted.push(...data.map(toNote));
+    }
+
+    const updates = await Promise.all(toUpdate.map(async (p) => {
+      const tags = normalizeTags(p.row.tags);
+      const { error } = await supabase
+        .from('notes')
+        .update({ content: p.content, tags })
+        .eq('id', p.existing!.id);
+
+      if (error) {
+        console.error('Error updating imported note:', error);
+        return null;
+      }
+      return { id: p.existing!.id, content: p.content, tags: tags.length ? tags : undefined };
+    }));
+    const updated = updates.filter(Boolean);
+
+    trace('notes-db', 'complete', `Imported ${inserted.length}, updated ${updated.length}`);
+
+    const insertedIds = new Set(inserted.map(n => n.id));
+    setNotes(prev => [
+      ...inserted,
+      ...prev
+        .filter(note => !insertedIds.has(note.id))
+        .map(note => {
+          const change = updated.find(u => u!.id === note.id);
+          return change ? { ...note, content: change.content, tags: change.tags } : note;
+        }),
+    ]);
+
+    return {
+      inserted: inserted.length,
+      updated: updated.length,
+      skipped: previews.length - inserted.length - updated.length,
+    };
+  }, [deviceId, userId, trace]);
+
+  const updateNoteTags = useCallback(async (id: string, tags: string[]) => {
+    const normalized = normalizeTags(tags);
+    const { error } = await supabase
+      .from('notes')
+      .update({ tags: normalized })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating note tags:', error);
+      return false;
+    }
+
+    setNotes(prev => prev.map(note =>
+      note.id === id ? { ...note, tags: normalized.length ? normalized : undefined } : note
+    ));
+    return true;
+  }, []);
+
+  const setNoteStatus = useCallback(async (id: string, status: NoteStatus) => {
+    const { error } = await supabase
+      .from('notes')
+      .update({ status })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating note status:', error);
+      return false;
+    }
+
+    setNotes(prev => prev.map(note => (note.id === id ? { ...note, status } : note)));
+    return true;
+  }, []);
+
   const deleteNote = useCallback(async (id: string) => {
     const { error } = await supabase
       .from('notes')
@@ -156,8 +407,14 @@ export function useNotes() {
     addNote,
     addBugReport,
     addFeedback,
+    replyToNote,
+    resolveThread,
+    searchNotes,
     deleteNote,
     updateNote,
+    updateNoteTags,
+    setNoteStatus,
+    importNotes,
     refetchNotes: fetchNotes,
   };
 }
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { downloadBookPack, PackProgress } from '@/services/bookPacks';
+import {
+  OfflineBook,
+  listOfflineBooks,
+  removeOfflineBook,
+  deleteCachedResponses,
+  buildOfflineBookId,
+} from '@/services/resourceCache';
+import { useTrace } from '@/contexts/TraceContext';
+
+export function useOfflineBooks() {
+  const { trace } = useTrace();
+  const [offlineBooks, setOfflineBooks] = useState<OfflineBook[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState<PackProgress | null>(null);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  const refreshOfflineBooks = useCallback(async () => {
+    const books = await listOfflineBooks();
+    setOfflineBooks(books);
+  }, []);
+
+  useEffect(() => {
+    refreshOfflineBooks();
+  }, [refreshOfflineBooks]);
+
+  // Track connectivity so the UI can show offline state
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const isBookOffline = useCallback((book: string, language: string, organization: string, resource: string) => {
+    const id = buildOfflineBookId(book, language, organization, resource);
+    return offlineBooks.some(b => b.id === id && b.status !== 'downloading');
+  }, [offlineBooks]);
+
+  // Download a full book pack (scripture + helps) into the IndexedDB cache
+  const makeBookAvailableOffline = useCallback(async (book: string, resource: string): Promise<boolean> => {
+    setIsSaving(true);
+    setProgress(null);
+    trace('offline-books', 'start', `Downloading pack ${book} (${resource})`, {
+      displayName: 'Offline Books',
+      layer: 'client',
+    });
+
+    try {
+      const pack = await downloadBookPack(book, resource, setProgress);
+      await refreshOfflineBooks();
+      trace('offline-books', 'complete', `${book}: ${pack.cacheKeys?.length || 0} entries (${pack.status})`);
+      return true;
+    } catch (error) {
+      console.error('[useOfflineBooks] Failed to download book pack:', error);
+      trace('offline-books', 'error', error instanceof Error ? error.message : 'Unknown error');
+      await refreshOfflineBooks();
+      return false;
+    } finally {
+      setIsSaving(false);
+      setProgress(null);
+    }
+  }, [trace, refreshOfflineBooks]);
+
+  // Delete a pack and any cached entries no other pack still needs
+  const removeBookFromOffline = useCallback(async (offlineBook: OfflineBook) => {
+    const sharedKeys = new Set(
+      offlineBooks.filter(b => b.id !== offlineBook.id).flatMap(b => b.cacheKeys || [])
+    );
+    const keysToDelete = (offlineBook.cacheKeys || []).filter(key => !sharedKeys.has(key));
+
+    await removeOfflineBook(offlineBook.id);
+    await deleteCachedResponses(keysToDelete);
+    await refreshOfflineBooks();
+  }, [offlineBooks, refreshOfflineBooks]);
+
+  return {
+    offlineBooks,
+    isOnline,
+    isSaving,
+    progress,
+    isBookOffline,
+    makeBookAvailableOffline,
+    removeBookFromOffline,
+  };
+}
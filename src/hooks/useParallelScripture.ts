@@ -0,0 +1,213 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { ScriptureBook, ScriptureChapter } from '@/types';
+import { ScriptureResource } from '@/hooks/useLanguage';
+import { fetchBookWithFallback } from '@/services/translationHelpsApi';
+import { ImportedDraft } from '@/services/resourceCache';
+import { useTrace } from '@/contexts/TraceContext';
+
+export type ParallelLayout = 'single' | 'columns' | 'rows';
+
+const PARALLEL_LAYOUT_KEY = 'bible-study-parallel-layout';
+
+export interface ParallelSource {
+  id: string; // language/organization/resource
+  label: string;
+  language: string;
+  organization: string;
+  resource: string;
+  book?: ScriptureBook; // Already in memory (imported drafts) - nothing to fetch
+}
+
+export interface ParallelColumn extends ParallelSource {
+  isLoading: boolean;
+  error: string | null;
+  usedFallback: boolean;
+}
+
+export interface ParallelVerse {
+  number: number;
+  texts: (string | null)[]; // One entry per column, null when the column has no such verse
+  isParagraphEnd?: boolean;
+}
+
+export interface ParallelChapter {
+  chapter: number;
+  verses: ParallelVerse[];
+}
+
+function buildSource(language: string, organization: string, resource: string): ParallelSource {
+  const label = language === 'en' ? resource.toUpperCase() : `${resource.toUpperCase()} (${language})`;
+  return { id: `${language}/${organization}/${resource}`, label, language, organization, resource };
+}
+
+// ULT and UST for comparison, plus the active gateway-language text when it isn't one of them
+export function getParallelSources(activeResource?: ScriptureResource | null): ParallelSource[] {
+  const sources = [
+    buildSource('en', 'unfoldingWord', 'ult'),
+    buildSource('en', 'unfoldingWord', 'ust'),
+  ];
+
+  if (activeResource) {
+    const active = buildSource(activeResource.language, activeResource.organization, activeResource.resource || 'ult');
+    if (!sources.some(s => s.id === active.id)) sources.push(active);
+  }
+
+  return sources;
+}
+
+export function getDraftSource(draft: ImportedDraft): ParallelSource {
+  return {
+    id: `draft/${draft.id}`,
+    label: `Draft: ${draft.title}`,
+    language: 'draft',
+    organization: 'local',
+    resource: draft.fileName,
+    book: { book: draft.book, chapters: draft.chapters, translation: draft.title },
+  };
+}
+
+// Merge books verse-by-verse so every row holds the same verse in every column
+export function alignParallelChapters(books: (ScriptureBook | null)[]): ParallelChapter[] {
+  const chapterNumbers = new Set<number>();
+  books.forEach(book => book?.chapters.forEach(ch => chapterNumbers.add(ch.chapter)));
+
+  return [...chapterNumbers].sort((a, b) => a - b).map(chapterNum => {
+    const columnChapters = books.map(book => book?.chapters.find(ch => ch.chapter === chapterNum));
+    const verseNumbers = new Set<number>();
+    columnChapters.forEach(ch => ch?.verses.forEach(v => verseNumbers.add(v.number)));
+
+    const verses = [...verseNumbers].sort((a, b) => a - b).map(number => {
+      const columnVerses = columnChapters.map(ch => ch?.verses.find(v => v.number === number));
+      return {
+        number,
+        texts: columnVerses.map(v => v?.text ?? null),
+        // Follow the first column's paragraphing
+        isParagraphEnd: columnVerses.find(Boolean)?.isParagraphEnd,
+      };
+    });
+
+    return { chapter: chapterNum, verses };
+  });
+}
+
+// Single-text chapters sized like the parallel layout, for useVirtualizedScripture height estimates
+export function toEstimateChapters(chapters: ParallelChapter[], layout: ParallelLayout): ScriptureChapter[] {
+  return chapters.map(ch => ({
+    chapter: ch.chapter,
+    verses: ch.verses.map(v => {
+      const texts = v.texts.filter((t): t is string => !!t);
+      const text = layout === 'rows'
+        ? texts.join(' ')
+        : texts.reduce((longest, t) => (t.length > longest.length ? t : longest), '');
+      return { number: v.number, text, isParagraphEnd: v.isParagraphEnd };
+    }),
+  }));
+}
+
+interface UseParallelScriptureOptions {
+  bookName?: string;
+  activeResource?: ScriptureResource | null;
+  primaryBook?: ScriptureBook | null; // Already-loaded active text, reused instead of refetching
+  primaryUsedFallback?: boolean;
+  drafts?: ImportedDraft[]; // Local drafts of this book, shown as extra columns
+}
+
+export function useParallelScripture({ bookName, activeResource, primaryBook, primaryUsedFallback = false, drafts }: UseParallelScriptureOptions) {
+  const { trace } = useTrace();
+  const [layout, setLayoutState] = useState<ParallelLayout>(() => {
+    const saved = localStorage.getItem(PARALLEL_LAYOUT_KEY);
+    return saved === 'columns' || saved === 'rows' ? saved : 'single';
+  });
+  const [books, setBooks] = useState<Record<string, ScriptureBook | null>>({});
+  const [status, setStatus] = useState<Record<string, { isLoading: boolean; error: string | null; usedFallback: boolean }>>({});
+
+  const setLayout = useCallback((next: ParallelLayout) => {
+    setLayoutState(next);
+    localStorage.setItem(PARALLEL_LAYOUT_KEY, next);
+  }, []);
+
+  const activeId = activeResource
+    ? `${activeResource.language}/${activeResource.organization}/${activeResource.resource || 'ult'}`
+    : 'en/unfoldingWord/ult';
+  // Keyed by id so a fresh preferences object doesn't trigger a reload
+  const [activeLanguage, activeOrganization, activeResourceId] = activeId.split('/');
+  const remoteSources = useMemo(
+    () => getParallelSources({ language: activeLanguage, organization: activeOrganization, resource: activeResourceId, displayName: '' }),
+    [activeLanguage, activeOrganization, activeResourceId]
+  );
+  const sources = useMemo(
+    () => [...remoteSources, ...(drafts || []).map(getDraftSource)],
+    [remoteSources, drafts]
+  );
+  const isParallel = layout !== 'single';
+  const hasPrimaryBook = !!primaryBook;
+
+  // Load every column except the active one, which the scripture card already has
+  useEffect(() => {
+    if (!isParallel || !bookName) return;
+    let cancelled = false;
+
+    const toLoad = remoteSources.filter(source => source.id !== activeId || !hasPrimaryBook);
+    if (toLoad.length === 0) return;
+
+    trace('parallel-scripture', 'start', `Loading ${bookName}: ${toLoad.map(s => s.label).join(', ')}`, {
+      displayName: 'Parallel Scripture',
+      layer: 'client',
+    });
+
+    setBooks({});
+    setStatus(Object.fromEntries(toLoad.map(s => [s.id, { isLoading: true, error: null, usedFallback: false }])));
+
+    Promise.all(toLoad.map(async (source) => {
+      try {
+        const book = await fetchBookWithFallback(bookName, source.resource, {
+          language: source.language,
+          organization: source.organization,
+        });
+        if (cancelled) return;
+        setBooks(prev => ({ ...prev, [source.id]: book }));
+        setStatus(prev => ({
+          ...prev,
+          [source.id]: { isLoading: false, error: null, usedFallback: book.fallbackInfo.usedFallback },
+        }));
+      } catch (err) {
+        console.error(`[useParallelScripture] Failed to load ${source.label}:`, err);
+        if (cancelled) return;
+        setStatus(prev => ({
+          ...prev,
+          [source.id]: { isLoading: false, error: err instanceof Error ? err.message : 'Failed to load', usedFallback: false },
+        }));
+      }
+    })).then(() => {
+      if (!cancelled) trace('parallel-scripture', 'complete', `${toLoad.length} texts loaded for ${bookName}`);
+    });
+
+    return () => { cancelled = true; };
+  }, [isParallel, bookName, remoteSources, activeId, hasPrimaryBook, trace]);
+
+  const columns: ParallelColumn[] = useMemo(() => sources.map(source => {
+    if (source.id === activeId && primaryBook) {
+      return { ...source, isLoading: false, error: null, usedFallback: primaryUsedFallback };
+    }
+    if (source.book) {
+      return { ...source, isLoading: false, error: null, usedFallback: false };
+    }
+    return { ...source, ...(status[source.id] || { isLoading: isParallel, error: null, usedFallback: false }) };
+  }), [sources, activeId, primaryBook, primaryUsedFallback, status, isParallel]);
+
+  const chapters = useMemo(() => {
+    if (!isParallel) return [];
+    return alignParallelChapters(sources.map(source =>
+      source.book || (source.id === activeId && primaryBook ? primaryBook : books[source.id] || null)
+    ));
+  }, [isParallel, sources, activeId, primaryBook, books]);
+
+  return {
+    layout,
+    setLayout,
+    isParallel,
+    columns,
+    chapters,
+    isLoading: columns.some(c => c.isLoading),
+  };
+}
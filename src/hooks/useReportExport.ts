@@ -0,0 +1,113 @@
+import { useState, useCallback } from 'react';
+import { Note, Message, HistoryItem } from '@/types';
+import { fetchScripture, fetchTranslationNotes, TranslationNote } from '@/services/translationHelpsApi';
+import { parseReference, formatScopeLabel } from '@/lib/referenceScope';
+import { buildNotesReport, buildConversationTranscript, exportReport, ReportFormat } from '@/lib/report';
+import { useTrace } from '@/contexts/TraceContext';
+import { toast } from '@/hooks/use-toast';
+
+export interface NotesExportOptions {
+  includeScripture?: boolean;
+  includeTranslationNotes?: boolean;
+  title?: string;
+  getAuthorName?: (note: Note) => string | undefined;
+}
+
+const MAX_QUOTED_REFERENCES = 60; // Keeps a large export from firing hundreds of lookups
+const FETCH_BATCH_SIZE = 5;
+const MISSING_SCRIPTURE = 'Scripture content not available';
+
+export function useReportExport() {
+  const { trace } = useTrace();
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Verse text and TN items for each verse-level reference in the notes
+  const gatherHelps = useCallback(async (notes: Note[], options: NotesExportOptions) => {
+    const verseTexts = new Map<string, string>();
+    const translationNotes = new Map<string, TranslationNote[]>();
+    if (!options.includeScripture && !options.includeTranslationNotes) return { verseTexts, translationNotes };
+
+    const labels = Array.from(new Set(
+      notes
+        .filter(note => note.sourceReference && parseReference(note.sourceReference)?.verse)
+        .map(note => formatScopeLabel(note.sourceReference!))
+    )).slice(0, MAX_QUOTED_REFERENCES);
+
+    for (let i = 0; i < labels.length; i += FETCH_BATCH_SIZE) {
+      await Promise.all(labels.slice(i, i + FETCH_BATCH_SIZE).map(async (label) => {
+        const [scripture, tns] = await Promise.all([
+          options.includeScripture ? fetchScripture(label).catch(() => null) : null,
+          options.includeTranslationNotes ? fetchTranslationNotes(label).catch(() => []) : [],
+        ]);
+        const text = scripture?.verses.map(v => v.text).join(' ').trim();
+        if (text && text !== MISSING_SCRIPTURE) verseTexts.set(label, text);
+        if (tns.length > 0) translationNotes.set(label, tns);
+      }));
+    }
+
+    return { verseTexts, translationNotes };
+  }, []);
+
+  const exportNotes = useCallback(async (notes: Note[], format: ReportFormat, options: NotesExportOptions = {}) => {
+    trace('report-export', 'start', `Exporting ${notes.length} notes as ${format}`, {
+      displayName: 'Report Export',
+      layer: 'client',
+    });
+
+    setIsExporting(true);
+    try {
+      const { verseTexts, translationNotes } = await gatherHelps(notes, options);
+      exportReport(buildNotesReport(notes, {
+        title: options.title,
+        verseTexts,
+        translationNotes,
+        getAuthorName: options.getAuthorName,
+      }), format);
+      trace('report-export', 'complete', `Exported ${notes.length} notes`);
+      return true;
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+      trace('report-export', 'error', error instanceof Error ? error.message : 'Export failed');
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsExporting(false);
+    }
+  }, [gatherHelps, trace]);
+
+  const exportConversation = useCallback(async (conversation: HistoryItem, messages: Message[], format: ReportFormat) => {
+    trace('report-export', 'start', `Exporting "${conversation.title}" as ${format}`, {
+      displayName: 'Report Export',
+      layer: 'client',
+    });
+
+    try {
+      exportReport(buildConversationTranscript({
+        title: conversation.title,
+        timestamp: new Date(conversation.timestamp),
+        scriptureReference: conversation.scripture || conversation.scriptureReference,
+      }, messages), format);
+      trace('report-export', 'complete', `Exported ${messages.length} messages`);
+      return true;
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      trace('report-export', 'error', error instanceof Error ? error.message : 'Export failed');
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [trace]);
+
+  return {
+    isExporting,
+    exportNotes,
+    exportConversation,
+  };
+}
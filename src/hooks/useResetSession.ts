@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { useDeviceId } from './useDeviceId';
+import { useAuth } from '@/hooks/useAuth';
 
 const LOCAL_STORAGE_KEYS = [
   'bible-study-device-id',
@@ -11,17 +11,18 @@ const LOCAL_STORAGE_KEYS = [
 ];
 
 export function useResetSession() {
-  const deviceId = useDeviceId();
+  const { user } = useAuth();
+  const userId = user?.id;
 
   const resetSession = useCallback(async (): Promise<boolean> => {
-    if (!deviceId) return false;
+    if (!userId) return false;
 
     try {
-      // Delete all messages for this device's conversations first (due to FK constraint)
+      // Delete all messages for this user's conversations first (due to FK constraint)
       const { data: conversations } = await supabase
         .from('conversations')
         .select('id')
-        .eq('device_id', deviceId);
+        .eq('user_id', userId);
 
       if (conversations && conversations.length > 0) {
         const conversationIds = conversations.map(c => c.id);
@@ -31,17 +32,17 @@ export function useResetSession() {
           .in('conversation_id', conversationIds);
       }
 
-      // Delete all conversations for this device
+      // Delete all conversations for this user
       await supabase
         .from('conversations')
         .delete()
-        .eq('device_id', deviceId);
+        .eq('user_id', userId);
 
-      // Delete all notes for this device
+      // Delete all notes for this user
       await supabase
         .from('notes')
         .delete()
-        .eq('device_id', deviceId);
+        .eq('user_id', userId);
 
       // Clear all localStorage keys
       LOCAL_STORAGE_KEYS.forEach(key => {
@@ -55,7 +56,7 @@ export function useResetSession() {
       console.error('Error resetting session:', error);
       return false;
     }
-  }, [deviceId]);
+  }, [userId]);
 
   return { resetSession };
 }
@@ -15,13 +15,24 @@ import {
   BookData,
   FallbackInfo,
 } from '@/services/translationHelpsApi';
+import { parseRef, validateRef, referenceError, getReferenceLevel, refsOverlap, getTestament } from '@/lib/scriptureReference';
 export interface FallbackState {
   hasFallback: boolean;
   fallbackInfo: FallbackInfo | null;
 }
 
 // Parse reference to extract book, chapter, verse
+// Known books go through the canonical model; anything else (e.g. unsupported languages)
+// falls back to a loose split and is resolved by the API
 function parseReference(ref: string): { book: string; chapter: number; verse?: number } | null {
+  const canonical = parseRef(ref);
+  if (canonical) {
+    // A known book must have the chapter and verse ("John 40:99" is rejected, not fetched)
+    if (validateRef(canonical).length > 0) return null;
+    const first = canonical.ranges[0];
+    return { book: canonical.book, chapter: first?.start.chapter ?? 1, verse: first?.start.verse };
+  }
+
   // Match patterns like "John 3:16", "John 3", "1 John 3:1"
   const match = ref.match(/^(.+?)\s+(\d+)(?::(\d+))?/);
   if (!match) {
@@ -120,7 +131,7 @@ export function useScriptureData() {
     const parsed = parseReference(reference);
     if (!parsed) {
       console.error('[useScriptureData] Could not parse reference:', reference);
-      setError('Invalid scripture reference');
+      setError(referenceError(reference) || 'Invalid scripture reference');
       return;
     }
 
@@ -492,26 +503,13 @@ export function useScriptureData() {
 
     setVerseFilter(verseReference);
 
-    // Filter to specific verse
+    // Filter to resources whose verse range overlaps (e.g., "John 3:16-18" includes verse 17)
+    const verseRef = parseRef(`${parsed.book} ${parsed.chapter}:${parsed.verse}`);
     const filtered = allResources.filter(r => {
-      if (!r.reference) return false;
-      
-      // Check exact match
-      if (r.reference === `${parsed.book} ${parsed.chapter}:${parsed.verse}`) return true;
-      
-      // Check if verse is in a range (e.g., "John 3:16-18" includes verse 17)
-      const rangeMatch = r.reference.match(/(\d+):(\d+)-(\d+)$/);
-      if (rangeMatch) {
-        const startVerse = parseInt(rangeMatch[2], 10);
-        const endVerse = parseInt(rangeMatch[3], 10);
-        if (parsed.verse >= startVerse && parsed.verse <= endVerse) return true;
-      }
-      
-      // Check single verse match
-      const singleMatch = r.reference.match(/(\d+):(\d+)$/);
-      if (singleMatch && parseInt(singleMatch[2], 10) === parsed.verse) return true;
-      
-      return false;
+      // Some helps cite only "chapter:verse" - read those against the current book
+      const resourceRef = r.reference ? parseRef(r.reference) || parseRef(`${parsed.book} ${r.reference}`) : null;
+      if (!resourceRef || !verseRef) return false;
+      return getReferenceLevel(resourceRef) === 'verse' && refsOverlap(resourceRef, verseRef);
     });
 
     console.log('[useScriptureData] Filtered to verse:', filtered.length, 'resources');
@@ -548,18 +546,9 @@ export function useScriptureData() {
     const byBook: Record<string, number> = {};
     const byTestament: Record<string, number> = {};
     
-    const OT_BOOKS = new Set([
-      'Genesis', 'Exodus', 'Leviticus', 'Numbers', 'Deuteronomy',
-      'Joshua', 'Judges', 'Ruth', '1 Samuel', '2 Samuel', '1 Kings', '2 Kings',
-      '1 Chronicles', '2 Chronicles', 'Ezra', 'Nehemiah', 'Esther', 'Job',
-      'Psalms', 'Proverbs', 'Ecclesiastes', 'Song of Solomon', 'Isaiah', 'Jeremiah',
-      'Lamentations', 'Ezekiel', 'Daniel', 'Hosea', 'Joel', 'Amos', 'Obadiah',
-      'Jonah', 'Micah', 'Nahum', 'Habakkuk', 'Zephaniah', 'Haggai', 'Zechariah', 'Malachi'
-    ]);
-    
     for (const match of matches) {
       byBook[match.book] = (byBook[match.book] || 0) + 1;
-      const testament = OT_BOOKS.has(match.book) ? 'OT' : 'NT';
+      const testament = getTestament(match.book) || 'NT';
       byTestament[testament] = (byTestament[testament] || 0) + 1;
     }
     
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { VerseCheck, CheckStatus, CheckResourceType } from '@/types';
+import { Database } from '@/integrations/supabase/types';
+import { getCheckKey } from '@/lib/checking';
+import { useDeviceId } from './useDeviceId';
+import { useAuth } from '@/hooks/useAuth';
+import { useTrace } from '@/contexts/TraceContext';
+
+type VerseCheckRow = Database['public']['Tables']['verse_checks']['Row'];
+
+export interface CheckInput {
+  sourceReference: string;
+  resourceType: CheckResourceType;
+  resourceId: string;
+  status: CheckStatus;
+  comment?: string;
+}
+
+function toVerseCheck(row: VerseCheckRow): VerseCheck {
+  return {
+    id: row.id,
+    sourceReference: row.source_reference,
+    resourceType: row.resource_type as CheckResourceType,
+    resourceId: row.resource_id,
+    status: row.status as CheckStatus,
+    comment: row.comment ?? undefined,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function useVerseChecks() {
+  const { trace } = useTrace();
+  const deviceId = useDeviceId();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [checks, setChecks] = useState<VerseCheck[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchChecks = useCallback(async () => {
+    if (!userId) return;
+
+    trace('verse-checks', 'start', 'Fetching checks', {
+      displayName: 'Checks DB',
+      layer: 'client',
+    });
+
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('verse_checks')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching checks:', error);
+      trace('verse-checks', 'error', error.message);
+    } else {
+      trace('verse-checks', 'complete', `Fetched ${data.length} checks`);
+      setChecks(data.map(toVerseCheck));
+    }
+    setIsLoading(false);
+  }, [userId, trace]);
+
+  useEffect(() => {
+    fetchChecks();
+  }, [fetchChecks]);
+
+  // Re-checking an item replaces its previous verdict, whichever device it was made on
+  const recordCheck = useCallback(async (input: CheckInput) => {
+    if (!deviceId || !userId) return null;
+
+    trace('verse-checks', 'start', `Marking ${input.sourceReference} ${input.status}`, {
+      displayName: 'Checks DB',
+      layer: 'client',
+    });
+
+    const { data, error } = await supabase
+      .from('verse_checks')
+      .upsert({
+        device_id: deviceId,
+        user_id: userId,
+        source_reference: input.sourceReference,
+        resource_type: input.resourceType,
+        resource_id: input.resourceId,
+        status: input.status,
+        comment: input.comment?.trim() || null,
+      }, { onConflict: 'user_id,source_reference,resource_type,resource_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error recording check:', error);
+      trace('verse-checks', 'error', error.message);
+      return null;
+    }
+
+    trace('verse-checks', 'complete', `Marked ${input.sourceReference} ${input.status}`);
+
+    const check = toVerseCheck(data);
+    setChecks(prev => [check, ...prev.filter(c => c.id !== check.id)]);
+    return check;
+  }, [deviceId, userId, trace]);
+
+  const clearCheck = useCallback(async (id: string) => {
+    trace('verse-checks', 'start', 'Clearing check', {
+      displayName: 'Checks DB',
+      layer: 'client',
+    });
+
+    const { error } = await supabase
+      .from('verse_checks')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error clearing check:', error);
+      trace('verse-checks', 'error', error.message);
+      return false;
+    }
+
+    trace('verse-checks', 'complete', 'Cleared check');
+    setChecks(prev => prev.filter(c => c.id !== id));
+    return true;
+  }, [trace]);
+
+  const checksByKey = useMemo(() => {
+    const byKey = new Map<string, VerseCheck>();
+    checks.forEach(check => byKey.set(getCheckKey(check.sourceReference, check.resourceType, check.resourceId), check));
+    return byKey;
+  }, [checks]);
+
+  return {
+    checks,
+    checksByKey,
+    isLoading,
+    recordCheck,
+    clearCheck,
+    refetchChecks: fetchChecks,
+  };
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { VerseHighlight, HighlightColor } from '@/types';
+import { Database } from '@/integrations/supabase/types';
+import { useDeviceId } from './useDeviceId';
+import { useAuth } from '@/hooks/useAuth';
+import { useTrace } from '@/contexts/TraceContext';
+
+type VerseHighlightRow = Database['public']['Tables']['verse_highlights']['Row'];
+
+export interface HighlightInput {
+  sourceReference: string;
+  quote?: string;
+  occurrence?: number;
+  color: HighlightColor;
+}
+
+function toVerseHighlight(row: VerseHighlightRow): VerseHighlight {
+  return {
+    id: row.id,
+    sourceReference: row.source_reference,
+    quote: row.quote || undefined,
+    occurrence: row.occurrence,
+    color: row.color as HighlightColor,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function useVerseHighlights() {
+  const { trace } = useTrace();
+  const deviceId = useDeviceId();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [highlights, setHighlights] = useState<VerseHighlight[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchHighlights = useCallback(async () => {
+    if (!userId) return;
+
+    trace('verse-highlights', 'start', 'Fetching highlights', {
+      displayName: 'Highlights DB',
+      layer: 'client',
+    });
+
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('verse_highlights')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching highlights:', error);
+      trace('verse-highlights', 'error', error.message);
+    } else {
+      trace('verse-highlights', 'complete', `Fetched ${data.length} highlights`);
+      setHighlights(data.map(toVerseHighlight));
+    }
+    setIsLoading(false);
+  }, [userId, trace]);
+
+  useEffect(() => {
+    fetchHighlights();
+  }, [fetchHighlights]);
+
+  // Highlighting the same verse or span again changes its colour
+  const setHighlight = useCallback(async (input: HighlightInput) => {
+    if (!deviceId || !userId) return null;
+
+    trace('verse-highlights', 'start', `Highlighting ${input.sourceReference} ${input.color}`, {
+      displayName: 'Highlights DB',
+      layer: 'client',
+    });
+
+    const { data, error } = await supabase
+      .from('verse_highlights')
+      .upsert({
+        device_id: deviceId,
+        user_id: userId,
+        source_reference: input.sourceReference,
+        quote: input.quote?.trim() || '',
+        occurrence: input.occurrence || 1,
+        color: input.color,
+      }, { onConflict: 'user_id,source_reference,quote,occurrence' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving highlight:', error);
+      trace('verse-highlights', 'error', error.message);
+      return null;
+    }
+
+    trace('verse-highlights', 'complete', `Highlighted ${input.sourceReference}`);
+
+    const highlight = toVerseHighlight(data);
+    setHighlights(prev => [highlight, ...prev.filter(h => h.id !== highlight.id)]);
+    return highlight;
+  }, [deviceId, userId, trace]);
+
+  const clearHighlight = useCallback(async (id: string) => {
+    trace('verse-highlights', 'start', 'Clearing highlight', {
+      displayName: 'Highlights DB',
+      layer: 'client',
+    });
+
+    const { error } = await supabase
+      .from('verse_highlights')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error clearing highlight:', error);
+      trace('verse-highlights', 'error', error.message);
+      return false;
+    }
+
+    trace('verse-highlights', 'complete', 'Cleared highlight');
+    setHighlights(prev => prev.filter(h => h.id !== id));
+    return true;
+  }, [trace]);
+
+  return {
+    highlights,
+    isLoading,
+    setHighlight,
+    clearHighlight,
+    refetchHighlights: fetchHighlights,
+  };
+}
@@ -95,6 +95,7 @@ export function useVoiceConversation(options: UseVoiceConversationOptions = {})
     
     const prefs = userPrefsRef.current || getResourcePrefs();
     const deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    const { data: { session } } = await supabase.auth.getSession();
     
     try {
       // Use fetch with streaming to get response faster
@@ -102,7 +103,7 @@ export function useVoiceConversation(options: UseVoiceConversationOptions = {})
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
         },
         body: JSON.stringify({
           message: args.request,
@@ -0,0 +1,32 @@
+import { createContext, useContext } from 'react';
+import { Workspace, WorkspaceMember } from '@/types';
+
+export interface NewWorkspace {
+  name: string;
+  language: string;
+  organization: string;
+  books: string[];
+  displayName: string;
+}
+
+export interface WorkspaceContextValue {
+  workspaces: Workspace[];
+  activeWorkspace: Workspace | null;
+  members: WorkspaceMember[];
+  isLoading: boolean;
+  setActiveWorkspaceId: (id: string | null) => void;
+  createWorkspace: (input: NewWorkspace) => Promise<Workspace | null>;
+  joinWorkspace: (inviteCode: string, displayName: string) => Promise<Workspace | null>;
+  leaveWorkspace: (id: string) => Promise<boolean>;
+}
+
+// Provided by WorkspaceProvider in contexts/WorkspaceContext
+export const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+}
@@ -16,34 +16,141 @@ export type Database = {
     Tables: {
       conversations: {
         Row: {
+          active_leaf_id: string | null
           created_at: string
           device_id: string
+          folder: string | null
           id: string
           language: string | null
+          pinned: boolean
           preview: string | null
           scripture_reference: string | null
+          search_vector: unknown | null
           title: string
           updated_at: string
+          user_id: string | null
         }
         Insert: {
+          active_leaf_id?: string | null
           created_at?: string
           device_id: string
+          folder?: string | null
           id?: string
           language?: string | null
+          pinned?: boolean
           preview?: string | null
           scripture_reference?: string | null
+          search_vector?: unknown | null
           title: string
           updated_at?: string
+          user_id?: string | null
         }
         Update: {
+          active_leaf_id?: string | null
           created_at?: string
           device_id?: string
+          folder?: string | null
           id?: string
           language?: string | null
+          pinned?: boolean
           preview?: string | null
           scripture_reference?: string | null
+          search_vector?: unknown | null
           title?: string
           updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_active_leaf_id_fkey"
+            columns: ["active_leaf_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      draft_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          device_id: string
+          draft_id: string
+          id: string
+          previous_content: string | null
+          source_reference: string
+          user_id: string | null
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          device_id: string
+          draft_id: string
+          id?: string
+          previous_content?: string | null
+          source_reference: string
+          user_id?: string | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          device_id?: string
+          draft_id?: string
+          id?: string
+          previous_content?: string | null
+          source_reference?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      guest_claim_tables: {
+        Row: {
+          conflict_columns: string[]
+          table_name: string
+        }
+        Insert: {
+          conflict_columns?: string[]
+          table_name: string
+        }
+        Update: {
+          conflict_columns?: string[]
+          table_name?: string
+        }
+        Relationships: []
+      }
+      guest_claims: {
+        Row: {
+          created_at: string
+          guest_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          guest_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          guest_id?: string
+          token?: string
+        }
+        Relationships: []
+      }
+      legacy_device_claims: {
+        Row: {
+          claimed_at: string
+          device_id: string
+          user_id: string
+        }
+        Insert: {
+          claimed_at?: string
+          device_id: string
+          user_id: string
+        }
+        Update: {
+          claimed_at?: string
+          device_id?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -55,7 +162,9 @@ export type Database = {
           created_at: string
           id: string
           navigation_hint: string | null
+          parent_id: string | null
           role: string
+          search_vector: unknown | null
           tool_calls: Json | null
         }
         Insert: {
@@ -65,7 +174,9 @@ export type Database = {
           created_at?: string
           id?: string
           navigation_hint?: string | null
+          parent_id?: string | null
           role: string
+          search_vector?: unknown | null
           tool_calls?: Json | null
         }
         Update: {
@@ -75,7 +186,9 @@ export type Database = {
           created_at?: string
           id?: string
           navigation_hint?: string | null
+          parent_id?: string | null
           role?: string
+          search_vector?: unknown | null
           tool_calls?: Json | null
         }
         Relationships: [
@@ -86,6 +199,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notes: {
@@ -93,36 +213,221 @@ export type Database = {
           content: string
           created_at: string
           device_id: string
+          embedding: string | null
+          external_id: string | null
           highlighted: boolean | null
           id: string
+          mentions: string[]
           note_type: string
+          occurrence: number | null
+          parent_id: string | null
+          quote: string | null
+          quote_source: string | null
+          resolved_at: string | null
+          resolved_by: string | null
           resource_id: string | null
           resource_type: string | null
+          search_vector: unknown | null
           source_reference: string | null
+          status: string
+          tags: string[]
           updated_at: string
+          user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
           content: string
           created_at?: string
           device_id: string
+          embedding?: string | null
+          external_id?: string | null
           highlighted?: boolean | null
           id?: string
+          mentions?: string[]
           note_type?: string
+          occurrence?: number | null
+          parent_id?: string | null
+          quote?: string | null
+          quote_source?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
           resource_id?: string | null
           resource_type?: string | null
+          search_vector?: unknown | null
           source_reference?: string | null
+          status?: string
+          tags?: string[]
           updated_at?: string
+          user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
           content?: string
           created_at?: string
           device_id?: string
+          embedding?: string | null
+          external_id?: string | null
           highlighted?: boolean | null
           id?: string
+          mentions?: string[]
           note_type?: string
+          occurrence?: number | null
+          parent_id?: string | null
+          quote?: string | null
+          quote_source?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
           resource_id?: string | null
           resource_type?: string | null
+          search_vector?: unknown | null
           source_reference?: string | null
+          status?: string
+          tags?: string[]
+          updated_at?: string
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Relationships: []
+      }
+      verse_checks: {
+        Row: {
+          comment: string | null
+          created_at: string
+          device_id: string
+          id: string
+          resource_id: string
+          resource_type: string
+          source_reference: string
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          device_id: string
+          id?: string
+          resource_id: string
+          resource_type: string
+          source_reference: string
+          status: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          device_id?: string
+          id?: string
+          resource_id?: string
+          resource_type?: string
+          source_reference?: string
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      verse_highlights: {
+        Row: {
+          color: string
+          created_at: string
+          device_id: string
+          id: string
+          occurrence: number
+          quote: string
+          source_reference: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          color: string
+          created_at?: string
+          device_id: string
+          id?: string
+          occurrence?: number
+          quote?: string
+          source_reference: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          device_id?: string
+          id?: string
+          occurrence?: number
+          quote?: string
+          source_reference?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      workspace_members: {
+        Row: {
+          display_name: string
+          joined_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          display_name: string
+          joined_at?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          display_name?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          books: string[]
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          language: string
+          name: string
+          organization: string
+          updated_at: string
+        }
+        Insert: {
+          books?: string[]
+          created_at?: string
+          created_by?: string
+          id?: string
+          invite_code?: string
+          language: string
+          name: string
+          organization: string
+          updated_at?: string
+        }
+        Update: {
+          books?: string[]
+          created_at?: string
+          created_by?: string
+          id?: string
+          invite_code?: string
+          language?: string
+          name?: string
+          organization?: string
           updated_at?: string
         }
         Relationships: []
@@ -132,7 +437,130 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_guest_data: {
+        Args: { p_token: string }
+        Returns: number
+      }
+      claim_legacy_device_data: {
+        Args: { p_device_id: string }
+        Returns: number
+      }
+      create_guest_claim: {
+        Args: never
+        Returns: string
+      }
+      create_workspace: {
+        Args: {
+          p_books: string[]
+          p_display_name: string
+          p_language: string
+          p_name: string
+          p_organization: string
+        }
+        Returns: {
+          books: string[]
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          language: string
+          name: string
+          organization: string
+          updated_at: string
+        }
+      }
+      is_workspace_member: {
+        Args: { p_workspace_id: string }
+        Returns: boolean
+      }
+      is_workspace_thread: {
+        Args: { p_parent_id: string; p_workspace_id: string }
+        Returns: boolean
+      }
+      join_workspace: {
+        Args: { p_display_name: string; p_invite_code: string }
+        Returns: {
+          books: string[]
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          language: string
+          name: string
+          organization: string
+          updated_at: string
+        }
+      }
+      match_notes: {
+        Args: {
+          p_embedding: string
+          p_limit?: number
+          p_match_threshold?: number
+          p_workspace_id?: string
+        }
+        Returns: {
+          id: string
+          similarity: number
+        }[]
+      }
+      search_conversations: {
+        Args: {
+          p_language?: string
+          p_limit?: number
+          p_query: string
+        }
+        Returns: {
+          headline: string
+          id: string
+          message_id: string
+          score: number
+        }[]
+      }
+      search_notes: {
+        Args: {
+          p_limit?: number
+          p_query: string
+          p_workspace_id?: string
+        }
+        Returns: {
+          headline: string
+          id: string
+          score: number
+        }[]
+      }
+      set_note_embedding: {
+        Args: { p_content: string; p_embedding: string; p_note_id: string }
+        Returns: undefined
+      }
+      set_thread_resolved: {
+        Args: { p_note_id: string; p_resolved: boolean }
+        Returns: {
+          content: string
+          created_at: string
+          device_id: string
+          embedding: string | null
+          external_id: string | null
+          highlighted: boolean | null
+          id: string
+          mentions: string[]
+          note_type: string
+          occurrence: number | null
+          parent_id: string | null
+          quote: string | null
+          quote_source: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          resource_id: string | null
+          resource_type: string | null
+          search_vector: unknown | null
+          source_reference: string | null
+          status: string
+          tags: string[]
+          updated_at: string
+          user_id: string | null
+          workspace_id: string | null
+        }
+      }
     }
     Enums: {
       [_ in never]: never
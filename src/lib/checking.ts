@@ -0,0 +1,99 @@
+/**
+ * Checking workflow helpers
+ *
+ * A check records the reviewer's verdict on one Translation Note or Translation Question
+ * for a reference. Verse status is the worst verdict among its checks, so a single failed
+ * item marks the verse as failed on the scripture heat map.
+ */
+
+import { Resource, VerseCheck, CheckStatus, CheckResourceType } from '@/types';
+import { parseRef, findBook, ScriptureRef } from '@/lib/scriptureReference';
+
+export const CHECK_STATUSES: { id: CheckStatus; label: string }[] = [
+  { id: 'pass', label: 'Pass' },
+  { id: 'discuss', label: 'Needs discussion' },
+  { id: 'fail', label: 'Fail' },
+];
+
+// Badge/button classes; the heat map uses the matching solid colours
+export const CHECK_STATUS_COLORS: Record<CheckStatus, string> = {
+  pass: 'bg-emerald-500/15 text-emerald-400 border-emerald-500/30',
+  discuss: 'bg-amber-500/15 text-amber-400 border-amber-500/30',
+  fail: 'bg-rose-500/15 text-rose-400 border-rose-500/30',
+};
+
+export const CHECK_HEAT_COLORS: Record<CheckStatus, string> = {
+  pass: 'bg-emerald-500/70',
+  discuss: 'bg-amber-500/70',
+  fail: 'bg-rose-500/70',
+};
+
+const STATUS_SEVERITY: Record<CheckStatus, number> = { pass: 0, discuss: 1, fail: 2 };
+
+export function isCheckableResource(resource: Resource): boolean {
+  return resource.type === 'translation-note' || resource.type === 'translation-question';
+}
+
+export function getCheckResourceType(resource: Resource): CheckResourceType {
+  return resource.type === 'translation-note' ? 'tn' : 'tq';
+}
+
+// Resource ids are list positions, so checks are keyed by a hash of the item's text instead
+export function getCheckItemId(resource: Resource): string {
+  const text = `${resource.title}\n${resource.content}`;
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${getCheckResourceType(resource)}-${(hash >>> 0).toString(36)}`;
+}
+
+// TN/TQ references are often chapter:verse only ("3:16") - borrow the book from the scripture in view
+export function resolveCheckReference(resourceReference: string | undefined, fallbackReference: string): ScriptureRef | null {
+  const fallback = parseRef(fallbackReference);
+  if (resourceReference) {
+    const direct = parseRef(resourceReference);
+    if (direct) return direct;
+    if (fallback && /^\d+:\d+/.test(resourceReference.trim())) {
+      const withBook = parseRef(`${fallback.book} ${resourceReference.trim()}`);
+      if (withBook) return withBook;
+    }
+  }
+  return fallback;
+}
+
+export function getCheckKey(sourceReference: string, resourceType: CheckResourceType, resourceId: string): string {
+  return `${sourceReference}|${resourceType}|${resourceId}`;
+}
+
+export function worstStatus(a: CheckStatus | undefined, b: CheckStatus): CheckStatus {
+  return a && STATUS_SEVERITY[a] >= STATUS_SEVERITY[b] ? a : b;
+}
+
+// chapter → verse → status for one book; ranges mark every verse they cover
+export function summarizeChecks(checks: VerseCheck[], bookCode: string | null): Map<number, Map<number, CheckStatus>> {
+  const summary = new Map<number, Map<number, CheckStatus>>();
+  if (!bookCode) return summary;
+  const book = findBook(bookCode);
+  if (!book) return summary;
+
+  for (const check of checks) {
+    const ref = parseRef(check.sourceReference);
+    if (!ref || ref.code !== bookCode) continue;
+
+    for (const range of ref.ranges) {
+      for (let chapter = range.start.chapter; chapter <= range.end.chapter; chapter++) {
+        const lastVerse = book.verses[chapter - 1] || 0;
+        const from = chapter === range.start.chapter ? range.start.verse ?? 1 : 1;
+        const to = chapter === range.end.chapter ? range.end.verse ?? lastVerse : lastVerse;
+        const verses = summary.get(chapter) || new Map<number, CheckStatus>();
+        for (let verse = from; verse <= to; verse++) {
+          verses.set(verse, worstStatus(verses.get(verse), check.status));
+        }
+        summary.set(chapter, verses);
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,78 @@
+// Grouping and search snippets for the history card.
+// Groups are built in the browser from the loaded conversations; search hits come from search_conversations.
+
+import { HistoryItem } from '@/types';
+import { BOOKS, parseRef } from '@/lib/scriptureReference';
+import { HighlightSegment } from '@/lib/noteSearch';
+
+export type HistoryGrouping = 'recent' | 'book' | 'folder';
+
+export interface HistoryGroup {
+  key: string;
+  label: string;
+  items: HistoryItem[];
+}
+
+const NO_BOOK = 'No passage';
+const NO_FOLDER = 'Unfiled';
+
+function bookOf(item: HistoryItem): { code: string; name: string } | null {
+  const ref = item.scriptureReference ? parseRef(item.scriptureReference) : null;
+  const book = ref ? BOOKS.find(b => b.code === ref.code) : undefined;
+  return book ? { code: book.code, name: book.name } : null;
+}
+
+// Folder names in use, for the "move to folder" menu
+export function collectFolders(items: HistoryItem[]): string[] {
+  return Array.from(new Set(items.map(item => item.folder).filter((f): f is string => !!f)))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Split conversations into sections. Pinned conversations always lead in their own section;
+ * books are in canonical order and folders alphabetical, with the leftovers last.
+ * Items keep their incoming (most recent first) order within a section.
+ */
+export function groupConversations(items: HistoryItem[], grouping: HistoryGrouping): HistoryGroup[] {
+  const pinned = items.filter(item => item.pinned);
+  const rest = items.filter(item => !item.pinned);
+  const groups: HistoryGroup[] = pinned.length > 0 ? [{ key: 'pinned', label: 'Pinned', items: pinned }] : [];
+
+  if (grouping === 'recent') {
+    if (rest.length > 0) groups.push({ key: 'recent', label: pinned.length > 0 ? 'Recent' : '', items: rest });
+    return groups;
+  }
+
+  const sections = new Map<string, HistoryGroup>();
+  const leftovers: HistoryItem[] = [];
+  rest.forEach(item => {
+    const section = grouping === 'book'
+      ? bookOf(item)
+      : item.folder ? { code: item.folder, name: item.folder } : null;
+    if (!section) {
+      leftovers.push(item);
+      return;
+    }
+    const group = sections.get(section.code) || { key: `${grouping}:${section.code}`, label: section.name, items: [] };
+    group.items.push(item);
+    sections.set(section.code, group);
+  });
+
+  const order = grouping === 'book'
+    ? (a: string, b: string) => BOOKS.findIndex(book => book.code === a) - BOOKS.findIndex(book => book.code === b)
+    : (a: string, b: string) => a.localeCompare(b);
+  Array.from(sections.keys()).sort(order).forEach(key => groups.push(sections.get(key)!));
+
+  if (leftovers.length > 0) {
+    groups.push({ key: `${grouping}:none`, label: grouping === 'book' ? NO_BOOK : NO_FOLDER, items: leftovers });
+  }
+  return groups;
+}
+
+// ts_headline output marks hits with **, e.g. "the **kinsman** redeemer"
+export function splitHeadline(headline: string): HighlightSegment[] {
+  return headline
+    .split(/\*\*(.+?)\*\*/g)
+    .map((text, index) => ({ text, match: index % 2 === 1 }))
+    .filter(segment => segment.text !== '');
+}
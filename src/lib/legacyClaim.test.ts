@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { claimLegacyDeviceData, LEGACY_CLAIM_KEY } from '@/lib/legacyClaim';
+
+const memoryStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+  };
+};
+
+describe('claimLegacyDeviceData', () => {
+  it('claims the device once and remembers it', async () => {
+    const storage = memoryStorage();
+    const claim = vi.fn(async () => ({ data: 3, error: null }));
+
+    expect(await claimLegacyDeviceData(claim, 'device_1', storage)).toBe(3);
+    expect(claim).toHaveBeenCalledWith('device_1');
+    expect(storage.getItem(LEGACY_CLAIM_KEY)).not.toBeNull();
+
+    expect(await claimLegacyDeviceData(claim, 'device_1', storage)).toBeNull();
+    expect(claim).toHaveBeenCalledTimes(1);
+  });
+
+  it('tries again next session when the claim fails', async () => {
+    const storage = memoryStorage();
+    const claim = vi.fn()
+      .mockResolvedValueOnce({ data: null, error: { message: 'offline' } })
+      .mockResolvedValueOnce({ data: 0, error: null });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await claimLegacyDeviceData(claim, 'device_1', storage)).toBeNull();
+    expect(storage.getItem(LEGACY_CLAIM_KEY)).toBeNull();
+
+    expect(await claimLegacyDeviceData(claim, 'device_1', storage)).toBe(0);
+    expect(claim).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips a missing device id', async () => {
+    const claim = vi.fn();
+    expect(await claimLegacyDeviceData(claim, '', memoryStorage())).toBeNull();
+    expect(claim).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Legacy device data claim
+ *
+ * Notes, conversations and checks written before accounts existed are keyed only by the
+ * device that wrote them (user_id NULL), so owner-only access hides them. The first session
+ * of an upgraded browser hands them to whoever is signed in - usually its guest, whose data
+ * then follows into an account like any other guest data. The server claims each device
+ * once; the stored flag keeps later sessions from asking again.
+ */
+
+export const LEGACY_CLAIM_KEY = 'bible-study-legacy-claimed';
+
+export type ClaimLegacyRpc = (deviceId: string) => PromiseLike<{
+  data: number | null;
+  error: { message: string } | null;
+}>;
+
+type FlagStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Claim this device's legacy rows unless it already has. Returns how many rows moved,
+ * or null when there was nothing to do or the claim failed (it is retried next session).
+ */
+export async function claimLegacyDeviceData(
+  claim: ClaimLegacyRpc,
+  deviceId: string,
+  storage: FlagStorage = localStorage,
+): Promise<number | null> {
+  if (!deviceId || storage.getItem(LEGACY_CLAIM_KEY)) return null;
+
+  const { data, error } = await claim(deviceId);
+  if (error) {
+    console.error('[legacyClaim] Error claiming legacy device data:', error);
+    return null;
+  }
+  storage.setItem(LEGACY_CLAIM_KEY, new Date().toISOString());
+  return data ?? 0;
+}
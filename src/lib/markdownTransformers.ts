@@ -1,5 +1,6 @@
 import React from 'react';
 import { segmentTextWithReferences, ScriptureReference } from '@/lib/scriptureReferenceParser';
+import { formatRef } from '@/lib/scriptureReference';
 
 /**
  * Transform text with scripture references into clickable elements
@@ -8,20 +9,15 @@ import { segmentTextWithReferences, ScriptureReference } from '@/lib/scriptureRe
 function transformTextWithReferences(
   text: string, 
   onReferenceClick: (reference: string) => void,
-  searchTerm: string | null
+  searchTerm: string | null,
+  language?: string
 ): React.ReactNode[] {
-  const segments = segmentTextWithReferences(text);
+  const segments = segmentTextWithReferences(text, language);
   
   return segments.map((segment, index) => {
     if (segment.type === 'reference' && segment.reference) {
       const ref = segment.reference;
-      let refString = `${ref.book} ${ref.chapter}`;
-      if (ref.verse) {
-        refString += `:${ref.verse}`;
-        if (ref.endVerse) {
-          refString += `-${ref.endVerse}`;
-        }
-      }
+      const refString = formatRef(ref.parsed);
       
       return React.createElement('button', {
         key: `ref-${index}`,
@@ -74,10 +70,11 @@ function escapeRegExp(string: string): string {
  */
 export function createCombinedTransformer(
   searchTerm: string | null,
-  onReferenceClick: (reference: string) => void
+  onReferenceClick: (reference: string) => void,
+  language?: string
 ) {
   return function transform(text: string): React.ReactNode[] {
-    return transformTextWithReferences(text, onReferenceClick, searchTerm);
+    return transformTextWithReferences(text, onReferenceClick, searchTerm, language);
   };
 }
 
@@ -101,9 +98,10 @@ function transformChildren(
  */
 export function createMarkdownComponents(
   searchTerm: string | null,
-  onReferenceClick: (reference: string) => void
+  onReferenceClick: (reference: string) => void,
+  language?: string
 ) {
-  const transform = createCombinedTransformer(searchTerm, onReferenceClick);
+  const transform = createCombinedTransformer(searchTerm, onReferenceClick, language);
 
   // Generic text transformer for any element
   const withTransform = (Tag: string, className: string) => {
@@ -0,0 +1,55 @@
+// @mentions of workspace members inside note text
+
+import { WorkspaceMember } from '@/types';
+
+export interface MentionSegment {
+  text: string;
+  userId?: string;
+}
+
+// The member whose display name follows the @ at `index`, preferring the longest name
+function matchMemberAt(content: string, index: number, members: WorkspaceMember[]): WorkspaceMember | null {
+  const rest = content.slice(index + 1).toLowerCase();
+  let best: WorkspaceMember | null = null;
+  for (const member of members) {
+    const name = member.displayName.toLowerCase();
+    if (!name || !rest.startsWith(name)) continue;
+    const next = rest.charAt(name.length);
+    if (next && /[\p{L}\p{N}_]/u.test(next)) continue;
+    if (!best || name.length > best.displayName.length) best = member;
+  }
+  return best;
+}
+
+export function extractMentions(content: string, members: WorkspaceMember[]): string[] {
+  const userIds = new Set<string>();
+  for (let i = content.indexOf('@'); i !== -1; i = content.indexOf('@', i + 1)) {
+    const member = matchMemberAt(content, i, members);
+    if (member) userIds.add(member.userId);
+  }
+  return [...userIds];
+}
+
+export function splitMentions(content: string, members: WorkspaceMember[]): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let last = 0;
+  for (let i = content.indexOf('@'); i !== -1; i = content.indexOf('@', i + 1)) {
+    const member = matchMemberAt(content, i, members);
+    if (!member) continue;
+    if (i > last) segments.push({ text: content.slice(last, i) });
+    const end = i + 1 + member.displayName.length;
+    segments.push({ text: content.slice(i, end), userId: member.userId });
+    last = end;
+    i = end - 1;
+  }
+  if (last < content.length) segments.push({ text: content.slice(last) });
+  return segments;
+}
+
+// The partial name being typed after an @ just before the caret, if any
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const before = text.slice(0, caret);
+  const match = before.match(/(?:^|\s)@([^\s@]*)$/);
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
@@ -0,0 +1,58 @@
+// Conversation branches.
+// Messages form a tree through parentId: editing a user message adds a sibling under the
+// same parent instead of overwriting it, and the chat shows one root-to-leaf path at a time.
+
+import { Message } from '@/types';
+
+export interface BranchPosition {
+  index: number;       // 0-based among siblings, oldest first
+  count: number;
+  siblings: Message[];
+}
+
+function byTime(a: Message, b: Message): number {
+  return a.timestamp.getTime() - b.timestamp.getTime();
+}
+
+function childrenOf(messages: Message[], parentId: string | undefined): Message[] {
+  return messages.filter(m => m.parentId === parentId).sort(byTime);
+}
+
+/**
+ * Leaf of the branch through messageId, following the newest child at every fork.
+ * Without a usable id, the newest message - a message is always newer than its parent,
+ * so that is a leaf.
+ */
+export function resolveLeaf(messages: Message[], messageId?: string | null): Message | undefined {
+  let current = messageId ? messages.find(m => m.id === messageId) : undefined;
+  if (!current) return [...messages].sort(byTime).pop();
+
+  for (;;) {
+    const children = childrenOf(messages, current.id);
+    if (children.length === 0) return current;
+    current = children[children.length - 1];
+  }
+}
+
+/** Messages from the root down to messageId, inclusive */
+export function getPathTo(messages: Message[], messageId: string | null | undefined): Message[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: Message[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/** The branch through messageId (or the newest message), from the root to its leaf */
+export function getActivePath(messages: Message[], messageId?: string | null): Message[] {
+  return getPathTo(messages, resolveLeaf(messages, messageId)?.id);
+}
+
+/** Where a message sits among the alternatives sharing its parent */
+export function getBranchPosition(messages: Message[], message: Message): BranchPosition {
+  const siblings = childrenOf(messages, message.parentId).filter(m => m.role === message.role);
+  return { index: siblings.findIndex(m => m.id === message.id), count: siblings.length, siblings };
+}
@@ -0,0 +1,111 @@
+/**
+ * Quote anchors for notes
+ *
+ * A note can target a word span the way a TN item does: a quote plus which occurrence of
+ * it in the verse. Anchors are re-resolved against whichever text is on screen, so the same
+ * note lands on the right words in ULT, UST or a draft - or is flagged when they're gone.
+ */
+import { Note, ScriptureChapter } from '@/types';
+import { parseRef } from '@/lib/scriptureReference';
+
+/** Character range of the nth (1-based) occurrence of quote in text */
+export function findQuoteSpan(text: string, quote: string, occurrence = 1): { start: number; end: number } | null {
+  if (!quote) return null;
+  let index = -1;
+  for (let n = 0; n < occurrence; n++) {
+    index = text.indexOf(quote, index + 1);
+    if (index === -1) return null;
+  }
+  return { start: index, end: index + quote.length };
+}
+
+/** Occurrence number of a quote selected at offset: earlier occurrences in text, plus one */
+export function getOccurrenceAt(text: string, quote: string, offset: number): number {
+  let occurrence = 1;
+  let index = text.indexOf(quote);
+  while (index !== -1 && index < offset) {
+    occurrence++;
+    index = text.indexOf(quote, index + 1);
+  }
+  return occurrence;
+}
+
+// exact: quote and occurrence match as written
+// loose: matches once case, punctuation and spacing are ignored
+// missing: not in this text - reworded, or quoted from a different translation
+export type AnchorStatus = 'exact' | 'loose' | 'missing';
+
+export interface AnchorResolution {
+  status: AnchorStatus;
+  start?: number;
+  end?: number;
+}
+
+// Letters, digits and combining marks (Greek and Hebrew diacritics) lowercased, everything
+// else collapsed to single spaces, with the index in the original text of every kept character
+function normalizeWithMap(text: string): { normalized: string; map: number[] } {
+  let normalized = '';
+  const map: number[] = [];
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/[\p{L}\p{N}\p{M}]/u.test(char)) {
+      for (const lower of char.toLowerCase()) {
+        normalized += lower;
+        map.push(i);
+      }
+      lastWasSpace = false;
+    } else if (!lastWasSpace) {
+      normalized += ' ';
+      map.push(i);
+      lastWasSpace = true;
+    }
+  }
+
+  if (normalized.endsWith(' ')) {
+    normalized = normalized.slice(0, -1);
+    map.pop();
+  }
+  return { normalized, map };
+}
+
+export function resolveAnchor(text: string, quote: string, occurrence = 1): AnchorResolution {
+  const exact = findQuoteSpan(text, quote, occurrence);
+  if (exact) return { status: 'exact', ...exact };
+
+  const { normalized, map } = normalizeWithMap(text);
+  const needle = normalizeWithMap(quote).normalized;
+  const loose = needle ? findQuoteSpan(normalized, needle, occurrence) : null;
+  if (loose) return { status: 'loose', start: map[loose.start], end: map[loose.end - 1] + 1 };
+
+  return { status: 'missing' };
+}
+
+/** Verse text for the first verse of a reference, from loaded chapters */
+export function getVerseText(chapters: ScriptureChapter[] | undefined, chapter: number, verse: number): string | undefined {
+  return chapters?.find(ch => ch.chapter === chapter)?.verses.find(v => v.number === verse)?.text;
+}
+
+// Anchored notes of one book resolved against its loaded text; notes on verses that
+// aren't loaded are left out rather than reported missing
+export function resolveNoteAnchors(
+  notes: Note[],
+  chapters: ScriptureChapter[] | undefined,
+  bookCode: string | null
+): Map<string, AnchorResolution> {
+  const resolutions = new Map<string, AnchorResolution>();
+  if (!bookCode || !chapters?.length) return resolutions;
+
+  for (const note of notes) {
+    if (!note.quote || !note.sourceReference) continue;
+    const ref = parseRef(note.sourceReference);
+    const start = ref?.ranges[0]?.start;
+    if (!ref || ref.code !== bookCode || start?.verse === undefined) continue;
+
+    const text = getVerseText(chapters, start.chapter, start.verse);
+    if (text !== undefined) resolutions.set(note.id, resolveAnchor(text, note.quote, note.occurrence));
+  }
+
+  return resolutions;
+}
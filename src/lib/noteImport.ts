@@ -0,0 +1,303 @@
+/**
+ * Notes import from spreadsheets
+ *
+ * Reads CSV or TSV exports where each row is a note, including the unfoldingWord TN shapes:
+ * the 7-column TSV (Reference, ID, Tags, SupportReference, Quote, Occurrence, Note) whose
+ * references are relative to the book in the file name, and the older 9-column TSV
+ * (Book, Chapter, Verse, ID, SupportReference, OrigQuote, Occurrence, GLQuote, OccurrenceNote).
+ * Rows are resolved to canonical references and compared against existing notes so the
+ * import can be previewed before anything is written.
+ */
+
+import { Note } from '@/types';
+import { BOOKS, BookInfo, findBook, parseRef, formatRef } from '@/lib/scriptureReference';
+import { parseTags } from '@/lib/noteTags';
+
+export type NoteImportFormat = 'tn-tsv' | 'tsv' | 'csv';
+
+export type NoteImportStatus = 'new' | 'duplicate' | 'conflict' | 'invalid';
+
+export type ConflictResolution = 'skip' | 'update' | 'keep-both';
+
+export interface ImportedNoteRow {
+  line: number;          // Row number in the file, counting the header as 1
+  reference: string;     // As written in the file
+  externalId?: string;   // The row's ID column, e.g. a TN ID
+  tags: string[];
+  quote?: string;
+  occurrence?: number;
+  note: string;
+}
+
+export interface ParsedNoteFile {
+  format: NoteImportFormat;
+  fileName: string;
+  bookCode?: string;     // From the file name or a Book column
+  relativeReferences: boolean; // "1:3" style references that need a book
+  rows: ImportedNoteRow[];
+}
+
+export interface NoteImportPreview {
+  row: ImportedNoteRow;
+  sourceReference?: string; // Canonical, e.g. "Titus 1:3"
+  content: string;
+  status: NoteImportStatus;
+  reason?: string;
+  existing?: Note;          // The note a duplicate or conflict matched
+}
+
+type Column = 'reference' | 'book' | 'chapter' | 'verse' | 'id' | 'tags' | 'quote' | 'occurrence' | 'note';
+
+// Header aliases, compared lowercased with spaces and underscores removed
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  reference: ['reference', 'ref', 'sourcereference', 'passage', 'scripture'],
+  book: ['book'],
+  chapter: ['chapter', 'chap'],
+  verse: ['verse', 'verses'],
+  id: ['id', 'noteid'],
+  tags: ['tags', 'tag', 'labels'],
+  quote: ['quote', 'glquote', 'origquote'],
+  occurrence: ['occurrence'],
+  note: ['note', 'occurrencenote', 'notes', 'content', 'comment', 'comments', 'text'],
+};
+
+const RELATIVE_REFERENCE = /^(front|\d+):(intro|\d+(?:\s*[-–]\s*\d+)?)$/i;
+
+/**
+ * Split delimited text into rows of fields.
+ * Fields may be double-quoted with "" escapes (CSV, and TSV saved by spreadsheet apps);
+ * unfoldingWord TSVs are unquoted and write line breaks inside a field as <br> or \n.
+ */
+export function parseDelimited(text: string, delimiter: ',' | '\t'): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let atFieldStart = true;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && atFieldStart) {
+      quoted = true;
+      atFieldStart = false;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      atFieldStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      atFieldStart = true;
+    } else {
+      field += char;
+      atFieldStart = false;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function mapColumns(headers: string[]): Partial<Record<Column, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<Column, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as Column[]).forEach(column => {
+    // First alias wins, so "Quote" is preferred over "OrigQuote" when both exist
+    for (const alias of COLUMN_ALIASES[column]) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1) {
+        columns[column] = index;
+        break;
+      }
+    }
+  });
+  return columns;
+}
+
+/** USFM book code in names like "tn_TIT.tsv", "en_tn_57-TIT.tsv" or "TIT_notes.tsv" */
+export function detectBookFromFileName(fileName: string): BookInfo | null {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  for (const part of base.split(/[_\-.\s]+/)) {
+    const book = BOOKS.find(b => b.code === part.toUpperCase());
+    if (book) return book;
+  }
+  return null;
+}
+
+// TN text stores line breaks as <br> or a literal \n
+function unescapeNoteText(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/\\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function parseNotesFile(text: string, fileName: string): ParsedNoteFile {
+  const isCsv = /\.csv$/i.test(fileName) || (!text.includes('\t') && text.includes(','));
+  const table = parseDelimited(text, isCsv ? ',' : '\t');
+  const headerIndex = table.findIndex(fields => fields.some(field => field.trim()));
+  if (headerIndex === -1) throw new Error(`${fileName || 'File'} is empty`);
+
+  const columns = mapColumns(table[headerIndex]);
+  if (columns.note === undefined) {
+    throw new Error('No note column found - expected a header such as "Note", "OccurrenceNote" or "Content"');
+  }
+  const hasReference = columns.reference !== undefined || columns.chapter !== undefined;
+  if (!hasReference) {
+    throw new Error('No reference column found - expected "Reference", or "Chapter" and "Verse"');
+  }
+
+  const get = (fields: string[], column: Column) => {
+    const index = columns[column];
+    return index === undefined ? '' : (fields[index] || '').trim();
+  };
+
+  const rows: ImportedNoteRow[] = [];
+  table.slice(headerIndex + 1).forEach((fields, offset) => {
+    if (!fields.some(field => field.trim())) return;
+
+    // Legacy TN rows split the reference into Chapter and Verse, relative to the Book column
+    const reference = columns.reference !== undefined
+      ? get(fields, 'reference')
+      : `${get(fields, 'chapter')}:${get(fields, 'verse') || 'intro'}`;
+    const occurrence = parseInt(get(fields, 'occurrence'), 10);
+
+    rows.push({
+      line: headerIndex + offset + 2,
+      reference,
+      externalId: get(fields, 'id') || undefined,
+      tags: parseTags(get(fields, 'tags').replace(/;/g, ',')), // Spreadsheets often use ; between tags
+      quote: get(fields, 'quote') || undefined,
+      occurrence: Number.isNaN(occurrence) ? undefined : occurrence,
+      note: unescapeNoteText(get(fields, 'note')),
+    });
+  });
+
+  const bookColumnCode = table
+    .slice(headerIndex + 1)
+    .map(fields => findBook(get(fields, 'book'))?.code)
+    .find(Boolean);
+  const relativeReferences = rows.some(row => RELATIVE_REFERENCE.test(row.reference.replace(/\s+/g, '')));
+  const isTn = columns.id !== undefined && columns.quote !== undefined && columns.occurrence !== undefined;
+
+  return {
+    format: isTn ? 'tn-tsv' : isCsv ? 'csv' : 'tsv',
+    fileName,
+    bookCode: detectBookFromFileName(fileName)?.code || bookColumnCode,
+    relativeReferences,
+    rows,
+  };
+}
+
+/**
+ * Canonical reference for a row, or null when it can't be placed.
+ * Relative TN references resolve against the file's book: "1:3" → "Titus 1:3",
+ * "1:intro" → "Titus 1", "front:intro" → "Titus".
+ */
+export function resolveImportReference(reference: string, bookCode?: string): string | null {
+  const compact = reference.replace(/\s+/g, '');
+  const relative = compact.match(RELATIVE_REFERENCE);
+
+  if (relative) {
+    const book = bookCode ? findBook(bookCode) : null;
+    if (!book) return null;
+    const [, chapter, verse] = relative;
+    if (chapter.toLowerCase() === 'front') return book.name;
+    const scoped = verse.toLowerCase() === 'intro' ? `${book.name} ${chapter}` : `${book.name} ${chapter}:${verse}`;
+    const ref = parseRef(scoped);
+    return ref ? formatRef(ref) : null;
+  }
+
+  const ref = parseRef(reference);
+  return ref ? formatRef(ref) : null;
+}
+
+function contentKey(content: string): string {
+  return content.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// The same note on a different quote in the verse is a different note
+function anchorKey(quote?: string, occurrence?: number): string {
+  return quote ? `${contentKey(quote)}#${occurrence || 1}` : '';
+}
+
+/**
+ * Classify every row against the notes already visible to the user:
+ * - duplicate: same reference, quote and content as an existing note or an earlier row
+ * - conflict: one of your notes imported from the same row ID and reference has different content
+ * - invalid: no note text, or a reference that can't be resolved
+ */
+export function previewNoteImport(
+  file: ParsedNoteFile,
+  existingNotes: Note[],
+  { bookCode = file.bookCode, userId }: { bookCode?: string; userId?: string } = {}
+): NoteImportPreview[] {
+  const byContent = new Map<string, Note>();
+  const byExternalId = new Map<string, Note>();
+  existingNotes.forEach(note => {
+    const reference = note.sourceReference || '';
+    byContent.set(`${reference}|${anchorKey(note.quote, note.occurrence)}|${contentKey(note.content)}`, note);
+    // Only your own notes can be overwritten by a re-import
+    if (note.externalId && (!userId || note.userId === userId)) byExternalId.set(`${reference}|${note.externalId}`, note);
+  });
+  const seen = new Set<string>();
+
+  return file.rows.map(row => {
+    const content = row.note;
+    if (!row.note) {
+      return { row, content, status: 'invalid', reason: 'No note text' };
+    }
+
+    const sourceReference = resolveImportReference(row.reference, bookCode);
+    if (!sourceReference) {
+      const reason = !row.reference
+        ? 'No reference'
+        : RELATIVE_REFERENCE.test(row.reference.replace(/\s+/g, '')) && !bookCode
+          ? 'Choose a book for chapter:verse references'
+          : `Unknown reference "${row.reference}"`;
+      return { row, content, status: 'invalid', reason };
+    }
+
+    const key = `${sourceReference}|${anchorKey(row.quote, row.occurrence)}|${contentKey(content)}`;
+    const duplicate = byContent.get(key);
+    if (duplicate) {
+      return { row, sourceReference, content, status: 'duplicate', reason: 'Already in your notes', existing: duplicate };
+    }
+    if (seen.has(key)) {
+      return { row, sourceReference, content, status: 'duplicate', reason: 'Repeated in this file' };
+    }
+    seen.add(key);
+
+    const previous = row.externalId ? byExternalId.get(`${sourceReference}|${row.externalId}`) : undefined;
+    if (previous) {
+      return { row, sourceReference, content, status: 'conflict', reason: `${row.externalId} was imported before with different text`, existing: previous };
+    }
+
+    return { row, sourceReference, content, status: 'new' };
+  });
+}
@@ -0,0 +1,43 @@
+// Keyword matching and highlighting for the notes search box.
+// Loaded notes are filtered in the browser; semantic matches come from note-agent.
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// "redeem kinsman" -> ['redeem', 'kinsman']; quoted phrases stay together
+export function getSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+// Every term must appear somewhere in the text (case-insensitive)
+export function matchesSearch(text: string, terms: string[]): boolean {
+  if (terms.length === 0) return true;
+  const haystack = text.toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function highlightTerms(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  // Longest first so "kinsman" wins over "kin" at the same position
+  const sorted = [...terms].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(`(${sorted.map(escapeRegExp).join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter(part => part !== '')
+    .map(part => ({ text: part, match: sorted.includes(part.toLowerCase()) }));
+}
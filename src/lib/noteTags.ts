@@ -0,0 +1,62 @@
+/**
+ * Note tags and checklist status
+ *
+ * Normalization lives in supabase/functions/_shared so note-agent tags notes
+ * exactly the way the app does.
+ */
+import { Note } from '@/types';
+import { parseRef } from '@/lib/scriptureReference';
+import { forEachVerse } from '@/lib/referenceScope';
+
+export * from '../../supabase/functions/_shared/noteTags.ts';
+
+const TAG_COLORS = [
+  'bg-sky-500/15 text-sky-400',
+  'bg-violet-500/15 text-violet-400',
+  'bg-amber-500/15 text-amber-400',
+  'bg-rose-500/15 text-rose-400',
+  'bg-teal-500/15 text-teal-400',
+  'bg-lime-500/15 text-lime-400',
+];
+
+// Same tag, same colour - in NotesCard and on verses
+export function getTagColor(tag: string): string {
+  let hash = 5381;
+  for (let i = 0; i < tag.length; i++) {
+    hash = ((hash << 5) + hash + tag.charCodeAt(i)) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+}
+
+// Every tag in use with how many notes carry it, most used first
+export function collectTags(notes: Note[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  notes.forEach(note => note.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// chapter → verse → tags for one book, from open notes anchored to specific verses.
+// Chapter- and book-level notes are left out so a single tag doesn't cover a whole chapter.
+export function summarizeVerseTags(notes: Note[], bookCode: string | null): Map<number, Map<number, string[]>> {
+  const summary = new Map<number, Map<number, string[]>>();
+  if (!bookCode) return summary;
+
+  for (const note of notes) {
+    if (!note.tags?.length || note.status === 'done' || !note.sourceReference) continue;
+    const ref = parseRef(note.sourceReference);
+    if (!ref || ref.code !== bookCode) continue;
+
+    forEachVerse(ref, (chapter, verse) => {
+      const verses = summary.get(chapter) || new Map<number, string[]>();
+      const tags = verses.get(verse) || [];
+      note.tags!.forEach(tag => {
+        if (!tags.includes(tag)) tags.push(tag);
+      });
+      verses.set(verse, tags);
+      summary.set(chapter, verses);
+    });
+  }
+
+  return summary;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { filterNotesByScope, forEachVerse, formatScopeLabel, getScopeLevel, isNoteInScope, parseReference } from '@/lib/referenceScope';
+import { parseRef } from '@/lib/scriptureReference';
+
+describe('parseReference', () => {
+  it('flattens the first range', () => {
+    expect(parseReference('John 3:16')).toMatchObject({ book: 'John', chapter: 3, verse: 16, endVerse: undefined });
+    expect(parseReference('Genesis 1:1-5')).toMatchObject({ book: 'Genesis', chapter: 1, verse: 1, endVerse: 5 });
+    expect(parseReference('1 Cor 13')).toMatchObject({ book: '1 Corinthians', chapter: 13, verse: undefined });
+    expect(parseReference('Romans')).not.toHaveProperty('chapter');
+  });
+
+  it('leaves endVerse unset for a range that crosses chapters', () => {
+    const parsed = parseReference('John 3:16-4:2');
+    expect(parsed).toMatchObject({ chapter: 3, verse: 16, endVerse: undefined });
+    expect(parsed?.ref.ranges[0].end).toEqual({ chapter: 4, verse: 2 });
+  });
+
+  it('returns null for text that is not a reference', () => {
+    expect(parseReference('kinsman redeemer')).toBeNull();
+  });
+});
+
+describe('getScopeLevel', () => {
+  it('reports the level of a reference', () => {
+    expect(getScopeLevel('John')).toBe('book');
+    expect(getScopeLevel('John 3')).toBe('chapter');
+    expect(getScopeLevel('John 3:16')).toBe('verse');
+    expect(getScopeLevel('')).toBe('all');
+  });
+});
+
+describe('isNoteInScope', () => {
+  it.each([
+    ['John 3:16', 'John', true],
+    ['John 3:16', 'John 3', true],
+    ['John 3:16', 'John 3:16', true],
+    ['John 3:18', 'John 3:16-4:2', true],
+    ['Juan 3:16', 'John 3', true],
+    ['John 4:1', 'John 3', false],
+    ['John 3', 'John 3:16', false],
+    ['Romans 3:16', 'John', false],
+    [undefined, 'John', false],
+  ])('%s in %s → %s', (noteRef, scope, expected) => {
+    expect(isNoteInScope(noteRef, scope)).toBe(expected);
+  });
+});
+
+describe('filterNotesByScope', () => {
+  const notes = [
+    { id: 'a', sourceReference: 'Ruth 1:1' },
+    { id: 'b', sourceReference: 'Ruth 2:3' },
+    { id: 'c' },
+  ];
+
+  it('keeps the notes inside the scope', () => {
+    expect(filterNotesByScope(notes, 'Ruth 1').map(n => n.id)).toEqual(['a']);
+    expect(filterNotesByScope(notes, 'Ruth').map(n => n.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps everything without a scope', () => {
+    expect(filterNotesByScope(notes)).toBe(notes);
+  });
+});
+
+describe('forEachVerse', () => {
+  const verses = (ref: string) => {
+    const visited: string[] = [];
+    forEachVerse(parseRef(ref)!, (chapter, verse) => visited.push(`${chapter}:${verse}`));
+    return visited;
+  };
+
+  it('walks ranges across chapter boundaries', () => {
+    expect(verses('Ruth 1:21-2:2')).toEqual(['1:21', '1:22', '2:1', '2:2']);
+    expect(verses('Rom 1:1,5')).toEqual(['1:1', '1:5']);
+  });
+
+  it('skips chapter and book references', () => {
+    expect(verses('Ruth 1')).toEqual([]);
+    expect(verses('Ruth')).toEqual([]);
+  });
+});
+
+describe('formatScopeLabel', () => {
+  it('formats references and leaves anything else alone', () => {
+    expect(formatScopeLabel('Rom 1:1,5')).toBe('Romans 1:1, 5');
+    expect(formatScopeLabel('NT')).toBe('NT');
+  });
+});
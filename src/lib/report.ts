@@ -0,0 +1,331 @@
+/**
+ * Notes reports and conversation transcripts
+ *
+ * Builders turn notes or chat messages into a small block model; renderers write that
+ * model as Markdown, DOCX, or print-ready HTML (which the browser saves as PDF, with
+ * whatever fonts the reader's script needs).
+ */
+
+import { Note, Message } from '@/types';
+import { TranslationNote } from '@/services/translationHelpsApi';
+import { BOOKS } from '@/lib/scriptureReference';
+import { parseReference, formatScopeLabel } from '@/lib/referenceScope';
+import { createDocx, DocxParagraph, DOCX_MIME_TYPE } from '@/lib/docx';
+import { downloadTextFile, downloadBlob } from '@/lib/usfm';
+
+export type ReportFormat = 'markdown' | 'docx' | 'pdf';
+
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string; markdown?: boolean } // markdown = content authored as Markdown
+  | { type: 'quote'; text: string }
+  | { type: 'meta'; text: string }
+  | { type: 'list'; items: string[] };
+
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  blocks: ReportBlock[];
+}
+
+export interface NotesReportOptions {
+  title?: string;
+  subtitle?: string;
+  verseTexts?: Map<string, string>;                 // Keyed by formatted reference, e.g. "Ruth 1:16"
+  translationNotes?: Map<string, TranslationNote[]>; // Same keys
+  getAuthorName?: (note: Note) => string | undefined;
+}
+
+interface ConversationInfo {
+  title: string;
+  timestamp: Date;
+  scriptureReference?: string;
+}
+
+// --- Builders ---
+
+const BOOK_ORDER = new Map(BOOKS.map((book, index) => [book.name, index]));
+
+function noteMeta(note: Note, getAuthorName?: (note: Note) => string | undefined): string {
+  const parts = [
+    getAuthorName?.(note),
+    note.createdAt.toLocaleDateString(),
+    note.noteType === 'bug_report' ? 'bug report' : note.noteType === 'feedback' ? 'feedback' : undefined,
+    ...(note.tags || []).map(tag => `#${tag}`),
+    note.status === 'done' ? 'done' : undefined,
+    note.resolvedAt ? 'resolved' : undefined,
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+/**
+ * Notes grouped book → chapter → verse in canonical order, each verse group optionally
+ * quoting the verse and listing its translation notes. Replies follow their thread.
+ */
+export function buildNotesReport(notes: Note[], options: NotesReportOptions = {}): ReportDocument {
+  const { verseTexts, translationNotes, getAuthorName } = options;
+  const ids = new Set(notes.map(n => n.id));
+  const replies = new Map<string, Note[]>();
+  const roots: Note[] = [];
+  notes.forEach(note => {
+    if (note.parentId && ids.has(note.parentId)) {
+      replies.set(note.parentId, [...(replies.get(note.parentId) || []), note]);
+    } else {
+      roots.push(note);
+    }
+  });
+
+  const noteBlocks = (note: Note): ReportBlock[] => [
+    ...(note.quote ? [{ type: 'meta', text: `On “${note.quote}”${note.occurrence && note.occurrence > 1 ? ` (occurrence ${note.occurrence})` : ''}` } as ReportBlock] : []),
+    { type: 'paragraph', text: note.content },
+    { type: 'meta', text: noteMeta(note, getAuthorName) },
+    ...(replies.get(note.id) || [])
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .flatMap((reply): ReportBlock[] => [
+        { type: 'quote', text: reply.content },
+        { type: 'meta', text: `↳ ${noteMeta(reply, getAuthorName)}` },
+      ]),
+  ];
+
+  // book → chapter (0 = book level) → label → notes
+  const grouped = new Map<string, Map<number, Map<string, Note[]>>>();
+  const unanchored: Note[] = [];
+  roots.forEach(note => {
+    const parsed = note.sourceReference ? parseReference(note.sourceReference) : null;
+    if (!parsed) {
+      unanchored.push(note);
+      return;
+    }
+    const chapters = grouped.get(parsed.book) || new Map<number, Map<string, Note[]>>();
+    const chapter = parsed.chapter ?? 0;
+    const labels = chapters.get(chapter) || new Map<string, Note[]>();
+    const label = formatScopeLabel(note.sourceReference!);
+    labels.set(label, [...(labels.get(label) || []), note]);
+    chapters.set(chapter, labels);
+    grouped.set(parsed.book, chapters);
+  });
+
+  const firstVerse = (label: string) => parseReference(label)?.verse ?? 0;
+  const byDate = (a: Note, b: Note) => a.createdAt.getTime() - b.createdAt.getTime();
+  const blocks: ReportBlock[] = [];
+
+  [...grouped.keys()]
+    .sort((a, b) => (BOOK_ORDER.get(a) ?? 999) - (BOOK_ORDER.get(b) ?? 999))
+    .forEach(book => {
+      blocks.push({ type: 'heading', level: 1, text: book });
+      const chapters = grouped.get(book)!;
+      [...chapters.keys()].sort((a, b) => a - b).forEach(chapter => {
+        if (chapter > 0) blocks.push({ type: 'heading', level: 2, text: `${book} ${chapter}` });
+        const labels = chapters.get(chapter)!;
+        [...labels.keys()].sort((a, b) => firstVerse(a) - firstVerse(b)).forEach(label => {
+          const isVerseGroup = firstVerse(label) > 0;
+          if (isVerseGroup) blocks.push({ type: 'heading', level: 3, text: label });
+          const verseText = verseTexts?.get(label);
+          if (verseText) blocks.push({ type: 'quote', text: verseText });
+          labels.get(label)!.sort(byDate).forEach(note => blocks.push(...noteBlocks(note)));
+          const helps = translationNotes?.get(label);
+          if (helps?.length) {
+            blocks.push({ type: 'meta', text: 'Translation notes' });
+            blocks.push({
+              type: 'list',
+              items: helps.map(tn => (tn.quote ? `“${tn.quote}” — ${tn.note}` : tn.note)),
+            });
+          }
+        });
+      });
+    });
+
+  if (unanchored.length > 0) {
+    blocks.push({ type: 'heading', level: 1, text: 'Other notes' });
+    unanchored.sort(byDate).forEach(note => blocks.push(...noteBlocks(note)));
+  }
+
+  const count = roots.length;
+  return {
+    title: options.title || 'Notes report',
+    subtitle: options.subtitle || `${count} ${count === 1 ? 'note' : 'notes'} · exported ${new Date().toLocaleDateString()}`,
+    blocks,
+  };
+}
+
+export function buildConversationTranscript(conversation: ConversationInfo, messages: Message[]): ReportDocument {
+  const blocks: ReportBlock[] = messages.flatMap((message): ReportBlock[] => {
+    const speaker = message.role === 'user'
+      ? 'You'
+      : message.agent && message.agent !== 'main' ? `Assistant (${message.agent})` : 'Assistant';
+    return [
+      { type: 'heading', level: 3, text: `${speaker} · ${message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` },
+      { type: 'paragraph', text: message.content, markdown: message.role === 'assistant' },
+    ];
+  });
+
+  const subtitle = [
+    conversation.timestamp.toLocaleDateString(),
+    conversation.scriptureReference,
+    `${messages.length} messages`,
+  ].filter(Boolean).join(' · ');
+
+  return { title: conversation.title, subtitle, blocks };
+}
+
+// --- Renderers ---
+
+// Plain-text reading of Markdown for formats without inline formatting
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^*\w])[*_]([^*_\n]+)[*_](?=[^*\w]|$)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*[-*+]\s+/gm, '• ')
+    .replace(/^>\s?/gm, '');
+}
+
+export function toMarkdown(report: ReportDocument): string {
+  const lines = [`# ${report.title}`, ''];
+  if (report.subtitle) lines.push(`_${report.subtitle}_`, '');
+
+  for (const block of report.blocks) {
+    switch (block.type) {
+      case 'heading':
+        lines.push(`${'#'.repeat(block.level + 1)} ${block.text}`, '');
+        break;
+      case 'paragraph':
+        lines.push(block.text, '');
+        break;
+      case 'quote':
+        lines.push(...block.text.split('\n').map(line => `> ${line}`), '');
+        break;
+      case 'meta':
+        lines.push(`*${block.text}*`, '');
+        break;
+      case 'list':
+        lines.push(...block.items.map(item => `- ${item.replace(/\n+/g, ' ')}`), '');
+        break;
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+export function toDocxParagraphs(report: ReportDocument): DocxParagraph[] {
+  const paragraphs: DocxParagraph[] = [{ text: report.title, style: 'Title' }];
+  if (report.subtitle) paragraphs.push({ text: report.subtitle, style: 'Subtitle' });
+
+  for (const block of report.blocks) {
+    switch (block.type) {
+      case 'heading':
+        paragraphs.push({ text: block.text, style: `Heading${block.level}` });
+        break;
+      case 'paragraph':
+        paragraphs.push({ text: block.markdown ? stripMarkdown(block.text) : block.text });
+        break;
+      case 'quote':
+        paragraphs.push({ text: block.text, style: 'Quote' });
+        break;
+      case 'meta':
+        paragraphs.push({ text: block.text, style: 'Meta' });
+        break;
+      case 'list':
+        block.items.forEach(item => paragraphs.push({ text: `• ${stripMarkdown(item)}` }));
+        break;
+    }
+  }
+
+  return paragraphs;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const multiline = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+export function toHtml(report: ReportDocument): string {
+  const body = report.blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level + 1}>${escapeHtml(block.text)}</h${block.level + 1}>`;
+      case 'paragraph':
+        return `<p>${multiline(block.markdown ? stripMarkdown(block.text) : block.text)}</p>`;
+      case 'quote':
+        return `<blockquote>${multiline(block.text)}</blockquote>`;
+      case 'meta':
+        return `<p class="meta">${escapeHtml(block.text)}</p>`;
+      case 'list':
+        return `<ul>${block.items.map(item => `<li>${multiline(stripMarkdown(item))}</li>`).join('')}</ul>`;
+    }
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title>
+<style>
+  @page { margin: 2cm; }
+  body { font-family: Georgia, 'Noto Serif', serif; font-size: 11pt; line-height: 1.5; color: #111; }
+  h1 { font-size: 22pt; margin: 0 0 4pt; }
+  h2 { font-size: 16pt; margin: 20pt 0 6pt; border-bottom: 1px solid #ccc; page-break-after: avoid; }
+  h3 { font-size: 13pt; margin: 14pt 0 4pt; page-break-after: avoid; }
+  h4 { font-size: 11pt; margin: 10pt 0 2pt; color: #444; page-break-after: avoid; }
+  blockquote { margin: 4pt 0 6pt 16pt; font-style: italic; color: #444; }
+  p { margin: 0 0 6pt; }
+  .meta, .subtitle { color: #888; font-size: 9pt; }
+  .subtitle { font-size: 11pt; margin-bottom: 18pt; }
+</style></head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+${report.subtitle ? `<p class="subtitle">${escapeHtml(report.subtitle)}</p>` : ''}
+${body}
+</body></html>`;
+}
+
+// Print from a hidden frame - works after async work, where a popup would be blocked
+function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Printing is not available in this browser');
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove());
+  // Some browsers never fire afterprint for frames
+  setTimeout(() => frame.remove(), 60_000);
+  frameWindow.focus();
+  frameWindow.print();
+}
+
+function toFileBaseName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'report'}-${new Date().toISOString().slice(0, 10)}`;
+}
+
+export function exportReport(report: ReportDocument, format: ReportFormat) {
+  const baseName = toFileBaseName(report.title);
+  switch (format) {
+    case 'markdown':
+      downloadTextFile(`${baseName}.md`, toMarkdown(report), 'text/markdown');
+      break;
+    case 'docx':
+      downloadBlob(`${baseName}.docx`, new Blob([createDocx(toDocxParagraphs(report))], { type: DOCX_MIME_TYPE }));
+      break;
+    case 'pdf':
+      printHtml(toHtml(report));
+      break;
+  }
+}
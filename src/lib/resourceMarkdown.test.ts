@@ -0,0 +1,169 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  filterByReference,
+  narrowScriptureMarkdown,
+  parseNotesMarkdown,
+  parseQuestionsMarkdown,
+  parseScriptureMarkdown,
+  parseWordLinksMarkdown,
+  parseYamlFrontmatter,
+} from '@/lib/resourceMarkdown';
+
+// Recorded MCP answers shared with the mock server, plus edge cases it has no fixture for
+const mockFixture = (name: string) => readFileSync(new URL(`../../mock-mcp/fixtures/api/${name}`, import.meta.url), 'utf8');
+const fixture = (name: string) => readFileSync(new URL(`../test/fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseYamlFrontmatter', () => {
+  it('splits front matter from the body', () => {
+    const { metadata, body } = parseYamlFrontmatter('---\nlanguage: en\nresources: ULT, UST\n---\n# Ruth 1\n');
+    expect(metadata).toEqual({ language: 'en', resources: 'ULT, UST' });
+    expect(body).toBe('# Ruth 1\n');
+  });
+
+  it('returns the whole text as body when there is no front matter', () => {
+    expect(parseYamlFrontmatter('# Ruth 1\n\n1 In the days')).toEqual({ metadata: {}, body: '# Ruth 1\n\n1 In the days' });
+  });
+
+  it('ignores lines that are not key: value pairs', () => {
+    const { metadata } = parseYamlFrontmatter('---\nlanguage: ar\n  - nested\nempty:\n---\nbody');
+    expect(metadata).toEqual({ language: 'ar' });
+  });
+});
+
+describe('parseScriptureMarkdown', () => {
+  const ruth = mockFixture('fetch-scripture/ruth-1.md');
+
+  it('reads the requested translation out of a multi-version response', () => {
+    const ult = parseScriptureMarkdown(ruth, 'Ruth 1', 'ult');
+    const ust = parseScriptureMarkdown(ruth, 'Ruth 1', 'UST');
+
+    expect(ult.translation).toBe('unfoldingWord Literal Text');
+    expect(ust.translation).toBe('unfoldingWord Simplified Text');
+    expect(ust.verses.map(v => v.number)).toEqual([1, 2, 3, 4, 5]);
+    expect(ust.verses[2].text).toBe('Some time later, Elimelech died. So Naomi was left with just her two sons.');
+    expect(ult.verses[0].text).not.toBe(ust.verses[0].text);
+  });
+
+  it('marks paragraph ends and strips the backslash marker', () => {
+    const { verses } = parseScriptureMarkdown(ruth, 'Ruth 1', 'ust');
+    expect(verses.filter(v => v.isParagraphEnd).map(v => v.number)).toEqual([2, 5]);
+    expect(verses.every(v => !v.text.includes('\\'))).toBe(true);
+  });
+
+  it('turns front matter into metadata', () => {
+    expect(parseScriptureMarkdown(ruth, 'Ruth 1').metadata).toEqual({
+      language: 'en',
+      organization: 'unfoldingWord',
+      availableTranslations: ['ULT', 'UST'],
+      license: 'CC BY-SA 4.0',
+    });
+  });
+
+  it('falls back to the ULT when the requested translation is missing', () => {
+    const result = parseScriptureMarkdown(fixture('scripture-no-frontmatter.md'), 'John 3:16-18', 'ust');
+    expect(result.translation).toBe('unfoldingWord Literal Text (fallback)');
+    expect(result.metadata).toBeUndefined();
+    expect(result.verses.map(v => v.number)).toEqual([16, 17, 18]);
+  });
+
+  it('reads a passage that starts mid-chapter', () => {
+    const { verses } = parseScriptureMarkdown(mockFixture('fetch-scripture/john-3-16.md'), 'John 3:16');
+    expect(verses).toHaveLength(1);
+    expect(verses[0].number).toBe(16);
+  });
+
+  it('keeps a verse bridge together under its first verse', () => {
+    const { verses } = parseScriptureMarkdown(fixture('scripture-verse-bridge.md'), 'Ruth 1:16-18');
+    expect(verses.map(v => v.number)).toEqual([16, 17]);
+    expect(verses[0].text).toMatch(/where you stay, I will stay\."$/);
+    expect(verses[1].text).toMatch(/^"Where you die, I will die\."/);
+  });
+
+  it('parses right-to-left text', () => {
+    const result = parseScriptureMarkdown(fixture('scripture-arabic.md'), 'Ruth 1:1-2', 'ulb');
+    expect(result.translation).toBe('Unlocked Literal Bible');
+    expect(result.metadata?.language).toBe('ar');
+    expect(result.verses.map(v => v.number)).toEqual([1, 2]);
+    expect(result.verses[1].text).toBe('وَاسْمُ الرَّجُلِ أَلِيمَالِكُ، وَاسْمُ امْرَأَتِهِ نُعْمِي.');
+  });
+});
+
+describe('narrowScriptureMarkdown', () => {
+  const ruth = mockFixture('fetch-scripture/ruth-1.md');
+
+  it('keeps only the requested verses in every translation', () => {
+    const narrowed = narrowScriptureMarkdown(ruth, 'Ruth 1', 'Ruth 1:3-4');
+    expect(parseScriptureMarkdown(narrowed, 'Ruth 1:3-4', 'ult').verses.map(v => v.number)).toEqual([3, 4]);
+    expect(parseScriptureMarkdown(narrowed, 'Ruth 1:3-4', 'ust').verses.map(v => v.number)).toEqual([3, 4]);
+    expect(parseScriptureMarkdown(narrowed, 'Ruth 1:3-4').metadata?.language).toBe('en');
+  });
+
+  it('keeps a bridge that covers the requested verse', () => {
+    const narrowed = narrowScriptureMarkdown(fixture('scripture-verse-bridge.md'), 'Ruth 1', 'Ruth 1:18');
+    const { verses } = parseScriptureMarkdown(narrowed, 'Ruth 1:18');
+    expect(verses.map(v => v.number)).toEqual([17]);
+  });
+});
+
+describe('parseNotesMarkdown', () => {
+  it('reads each numbered note with its reference, quote and body', () => {
+    const notes = parseNotesMarkdown(mockFixture('fetch-translation-notes/ruth-1.md'), 'Ruth 1');
+    expect(notes.length).toBeGreaterThan(0);
+    notes.forEach(note => {
+      expect(note.id).toBeTruthy();
+      expect(note.reference).toMatch(/^Ruth 1/);
+      expect(note.note).not.toMatch(/\*\*(Reference|ID|Quote)\*\*/);
+    });
+  });
+
+  it('handles book intros and Hebrew quotes in a Spanish response', () => {
+    const notes = parseNotesMarkdown(fixture('notes-spanish-intro.md'), 'Rut 1');
+    expect(notes.map(n => n.id)).toEqual(['intro1', 'es01', 'es02']);
+    expect(notes[0]).toMatchObject({
+      reference: 'Rut front:intro',
+      quote: 'Introducción a Rut',
+      note: 'El libro de Rut cuenta la historia de una mujer moabita que llegó a ser parte del pueblo de Israel.',
+    });
+    expect(notes[1].quote).toBe('בִּימֵי֙ שְׁפֹ֣ט הַשֹּׁפְטִ֔ים');
+  });
+});
+
+describe('filterByReference', () => {
+  const chapter = parseNotesMarkdown(mockFixture('fetch-translation-notes/ruth-1.md'), 'Ruth 1');
+
+  it('keeps only the notes for the requested verse or range', () => {
+    expect(filterByReference(chapter, 'Ruth 1:1').map(n => n.reference)).toEqual(['Ruth 1:1', 'Ruth 1:1']);
+    expect(new Set(filterByReference(chapter, 'Ruth 1:2-3').map(n => n.reference))).toEqual(new Set(['Ruth 1:2', 'Ruth 1:3']));
+  });
+
+  it('reads chapter:verse references against the requested book and drops intros', () => {
+    const items = [{ reference: '1:3' }, { reference: 'Ruth front:intro' }, { reference: '1:4' }, {}];
+    expect(filterByReference(items, 'Ruth 1:3')).toEqual([{ reference: '1:3' }]);
+  });
+});
+
+describe('parseQuestionsMarkdown', () => {
+  it('pairs each question with its response', () => {
+    const questions = parseQuestionsMarkdown(mockFixture('fetch-translation-questions/ruth-1.md'), 'Ruth 1');
+    expect(questions[0]).toEqual({
+      id: 'q1a2',
+      reference: 'Ruth 1:1',
+      question: 'Why did Elimelech and his family go to live in Moab?',
+      response: 'They went because there was a famine in the land of Judah.',
+    });
+    expect(questions.map(q => q.reference)).toEqual(['Ruth 1:1', 'Ruth 1:3', 'Ruth 1:4']);
+  });
+});
+
+describe('parseWordLinksMarkdown', () => {
+  it('reads the linked words and their article ids', () => {
+    const links = parseWordLinksMarkdown(mockFixture('fetch-translation-word-links/ruth-1.md'), 'Ruth 1');
+    expect(links.map(l => [l.word, l.articleId])).toEqual([
+      ['judge', 'judge'],
+      ['famine', 'famine'],
+      ['Bethlehem', 'bethlehem'],
+      ['Moab', 'moab'],
+    ]);
+  });
+});
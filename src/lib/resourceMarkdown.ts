@@ -0,0 +1,405 @@
+/**
+ * Markdown parsers for Translation Helps MCP responses
+ *
+ * The MCP server answers scripture, notes, questions and word links as markdown;
+ * these turn it into the structures the cards render.
+ */
+import { ScriptureVerse, ScriptureResponse, TranslationNote, TranslationQuestion, TranslationWordLink } from '@/services/translationHelpsApi';
+import { parseRef, isRefInScope, refsOverlap } from '@/lib/scriptureReference';
+
+// Parse YAML frontmatter from markdown content
+export function parseYamlFrontmatter(content: string): { metadata: Record<string, string>; body: string } {
+  const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/);
+  
+  if (!frontmatterMatch) {
+    return { metadata: {}, body: content };
+  }
+
+  const yamlContent = frontmatterMatch[1];
+  const body = frontmatterMatch[2];
+  
+  const metadata: Record<string, string> = {};
+  yamlContent.split('\n').forEach(line => {
+    const match = line.match(/^(\w+):\s*(.+)$/);
+    if (match) {
+      metadata[match[1]] = match[2].trim();
+    }
+  });
+
+  return { metadata, body };
+}
+
+interface VerseMarker {
+  index: number;     // Where the verse number starts
+  textStart: number; // Where its text starts
+  verseNum: number;
+  lastNum: number;   // Last verse of a bridge, else verseNum
+}
+
+// Verse numbers in a translation section ("1 Text of verse one. 2 Text of verse two. \")
+function findVerseMarkers(text: string): VerseMarker[] {
+  // Split into segments by verse numbers
+  // Pattern: Look for numbers at the start or after paragraph breaks
+  // A verse bridge ("17-18 Text") is kept as one verse under its first number
+  const versePattern = /(?:^|\s)(\d+)(?:-(\d+))?\s+/g;
+  const potentialMatches: VerseMarker[] = [];
+  let match;
+  
+  while ((match = versePattern.exec(text)) !== null) {
+    const verseNum = parseInt(match[1], 10);
+    const lastNum = match[2] ? parseInt(match[2], 10) : verseNum;
+    potentialMatches.push({ index: match.index, textStart: match.index + match[0].length, verseNum, lastNum });
+  }
+  
+  // Filter to only valid verse numbers - they must be in ascending order
+  // with reasonable gaps (to handle verse ranges like "16-18")
+  const validMatches: VerseMarker[] = [];
+  let lastVerseNum = 0;
+  
+  for (const pm of potentialMatches) {
+    // Valid verse number must be:
+    // 1. Greater than the last verse
+    // 2. Not more than ~10 verses ahead (to handle ranges, but catch random numbers like "70")
+    const isValidSequence = pm.verseNum > lastVerseNum && pm.verseNum <= lastVerseNum + 10;
+    
+    // Special case: first verse can be 1 or start of a passage
+    const isFirstVerse = validMatches.length === 0 && pm.verseNum >= 1 && pm.verseNum <= 50;
+    
+    if ((isValidSequence || isFirstVerse) && pm.lastNum >= pm.verseNum) {
+      validMatches.push(pm);
+      lastVerseNum = pm.lastNum;
+    }
+  }
+  
+  return validMatches;
+}
+
+// Parse scripture content - extract requested translation with proper verse handling
+export function parseScriptureMarkdown(content: string, reference: string, resource: string = 'ult'): { 
+  verses: ScriptureVerse[]; 
+  translation: string;
+  metadata?: ScriptureResponse['metadata'];
+} {
+  const verses: ScriptureVerse[] = [];
+  
+  // Map resource ID to section header pattern and display name
+  const resourcePatterns: Record<string, { pattern: RegExp; displayName: string }> = {
+    'ult': { 
+      pattern: /\*\*ULT v\d+[^*]*\*\*\s*\n\n([\s\S]*?)(?=\n\n\*\*[A-Z]|$)/, 
+      displayName: 'unfoldingWord Literal Text' 
+    },
+    'ust': { 
+      pattern: /\*\*UST v\d+[^*]*\*\*\s*\n\n([\s\S]*?)(?=\n\n\*\*[A-Z]|$)/, 
+      displayName: 'unfoldingWord Simplified Text' 
+    },
+    'ulb': { 
+      pattern: /\*\*ULB v\d+[^*]*\*\*\s*\n\n([\s\S]*?)(?=\n\n\*\*[A-Z]|$)/, 
+      displayName: 'Unlocked Literal Bible' 
+    },
+    'udb': { 
+      pattern: /\*\*UDB v\d+[^*]*\*\*\s*\n\n([\s\S]*?)(?=\n\n\*\*[A-Z]|$)/, 
+      displayName: 'Unlocked Dynamic Bible' 
+    },
+  };
+  
+  const resourceConfig = resourcePatterns[resource.toLowerCase()] || resourcePatterns['ult'];
+  let translation = resourceConfig.displayName;
+  
+  // Parse YAML frontmatter
+  const { metadata, body } = parseYamlFrontmatter(content);
+  
+  const scriptureMetadata: ScriptureResponse['metadata'] = metadata.language ? {
+    language: metadata.language || 'en',
+    organization: metadata.organization || 'unfoldingWord',
+    availableTranslations: (metadata.resources || '').split(',').map(s => s.trim()),
+    license: metadata.license || 'CC BY-SA 4.0',
+  } : undefined;
+
+  // Find the requested translation section
+  const translationMatch = body.match(resourceConfig.pattern);
+  
+  // Fallback to ULT if requested resource not found
+  let contentToProcess = '';
+  if (translationMatch) {
+    contentToProcess = translationMatch[1].trim();
+  } else if (resource.toLowerCase() !== 'ult') {
+    // Try ULT as fallback
+    const ultMatch = body.match(resourcePatterns['ult'].pattern);
+    if (ultMatch) {
+      contentToProcess = ultMatch[1].trim();
+      translation = resourcePatterns['ult'].displayName + ' (fallback)';
+      console.log(`[parseScriptureMarkdown] ${resource.toUpperCase()} not found, falling back to ULT`);
+    }
+  }
+  
+  if (contentToProcess) {
+    // Parse verses from content
+    // Format: "1 Text of verse one. 2 Text of verse two. \"
+    // Backslash \ indicates paragraph end
+    
+    const validMatches = findVerseMarkers(contentToProcess);
+    
+    // Extract text for each verse
+    for (let i = 0; i < validMatches.length; i++) {
+      const current = validMatches[i];
+      const next = validMatches[i + 1];
+      
+      const textEnd = next ? next.index : contentToProcess.length;
+      
+      let verseText = contentToProcess.slice(current.textStart, textEnd).trim();
+      
+      // Check if this verse ends with a paragraph marker (backslash)
+      const isParagraphEnd = verseText.endsWith('\\');
+      
+      // Clean up the verse text
+      verseText = verseText
+        .replace(/\\\s*$/, '') // Remove trailing backslash
+        .replace(/\s+/g, ' ') // Normalize whitespace
+        .trim();
+      
+      if (verseText) {
+        verses.push({
+          number: current.verseNum,
+          text: verseText,
+          isParagraphEnd,
+        });
+      }
+    }
+  }
+  
+  // Fallback: if no section found, try to parse any numbered content
+  if (verses.length === 0) {
+    console.log('[parseScriptureMarkdown] No translation section found, using fallback parsing');
+    
+    // Try to find any section with verse-like content
+    const lines = body.split('\n');
+    let currentSection = '';
+    
+    for (const line of lines) {
+      // Skip headers and empty lines for this parsing
+      if (line.startsWith('#') || line.startsWith('**') || !line.trim()) {
+        if (currentSection && !line.startsWith('**')) continue;
+        currentSection = line;
+        continue;
+      }
+      
+      // Try to parse verses from this line
+      const versePattern = /(\d+)\s+([^0-9]+?)(?=\d+\s|$|\\)/g;
+      let match;
+      
+      while ((match = versePattern.exec(line)) !== null) {
+        const verseNum = parseInt(match[1], 10);
+        let verseText = match[2].trim();
+        const isParagraphEnd = verseText.endsWith('\\') || line.endsWith('\\');
+        verseText = verseText.replace(/\\\s*$/, '').trim();
+        
+        if (verseText && verseNum > 0) {
+          // Avoid duplicates
+          if (!verses.find(v => v.number === verseNum)) {
+            verses.push({ number: verseNum, text: verseText, isParagraphEnd });
+          }
+        }
+      }
+    }
+  }
+
+  console.log('[parseScriptureMarkdown] Parsed verses:', verses.length, 'for', resource.toUpperCase());
+  
+  return { verses, translation, metadata: scriptureMetadata };
+}
+
+// Parse translation notes from markdown - each numbered section is a separate note
+export function parseNotesMarkdown(content: string, defaultReference: string): TranslationNote[] {
+  const notes: TranslationNote[] = [];
+  
+  // Split by sections starting with "## number." - the content after the number can be anything
+  const sectionPattern = /^## (\d+)\.\s+/gm;
+  const sectionMatches = [...content.matchAll(sectionPattern)];
+  
+  console.log('[parseNotesMarkdown] Found sections:', sectionMatches.length);
+  
+  for (let i = 0; i < sectionMatches.length; i++) {
+    const match = sectionMatches[i];
+    const sectionNum = match[1];
+    const startIndex = match.index!;
+    const endIndex = i < sectionMatches.length - 1 ? sectionMatches[i + 1].index! : content.length;
+    const section = content.substring(startIndex, endIndex).trim();
+    
+    if (!section) continue;
+    
+    // Extract the **Reference** field for this specific note
+    const refMatch = section.match(/\*\*Reference\*\*:\s*([^\n]+)/);
+    const noteReference = refMatch ? refMatch[1].trim() : defaultReference;
+    
+    // Extract the **Quote** field if present (the Greek/Hebrew text)
+    const quoteMatch = section.match(/\*\*Quote\*\*:\s*([^\n]+)/);
+    
+    // Extract the **ID** field
+    const idMatch = section.match(/\*\*ID\*\*:\s*([^\n]+)/);
+    const noteId = idMatch ? idMatch[1].trim() : `note-${sectionNum}`;
+    
+    // Get the first line after ## N. as the title/quote
+    const firstLineMatch = section.match(/^## \d+\.\s+(.+)$/m);
+    const firstLine = firstLineMatch ? firstLineMatch[1].trim() : '';
+    
+    // Get any # heading in the section as the title
+    const titleMatch = section.match(/^# ([^\n]+)/m);
+    const title = titleMatch ? titleMatch[1].trim() : firstLine;
+    
+    // The quote is either from Quote field, or the first line after ##, or the title
+    const quote = quoteMatch ? quoteMatch[1].trim() : (firstLine || title);
+    
+    // Get content - everything except metadata fields and section headers
+    const noteContent = section
+      .replace(/^## \d+\.\s+.+$/m, '') // Remove section header
+      .replace(/^# [^\n]+$/m, '') // Remove title
+      .replace(/\*\*Reference\*\*:[^\n]+\n?/g, '')
+      .replace(/\*\*ID\*\*:[^\n]+\n?/g, '')
+      .replace(/\*\*Support Reference\*\*:[^\n]+\n?/g, '')
+      .replace(/\*\*Quote\*\*:[^\n]+\n?/g, '')
+      .replace(/\*\*Occurrence\*\*:[^\n]+\n?/g, '')
+      .trim();
+    
+    console.log(`[parseNotesMarkdown] Note ${sectionNum}: ref=${noteReference}, quote=${quote.substring(0, 30)}...`);
+    
+    if (quote || noteContent) {
+      notes.push({
+        id: noteId,
+        reference: noteReference,
+        quote: quote || `Note ${sectionNum}`,
+        note: noteContent,
+      });
+    }
+  }
+  
+  return notes;
+}
+
+// Parse translation questions from markdown
+export function parseQuestionsMarkdown(content: string, defaultReference: string): TranslationQuestion[] {
+  const questions: TranslationQuestion[] = [];
+  
+  // Split by sections starting with "## number."
+  const sectionPattern = /^## (\d+)\.\s+/gm;
+  const sectionMatches = [...content.matchAll(sectionPattern)];
+  
+  console.log('[parseQuestionsMarkdown] Found sections:', sectionMatches.length);
+  
+  for (let i = 0; i < sectionMatches.length; i++) {
+    const match = sectionMatches[i];
+    const sectionNum = match[1];
+    const startIndex = match.index!;
+    const endIndex = i < sectionMatches.length - 1 ? sectionMatches[i + 1].index! : content.length;
+    const section = content.substring(startIndex, endIndex).trim();
+    
+    if (!section) continue;
+    
+    // Get the question text (first line after ## N.)
+    const questionMatch = section.match(/^## \d+\.\s+(.+)$/m);
+    const questionText = questionMatch ? questionMatch[1].trim() : '';
+    
+    // Extract the **Reference** field
+    const refMatch = section.match(/\*\*Reference\*\*:\s*([^\n]+)/);
+    const qReference = refMatch ? refMatch[1].trim() : defaultReference;
+    
+    // Extract the **ID** field
+    const idMatch = section.match(/\*\*ID\*\*:\s*([^\n]+)/);
+    const qId = idMatch ? idMatch[1].trim() : `question-${sectionNum}`;
+    
+    // Get the answer - content between question and metadata
+    const answer = section
+      .replace(/^## \d+\.\s+.+$/m, '') // Remove question line
+      .replace(/\*\*Reference\*\*:[^\n]+\n?/g, '')
+      .replace(/\*\*ID\*\*:[^\n]+\n?/g, '')
+      .trim();
+    
+    console.log(`[parseQuestionsMarkdown] Q${sectionNum}: ${questionText.substring(0, 40)}...`);
+    
+    if (questionText) {
+      questions.push({
+        id: qId,
+        reference: qReference,
+        question: questionText,
+        response: answer,
+      });
+    }
+  }
+  
+  return questions;
+}
+
+// Parse translation word links from markdown
+export function parseWordLinksMarkdown(content: string, defaultReference: string): TranslationWordLink[] {
+  const links: TranslationWordLink[] = [];
+  
+  // Split by sections starting with "## number."
+  const sectionPattern = /^## (\d+)\.\s+/gm;
+  const sectionMatches = [...content.matchAll(sectionPattern)];
+  
+  console.log('[parseWordLinksMarkdown] Found sections:', sectionMatches.length);
+  
+  for (let i = 0; i < sectionMatches.length; i++) {
+    const match = sectionMatches[i];
+    const sectionNum = match[1];
+    const startIndex = match.index!;
+    const endIndex = i < sectionMatches.length - 1 ? sectionMatches[i + 1].index! : content.length;
+    const section = content.substring(startIndex, endIndex).trim();
+    
+    if (!section) continue;
+    
+    // Get the word (text after ## N.)
+    const wordMatch = section.match(/^## \d+\.\s+(.+)$/m);
+    const word = wordMatch ? wordMatch[1].trim() : '';
+    
+    // Extract the **Reference** field
+    const refMatch = section.match(/\*\*Reference\*\*:\s*([^\n]+)/);
+    const linkReference = refMatch ? refMatch[1].trim() : defaultReference;
+    
+    console.log(`[parseWordLinksMarkdown] Word ${sectionNum}: ${word}`);
+    
+    if (word) {
+      links.push({
+        id: `word-link-${sectionNum}`,
+        reference: linkReference,
+        word: word,
+        articleId: word.toLowerCase().replace(/[^a-z0-9]/g, '-'),
+      });
+    }
+  }
+  
+  return links;
+}
+
+// Keep the helps that fall within a reference, e.g. one verse's notes out of a whole chapter.
+// Items citing only "chapter:verse" are read against the reference's book; intros never match a verse.
+export function filterByReference<T extends { reference?: string }>(items: T[], reference: string): T[] {
+  const scope = parseRef(reference);
+  if (!scope) return items;
+  return items.filter(item => {
+    const itemRef = item.reference || '';
+    const parsed = parseRef(itemRef) || parseRef(`${scope.book} ${itemRef}`);
+    return !!parsed && isRefInScope(parsed, scope);
+  });
+}
+
+const TRANSLATION_SECTION = /(\*\*[A-Z]+ v\d+[^*]*\*\*\s*\n\n)([\s\S]*?)(?=\n\n\*\*[A-Z]|$)/g;
+
+// Cut a chapter's scripture response down to the verses of a reference within it, in every
+// translation section, so it reads like the answer to the verse-level request
+export function narrowScriptureMarkdown(content: string, chapterReference: string, reference: string): string {
+  const chapter = parseRef(chapterReference)?.ranges[0]?.start.chapter;
+  const scope = parseRef(reference);
+  if (!chapter || !scope) return content;
+
+  return content.replace(TRANSLATION_SECTION, (_, header: string, text: string) => {
+    const markers = findVerseMarkers(text);
+    const kept = markers
+      .map((marker, i) => ({ marker, segment: text.slice(marker.index, markers[i + 1]?.index ?? text.length).trim() }))
+      .filter(({ marker }) => refsOverlap(scope, {
+        ...scope,
+        ranges: [{ start: { chapter, verse: marker.verseNum }, end: { chapter, verse: marker.lastNum } }],
+      }))
+      .map(({ segment }) => segment);
+    return header + kept.join(' ');
+  });
+}
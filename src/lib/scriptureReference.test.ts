@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findReferencesInText,
+  formatRef,
+  getNamedScope,
+  getScopeType,
+  isRefInScope,
+  parseRef,
+  referenceError,
+  validateRef,
+} from '@/lib/scriptureReference';
+
+const format = (input: string) => {
+  const ref = parseRef(input);
+  return ref ? formatRef(ref) : null;
+};
+
+describe('parseRef', () => {
+  it('parses verses, cross-chapter ranges, verse lists and chapter ranges', () => {
+    expect(parseRef('John 3:16')).toEqual({
+      code: 'JHN',
+      book: 'John',
+      ranges: [{ start: { chapter: 3, verse: 16 }, end: { chapter: 3, verse: 16 } }],
+    });
+    expect(parseRef('John 3:16-4:2')?.ranges).toEqual([{ start: { chapter: 3, verse: 16 }, end: { chapter: 4, verse: 2 } }]);
+    expect(parseRef('Rom 1:1,5,7')?.ranges).toHaveLength(3);
+    expect(parseRef('Psalms 1-3')?.ranges).toEqual([{ start: { chapter: 1 }, end: { chapter: 3 } }]);
+    expect(parseRef('Ruth')).toEqual({ code: 'RUT', book: 'Ruth', ranges: [] });
+  });
+
+  it('normalizes abbreviations, numbered books and dashes', () => {
+    expect(format('1jn 1')).toBe('1 John 1');
+    expect(format('Rom 1:1,5,7')).toBe('Romans 1:1, 5, 7');
+    expect(format('Ruth 1:1–5')).toBe('Ruth 1:1-5');
+  });
+
+  it('reads single-chapter books by verse', () => {
+    expect(format('Jude 3')).toBe('Jude 1:3');
+    expect(format('Jude 1')).toBe('Jude 1');
+  });
+
+  it('recognizes localized book names and digits', () => {
+    expect(format('Juan 3:16')).toBe('John 3:16');
+    expect(format('Rut 1')).toBe('Ruth 1');
+    expect(format('Jean 3:16')).toBe('John 3:16');
+    expect(format('Exodo 3')).toBe('Exodus 3');
+    expect(format('यूहन्ना 3:16')).toBe('John 3:16');
+    expect(format('يوحنا ٣:١٦')).toBe('John 3:16');
+  });
+
+  it('rejects named scopes and unknown books', () => {
+    expect(parseRef('Bible')).toBeNull();
+    expect(parseRef('Foo 1:1')).toBeNull();
+    expect(parseRef('')).toBeNull();
+  });
+});
+
+describe('validateRef', () => {
+  it('flags chapters and verses the book does not have', () => {
+    expect(validateRef(parseRef('Ruth 1:22')!)).toEqual([]);
+    expect(validateRef(parseRef('Ruth 5')!)).not.toEqual([]);
+    expect(validateRef(parseRef('Ruth 1:23')!)).not.toEqual([]);
+  });
+
+  it('explains invalid references and leaves the rest to the API', () => {
+    expect(referenceError('John 40:99')).toBe('Invalid reference "John 40:99": John has 21 chapters, not 40');
+    expect(referenceError('Ruth 1:23')).toBe('Invalid reference "Ruth 1:23": Ruth 1 has 22 verses, not 23');
+    expect(referenceError('John 3:16')).toBeNull();
+    expect(referenceError('New Testament')).toBeNull();
+  });
+});
+
+describe('scopes', () => {
+  it('resolves named scopes', () => {
+    expect(getNamedScope('Old Testament')).toEqual({ type: 'testament', value: 'OT' });
+    expect(getNamedScope(' bible ')).toEqual({ type: 'bible', value: 'Bible' });
+    expect(getNamedScope('John')).toBeNull();
+  });
+
+  it('classifies scope strings', () => {
+    expect(getScopeType('NT')).toBe('testament');
+    expect(getScopeType('Romans')).toBe('book');
+    expect(getScopeType('Rom 8')).toBe('chapter');
+    expect(getScopeType('Rom 8:28')).toBe('verse');
+    expect(getScopeType('something else')).toBe('book');
+  });
+
+  it('checks whether a reference falls inside a scope', () => {
+    const inScope = (ref: string, scope: string) => isRefInScope(parseRef(ref)!, parseRef(scope)!);
+    expect(inScope('John 3:16', 'John')).toBe(true);
+    expect(inScope('John 3:18', 'John 3:16-4:2')).toBe(true);
+    expect(inScope('John 4:3', 'John 3:16-4:2')).toBe(false);
+    expect(inScope('Rom 1:5', 'Rom 1:1,5,7')).toBe(true);
+    expect(inScope('Rom 1:6', 'Rom 1:1,5,7')).toBe(false);
+    expect(inScope('Romans 3:16', 'John')).toBe(false);
+  });
+});
+
+describe('findReferencesInText', () => {
+  it('finds references with their offsets', () => {
+    const text = 'Lee Juan 3:16 y Rut 1:1-5.';
+    const matches = findReferencesInText(text, 'es');
+    expect(matches.map(m => [m.text, m.startIndex, m.endIndex])).toEqual([
+      ['Juan 3:16', 4, 13],
+      ['Rut 1:1-5', 16, 25],
+    ]);
+    expect(matches.map(m => text.slice(m.startIndex, m.endIndex))).toEqual(['Juan 3:16', 'Rut 1:1-5']);
+  });
+
+  it('only recognizes localized names for the given language', () => {
+    expect(findReferencesInText('Lee Juan 3:16', 'en')).toEqual([]);
+  });
+
+  it('finds references in right-to-left text', () => {
+    const [match] = findReferencesInText('اقرأ يوحنا ٣:١٦ اليوم', 'ar');
+    expect(match.text).toBe('يوحنا ٣:١٦');
+    expect(formatRef(match.ref)).toBe('John 3:16');
+  });
+});
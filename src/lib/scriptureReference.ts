@@ -0,0 +1,7 @@
+/**
+ * Canonical scripture reference model
+ *
+ * The implementation lives in supabase/functions/_shared so the edge functions
+ * parse references exactly the same way as the app.
+ */
+export * from '../../supabase/functions/_shared/scriptureReference.ts';
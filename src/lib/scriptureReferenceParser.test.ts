@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseScriptureReferences, segmentTextWithReferences } from '@/lib/scriptureReferenceParser';
+
+describe('parseScriptureReferences', () => {
+  it('flattens each match into book, chapter and verse fields', () => {
+    const refs = parseScriptureReferences('Compare Rom 8:28-30 with Gen 50:20', 'en');
+    expect(refs.map(r => [r.full, r.book, r.chapter, r.verse, r.endVerse])).toEqual([
+      ['Rom 8:28-30', 'Romans', '8', '28', '30'],
+      ['Gen 50:20', 'Genesis', '50', '20', undefined],
+    ]);
+  });
+
+  it('reports a whole chapter without a verse', () => {
+    const [ref] = parseScriptureReferences('Read Ruth 1 tonight');
+    expect(ref).toMatchObject({ full: 'Ruth 1', book: 'Ruth', chapter: '1', verse: undefined });
+  });
+
+  it('keeps the full reference when the flat fields cannot describe it', () => {
+    const [ref] = parseScriptureReferences('See John 3:16-4:2');
+    expect(ref).toMatchObject({ chapter: '3', verse: '16', endVerse: undefined });
+    expect(ref.parsed.ranges[0].end).toEqual({ chapter: 4, verse: 2 });
+  });
+
+  it('detects localized references for the given language', () => {
+    expect(parseScriptureReferences('Lee Juan 3:16', 'es').map(r => r.book)).toEqual(['John']);
+    expect(parseScriptureReferences('اقرأ يوحنا ٣:١٦ اليوم', 'ar').map(r => [r.book, r.chapter, r.verse])).toEqual([['John', '3', '16']]);
+  });
+
+  it('finds nothing in plain text', () => {
+    expect(parseScriptureReferences('The kinsman redeemer bought the field.')).toEqual([]);
+  });
+});
+
+describe('segmentTextWithReferences', () => {
+  it('splits text around references', () => {
+    const segments = segmentTextWithReferences('Read Ruth 1:1-5 and John 3:16.');
+    expect(segments.map(s => [s.type, s.content])).toEqual([
+      ['text', 'Read '],
+      ['reference', 'Ruth 1:1-5'],
+      ['text', ' and '],
+      ['reference', 'John 3:16'],
+      ['text', '.'],
+    ]);
+  });
+
+  it('returns a single text segment when there are no references', () => {
+    expect(segmentTextWithReferences('Hello')).toEqual([{ type: 'text', content: 'Hello' }]);
+  });
+});
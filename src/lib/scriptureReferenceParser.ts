@@ -1,7 +1,8 @@
 // Scripture reference detection and parsing utilities
+// Detection is delegated to the canonical reference model so links in chat,
+// notes and edge function output all agree on what counts as a reference.
 
-// Regex to match scripture references like "John 3:16", "1 Corinthians 13:4-7", "Genesis 1", etc.
-const SCRIPTURE_REFERENCE_REGEX = /\b((?:[1-3]\s?)?(?:Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|Samuel|Kings|Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Song\s?of\s?(?:Solomon|Songs)|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|Corinthians|Galatians|Ephesians|Philippians|Colossians|Thessalonians|Timothy|Titus|Philemon|Hebrews|James|Peter|Jude|Revelation|Gen|Exod?|Lev|Num|Deut?|Josh|Judg|Rth|(?:[12]?\s?Sam)|(?:[12]?\s?Kgs?)|(?:[12]?\s?Chr)|Neh|Est|Ps|Prov?|Eccl?|Song|Isa|Jer|Lam|Ezek?|Dan|Hos|Ob(?:ad)?|Jon|Mic|Nah|Hab|Zeph|Hag|Zech|Mal|Matt?|Mrk?|Lk|Jn|Rom|(?:[12]?\s?Cor)|Gal|Eph|Phil|Col|(?:[12]?\s?Thess?)|(?:[12]?\s?Tim)|Tit|Phlm|Heb|Jas|(?:[12]?\s?Pet)|Rev))\s+(\d{1,3})(?::(\d{1,3})(?:\s?[-–]\s?(\d{1,3}))?)?/gi;
+import { findReferencesInText, ScriptureRef } from '@/lib/scriptureReference';
 
 export interface ScriptureReference {
   full: string;
@@ -11,28 +12,29 @@ export interface ScriptureReference {
   endVerse?: string;
   startIndex: number;
   endIndex: number;
+  parsed: ScriptureRef;
 }
 
-export function parseScriptureReferences(text: string): ScriptureReference[] {
-  const references: ScriptureReference[] = [];
-  let match;
+// language: UI/resource language code - its book names are recognized alongside English ("Juan 3:16")
+export function parseScriptureReferences(text: string, language?: string): ScriptureReference[] {
+  return findReferencesInText(text, language).map(match => {
+    // Flat fields describe the first range; `parsed` carries the full list
+    const first = match.ref.ranges[0];
+    const endVerse = first?.end.chapter === first?.start.chapter && first?.end.verse !== first?.start.verse
+      ? first?.end.verse
+      : undefined;
 
-  // Reset regex lastIndex for global matching
-  SCRIPTURE_REFERENCE_REGEX.lastIndex = 0;
-
-  while ((match = SCRIPTURE_REFERENCE_REGEX.exec(text)) !== null) {
-    references.push({
-      full: match[0],
-      book: match[1],
-      chapter: match[2],
-      verse: match[3] || undefined,
-      endVerse: match[4] || undefined,
-      startIndex: match.index,
-      endIndex: match.index + match[0].length,
-    });
-  }
-
-  return references;
+    return {
+      full: match.text,
+      book: match.ref.book,
+      chapter: String(first?.start.chapter ?? 1),
+      verse: first?.start.verse !== undefined ? String(first.start.verse) : undefined,
+      endVerse: endVerse !== undefined ? String(endVerse) : undefined,
+      startIndex: match.startIndex,
+      endIndex: match.endIndex,
+      parsed: match.ref,
+    };
+  });
 }
 
 export interface TextSegment {
@@ -41,8 +43,8 @@ export interface TextSegment {
   reference?: ScriptureReference;
 }
 
-export function segmentTextWithReferences(text: string): TextSegment[] {
-  const references = parseScriptureReferences(text);
+export function segmentTextWithReferences(text: string, language?: string): TextSegment[] {
+  const references = parseScriptureReferences(text, language);
   
   if (references.length === 0) {
     return [{ type: 'text', content: text }];
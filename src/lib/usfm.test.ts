@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { exportUsfm, parseUsfmBook } from '@/lib/usfm';
+
+const RUTH_DRAFT = [
+  '\\id RUT Draft',
+  '\\c 1',
+  '\\p',
+  '\\v 1 In the days when the judges ruled,',
+  '\\v 2 The man’s name was Elimelek.',
+  '\\v 3-4 Elimelek died, and her sons married Moabite women.',
+  '\\v 5 Then Mahlon and Kilion also died.',
+].join('\n');
+
+describe('parseUsfmBook', () => {
+  it('keeps a verse bridge as one verse with its range', () => {
+    const { code, chapters } = parseUsfmBook(RUTH_DRAFT, 'RUT.usfm');
+    expect(code).toBe('RUT');
+    expect(chapters[0].verses.map(v => [v.number, v.endVerse])).toEqual([[1, undefined], [2, undefined], [3, 4], [5, undefined]]);
+    expect(chapters[0].verses[2].text).toBe('Elimelek died, and her sons married Moabite women.');
+  });
+});
+
+describe('exportUsfm', () => {
+  it('round-trips a verse bridge', () => {
+    const imported = parseUsfmBook(RUTH_DRAFT);
+    const { usfm } = exportUsfm({ bookName: 'Ruth', chapters: imported.chapters });
+
+    expect(usfm).toContain('\\v 3-4 Elimelek died');
+    expect(parseUsfmBook(usfm).chapters).toEqual(imported.chapters);
+  });
+
+  it('puts a note on a bridged verse into the bridge as a footnote', () => {
+    const { chapters } = parseUsfmBook(RUTH_DRAFT);
+    const { usfm } = exportUsfm({
+      bookName: 'Ruth',
+      chapters,
+      notes: [{ id: 'n1', content: 'Check the order of events', sourceReference: 'Ruth 1:4', createdAt: new Date(), noteType: 'note' }],
+    });
+
+    expect(usfm).toMatch(/\\v 3-4 [^\n]*\\f \+ \\fr 1:3 \\ft Check the order of events\\f\*/);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * USFM import/export
+ *
+ * Export writes plain (unaligned) USFM 3 for a chapter or book, with personal notes either
+ * inline as \f footnotes or in a TSV sidecar. Import reads a local USFM draft into the
+ * same chapter/verse shape the scripture card renders.
+ */
+
+import { ScriptureChapter, Note } from '@/types';
+import { parseUsfmVerses } from '@/lib/usfmAlignment';
+import { findBook, parseRef, formatRef, ScriptureRef } from '@/lib/scriptureReference';
+
+export type UsfmNoteMode = 'footnotes' | 'sidecar' | 'none';
+
+export interface UsfmExportOptions {
+  bookName: string;
+  chapters: ScriptureChapter[];
+  notes?: Note[];
+  noteMode?: UsfmNoteMode;
+  chapter?: number; // Export a single chapter
+  description?: string; // Text after the \id code
+}
+
+export interface UsfmExport {
+  fileName: string;
+  usfm: string;
+  sidecar?: { fileName: string; content: string };
+}
+
+export interface UsfmBook {
+  code: string;
+  bookName: string;
+  title: string;
+  chapters: ScriptureChapter[];
+}
+
+interface AnchoredNote {
+  chapter: number;
+  verse: number;
+  ref: ScriptureRef;
+  content: string;
+}
+
+// Notes attach to the first verse they cover; chapter and book notes to the chapter's first verse
+function anchorNotes(notes: Note[], code: string): AnchoredNote[] {
+  return notes.flatMap(note => {
+    const ref = note.sourceReference ? parseRef(note.sourceReference) : null;
+    if (!ref || ref.code !== code) return [];
+    const start = ref.ranges[0]?.start;
+    return [{
+      chapter: start?.chapter ?? 1,
+      verse: start?.verse ?? 1,
+      ref,
+      content: note.content,
+    }];
+  });
+}
+
+// Footnote text can't contain markers or line breaks
+function escapeFootnote(text: string): string {
+  return text.replace(/\\/g, '/').replace(/\s+/g, ' ').trim();
+}
+
+function escapeTsv(text: string): string {
+  return text.replace(/\t/g, ' ').replace(/\r?\n/g, '\\n');
+}
+
+export function exportUsfm({
+  bookName,
+  chapters,
+  notes = [],
+  noteMode = 'footnotes',
+  chapter,
+  description = 'Unfolding the Word export',
+}: UsfmExportOptions): UsfmExport {
+  const book = findBook(bookName);
+  if (!book) throw new Error(`Unknown book: ${bookName}`);
+
+  const selected = chapter ? chapters.filter(ch => ch.chapter === chapter) : chapters;
+  const anchored = noteMode === 'none'
+    ? []
+    : anchorNotes(notes, book.code).filter(n => !chapter || n.chapter === chapter);
+
+  const lines = [
+    `\\id ${book.code} ${description}`,
+    '\\usfm 3.0',
+    `\\h ${book.name}`,
+    `\\toc1 ${book.name}`,
+    `\\toc3 ${book.code}`,
+    `\\mt1 ${book.name}`,
+  ];
+
+  for (const ch of selected) {
+    lines.push(`\\c ${ch.chapter}`, '\\p');
+    ch.verses.forEach((verse, index) => {
+      const lastVerse = verse.endVerse ?? verse.number;
+      const number = lastVerse > verse.number ? `${verse.number}-${lastVerse}` : `${verse.number}`;
+      let line = `\\v ${number} ${verse.text.trim()}`;
+      if (noteMode === 'footnotes') {
+        anchored
+          .filter(n => n.chapter === ch.chapter && n.verse >= verse.number && n.verse <= lastVerse)
+          .forEach(n => {
+            line += ` \\f + \\fr ${ch.chapter}:${verse.number} \\ft ${escapeFootnote(n.content)}\\f*`;
+          });
+      }
+      lines.push(line);
+      if (verse.isParagraphEnd && index < ch.verses.length - 1) lines.push('\\p');
+    });
+  }
+
+  const baseName = chapter ? `${book.code}_${chapter}` : book.code;
+  const result: UsfmExport = { fileName: `${baseName}.usfm`, usfm: lines.join('\n') + '\n' };
+
+  if (noteMode === 'sidecar' && anchored.length > 0) {
+    const rows = anchored
+      .sort((a, b) => a.chapter - b.chapter || a.verse - b.verse)
+      .map(n => `${formatRef(n.ref, { useCode: true })}\t${escapeTsv(n.content)}`);
+    result.sidecar = {
+      fileName: `${baseName}_notes.tsv`,
+      content: ['Reference\tNote', ...rows].join('\n') + '\n',
+    };
+  }
+
+  return result;
+}
+
+export function parseUsfmBook(usfm: string, fileName = ''): UsfmBook {
+  const idMatch = usfm.match(/\\id\s+([A-Z0-9]{3})\b[ \t]*([^\n\\]*)/i);
+  const book = idMatch ? findBook(idMatch[1]) : null;
+  if (!book) {
+    throw new Error(idMatch ? `Unknown book code: ${idMatch[1]}` : 'Missing \\id line - is this a USFM file?');
+  }
+
+  const chapters = new Map<number, ScriptureChapter>();
+  for (const verse of parseUsfmVerses(usfm)) {
+    if (!chapters.has(verse.chapter)) {
+      chapters.set(verse.chapter, { chapter: verse.chapter, verses: [] });
+    }
+    chapters.get(verse.chapter)!.verses.push({
+      number: verse.verse,
+      ...(verse.endVerse ? { endVerse: verse.endVerse } : {}),
+      text: verse.tokens.map(token => token.text).join('').trim(),
+      isParagraphEnd: verse.isParagraphEnd,
+    });
+  }
+
+  if (chapters.size === 0) throw new Error(`No verses found in ${fileName || 'USFM file'}`);
+
+  const title = idMatch[2].trim() || fileName.replace(/\.(usfm|sfm|txt)$/i, '') || book.name;
+
+  return {
+    code: book.code,
+    bookName: book.name,
+    title,
+    chapters: [...chapters.values()].sort((a, b) => a.chapter - b.chapter),
+  };
+}
+
+export function downloadTextFile(fileName: string, content: string, mimeType = 'text/plain') {
+  downloadBlob(fileName, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+}
+
+export function downloadBlob(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
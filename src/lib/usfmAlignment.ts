@@ -0,0 +1,273 @@
+/**
+ * Aligned USFM parsing
+ *
+ * unfoldingWord ULT/UST chapters carry word alignments to the original language:
+ *   \zaln-s |x-strong="G25320" x-lemma="καί" x-morph="Gr,CC,,,,,,,," x-occurrence="1" x-occurrences="1" x-content="καὶ"\*\w and|x-occurrence="1" x-occurrences="1"\w*\zaln-e\*
+ * UHB/UGNT chapters carry the same data on the words themselves:
+ *   \w λόγος|lemma="λόγος" strong="G30560" x-morph="Gr,N,,,,,NMS,"\w*
+ */
+
+export interface OriginalWord {
+  text: string;
+  lemma: string;
+  strong: string;
+  morph: string;
+  occurrence: number;
+  occurrences: number;
+}
+
+export type UsfmToken =
+  | { type: 'word'; text: string; alignment: number | null; source?: OriginalWord }
+  | { type: 'text'; text: string };
+
+export interface Alignment {
+  sources: OriginalWord[];
+  targets: number[]; // indexes into the verse tokens
+}
+
+export interface UsfmVerse {
+  chapter: number;
+  verse: number;
+  endVerse?: number; // Last verse of a bridge like \v 3-4
+  tokens: UsfmToken[];
+  alignments: Alignment[];
+  isParagraphEnd?: boolean;
+}
+
+// Original-language verse with each aligned group pointing at its words
+export interface AlignedVerse extends UsfmVerse {
+  original: OriginalWord[];
+}
+
+// Footnotes/cross references and heading-style markers whose text is not verse text
+const SKIPPED_MARKERS = /^\\(?:f|fe|x)\s[\s\S]*?\\(?:f|fe|x)\*|^\\(?:id|ide|usfm|h|toc\d?|mt\d?|ms\d?|mr|s\d?|sr|r|cl|rem|d)(?![a-z-])[^\n\\]*/;
+
+const TOKEN_PATTERN = new RegExp([
+  String.raw`\\zaln-s\s*\|([^\\]*)\\\*`,                     // 1: alignment attributes
+  String.raw`\\zaln-e\\\*`,
+  String.raw`\\\+?w\s+([^|\\]*)(?:\|([^\\]*))?\\\+?w\*`,      // 2: word, 3: word attributes
+  String.raw`\\([cv])\s+(\d+)(?:-(\d+))?\s?`,                // 4: c/v, 5: number, 6: end of a verse bridge
+  String.raw`\\\+?[a-z]+\d*(?:-[se])?(?:\*|\\\*|\s*\|[^\\]*\\\*)?\s?`,
+].join('|'), 'g');
+
+const PARAGRAPH_MARKER = /^\\(?:p|m|pi\d?|q\d?|li\d?|b)(?![a-z])/;
+
+function parseAttributes(attributes = ''): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of attributes.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    result[match[1]] = match[2];
+  }
+  return result;
+}
+
+// Hebrew words are split into morphemes with "/" (UHB) or U+2060 (aligned x-content)
+export function normalizeOriginalText(text: string): string {
+  return text.replace(/[/⁠]/g, '').normalize('NFC').toLowerCase();
+}
+
+function originalWordKey(word: OriginalWord): string {
+  return `${normalizeOriginalText(word.text)}#${word.occurrence}`;
+}
+
+export function isSameOriginalWord(a: OriginalWord, b: OriginalWord): boolean {
+  return originalWordKey(a) === originalWordKey(b);
+}
+
+function stripSkippedMarkers(usfm: string): string {
+  let result = '';
+  let rest = usfm;
+  let index = rest.indexOf('\\');
+  while (index !== -1) {
+    result += rest.slice(0, index);
+    rest = rest.slice(index);
+    const skipped = rest.match(SKIPPED_MARKERS);
+    if (skipped) {
+      rest = rest.slice(skipped[0].length);
+    } else {
+      result += '\\';
+      rest = rest.slice(1);
+    }
+    index = rest.indexOf('\\');
+  }
+  return result + rest;
+}
+
+export function parseUsfmVerses(usfm: string): UsfmVerse[] {
+  const verses: UsfmVerse[] = [];
+  const text = stripSkippedMarkers(usfm);
+  let chapter = 0;
+  let current: UsfmVerse | null = null;
+  let stack: OriginalWord[] = [];
+  let groups = new Map<string, number>();
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (!current || !value) return;
+    const last = current.tokens[current.tokens.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      current.tokens.push({ type: 'text', text: value });
+    }
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    if (match[4] === 'c') {
+      chapter = parseInt(match[5], 10);
+      current = null;
+    } else if (match[4] === 'v') {
+      current = { chapter, verse: parseInt(match[5], 10), tokens: [], alignments: [] };
+      if (match[6]) current.endVerse = parseInt(match[6], 10);
+      verses.push(current);
+      stack = [];
+      groups = new Map();
+    } else if (match[1] !== undefined) {
+      const attrs = parseAttributes(match[1]);
+      stack.push({
+        text: attrs['x-content'] || '',
+        lemma: attrs['x-lemma'] || '',
+        strong: attrs['x-strong'] || '',
+        morph: attrs['x-morph'] || '',
+        occurrence: parseInt(attrs['x-occurrence'] || '1', 10),
+        occurrences: parseInt(attrs['x-occurrences'] || '1', 10),
+      });
+    } else if (match[0].startsWith('\\zaln-e')) {
+      stack.pop();
+    } else if (match[2] !== undefined && current) {
+      const attrs = parseAttributes(match[3]);
+      let alignment: number | null = null;
+
+      // Every word under the same open alignments belongs to one group, even when split
+      if (stack.length > 0) {
+        const key = stack.map(originalWordKey).join('+');
+        alignment = groups.get(key) ?? null;
+        if (alignment === null) {
+          alignment = current.alignments.length;
+          current.alignments.push({ sources: [...stack], targets: [] });
+          groups.set(key, alignment);
+        }
+        current.alignments[alignment].targets.push(current.tokens.length);
+      }
+
+      const source = attrs.lemma || attrs.strong
+        ? {
+            text: match[2],
+            lemma: attrs.lemma || '',
+            strong: attrs.strong || '',
+            morph: attrs['x-morph'] || '',
+            occurrence: 0,
+            occurrences: 0,
+          }
+        : undefined;
+
+      current.tokens.push({ type: 'word', text: match[2], alignment, source });
+    } else if (PARAGRAPH_MARKER.test(match[0]) && verses.length > 0) {
+      verses[verses.length - 1].isParagraphEnd = true;
+    }
+  }
+  pushText(text.slice(lastIndex));
+
+  // Collapse USFM line breaks and fill in occurrence counts for original-language words
+  for (const verse of verses) {
+    verse.tokens.forEach((token, index) => {
+      if (token.type === 'text') {
+        token.text = token.text.replace(/\s+/g, ' ');
+        if (index === 0) token.text = token.text.trimStart();
+        if (index === verse.tokens.length - 1) token.text = token.text.trimEnd();
+      }
+    });
+    verse.tokens = verse.tokens.filter(token => token.type === 'word' || token.text);
+
+    const sources = verse.tokens.flatMap(token => (token.type === 'word' && token.source ? [token.source] : []));
+    const counts = new Map<string, number>();
+    sources.forEach(source => {
+      const key = normalizeOriginalText(source.text);
+      source.occurrence = (counts.get(key) || 0) + 1;
+      counts.set(key, source.occurrence);
+    });
+    sources.forEach(source => {
+      source.occurrences = counts.get(normalizeOriginalText(source.text)) || 1;
+    });
+  }
+
+  return verses;
+}
+
+// Original-language words in source order, from UHB/UGNT when available,
+// otherwise in the order the alignments first mention them
+export function buildAlignedVerses(aligned: UsfmVerse[], original: UsfmVerse[] = []): AlignedVerse[] {
+  return aligned.map(verse => {
+    const originalVerse = original.find(v => v.chapter === verse.chapter && v.verse === verse.verse);
+    let words = originalVerse
+      ? originalVerse.tokens.flatMap(token => (token.type === 'word' && token.source ? [token.source] : []))
+      : [];
+
+    if (words.length === 0) {
+      const seen = new Set<string>();
+      words = verse.alignments.flatMap(alignment => alignment.sources).filter(source => {
+        const key = originalWordKey(source);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    return { ...verse, original: words };
+  });
+}
+
+export function findAlignmentForOriginal(verse: AlignedVerse, word: OriginalWord): number | null {
+  const index = verse.alignments.findIndex(alignment =>
+    alignment.sources.some(source => isSameOriginalWord(source, word))
+  );
+  return index === -1 ? null : index;
+}
+
+export function getAlignmentGloss(verse: UsfmVerse, alignment: Alignment): string {
+  return alignment.targets
+    .map(index => verse.tokens[index])
+    .map(token => token.text)
+    .join(' ');
+}
+
+export function isOriginalHebrew(words: OriginalWord[]): boolean {
+  return words.some(word => /[֐-׿]/.test(word.text));
+}
+
+// "G30560" → "G3056", "b:H7225" → "H7225"
+export function formatStrong(strong: string): string {
+  const base = strong.split(':').pop() || '';
+  const match = base.match(/^([GH])(\d+)([a-z]?)$/);
+  if (!match) return base;
+  const digits = match[1] === 'G' && match[2].length === 5 ? match[2].slice(0, 4) : match[2];
+  return `${match[1]}${parseInt(digits, 10)}${match[3]}`;
+}
+
+const GREEK_ROLES: Record<string, string> = {
+  N: 'noun', V: 'verb', A: 'adjective', E: 'determiner', R: 'pronoun', P: 'preposition',
+  C: 'conjunction', D: 'adverb', I: 'interjection', T: 'particle',
+};
+
+const HEBREW_ROLES: Record<string, string> = {
+  N: 'noun', V: 'verb', A: 'adjective', P: 'pronoun', R: 'preposition', C: 'conjunction',
+  D: 'adverb', T: 'particle', S: 'suffix', I: 'interjection',
+};
+
+// Part of speech from an x-morph code - "Gr,N,,,,,NMS," → "noun", "He,R:Ncfsa" → "preposition + noun"
+export function describeMorph(morph: string): string {
+  const [language, ...fields] = morph.split(',');
+  if (language === 'Gr') {
+    return GREEK_ROLES[fields[0]?.[0]] || '';
+  }
+  if (language === 'He' || language === 'Ar') {
+    return (fields[0] || '')
+      .split(':')
+      .map(part => HEBREW_ROLES[part[0]])
+      .filter(Boolean)
+      .join(' + ');
+  }
+  return '';
+}
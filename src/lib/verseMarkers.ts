@@ -0,0 +1,141 @@
+/**
+ * Verse markers for the scripture card
+ *
+ * Note counts, quote anchors and colour highlights per verse, and splitting a verse's
+ * text around highlighted and quoted word spans. Spans are stored as quote + occurrence
+ * so they survive re-rendering and switching texts without character offsets.
+ */
+import { Note, VerseHighlight, HighlightColor, ScriptureChapter } from '@/types';
+import { parseRef } from '@/lib/scriptureReference';
+import { forEachVerse } from '@/lib/referenceScope';
+import { resolveAnchor, getVerseText } from '@/lib/noteAnchors';
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink', 'purple'];
+
+export const HIGHLIGHT_STYLES: Record<HighlightColor, { label: string; verse: string; mark: string; swatch: string }> = {
+  yellow: { label: 'Yellow', verse: 'bg-yellow-400/15', mark: 'bg-yellow-400/40', swatch: 'bg-yellow-400' },
+  green: { label: 'Green', verse: 'bg-emerald-400/15', mark: 'bg-emerald-400/40', swatch: 'bg-emerald-400' },
+  blue: { label: 'Blue', verse: 'bg-sky-400/15', mark: 'bg-sky-400/40', swatch: 'bg-sky-400' },
+  pink: { label: 'Pink', verse: 'bg-pink-400/15', mark: 'bg-pink-400/40', swatch: 'bg-pink-400' },
+  purple: { label: 'Purple', verse: 'bg-violet-400/15', mark: 'bg-violet-400/40', swatch: 'bg-violet-400' },
+};
+
+export interface VerseMarks {
+  noteCount?: number;          // Notes threads touching the verse
+  highlight?: HighlightColor;  // Whole-verse highlight
+  spans?: VerseHighlight[];    // Word-span highlights
+  anchors?: Note[];            // Notes anchored to a quote in the verse
+  staleCount?: number;         // Anchored notes whose quote isn't in the loaded text
+}
+
+type BookMarks = Map<number, Map<number, VerseMarks>>;
+
+function getMarks(summary: BookMarks, chapter: number, verse: number): VerseMarks {
+  const verses = summary.get(chapter) || new Map<number, VerseMarks>();
+  summary.set(chapter, verses);
+  const marks = verses.get(verse) || {};
+  verses.set(verse, marks);
+  return marks;
+}
+
+// chapter → verse → marks for one book. Counts thread roots on specific verses, so a
+// verse shows how many conversations it has rather than how many replies. Quote anchors
+// are checked against chapters when given.
+export function summarizeVerseMarks(
+  notes: Note[],
+  highlights: VerseHighlight[],
+  bookCode: string | null,
+  chapters?: ScriptureChapter[]
+): BookMarks {
+  const summary: BookMarks = new Map();
+  if (!bookCode) return summary;
+
+  for (const note of notes) {
+    if (note.parentId || note.noteType !== 'note' || !note.sourceReference) continue;
+    const ref = parseRef(note.sourceReference);
+    if (!ref || ref.code !== bookCode) continue;
+    forEachVerse(ref, (chapter, verse) => {
+      const marks = getMarks(summary, chapter, verse);
+      marks.noteCount = (marks.noteCount || 0) + 1;
+    });
+
+    const start = ref.ranges[0]?.start;
+    if (note.quote && start?.verse !== undefined) {
+      const marks = getMarks(summary, start.chapter, start.verse);
+      marks.anchors = [...(marks.anchors || []), note];
+      const text = getVerseText(chapters, start.chapter, start.verse);
+      if (text !== undefined && resolveAnchor(text, note.quote, note.occurrence).status === 'missing') {
+        marks.staleCount = (marks.staleCount || 0) + 1;
+      }
+    }
+  }
+
+  for (const highlight of highlights) {
+    const ref = parseRef(highlight.sourceReference);
+    const start = ref?.ranges[0]?.start;
+    if (!ref || ref.code !== bookCode || start?.verse === undefined) continue;
+    const marks = getMarks(summary, start.chapter, start.verse);
+    if (highlight.quote) {
+      marks.spans = [...(marks.spans || []), highlight];
+    } else {
+      marks.highlight = highlight.color;
+    }
+  }
+
+  return summary;
+}
+
+export interface TextSegment {
+  text: string;
+  color?: HighlightColor; // Inside a highlighted span
+  anchored?: boolean;     // Inside the quote of an anchored note
+}
+
+/**
+ * Split verse text at every highlight and note-anchor boundary.
+ * Spans re-resolve loosely like note anchors, so they follow the words across texts;
+ * where highlights overlap the earlier one wins, and spans that no longer match are skipped.
+ */
+export function splitHighlightedText(
+  text: string,
+  spans: VerseHighlight[] = [],
+  anchors: { quote?: string; occurrence?: number }[] = []
+): TextSegment[] {
+  const locate = (quote: string | undefined, occurrence?: number) => {
+    if (!quote) return null;
+    const { start, end } = resolveAnchor(text, quote, occurrence);
+    return start === undefined || end === undefined ? null : { start, end };
+  };
+  const colored = spans
+    .map(span => ({ ...locate(span.quote, span.occurrence), color: span.color }))
+    .filter((range): range is { start: number; end: number; color: HighlightColor } => range.start !== undefined)
+    .sort((a, b) => a.start - b.start);
+  const quoted = anchors
+    .map(anchor => locate(anchor.quote, anchor.occurrence))
+    .filter((range): range is { start: number; end: number } => range !== null);
+  if (colored.length === 0 && quoted.length === 0) return [{ text }];
+
+  const boundaries = Array.from(new Set([
+    0,
+    text.length,
+    ...colored.flatMap(r => [r.start, r.end]),
+    ...quoted.flatMap(r => [r.start, r.end]),
+  ])).sort((a, b) => a - b);
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const [from, to] = [boundaries[i], boundaries[i + 1]];
+    const segment: TextSegment = {
+      text: text.slice(from, to),
+      color: colored.find(r => r.start <= from && r.end >= to)?.color,
+      anchored: quoted.some(r => r.start <= from && r.end >= to) || undefined,
+    };
+    const previous = segments[segments.length - 1];
+    if (previous && previous.color === segment.color && previous.anchored === segment.anchored) {
+      previous.text += segment.text;
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments;
+}
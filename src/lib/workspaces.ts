@@ -0,0 +1,68 @@
+/**
+ * Team workspace helpers
+ *
+ * A workspace is a translation project - language, organization and the books it
+ * covers. The active workspace is remembered per browser so notes, the chat agent
+ * and the notes card agree on which team a new note is shared with.
+ */
+
+import { Workspace, WorkspaceMember } from '@/types';
+import { Database } from '@/integrations/supabase/types';
+import { findBook } from '@/lib/scriptureReference';
+
+type WorkspaceRow = Database['public']['Tables']['workspaces']['Row'];
+type WorkspaceMemberRow = Database['public']['Tables']['workspace_members']['Row'];
+
+const ACTIVE_WORKSPACE_KEY = 'bible-study-active-workspace';
+
+export function getActiveWorkspaceId(): string | null {
+  return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+}
+
+export function storeActiveWorkspaceId(id: string | null) {
+  if (id) {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+  }
+}
+
+export function toWorkspace(row: WorkspaceRow): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    language: row.language,
+    organization: row.organization,
+    books: row.books || [],
+    inviteCode: row.invite_code,
+    createdBy: row.created_by,
+  };
+}
+
+export function toWorkspaceMember(row: WorkspaceMemberRow): WorkspaceMember {
+  return {
+    userId: row.user_id,
+    displayName: row.display_name,
+    role: row.role === 'owner' ? 'owner' : 'member',
+  };
+}
+
+// "Ruth, Jonah, 1 Jn" → ['RUT', 'JON', '1JN']; unknown names are returned separately
+export function parseBookList(input: string): { codes: string[]; unknown: string[] } {
+  const codes: string[] = [];
+  const unknown: string[] = [];
+  input.split(/[,;\n]/).map(part => part.trim()).filter(Boolean).forEach(part => {
+    const book = findBook(part);
+    if (!book) {
+      unknown.push(part);
+    } else if (!codes.includes(book.code)) {
+      codes.push(book.code);
+    }
+  });
+  return { codes, unknown };
+}
+
+export function describeWorkspaceBooks(workspace: Workspace): string {
+  if (workspace.books.length === 0) return 'Whole Bible';
+  return workspace.books.map(code => findBook(code)?.name || code).join(', ');
+}
@@ -1,5 +1,5 @@
 import { useCallback, useState, useMemo, useEffect } from 'react';
-import { Resource, SearchResults, ToolCall } from '@/types';
+import { Resource, SearchResults, ToolCall, NoteAnchor } from '@/types';
 import { SearchInteraction, buildInteractionPrompt } from '@/types/interactions';
 import { useSwipeNavigation } from '@/hooks/useSwipeNavigation';
 import { useCardVisibility } from '@/hooks/useCardVisibility';
@@ -23,10 +23,38 @@ import { ResourceLink, HistoryItem, Message, CardType } from '@/types';
 import { useScriptureData } from '@/hooks/useScriptureData';
 import { useMultiAgentChat } from '@/hooks/useMultiAgentChat';
 import { useNotes } from '@/hooks/useNotes';
+import { useReportExport } from '@/hooks/useReportExport';
+import { ReportFormat } from '@/lib/report';
+import { useVerseChecks } from '@/hooks/useVerseChecks';
+import { useVerseHighlights } from '@/hooks/useVerseHighlights';
 import { useConversations } from '@/hooks/useConversations';
+import { resolveNoteAnchors } from '@/lib/noteAnchors';
+import { getActivePath } from '@/lib/messageTree';
+import { toUsfmCode } from '@/lib/scriptureReference';
 import { useTranslation, TranslationItem } from '@/hooks/useTranslation';
 import { useMcpReplay } from '@/hooks/useMcpReplay';
 
+// Card type for each translation-help type in chat tool results (the chat calls academy articles 'translation-academy')
+const HELP_RESOURCE_TYPES = new Map<string, Resource['type']>([
+  ['translation-note', 'translation-note'],
+  ['translation-question', 'translation-question'],
+  ['translation-word', 'translation-word'],
+  ['translation-academy', 'academy-article'],
+  ['academy-article', 'academy-article'],
+]);
+
+// Translation helps among a chat's tool results - personal notes from the notes tool are left to the notes card
+function toHelpResources(items: { id?: string; type?: string; title?: string; content?: string; reference?: string }[]): Resource[] {
+  return items
+    .filter(item => HELP_RESOURCE_TYPES.has(item.type || ''))
+    .map((item, index) => ({
+      id: item.id || `res-${index}`,
+      type: HELP_RESOURCE_TYPES.get(item.type || '') as Resource['type'],
+      title: item.title || item.reference || '',
+      content: item.content || '',
+      reference: item.reference,
+    }));
+}
 
 const Index = () => {
   const {
@@ -51,6 +79,8 @@ const Index = () => {
   const [pendingSearchNavigation, setPendingSearchNavigation] = useState(false);
   const [resourceFilterInfo, setResourceFilterInfo] = useState<{ query: string; reference?: string | null } | null>(null);
   const [resourceSearchResults, setResourceSearchResults] = useState<Resource[] | null>(null);
+  // Verse the notes card was opened from via a scripture note marker
+  const [notesVerseScope, setNotesVerseScope] = useState<string | null>(null);
   
   // X-Ray keyboard shortcut (Ctrl+Shift+X)
   useEffect(() => {
@@ -64,8 +94,11 @@ const Index = () => {
     return () => window.removeEventListener('keydown', handler);
   }, []);
   const { scripture, resources, searchResults, isLoading: scriptureLoading, isResourcesLoading, error: scriptureError, verseFilter, fallbackState, loadScriptureData, loadKeywordResources, loadFilteredSearch, filterByVerse, clearVerseFilter, clearSearchResults, setSearchResultsFromMetadata, navigateToVerse, clearData: clearScriptureData, setScripture, setResources, setSearchResults } = useScriptureData();
-  const { notes, addNote, addBugReport, deleteNote, updateNote, refetchNotes } = useNotes();
-  const { messages, isLoading: chatLoading, sendMessage, setMessages, clearMessages } = useMultiAgentChat({
+  const { notes, addNote, addBugReport, deleteNote, updateNote, refetchNotes, replyToNote, resolveThread, searchNotes, updateNoteTags, setNoteStatus, importNotes } = useNotes();
+  const { checks, checksByKey, recordCheck } = useVerseChecks();
+  const { highlights, setHighlight, clearHighlight } = useVerseHighlights();
+  const { isExporting, exportNotes, exportConversation } = useReportExport();
+  const { messages, allMessages, isLoading: chatLoading, sendMessage, switchBranch, setMessages, clearMessages } = useMultiAgentChat({
     onBugReport: addBugReport,
   });
   
@@ -78,6 +111,9 @@ const Index = () => {
     setCurrentConversationId,
     createConversation, 
     updateConversation,
+    organizeConversation,
+    searchConversations,
+    setActiveBranch,
     saveMessage,
     loadConversationMessages,
   } = useConversations(language || 'en');
@@ -295,7 +331,8 @@ const Index = () => {
     }
   }, [buildBatchItems, requestBatchTranslation]);
 
-  const handleSendMessage = useCallback(async (content: string) => {
+  // parentId is set when an edited message branches off earlier in the conversation
+  const handleSendMessage = useCallback(async (content: string, parentId?: string | null) => {
     let convId = currentConversationId;
     if (!convId) {
       const title = content.length > 40 ? content.substring(0, 40) + '...' : content;
@@ -303,24 +340,31 @@ const Index = () => {
     }
 
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       role: 'user',
       content,
       timestamp: new Date(),
+      parentId: parentId === undefined
+        ? messages.filter(m => !m.isError).pop()?.id
+        : parentId || undefined,
     };
 
     if (convId) {
       await saveMessage(convId, userMessage);
     }
 
+    let partialReference: string | null = null;
     const result = await sendMessage(
       content,
       scripture?.reference,
       async (scriptureRef) => {
         console.log('[Index] onScriptureReference callback triggered:', scriptureRef);
         try {
-          await loadScriptureData(scriptureRef);
-          console.log('[Index] Scripture data loaded successfully');
+          // Already loaded when the tool finished
+          if (scriptureRef !== partialReference) {
+            await loadScriptureData(scriptureRef);
+            console.log('[Index] Scripture data loaded successfully');
+          }
           if (convId) {
             await updateConversation(convId, { scriptureReference: scriptureRef });
           }
@@ -330,7 +374,24 @@ const Index = () => {
           console.error('[Index] Failed to load scripture:', error);
         }
       },
-      targetLanguageName // Pass language for localized chat responses
+      targetLanguageName, // Pass language for localized chat responses
+      {
+        parentId: userMessage.parentId || null,
+        messageId: userMessage.id,
+        // Fill the cards as soon as each tool finishes, before the answer streams
+        onToolResults: (toolResults) => {
+          const partialScripture = toolResults.scripture;
+          if (partialScripture?.reference && partialScripture.reference !== partialReference) {
+            partialReference = partialScripture.reference;
+            if (!navigateToVerse(partialScripture.reference)) {
+              loadScriptureData(partialScripture.reference, partialScripture.resource);
+            }
+          }
+          const helps = toHelpResources(toolResults.resources || []);
+          if (helps.length > 0) setResources(helps);
+          if (toolResults.search) setSearchResults(toolResults.search);
+        },
+      }
     );
 
     if (convId && result?.newMessages) {
@@ -339,6 +400,12 @@ const Index = () => {
       }
     }
 
+    // A new branch should be the one that reopens
+    if (convId && parentId !== undefined) {
+      const newMessages = result?.newMessages || [];
+      await setActiveBranch(convId, newMessages[newMessages.length - 1]?.id || userMessage.id);
+    }
+
     if (result) {
       const { toolCalls, navigationHint, scriptureReference, searchQuery, searchMatches, searchResource, toolResults } = result;
       
@@ -370,10 +437,14 @@ const Index = () => {
         setResourceFilterInfo(null);
       }
       
-      // Replay tool calls to populate UI state (scripture, resources, search)
-      if (toolCalls && toolCalls.length > 0) {
-        console.log('[Index] Replaying tool calls from new message:', toolCalls);
-        mcpReplay.replayToolCalls(toolCalls);
+      // Replay tool calls to populate UI state (scripture, resources, search), skipping the
+      // passage the partial tool results already loaded
+      const replayCalls = (toolCalls || []).filter(call =>
+        !(call.tool === 'scripture-agent' && partialReference && call.args.reference === partialReference)
+      );
+      if (replayCalls.length > 0) {
+        console.log('[Index] Replaying tool calls from new message:', replayCalls);
+        mcpReplay.replayToolCalls(replayCalls);
       }
       
       // Defer navigation to search card until search results or resource filters are ready
@@ -392,7 +463,7 @@ const Index = () => {
         await updateConversation(convId, { scriptureReference });
       }
     }
-  }, [sendMessage, scripture?.reference, loadScriptureData, currentConversationId, createConversation, saveMessage, updateConversation, language, targetLanguageName, navigateToCard, mcpReplay, scripture?.reference, setSearchResultsFromMetadata, setPendingSearchNavigation]);
+  }, [sendMessage, messages, setActiveBranch, scripture?.reference, loadScriptureData, navigateToVerse, setResources, setSearchResults, currentConversationId, createConversation, saveMessage, updateConversation, language, targetLanguageName, navigateToCard, mcpReplay, scripture?.reference, setSearchResultsFromMetadata, setPendingSearchNavigation]);
 
 
   // Map ResourceLink type to Resource type for scrolling
@@ -418,52 +489,83 @@ const Index = () => {
     }
   }, [navigateToCard]);
 
-  const handleAddToNotes = useCallback(async (content: string, sourceReference?: string) => {
-    await addNote(content, sourceReference);
+  const handleAddToNotes = useCallback(async (content: string, sourceReference?: string, anchor?: NoteAnchor) => {
+    await addNote(content, sourceReference, 'note', undefined, undefined, { anchor });
   }, [addNote]);
 
+  // Quoted notes checked against whichever text the scripture card has open
+  const noteAnchors = useMemo(() => {
+    const book = scripture?.book;
+    return resolveNoteAnchors(notes, book?.chapters, book?.book ? toUsfmCode(book.book) : null);
+  }, [notes, scripture?.book]);
+
+  const handleOpenVerseNotes = useCallback((reference: string) => {
+    setNotesVerseScope(reference);
+    navigateToCard('notes');
+  }, [navigateToCard]);
+
   const handleDeleteNote = useCallback(async (id: string) => {
     await deleteNote(id);
   }, [deleteNote]);
 
+  // Restore the cards from the tool calls behind the last answer on a branch
+  const replayBranchState = useCallback((branch: Message[], fallbackReference?: string) => {
+    const replayed = mcpReplay.replayBranch(branch);
+    if (!replayed) return false;
+    console.log('[Index] Replaying tool calls from branch:', replayed);
+
+    const toolCalls = replayed as any[];
+    const filterTool = toolCalls.find(tc =>
+      (tc.tool === 'get_translation_notes' || tc.tool === 'get_translation_questions') &&
+      tc.args?.filter
+    );
+
+    if (filterTool) {
+      setResourceFilterInfo({
+        query: filterTool.args.filter,
+        reference: filterTool.args.reference || fallbackReference || null,
+      });
+    } else {
+      setResourceFilterInfo(null);
+    }
+    return true;
+  }, [mcpReplay, setResourceFilterInfo]);
+
   const handleHistorySelect = useCallback(async (item: HistoryItem) => {
     const loadedMessages = await loadConversationMessages(item.id);
-    setMessages(loadedMessages);
+    setMessages(loadedMessages, item.activeLeafId);
     setCurrentConversationId(item.id);
     
-    // Find last assistant message with tool calls and replay them
-    const lastAssistantWithTools = [...loadedMessages].reverse().find(
-      m => m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0
-    );
-    
-    if (lastAssistantWithTools?.toolCalls) {
-      console.log('[Index] Replaying tool calls from history:', lastAssistantWithTools.toolCalls);
-      mcpReplay.replayToolCalls(lastAssistantWithTools.toolCalls);
-
-      const toolCalls = lastAssistantWithTools.toolCalls as any[];
-      const filterTool = toolCalls.find(tc =>
-        (tc.tool === 'get_translation_notes' || tc.tool === 'get_translation_questions') &&
-        tc.args?.filter
-      );
-
-      if (filterTool) {
-        setResourceFilterInfo({
-          query: filterTool.args.filter,
-          reference: filterTool.args.reference || item.scriptureReference || null,
-        });
-      } else {
-        setResourceFilterInfo(null);
-      }
-    } else if (item.scriptureReference) {
+    const replayed = replayBranchState(getActivePath(loadedMessages, item.activeLeafId), item.scriptureReference);
+    if (!replayed && item.scriptureReference) {
       // Fallback for old conversations without tool calls
       await loadScriptureData(item.scriptureReference);
       setResourceFilterInfo(null);
-    } else {
+    } else if (!replayed) {
       setResourceFilterInfo(null);
     }
     
     navigateToCard('chat');
-  }, [loadConversationMessages, setMessages, setCurrentConversationId, loadScriptureData, navigateToCard, mcpReplay, setResourceFilterInfo, setResourceSearchResults]);
+  }, [loadConversationMessages, setMessages, setCurrentConversationId, loadScriptureData, navigateToCard, replayBranchState, setResourceFilterInfo]);
+
+  // Editing a user message answers the new wording on a sibling branch
+  const handleEditMessage = useCallback(async (message: Message, content: string) => {
+    await handleSendMessage(content, message.parentId || null);
+  }, [handleSendMessage]);
+
+  const handleSwitchBranch = useCallback(async (messageId: string) => {
+    const branch = switchBranch(messageId);
+    replayBranchState(branch);
+    const leaf = branch[branch.length - 1];
+    if (currentConversationId && leaf) {
+      await setActiveBranch(currentConversationId, leaf.id);
+    }
+  }, [switchBranch, replayBranchState, currentConversationId, setActiveBranch]);
+
+  const handleExportConversation = useCallback(async (item: HistoryItem, format: ReportFormat) => {
+    const loadedMessages = await loadConversationMessages(item.id);
+    await exportConversation(item, getActivePath(loadedMessages, item.activeLeafId), format);
+  }, [loadConversationMessages, exportConversation]);
 
   const handleNewConversation = useCallback(() => {
     clearMessages();
@@ -532,6 +634,9 @@ const Index = () => {
             items={conversations}
             onSelectItem={handleHistorySelect}
             onNewConversation={handleNewConversation}
+            onExportConversation={handleExportConversation}
+            onSearch={searchConversations}
+            onOrganize={organizeConversation}
             t={t}
           />
         );
@@ -539,6 +644,9 @@ const Index = () => {
         return (
           <ChatCard
             messages={messages}
+            allMessages={allMessages}
+            onEditMessage={handleEditMessage}
+            onSwitchBranch={handleSwitchBranch}
             onResourceClick={handleResourceClick}
             onScriptureClick={handleScriptureReferenceClick}
             isLoading={chatLoading}
@@ -583,7 +691,7 @@ const Index = () => {
         return (
           <ScriptureCard
             passage={scripture}
-            onAddToNotes={(text) => handleAddToNotes(text, scripture?.reference)}
+            onAddToNotes={(text, reference, anchor) => handleAddToNotes(text, reference || scripture?.reference, anchor)}
             onVerseSelect={handleVerseSelect}
             verseFilter={verseFilter}
             isLoading={scriptureLoading}
@@ -593,6 +701,12 @@ const Index = () => {
             onTranslateRequest={handleTranslateAllRequest}
             isTranslating={isTranslating}
             resourcePreferences={resourcePreferences}
+            notes={notes}
+            checks={checks}
+            highlights={highlights}
+            onSetHighlight={setHighlight}
+            onClearHighlight={clearHighlight}
+            onOpenNotes={handleOpenVerseNotes}
             onResourceSelect={async (resource) => {
               setActiveResource(resource);
               // Reload scripture with new resource - don't clear, just overlay with loading
@@ -622,22 +736,39 @@ const Index = () => {
             scrollToType={scrollToResourceType}
             onScrollComplete={() => setScrollToResourceType(null)}
             currentLanguage={language}
+            scriptureReference={scripture?.reference}
+            checksByKey={checksByKey}
+            onRecordCheck={recordCheck}
           />
         );
       case 'notes':
         return (
           <NotesCard
             notes={notes}
-            onAddNote={(content) => handleAddToNotes(content)}
+            onAddNote={(content, options) => addNote(content, notesVerseScope || undefined, 'note', undefined, undefined, options)}
             onDeleteNote={handleDeleteNote}
+            onReply={replyToNote}
+            onResolveThread={resolveThread}
+            onSearch={searchNotes}
+            onUpdateTags={updateNoteTags}
+            onSetStatus={setNoteStatus}
+            onExport={exportNotes}
+            isExporting={isExporting}
+            onImport={importNotes}
+            verseScope={notesVerseScope}
+            onClearVerseScope={() => setNotesVerseScope(null)}
+            highlights={highlights}
+            anchorStatuses={noteAnchors}
+            currentTranslation={scripture?.translation}
             t={t}
             currentLanguage={language}
+            currentOrganization={organization}
           />
         );
       default:
         return null;
     }
-  }, [conversations, handleHistorySelect, handleNewConversation, messages, handleResourceClick, handleScriptureReferenceClick, chatLoading, scripture, handleAddToNotes, handleVerseSelect, scriptureLoading, isResourcesLoading, scriptureError, loadScriptureData, resources, verseFilter, filterByVerse, navigateToCard, notes, handleDeleteNote, getCurrentLanguage, resourcePreferences, setActiveResource, language, t, hasStaticTranslations, translateUiStrings, i18nLoading, showVoiceMode, voiceConversation, showResetConfirm, handleSendMessage, scrollToResourceType, clearVerseFilter, fallbackState, handleTranslateAllRequest, isTranslating, clearScriptureData, searchResults, handleClearSearch, handleSearchVerseClick, handleSearchInteraction]);
+  }, [conversations, handleHistorySelect, handleNewConversation, messages, handleResourceClick, handleScriptureReferenceClick, chatLoading, scripture, handleAddToNotes, handleVerseSelect, scriptureLoading, isResourcesLoading, scriptureError, loadScriptureData, resources, verseFilter, filterByVerse, navigateToCard, notes, handleDeleteNote, getCurrentLanguage, resourcePreferences, setActiveResource, language, t, hasStaticTranslations, translateUiStrings, i18nLoading, showVoiceMode, voiceConversation, showResetConfirm, handleSendMessage, scrollToResourceType, clearVerseFilter, fallbackState, handleTranslateAllRequest, isTranslating, clearScriptureData, searchResults, handleClearSearch, handleSearchVerseClick, handleSearchInteraction, checks, checksByKey, recordCheck, addNote, replyToNote, resolveThread, searchNotes, updateNoteTags, setNoteStatus, organization, exportNotes, isExporting, handleExportConversation, importNotes, highlights, setHighlight, clearHighlight, handleOpenVerseNotes, notesVerseScope, noteAnchors, searchConversations, organizeConversation, allMessages, handleEditMessage, handleSwitchBranch]);
 
   // Show chat-based language selection on first launch or when manually triggered
   if (needsSelection || showLanguageSelector) {
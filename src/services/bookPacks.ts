@@ -0,0 +1,147 @@
+// Downloadable book packs for offline review
+// A pack is a whole book of scripture plus every TN, TQ, TWL, linked TW and TA
+// article for each chapter. Everything is fetched through translationHelpsApi so
+// the responses land in the IndexedDB cache under the exact keys the UI reads.
+
+import {
+  fetchBookWithFallback,
+  fetchTranslationNotes,
+  fetchTranslationQuestions,
+  fetchTranslationWordLinks,
+  fetchTranslationWord,
+  fetchTranslationAcademy,
+  ProxyContext,
+} from '@/services/translationHelpsApi';
+import {
+  OfflineBook,
+  buildOfflineBookId,
+  getCachedSize,
+  saveOfflineBook,
+} from '@/services/resourceCache';
+
+export type PackPhase = 'scripture' | 'helps' | 'words' | 'academy' | 'done';
+
+export interface PackProgress {
+  phase: PackPhase;
+  completed: number;
+  total: number;
+}
+
+const BATCH_SIZE = 5;
+
+// TA links inside notes look like rc://*/ta/man/translate/figs-metaphor
+const TA_LINK_PATTERN = /rc:\/\/[^/\s]*\/ta\/man\/[^/\s\]]+\/([a-z0-9-]+)/g;
+
+// Run a task for each item in small batches, reporting after each item; resolves to the number that failed
+async function runInBatches<T>(items: T[], task: (item: T) => Promise<void>, onItemDone: () => void): Promise<number> {
+  let failed = 0;
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    await Promise.all(items.slice(i, i + BATCH_SIZE).map(async (item) => {
+      await task(item).catch(err => {
+        failed++;
+        console.warn('[bookPacks] Item failed:', err);
+      });
+      onItemDone();
+    }));
+  }
+  return failed;
+}
+
+export async function downloadBookPack(
+  book: string,
+  resource: string,
+  onProgress?: (progress: PackProgress) => void
+): Promise<OfflineBook> {
+  // Only this pack's own requests record keys, so browsing other books meanwhile stays out of it.
+  // Strict requests throw on errors, so a chapter whose helps failed marks the pack partial.
+  const packKeys = new Set<string>();
+  const context: ProxyContext = { cacheKeys: packKeys, strict: true };
+  let failures = 0;
+
+  console.log(`[bookPacks] Downloading pack: ${book} (${resource})`);
+  onProgress?.({ phase: 'scripture', completed: 0, total: 1 });
+
+  const bookData = await fetchBookWithFallback(book, resource, undefined, context);
+  const { requestedLanguage, requestedOrganization, actualLanguage, actualOrganization } = bookData.fallbackInfo;
+  // Helps come from the same language as the scripture, which an offline read in the
+  // requested language falls back to; the pack is listed under what the user asked for
+  const helpsContext: ProxyContext = { ...context, source: { language: actualLanguage, organization: actualOrganization } };
+  const chapterNumbers = bookData.chapters.map(c => c.chapter);
+  failures += bookData.chapters.filter(c => c.verses.length === 0).length;
+
+  if (bookData.chapters.every(c => c.verses.length === 0)) {
+    throw new Error(`No verses returned for ${book}`);
+  }
+
+  // Save a placeholder so the pack shows up while helps download
+  const pack: OfflineBook = {
+    id: buildOfflineBookId(book, requestedLanguage, requestedOrganization, resource),
+    book,
+    language: requestedLanguage,
+    organization: requestedOrganization,
+    resource,
+    savedAt: Date.now(),
+    status: 'downloading',
+  };
+  await saveOfflineBook(pack);
+
+  // Chapter-level TN, TQ and TWL
+  const articleIds = new Set<string>();
+  const academyIds = new Set<string>();
+  let completed = 0;
+  const helpsTotal = chapterNumbers.length;
+  onProgress?.({ phase: 'helps', completed, total: helpsTotal });
+
+  failures += await runInBatches(chapterNumbers, async (chapter) => {
+    const reference = `${book} ${chapter}`;
+    const [notes, , links] = await Promise.all([
+      fetchTranslationNotes(reference, helpsContext),
+      fetchTranslationQuestions(reference, helpsContext),
+      fetchTranslationWordLinks(reference, helpsContext),
+    ]);
+    notes.forEach(note => {
+      for (const match of note.note.matchAll(TA_LINK_PATTERN)) {
+        academyIds.add(match[1]);
+      }
+    });
+    links.forEach(link => link.articleId && articleIds.add(link.articleId));
+  }, () => onProgress?.({ phase: 'helps', completed: ++completed, total: helpsTotal }));
+
+  // Linked TW articles
+  completed = 0;
+  const words = [...articleIds];
+  failures += await runInBatches(words, async (articleId) => {
+    const word = await fetchTranslationWord(articleId, helpsContext);
+    if (!word) throw new Error(`No article for ${articleId}`);
+  }, () => onProgress?.({ phase: 'words', completed: ++completed, total: words.length }));
+
+  // Linked TA articles
+  completed = 0;
+  const modules = [...academyIds];
+  failures += await runInBatches(modules, async (moduleId) => {
+    const article = await fetchTranslationAcademy(moduleId, helpsContext);
+    if (!article) throw new Error(`No article for ${moduleId}`);
+  }, () => onProgress?.({ phase: 'academy', completed: ++completed, total: modules.length }));
+
+  const cacheKeys = [...packKeys];
+  const finishedPack: OfflineBook = {
+    ...pack,
+    savedAt: Date.now(),
+    status: failures > 0 ? 'partial' : 'complete',
+    cacheKeys,
+    sizeBytes: await getCachedSize(cacheKeys),
+  };
+  await saveOfflineBook(finishedPack);
+
+  onProgress?.({ phase: 'done', completed: 1, total: 1 });
+  console.log(`[bookPacks] Pack ready: ${book} - ${cacheKeys.length} entries, ${words.length} words, ${modules.length} academy articles, ${failures} failures`);
+  return finishedPack;
+}
+
+// Format a byte count for display (e.g. "1.4 MB")
+export function formatPackSize(bytes?: number): string {
+  if (!bytes) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
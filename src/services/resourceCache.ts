@@ -0,0 +1,287 @@
+// Persistent IndexedDB cache for translation-helps-proxy responses
+// Entries are keyed by endpoint + language/organization/resource/reference so
+// the same request made offline can be answered from disk.
+
+import { ScriptureChapter } from '@/types';
+
+const DB_NAME = 'bible-study-resource-cache';
+const DB_VERSION = 2;
+const RESPONSES_STORE = 'responses';
+const OFFLINE_BOOKS_STORE = 'offlineBooks';
+const DRAFTS_STORE = 'drafts';
+
+export type ProxyParams = Record<string, string | undefined>;
+
+export interface CachedResponse {
+  key: string;
+  endpoint: string;
+  language: string;
+  organization: string;
+  resource: string;
+  reference: string;
+  book: string | null;
+  data: unknown;
+  cachedAt: number;
+}
+
+export type OfflineBookStatus = 'downloading' | 'complete' | 'partial';
+
+export interface OfflineBook {
+  id: string;
+  book: string;
+  language: string;
+  organization: string;
+  resource: string;
+  savedAt: number;
+  status?: OfflineBookStatus;
+  sizeBytes?: number;
+  // Every cache entry the pack depends on (scripture, TN, TQ, TWL, TW, TA)
+  cacheKeys?: string[];
+}
+
+// A local USFM draft of the target translation, imported by the user
+export interface ImportedDraft {
+  id: string;
+  code: string; // USFM book code
+  book: string;
+  title: string;
+  fileName: string;
+  chapters: ScriptureChapter[];
+  importedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('[resourceCache] IndexedDB not available, cache disabled');
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+        const store = db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+        store.createIndex('book', ['language', 'organization', 'book'], { unique: false });
+      }
+      if (!db.objectStoreNames.contains(OFFLINE_BOOKS_STORE)) {
+        db.createObjectStore(OFFLINE_BOOKS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('[resourceCache] Failed to open database:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Extract the book name from a reference like "1 John 3:16" -> "1 John"
+export function getBookFromReference(reference?: string): string | null {
+  if (!reference) return null;
+  const match = reference.trim().match(/^(\d?\s*[^\d:]+?)(?:\s+\d+.*)?$/);
+  return match ? match[1].trim() : null;
+}
+
+// Build the cache key for a proxy request
+export function buildCacheKey(endpoint: string, params: ProxyParams): string {
+  const subject = params.reference || params.term || params.moduleId || params.query || '';
+  return [
+    endpoint,
+    params.language || '',
+    params.organization || '',
+    params.resource || '',
+    String(subject).toLowerCase(),
+  ].join('|');
+}
+
+// Chapter-level key for a verse-level request ("Ruth 1:3" -> "Ruth 1"), used to answer from a book pack offline
+export function buildChapterCacheKey(endpoint: string, params: ProxyParams): string | null {
+  const chapterMatch = params.reference?.match(/^(.+?\s+\d+):\S+$/);
+  if (!chapterMatch) return null;
+  return buildCacheKey(endpoint, { ...params, reference: chapterMatch[1] });
+}
+
+export function buildOfflineBookId(book: string, language: string, organization: string, resource: string): string {
+  return `${language}|${organization}|${resource}|${book.toLowerCase()}`;
+}
+
+// True when the browser reports no network connection
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// recordKeys collects the key when the entry exists - a pack download passes one to learn what it depends on
+export async function getCachedResponse(key: string, recordKeys?: Set<string>): Promise<CachedResponse | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  try {
+    const tx = db.transaction(RESPONSES_STORE, 'readonly');
+    const entry = await promisify(tx.objectStore(RESPONSES_STORE).get(key));
+    if (entry) recordKeys?.add(key);
+    return (entry as CachedResponse) || null;
+  } catch (error) {
+    console.error('[resourceCache] Read failed:', error);
+    return null;
+  }
+}
+
+export async function putCachedResponse(
+  endpoint: string,
+  params: ProxyParams,
+  data: unknown,
+  recordKeys?: Set<string>
+): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const reference = params.reference || params.term || params.moduleId || params.query || '';
+  const entry: CachedResponse = {
+    key: buildCacheKey(endpoint, params),
+    endpoint,
+    language: params.language || '',
+    organization: params.organization || '',
+    resource: params.resource || '',
+    reference,
+    book: params.reference ? getBookFromReference(params.reference)?.toLowerCase() || null : null,
+    data,
+    cachedAt: Date.now(),
+  };
+
+  try {
+    const tx = db.transaction(RESPONSES_STORE, 'readwrite');
+    await promisify(tx.objectStore(RESPONSES_STORE).put(entry));
+    recordKeys?.add(entry.key);
+  } catch (error) {
+    console.error('[resourceCache] Write failed:', error);
+  }
+}
+
+// Approximate on-disk size of the given entries (serialized JSON length)
+export async function getCachedSize(keys: string[]): Promise<number> {
+  const db = await openDatabase();
+  if (!db) return 0;
+
+  try {
+    const tx = db.transaction(RESPONSES_STORE, 'readonly');
+    const store = tx.objectStore(RESPONSES_STORE);
+    const entries = await Promise.all(keys.map(key => promisify(store.get(key))));
+    return entries.reduce((sum, entry) => sum + (entry ? JSON.stringify(entry).length : 0), 0);
+  } catch (error) {
+    console.error('[resourceCache] Size calculation failed:', error);
+    return 0;
+  }
+}
+
+export async function deleteCachedResponses(keys: string[]): Promise<void> {
+  const db = await openDatabase();
+  if (!db || keys.length === 0) return;
+
+  try {
+    const tx = db.transaction(RESPONSES_STORE, 'readwrite');
+    const store = tx.objectStore(RESPONSES_STORE);
+    await Promise.all(keys.map(key => promisify(store.delete(key))));
+    console.log(`[resourceCache] Deleted ${keys.length} cached responses`);
+  } catch (error) {
+    console.error('[resourceCache] Delete failed:', error);
+  }
+}
+
+export async function listOfflineBooks(): Promise<OfflineBook[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  try {
+    const tx = db.transaction(OFFLINE_BOOKS_STORE, 'readonly');
+    const books = await promisify(tx.objectStore(OFFLINE_BOOKS_STORE).getAll());
+    return (books as OfflineBook[]).sort((a, b) => b.savedAt - a.savedAt);
+  } catch (error) {
+    console.error('[resourceCache] Failed to list offline books:', error);
+    return [];
+  }
+}
+
+export async function saveOfflineBook(book: OfflineBook): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(OFFLINE_BOOKS_STORE, 'readwrite');
+    await promisify(tx.objectStore(OFFLINE_BOOKS_STORE).put(book));
+  } catch (error) {
+    console.error('[resourceCache] Failed to save offline book:', error);
+  }
+}
+
+export async function removeOfflineBook(id: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(OFFLINE_BOOKS_STORE, 'readwrite');
+    await promisify(tx.objectStore(OFFLINE_BOOKS_STORE).delete(id));
+  } catch (error) {
+    console.error('[resourceCache] Failed to remove offline book:', error);
+  }
+}
+
+export async function listDrafts(): Promise<ImportedDraft[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  try {
+    const tx = db.transaction(DRAFTS_STORE, 'readonly');
+    const drafts = await promisify(tx.objectStore(DRAFTS_STORE).getAll());
+    return (drafts as ImportedDraft[]).sort((a, b) => b.importedAt - a.importedAt);
+  } catch (error) {
+    console.error('[resourceCache] Failed to list drafts:', error);
+    return [];
+  }
+}
+
+export async function saveDraft(draft: ImportedDraft): Promise<boolean> {
+  const db = await openDatabase();
+  if (!db) return false;
+
+  try {
+    const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+    await promisify(tx.objectStore(DRAFTS_STORE).put(draft));
+    return true;
+  } catch (error) {
+    console.error('[resourceCache] Failed to save draft:', error);
+    return false;
+  }
+}
+
+export async function removeDraft(id: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+    await promisify(tx.objectStore(DRAFTS_STORE).delete(id));
+  } catch (error) {
+    console.error('[resourceCache] Failed to remove draft:', error);
+  }
+}
@@ -13,6 +13,8 @@ export interface Message {
   toolCalls?: ToolCall[]; // Tool call signatures (recipe, not results)
   navigationHint?: 'scripture' | 'resources' | 'search' | 'notes' | null;
   isStreaming?: boolean; // True while content is still being streamed
+  parentId?: string; // Previous message on this branch; unset for the first message
+  isError?: boolean; // Local failure notice - never saved, so never a parent
 }
 
 export type AgentType = 'scripture' | 'notes' | 'questions' | 'academy' | 'words' | 'main';
@@ -26,6 +28,7 @@ export interface ResourceLink {
 
 export interface ScriptureVerse {
   number: number;
+  endVerse?: number; // Last verse of a bridge, e.g. 4 for "3-4"
   text: string;
   isParagraphEnd?: boolean;
 }
@@ -65,6 +68,7 @@ export interface ScripturePassage {
 }
 
 export type NoteType = 'note' | 'bug_report' | 'feedback';
+export type NoteStatus = 'open' | 'done';
 export type ResourceType = 'scripture' | 'tn' | 'tq' | 'tw' | 'ta';
 
 export interface Note {
@@ -76,6 +80,73 @@ export interface Note {
   noteType: NoteType;
   resourceType?: ResourceType;
   resourceId?: string;
+  userId?: string;        // Author
+  workspaceId?: string;   // Set when shared with a team workspace
+  parentId?: string;      // Set on thread replies
+  mentions?: string[];    // User ids @mentioned in the content
+  resolvedAt?: Date;      // Thread roots only
+  tags?: string[];        // Normalized, e.g. "key term", "ask consultant"
+  status?: NoteStatus;
+  externalId?: string;   // Row ID from an imported spreadsheet, e.g. a TN ID
+  quote?: string;        // Word span within sourceReference the note is anchored to
+  occurrence?: number;   // Which occurrence of the quote, from 1
+  quoteSource?: string;  // Text the quote was taken from, e.g. "ULT"
+}
+
+export interface NoteAnchor {
+  quote: string;
+  occurrence: number;
+  source?: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  language: string;
+  organization: string;
+  books: string[]; // USFM codes; empty = whole Bible
+  inviteCode: string;
+  createdBy: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  displayName: string;
+  role: 'owner' | 'member';
+}
+
+export interface DraftRevision {
+  id: string;
+  draftId: string;
+  sourceReference: string;
+  content: string;
+  previousContent?: string;
+  userId?: string; // Author
+  createdAt: Date;
+}
+
+export type CheckStatus = 'pass' | 'fail' | 'discuss';
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+export interface VerseHighlight {
+  id: string;
+  sourceReference: string; // A single verse, e.g. "Titus 1:3"
+  quote?: string;          // Word span within the verse; unset highlights the whole verse
+  occurrence: number;      // Which occurrence of the quote, from 1
+  color: HighlightColor;
+  updatedAt: Date;
+}
+
+export type CheckResourceType = 'tn' | 'tq';
+
+export interface VerseCheck {
+  id: string;
+  sourceReference: string;
+  resourceType: CheckResourceType;
+  resourceId: string;
+  status: CheckStatus;
+  comment?: string;
+  updatedAt: Date;
 }
 
 export interface Resource {
@@ -93,6 +164,9 @@ export interface HistoryItem {
   timestamp: Date;
   scripture?: string;
   scriptureReference?: string;
+  pinned?: boolean;
+  folder?: string;
+  activeLeafId?: string; // Last message of the branch that was open
 }
 
 export type CardType = 'history' | 'chat' | 'search' | 'scripture' | 'resources' | 'notes';
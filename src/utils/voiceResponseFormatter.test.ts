@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatAcademyForSpeech,
+  formatErrorForSpeech,
+  formatNotesForSpeech,
+  formatNotesForVoice,
+  formatQuestionsForSpeech,
+  formatScriptureForSpeech,
+  formatSearchResultsForSpeech,
+  formatWordStudiesForSpeech,
+  stripMarkdown,
+} from '@/utils/voiceResponseFormatter';
+
+describe('stripMarkdown', () => {
+  it('removes formatting and keeps the words', () => {
+    const markdown = [
+      '# Redeem',
+      '',
+      '**Definition:** To *buy back* something, see [kinsman](rc://*/tw/dict/bible/kt/redeem) and `tw`.',
+      '> A quote',
+      '---',
+      '- first',
+      '2. second',
+    ].join('\n');
+    expect(stripMarkdown(markdown)).toBe('Redeem\n\nDefinition: To buy back something, see kinsman and tw.\nA quote\n\nfirst\nsecond');
+  });
+
+  it('leaves right-to-left text untouched', () => {
+    expect(stripMarkdown('**يوحنا** ٣:١٦')).toBe('يوحنا ٣:١٦');
+  });
+});
+
+describe('formatScriptureForSpeech', () => {
+  it('speaks verse numbers', () => {
+    expect(formatScriptureForSpeech('1 In the days. 2 A man went.', 'Ruth 1:1-2'))
+      .toBe("Here's Ruth 1:1-2. Verse 1: In the days. Verse 2: A man went.");
+  });
+
+  it('asks for another reference when the passage is empty', () => {
+    expect(formatScriptureForSpeech('', 'Ruth 9')).toMatch(/couldn't find that passage/);
+  });
+});
+
+describe('formatNotesForSpeech', () => {
+  const notes = [
+    { reference: 'Ruth 1:1', note: 'This **introduces** the story.' },
+    { content: 'Bethlehem is a town.' },
+    { content: 'Ephrathites were a clan.' },
+    { content: 'Not read aloud.' },
+  ];
+
+  it('reads the first three notes and counts the rest', () => {
+    expect(formatNotesForSpeech(notes)).toBe(
+      "Here's a helpful translation note about Ruth 1:1. This introduces the story. " +
+      "There's also another note that says: Bethlehem is a town. " +
+      'And one more point: Ephrathites were a clan. ' +
+      "There are 1 more notes if you'd like to hear them."
+    );
+  });
+
+  it('says when there are none', () => {
+    expect(formatNotesForSpeech([])).toBe("I didn't find any translation notes for this passage.");
+  });
+});
+
+describe('formatQuestionsForSpeech', () => {
+  it('reads questions with their answers', () => {
+    expect(formatQuestionsForSpeech([
+      { question: 'Why did they go to Moab?', response: 'There was a famine.' },
+      { question: 'Who died?' },
+    ])).toBe(
+      "Here's a good question to consider: Why did they go to Moab? The suggested answer is: There was a famine. " +
+      'Another question: Who died?'
+    );
+  });
+});
+
+describe('formatWordStudiesForSpeech', () => {
+  it('introduces each word', () => {
+    expect(formatWordStudiesForSpeech([{ term: 'redeem', definition: 'To buy back.' }]))
+      .toBe('Let me tell you about the word "redeem". To buy back.');
+  });
+});
+
+describe('formatAcademyForSpeech', () => {
+  it('trims long articles and offers the rest', () => {
+    const body = 'x'.repeat(600);
+    const speech = formatAcademyForSpeech([
+      { title: 'Translate Names', content: body },
+      { title: 'Assumed Knowledge', content: 'Short.' },
+      { title: 'Metaphor', content: 'Unread.' },
+    ]);
+    expect(speech).toContain(`called "Translate Names". ${'x'.repeat(500)} There's`);
+    expect(speech).toMatch(/other 1 articles\?$/);
+  });
+});
+
+describe('formatSearchResultsForSpeech', () => {
+  it('summarizes results by resource type', () => {
+    const speech = formatSearchResultsForSpeech([
+      { resourceType: 'tn', reference: 'Ruth 3:9', content: 'A kinsman redeemer.' },
+      { resourceType: 'tw', word: 'redeem', content: 'To buy back.' },
+    ]);
+    expect(speech).toBe(
+      'I found 2 resources for you. ' +
+      "Here's a helpful translation note about Ruth 3:9. A kinsman redeemer. " +
+      'Let me tell you about the word "redeem". To buy back. ' +
+      'Would you like me to go deeper into any of these?'
+    );
+  });
+
+  it('suggests another search when nothing was found', () => {
+    expect(formatSearchResultsForSpeech([])).toMatch(/try a different search term/);
+  });
+});
+
+describe('formatErrorForSpeech', () => {
+  it('matches the kind of error', () => {
+    expect(formatErrorForSpeech('Resource not found')).toMatch(/couldn't find/);
+    expect(formatErrorForSpeech('network timeout')).toMatch(/trouble connecting/);
+    expect(formatErrorForSpeech('boom')).toBe('Something went wrong while searching. Let me try that again.');
+  });
+});
+
+describe('formatNotesForVoice', () => {
+  it('reads saved notes with their references', () => {
+    expect(formatNotesForVoice([{ content: 'Check the kinsman term.', source_reference: 'Ruth 3:9' }], 'Ruth 3'))
+      .toBe('You have 1 note related to Ruth 3. First: "Check the kinsman term." - from Ruth 3:9. ');
+  });
+
+  it('truncates long notes and counts the rest', () => {
+    const notes = Array.from({ length: 5 }, (_, i) => ({ content: `${i}`.repeat(120) }));
+    const speech = formatNotesForVoice(notes);
+    expect(speech).toContain(`First: "${'0'.repeat(100)}..."`);
+    expect(speech).toMatch(/There are 2 more notes\. Would you like me to continue\?$/);
+  });
+
+  it('offers to create a note when there are none', () => {
+    expect(formatNotesForVoice([], 'Ruth 1')).toBe("You don't have any notes for Ruth 1. Would you like me to create one?");
+  });
+});
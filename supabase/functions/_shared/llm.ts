@@ -0,0 +1,454 @@
+/**
+ * LLM providers for the edge functions
+ *
+ * One chat-completion interface over OpenAI, the Lovable AI gateway, Anthropic and any local
+ * OpenAI-compatible server (Ollama, llama.cpp, LM Studio). Which providers to try, in what
+ * order, and with which model and temperature comes from env, per task:
+ *
+ *   LLM_PROVIDERS=local,openai        fallback order for every task
+ *   LLM_ROUTER_PROVIDERS=openai       ...or for one task (ROUTER, RESPONSE, TRANSLATE, EMBED)
+ *   LLM_TEMPERATURE=0.2               likewise LLM_<TASK>_TEMPERATURE
+ *   OPENAI_MODEL=gpt-4o-mini          likewise <PROVIDER>_<TASK>_MODEL
+ *   LOCAL_LLM_BASE_URL=http://localhost:11434/v1
+ *
+ * Providers without credentials are skipped, so an air-gapped install only needs the
+ * LOCAL_LLM_* settings. Responses are normalized to plain content plus tool calls.
+ *
+ * Embeddings (EMBED) only use providers with an /embeddings endpoint: OpenAI
+ * (text-embedding-3-small) and a local server once LOCAL_LLM_EMBED_MODEL names a model.
+ * Note embeddings are stored as 1536-dimension vectors, so that model must produce them.
+ */
+
+export type LlmProviderName = 'openai' | 'lovable' | 'anthropic' | 'local';
+export type LlmTask = 'router' | 'response' | 'translate' | 'embed';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: LlmToolCall[]; // assistant: the calls this turn made
+  toolCallId?: string;       // tool: the call this result answers
+}
+
+// OpenAI function-calling shape; translated for providers that differ
+export interface LlmTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  toolChoice?: 'auto' | 'required';
+}
+
+export interface LlmResult {
+  content: string;
+  toolCalls: LlmToolCall[];
+  provider: LlmProviderName;
+  model: string;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public status?: number, public provider?: LlmProviderName) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+export interface LlmProviderConfig {
+  name: LlmProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+export interface LlmTaskConfig {
+  providers: LlmProviderConfig[]; // Fallback order, configured providers only
+  temperature?: number;
+}
+
+type EnvGetter = (name: string) => string | undefined;
+
+const PROVIDER_NAMES: LlmProviderName[] = ['openai', 'lovable', 'anthropic', 'local'];
+
+const ENV_PREFIX: Record<LlmProviderName, string> = {
+  openai: 'OPENAI',
+  lovable: 'LOVABLE',
+  anthropic: 'ANTHROPIC',
+  local: 'LOCAL_LLM',
+};
+
+const DEFAULT_BASE_URL: Record<LlmProviderName, string> = {
+  openai: 'https://api.openai.com/v1',
+  lovable: 'https://ai.gateway.lovable.dev/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+  local: 'http://localhost:11434/v1',
+};
+
+const DEFAULT_MODEL: Record<LlmProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  lovable: 'google/gemini-2.5-flash',
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1',
+};
+
+// What each task used before providers were configurable
+const DEFAULT_PROVIDERS: Record<LlmTask, LlmProviderName[]> = {
+  router: ['openai'],
+  response: ['openai'],
+  translate: ['lovable'],
+  embed: ['openai'],
+};
+
+// Providers that serve embeddings, and their model when no <PREFIX>_EMBED_MODEL is set
+const EMBED_PROVIDERS: LlmProviderName[] = ['openai', 'local'];
+const DEFAULT_EMBED_MODEL: Partial<Record<LlmProviderName, string>> = {
+  openai: 'text-embedding-3-small',
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+function parseProviders(value: string | undefined): LlmProviderName[] | null {
+  if (!value) return null;
+  const names = value
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is LlmProviderName => PROVIDER_NAMES.includes(name as LlmProviderName));
+  return names.length > 0 ? names : null;
+}
+
+function parseTemperature(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const temperature = Number(value);
+  return Number.isFinite(temperature) ? temperature : undefined;
+}
+
+export function loadLlmConfig(task: LlmTask, env: EnvGetter = name => Deno.env.get(name)): LlmTaskConfig {
+  const TASK = task.toUpperCase();
+  const embedding = task === 'embed';
+  const order = parseProviders(env(`LLM_${TASK}_PROVIDERS`))
+    || parseProviders(env('LLM_PROVIDERS'))
+    || DEFAULT_PROVIDERS[task];
+
+  const providers = order
+    .map((name): LlmProviderConfig => {
+      const prefix = ENV_PREFIX[name];
+      return {
+        name,
+        baseUrl: (env(`${prefix}_BASE_URL`) || DEFAULT_BASE_URL[name]).replace(/\/+$/, ''),
+        apiKey: env(`${prefix}_API_KEY`),
+        // A chat model can't embed, so embeddings skip the provider-wide model
+        model: env(`${prefix}_${TASK}_MODEL`)
+          || (embedding ? DEFAULT_EMBED_MODEL[name] : env(`${prefix}_MODEL`) || DEFAULT_MODEL[name])
+          || '',
+      };
+    })
+    // A local server usually runs without a key; hosted providers need one
+    .filter(provider => provider.name === 'local' || !!provider.apiKey)
+    .filter(provider => !embedding || (EMBED_PROVIDERS.includes(provider.name) && !!provider.model));
+
+  return {
+    providers,
+    temperature: parseTemperature(env(`LLM_${TASK}_TEMPERATURE`)) ?? parseTemperature(env('LLM_TEMPERATURE')),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Request building
+// ---------------------------------------------------------------------------
+
+function buildOpenAiRequest(provider: LlmProviderConfig, request: LlmRequest, temperature: number | undefined, stream: boolean) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`;
+
+  return {
+    url: `${provider.baseUrl}/chat/completions`,
+    headers,
+    body: {
+      model: provider.model,
+      messages: request.messages.map(toOpenAiMessage),
+      ...(request.tools?.length ? { tools: request.tools, tool_choice: request.toolChoice || 'auto' } : {}),
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(stream ? { stream: true } : {}),
+    },
+  };
+}
+
+function toOpenAiMessage(message: LlmMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+interface AnthropicTurn {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+function toAnthropicBlocks(message: LlmMessage): AnthropicBlock[] {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+  }
+  const blocks: AnthropicBlock[] = message.content ? [{ type: 'text', text: message.content }] : [];
+  for (const call of message.toolCalls || []) {
+    let input: Record<string, unknown> = {};
+    try {
+      input = JSON.parse(call.arguments);
+    } catch {
+      // Keep the turn; the model sees an empty call
+    }
+    blocks.push({ type: 'tool_use', id: call.id, name: call.name, input });
+  }
+  return blocks;
+}
+
+// Anthropic takes the system prompt separately and wants user/assistant turns to alternate,
+// starting with the user; tool results travel in user turns
+function toAnthropicMessages(messages: LlmMessage[]): { system: string; messages: AnthropicTurn[] } {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const turns: AnthropicTurn[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    if (turns.length === 0 && role === 'assistant') continue;
+    const previous = turns[turns.length - 1];
+    if (previous?.role === role) {
+      previous.content.push(...toAnthropicBlocks(message));
+    } else {
+      turns.push({ role, content: toAnthropicBlocks(message) });
+    }
+  }
+  return { system, messages: turns };
+}
+
+function buildAnthropicRequest(provider: LlmProviderConfig, request: LlmRequest, temperature: number | undefined, stream: boolean) {
+  const { system, messages } = toAnthropicMessages(request.messages);
+  return {
+    url: `${provider.baseUrl}/messages`,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': provider.apiKey || '',
+      'anthropic-version': ANTHROPIC_VERSION,
+    },
+    body: {
+      model: provider.model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      ...(system ? { system } : {}),
+      messages,
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          input_schema: tool.function.parameters,
+        })),
+        tool_choice: { type: request.toolChoice === 'required' ? 'any' : 'auto' },
+      } : {}),
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(stream ? { stream: true } : {}),
+    },
+  };
+}
+
+async function post(provider: LlmProviderConfig, request: LlmRequest, temperature: number | undefined, stream: boolean): Promise<Response> {
+  const { url, headers, body } = provider.name === 'anthropic'
+    ? buildAnthropicRequest(provider, request, temperature, stream)
+    : buildOpenAiRequest(provider, request, temperature, stream);
+  return send(provider, url, headers, body);
+}
+
+async function send(provider: LlmProviderConfig, url: string, headers: Record<string, string>, body: unknown): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+  } catch (error) {
+    throw new LlmError(`${provider.name} unreachable: ${error instanceof Error ? error.message : error}`, undefined, provider.name);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[llm] ${provider.name} error: ${response.status}`, errorText);
+    throw new LlmError(`${provider.name} API error: ${response.status}`, response.status, provider.name);
+  }
+  return response;
+}
+
+// ---------------------------------------------------------------------------
+// Response parsing
+// ---------------------------------------------------------------------------
+
+// The parts of each provider's response bodies that are read
+interface OpenAiCompletion {
+  choices?: {
+    message?: {
+      content?: string | null;
+      tool_calls?: { id?: string; function?: { name?: string; arguments?: string | Record<string, unknown> } }[];
+    };
+    delta?: { content?: string | null };
+  }[];
+}
+
+interface AnthropicBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string;
+}
+
+interface OpenAiEmbeddings {
+  data?: { index: number; embedding: number[] }[];
+}
+
+interface AnthropicCompletion {
+  content?: AnthropicBlock[];
+  type?: string;
+  delta?: { type?: string; text?: string };
+}
+
+export function parseCompletion(providerName: LlmProviderName, data: unknown): { content: string; toolCalls: LlmToolCall[] } {
+  if (providerName === 'anthropic') {
+    const blocks = (data as AnthropicCompletion)?.content || [];
+    return {
+      content: blocks.filter(b => b.type === 'text').map(b => b.text || '').join(''),
+      toolCalls: blocks
+        .filter(b => b.type === 'tool_use')
+        .map((b, index) => ({ id: b.id || `call_${index}`, name: b.name || '', arguments: JSON.stringify(b.input ?? {}) })),
+    };
+  }
+
+  const message = (data as OpenAiCompletion)?.choices?.[0]?.message;
+  return {
+    content: message?.content || '',
+    toolCalls: (message?.tool_calls || []).map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name || '',
+      // Some local servers return arguments as an object rather than a JSON string
+      arguments: typeof call.function?.arguments === 'string'
+        ? call.function.arguments
+        : JSON.stringify(call.function?.arguments ?? {}),
+    })),
+  };
+}
+
+// Text delta from one streamed SSE data payload, if it carries any
+export function parseStreamDelta(providerName: LlmProviderName, event: unknown): string | null {
+  if (providerName === 'anthropic') {
+    const { type, delta } = (event as AnthropicCompletion) || {};
+    return type === 'content_block_delta' && delta?.type === 'text_delta' ? delta.text || null : null;
+  }
+  return (event as OpenAiCompletion)?.choices?.[0]?.delta?.content || null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+// Try each configured provider in order until one answers
+async function withFallback<T>(task: LlmTask, attempt: (provider: LlmProviderConfig, temperature?: number) => Promise<T>, config?: LlmTaskConfig): Promise<T> {
+  const { providers, temperature } = config || loadLlmConfig(task);
+  if (providers.length === 0) {
+    throw new LlmError(`No LLM provider configured for ${task}`);
+  }
+
+  let lastError: unknown;
+  for (const provider of providers) {
+    try {
+      return await attempt(provider, temperature);
+    } catch (error) {
+      lastError = error;
+      console.warn(`[llm] ${task} via ${provider.name} (${provider.model}) failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+  throw lastError;
+}
+
+export function chatCompletion(request: LlmRequest, config?: LlmTaskConfig): Promise<LlmResult> {
+  return withFallback(request.task, async (provider, temperature) => {
+    const response = await post(provider, request, temperature, false);
+    const parsed = parseCompletion(provider.name, await response.json());
+    return { ...parsed, provider: provider.name, model: provider.model };
+  }, config);
+}
+
+// One vector per input, in input order
+export function createEmbeddings(inputs: string[], config?: LlmTaskConfig): Promise<number[][]> {
+  return withFallback('embed', async provider => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`;
+
+    const response = await send(provider, `${provider.baseUrl}/embeddings`, headers, { model: provider.model, input: inputs });
+    const { data = [] } = await response.json() as OpenAiEmbeddings;
+    if (data.length !== inputs.length) {
+      throw new LlmError(`${provider.name} returned ${data.length} embeddings for ${inputs.length} inputs`, undefined, provider.name);
+    }
+    return [...data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }, config);
+}
+
+/**
+ * Streamed completion as text deltas. Fallback happens while connecting; once a provider
+ * has started streaming, a failure mid-response is thrown to the caller.
+ */
+export async function streamChatCompletion(request: LlmRequest, config?: LlmTaskConfig): Promise<AsyncGenerator<string>> {
+  const { response, provider } = await withFallback(request.task, async (provider, temperature) => ({
+    response: await post(provider, request, temperature, true),
+    provider: provider.name,
+  }), config);
+
+  const reader = response.body?.getReader();
+  if (!reader) throw new LlmError('No response body', undefined, provider);
+  return readDeltas(reader, provider);
+}
+
+async function* readDeltas(reader: ReadableStreamDefaultReader<Uint8Array>, providerName: LlmProviderName): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (!line.startsWith('data:')) continue; // comments, blank lines, Anthropic "event:" lines
+
+      const jsonStr = line.slice(5).trim();
+      if (jsonStr === '[DONE]') return;
+
+      let event: unknown;
+      try {
+        event = JSON.parse(jsonStr);
+      } catch {
+        console.warn('[llm] Skipping malformed stream event:', jsonStr);
+        continue;
+      }
+      const delta = parseStreamDelta(providerName, event);
+      if (delta) yield delta;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Book names for the Gateway Languages the UI ships translations for
+ *
+ * Keyed by base language code, then USFM book code. The first name is the common
+ * form used by the language's reference Bible; the rest are accepted variants.
+ * Unaccented spellings are derived automatically when the names are registered.
+ */
+export const LOCALIZED_BOOK_NAMES: Record<string, Record<string, string[]>> = {
+  // Spanish (es-419)
+  es: {
+    GEN: ['Génesis'], EXO: ['Éxodo'], LEV: ['Levítico'], NUM: ['Números'], DEU: ['Deuteronomio'],
+    JOS: ['Josué'], JDG: ['Jueces'], RUT: ['Rut'], '1SA': ['1 Samuel'], '2SA': ['2 Samuel'],
+    '1KI': ['1 Reyes'], '2KI': ['2 Reyes'], '1CH': ['1 Crónicas'], '2CH': ['2 Crónicas'],
+    EZR: ['Esdras'], NEH: ['Nehemías'], EST: ['Ester'], JOB: ['Job'], PSA: ['Salmos', 'Salmo'],
+    PRO: ['Proverbios'], ECC: ['Eclesiastés'], SNG: ['Cantares', 'Cantar de los Cantares'],
+    ISA: ['Isaías'], JER: ['Jeremías'], LAM: ['Lamentaciones'], EZK: ['Ezequiel'], DAN: ['Daniel'],
+    HOS: ['Oseas'], JOL: ['Joel'], AMO: ['Amós'], OBA: ['Abdías'], JON: ['Jonás'], MIC: ['Miqueas'],
+    NAM: ['Nahúm'], HAB: ['Habacuc'], ZEP: ['Sofonías'], HAG: ['Hageo'], ZEC: ['Zacarías'],
+    MAL: ['Malaquías'],
+    MAT: ['Mateo'], MRK: ['Marcos'], LUK: ['Lucas'], JHN: ['Juan'], ACT: ['Hechos'], ROM: ['Romanos'],
+    '1CO': ['1 Corintios'], '2CO': ['2 Corintios'], GAL: ['Gálatas'], EPH: ['Efesios'],
+    PHP: ['Filipenses'], COL: ['Colosenses'], '1TH': ['1 Tesalonicenses'], '2TH': ['2 Tesalonicenses'],
+    '1TI': ['1 Timoteo'], '2TI': ['2 Timoteo'], TIT: ['Tito'], PHM: ['Filemón'], HEB: ['Hebreos'],
+    JAS: ['Santiago'], '1PE': ['1 Pedro'], '2PE': ['2 Pedro'], '1JN': ['1 Juan'], '2JN': ['2 Juan'],
+    '3JN': ['3 Juan'], JUD: ['Judas'], REV: ['Apocalipsis'],
+  },
+
+  // Portuguese (pt-br)
+  pt: {
+    GEN: ['Gênesis'], EXO: ['Êxodo'], LEV: ['Levítico'], NUM: ['Números'], DEU: ['Deuteronômio'],
+    JOS: ['Josué'], JDG: ['Juízes'], RUT: ['Rute'], '1SA': ['1 Samuel'], '2SA': ['2 Samuel'],
+    '1KI': ['1 Reis'], '2KI': ['2 Reis'], '1CH': ['1 Crônicas'], '2CH': ['2 Crônicas'],
+    EZR: ['Esdras'], NEH: ['Neemias'], EST: ['Ester'], JOB: ['Jó'], PSA: ['Salmos', 'Salmo'],
+    PRO: ['Provérbios'], ECC: ['Eclesiastes'], SNG: ['Cânticos', 'Cantares de Salomão', 'Cantares'],
+    ISA: ['Isaías'], JER: ['Jeremias'], LAM: ['Lamentações'], EZK: ['Ezequiel'], DAN: ['Daniel'],
+    HOS: ['Oseias', 'Oséias'], JOL: ['Joel'], AMO: ['Amós'], OBA: ['Obadias'], JON: ['Jonas'],
+    MIC: ['Miqueias', 'Miquéias'], NAM: ['Naum'], HAB: ['Habacuque'], ZEP: ['Sofonias'], HAG: ['Ageu'],
+    ZEC: ['Zacarias'], MAL: ['Malaquias'],
+    MAT: ['Mateus'], MRK: ['Marcos'], LUK: ['Lucas'], JHN: ['João'], ACT: ['Atos'], ROM: ['Romanos'],
+    '1CO': ['1 Coríntios'], '2CO': ['2 Coríntios'], GAL: ['Gálatas'], EPH: ['Efésios'],
+    PHP: ['Filipenses'], COL: ['Colossenses'], '1TH': ['1 Tessalonicenses'], '2TH': ['2 Tessalonicenses'],
+    '1TI': ['1 Timóteo'], '2TI': ['2 Timóteo'], TIT: ['Tito'], PHM: ['Filemom'], HEB: ['Hebreus'],
+    JAS: ['Tiago'], '1PE': ['1 Pedro'], '2PE': ['2 Pedro'], '1JN': ['1 João'], '2JN': ['2 João'],
+    '3JN': ['3 João'], JUD: ['Judas'], REV: ['Apocalipse'],
+  },
+
+  // French
+  fr: {
+    GEN: ['Genèse'], EXO: ['Exode'], LEV: ['Lévitique'], NUM: ['Nombres'], DEU: ['Deutéronome'],
+    JOS: ['Josué'], JDG: ['Juges'], RUT: ['Ruth'], '1SA': ['1 Samuel'], '2SA': ['2 Samuel'],
+    '1KI': ['1 Rois'], '2KI': ['2 Rois'], '1CH': ['1 Chroniques'], '2CH': ['2 Chroniques'],
+    EZR: ['Esdras'], NEH: ['Néhémie'], EST: ['Esther'], JOB: ['Job'], PSA: ['Psaumes', 'Psaume'],
+    PRO: ['Proverbes'], ECC: ['Ecclésiaste'], SNG: ['Cantique des Cantiques', 'Cantique'],
+    ISA: ['Ésaïe', 'Isaïe'], JER: ['Jérémie'], LAM: ['Lamentations'], EZK: ['Ézéchiel'], DAN: ['Daniel'],
+    HOS: ['Osée'], JOL: ['Joël'], AMO: ['Amos'], OBA: ['Abdias'], JON: ['Jonas'], MIC: ['Michée'],
+    NAM: ['Nahum'], HAB: ['Habacuc'], ZEP: ['Sophonie'], HAG: ['Aggée'], ZEC: ['Zacharie'],
+    MAL: ['Malachie'],
+    MAT: ['Matthieu'], MRK: ['Marc'], LUK: ['Luc'], JHN: ['Jean'], ACT: ['Actes'], ROM: ['Romains'],
+    '1CO': ['1 Corinthiens'], '2CO': ['2 Corinthiens'], GAL: ['Galates'], EPH: ['Éphésiens'],
+    PHP: ['Philippiens'], COL: ['Colossiens'], '1TH': ['1 Thessaloniciens'], '2TH': ['2 Thessaloniciens'],
+    '1TI': ['1 Timothée'], '2TI': ['2 Timothée'], TIT: ['Tite'], PHM: ['Philémon'], HEB: ['Hébreux'],
+    JAS: ['Jacques'], '1PE': ['1 Pierre'], '2PE': ['2 Pierre'], '1JN': ['1 Jean'], '2JN': ['2 Jean'],
+    '3JN': ['3 Jean'], JUD: ['Jude'], REV: ['Apocalypse'],
+  },
+
+  // Hindi
+  hi: {
+    GEN: ['उत्पत्ति'], EXO: ['निर्गमन'], LEV: ['लैव्यव्यवस्था'], NUM: ['गिनती'], DEU: ['व्यवस्थाविवरण'],
+    JOS: ['यहोशू'], JDG: ['न्यायियों'], RUT: ['रूत'], '1SA': ['1 शमूएल'], '2SA': ['2 शमूएल'],
+    '1KI': ['1 राजाओं'], '2KI': ['2 राजाओं'], '1CH': ['1 इतिहास'], '2CH': ['2 इतिहास'],
+    EZR: ['एज्रा'], NEH: ['नहेम्याह'], EST: ['एस्तेर'], JOB: ['अय्यूब'], PSA: ['भजन संहिता', 'भजन'],
+    PRO: ['नीतिवचन'], ECC: ['सभोपदेशक'], SNG: ['श्रेष्ठगीत'],
+    ISA: ['यशायाह'], JER: ['यिर्मयाह'], LAM: ['विलापगीत'], EZK: ['यहेजकेल'], DAN: ['दानिय्येल'],
+    HOS: ['होशे'], JOL: ['योएल'], AMO: ['आमोस'], OBA: ['ओबद्याह'], JON: ['योना'], MIC: ['मीका'],
+    NAM: ['नहूम'], HAB: ['हबक्कूक'], ZEP: ['सपन्याह'], HAG: ['हाग्गै'], ZEC: ['जकर्याह'], MAL: ['मलाकी'],
+    MAT: ['मत्ती'], MRK: ['मरकुस'], LUK: ['लूका'], JHN: ['यूहन्ना'], ACT: ['प्रेरितों के काम', 'प्रेरितों'],
+    ROM: ['रोमियों'], '1CO': ['1 कुरिन्थियों'], '2CO': ['2 कुरिन्थियों'], GAL: ['गलातियों'],
+    EPH: ['इफिसियों'], PHP: ['फिलिप्पियों'], COL: ['कुलुस्सियों'], '1TH': ['1 थिस्सलुनीकियों'],
+    '2TH': ['2 थिस्सलुनीकियों'], '1TI': ['1 तीमुथियुस'], '2TI': ['2 तीमुथियुस'], TIT: ['तीतुस'],
+    PHM: ['फिलेमोन'], HEB: ['इब्रानियों'], JAS: ['याकूब'], '1PE': ['1 पतरस'], '2PE': ['2 पतरस'],
+    '1JN': ['1 यूहन्ना'], '2JN': ['2 यूहन्ना'], '3JN': ['3 यूहन्ना'], JUD: ['यहूदा'], REV: ['प्रकाशितवाक्य'],
+  },
+
+  // Indonesian
+  id: {
+    GEN: ['Kejadian'], EXO: ['Keluaran'], LEV: ['Imamat'], NUM: ['Bilangan'], DEU: ['Ulangan'],
+    JOS: ['Yosua'], JDG: ['Hakim-hakim'], RUT: ['Rut'], '1SA': ['1 Samuel'], '2SA': ['2 Samuel'],
+    '1KI': ['1 Raja-raja'], '2KI': ['2 Raja-raja'], '1CH': ['1 Tawarikh'], '2CH': ['2 Tawarikh'],
+    EZR: ['Ezra'], NEH: ['Nehemia'], EST: ['Ester'], JOB: ['Ayub'], PSA: ['Mazmur'],
+    PRO: ['Amsal'], ECC: ['Pengkhotbah'], SNG: ['Kidung Agung'],
+    ISA: ['Yesaya'], JER: ['Yeremia'], LAM: ['Ratapan'], EZK: ['Yehezkiel'], DAN: ['Daniel'],
+    HOS: ['Hosea'], JOL: ['Yoel'], AMO: ['Amos'], OBA: ['Obaja'], JON: ['Yunus'], MIC: ['Mikha'],
+    NAM: ['Nahum'], HAB: ['Habakuk'], ZEP: ['Zefanya'], HAG: ['Hagai'], ZEC: ['Zakharia'],
+    MAL: ['Maleakhi'],
+    MAT: ['Matius'], MRK: ['Markus'], LUK: ['Lukas'], JHN: ['Yohanes'],
+    ACT: ['Kisah Para Rasul', 'Kisah Rasul'], ROM: ['Roma'], '1CO': ['1 Korintus'], '2CO': ['2 Korintus'],
+    GAL: ['Galatia'], EPH: ['Efesus'], PHP: ['Filipi'], COL: ['Kolose'], '1TH': ['1 Tesalonika'],
+    '2TH': ['2 Tesalonika'], '1TI': ['1 Timotius'], '2TI': ['2 Timotius'], TIT: ['Titus'],
+    PHM: ['Filemon'], HEB: ['Ibrani'], JAS: ['Yakobus'], '1PE': ['1 Petrus'], '2PE': ['2 Petrus'],
+    '1JN': ['1 Yohanes'], '2JN': ['2 Yohanes'], '3JN': ['3 Yohanes'], JUD: ['Yudas'], REV: ['Wahyu'],
+  },
+
+  // Arabic
+  ar: {
+    GEN: ['التكوين'], EXO: ['الخروج'], LEV: ['اللاويين'], NUM: ['العدد'], DEU: ['التثنية'],
+    JOS: ['يشوع'], JDG: ['القضاة'], RUT: ['راعوث'], '1SA': ['صموئيل الأول', '1 صموئيل'],
+    '2SA': ['صموئيل الثاني', '2 صموئيل'], '1KI': ['الملوك الأول', '1 الملوك'], '2KI': ['الملوك الثاني', '2 الملوك'],
+    '1CH': ['أخبار الأيام الأول', '1 أخبار الأيام'], '2CH': ['أخبار الأيام الثاني', '2 أخبار الأيام'],
+    EZR: ['عزرا'], NEH: ['نحميا'], EST: ['أستير'], JOB: ['أيوب'], PSA: ['المزامير', 'مزمور'],
+    PRO: ['الأمثال'], ECC: ['الجامعة'], SNG: ['نشيد الأنشاد'],
+    ISA: ['إشعياء'], JER: ['إرميا'], LAM: ['مراثي إرميا'], EZK: ['حزقيال'], DAN: ['دانيال'],
+    HOS: ['هوشع'], JOL: ['يوئيل'], AMO: ['عاموس'], OBA: ['عوبديا'], JON: ['يونان'], MIC: ['ميخا'],
+    NAM: ['ناحوم'], HAB: ['حبقوق'], ZEP: ['صفنيا'], HAG: ['حجي'], ZEC: ['زكريا'], MAL: ['ملاخي'],
+    MAT: ['متى'], MRK: ['مرقس'], LUK: ['لوقا'], JHN: ['يوحنا'], ACT: ['أعمال الرسل'], ROM: ['رومية'],
+    '1CO': ['كورنثوس الأولى', '1 كورنثوس'], '2CO': ['كورنثوس الثانية', '2 كورنثوس'], GAL: ['غلاطية'],
+    EPH: ['أفسس'], PHP: ['فيلبي'], COL: ['كولوسي'],
+    '1TH': ['تسالونيكي الأولى', '1 تسالونيكي'], '2TH': ['تسالونيكي الثانية', '2 تسالونيكي'],
+    '1TI': ['تيموثاوس الأولى', '1 تيموثاوس'], '2TI': ['تيموثاوس الثانية', '2 تيموثاوس'], TIT: ['تيطس'],
+    PHM: ['فليمون'], HEB: ['العبرانيين'], JAS: ['يعقوب'],
+    '1PE': ['بطرس الأولى', '1 بطرس'], '2PE': ['بطرس الثانية', '2 بطرس'],
+    '1JN': ['يوحنا الأولى', '1 يوحنا'], '2JN': ['يوحنا الثانية', '2 يوحنا'], '3JN': ['يوحنا الثالثة', '3 يوحنا'],
+    JUD: ['يهوذا'], REV: ['رؤيا يوحنا', 'الرؤيا'],
+  },
+};
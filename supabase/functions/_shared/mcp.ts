@@ -0,0 +1,12 @@
+/**
+ * Translation Helps MCP server location
+ *
+ * Hosted by default; set MCP_BASE_URL to run against another deployment or the local
+ * mock server (npm run mock:mcp) when working offline.
+ */
+
+export const DEFAULT_MCP_BASE_URL = 'https://translation-helps-mcp.pages.dev';
+
+export function getMcpBaseUrl(): string {
+  return (Deno.env.get('MCP_BASE_URL') || DEFAULT_MCP_BASE_URL).replace(/\/+$/, '');
+}
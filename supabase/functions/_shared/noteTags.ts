@@ -0,0 +1,35 @@
+/**
+ * Note tag normalization
+ *
+ * Shared by the app and note-agent so a tag typed as "Key Term " in the app
+ * and "key term" by the chat agent end up as the same tag.
+ */
+
+export const MAX_TAG_LENGTH = 32;
+
+// Tags most teams start with; offered as suggestions before any are used
+export const SUGGESTED_TAGS = ['key term', 'cultural issue', 'ask consultant'];
+
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Normalized, de-duplicated and without empties, in first-seen order
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag);
+    if (normalized) seen.add(normalized);
+  }
+  return Array.from(seen);
+}
+
+// "key term, #ask consultant" -> ['key term', 'ask consultant']
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(','));
+}
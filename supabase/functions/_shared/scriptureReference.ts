@@ -0,0 +1,621 @@
+/**
+ * Canonical scripture reference model
+ *
+ * Shared by the React app (re-exported from src/lib/scriptureReference.ts) and every
+ * edge function (imported from ../_shared/scriptureReference.ts). It only imports
+ * sibling data files so it runs unchanged under Vite and Deno.
+ *
+ * A reference is a book plus an ordered list of ranges. Each range has a start and end
+ * point; a point without a verse means "the whole chapter". Examples:
+ *   "John 3:16"        → JHN [3:16-3:16]
+ *   "John 3:16-4:2"    → JHN [3:16-4:2]
+ *   "Rom 1:1,5,7"      → ROM [1:1-1:1, 1:5-1:5, 1:7-1:7]
+ *   "Psalms 1-3"       → PSA [1-3]
+ *   "Ruth"             → RUT [] (whole book)
+ */
+
+import { LOCALIZED_BOOK_NAMES } from './localizedBookNames.ts';
+
+export type Testament = 'OT' | 'NT';
+
+export interface BookInfo {
+  code: string;            // USFM book code, e.g. "JHN"
+  name: string;            // English name, e.g. "John"
+  testament: Testament;
+  abbreviations: string[]; // Recognized in free text as well as in lookups
+  aliases: string[];       // Lookup only - too ambiguous to detect in prose
+  verses: number[];        // Verse count per chapter (index 0 = chapter 1)
+}
+
+export interface VersePoint {
+  chapter: number;
+  verse?: number;          // undefined = whole chapter
+}
+
+export interface ReferenceRange {
+  start: VersePoint;
+  end: VersePoint;
+}
+
+export interface ScriptureRef {
+  code: string;
+  book: string;
+  ranges: ReferenceRange[]; // empty = whole book
+}
+
+export type ReferenceLevel = 'book' | 'chapter' | 'verse';
+export type ScopeType = 'bible' | 'testament' | ReferenceLevel;
+
+export interface ReferenceMatch {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  ref: ScriptureRef;
+}
+
+// English versification (as used by ULT/UST)
+export const BOOKS: BookInfo[] = [
+  { code: 'GEN', name: 'Genesis', testament: 'OT', abbreviations: ['Gen', 'Gn'], aliases: ['Ge'], verses: [31, 25, 24, 26, 32, 22, 24, 22, 29, 32, 32, 20, 18, 24, 21, 16, 27, 33, 38, 18, 34, 24, 20, 67, 34, 35, 46, 22, 35, 43, 55, 32, 20, 31, 29, 43, 36, 30, 23, 23, 57, 38, 34, 34, 28, 34, 31, 22, 33, 26] },
+  { code: 'EXO', name: 'Exodus', testament: 'OT', abbreviations: ['Exod', 'Exo'], aliases: ['Ex'], verses: [22, 25, 22, 31, 23, 30, 25, 32, 35, 29, 10, 51, 22, 31, 27, 36, 16, 27, 25, 26, 36, 31, 33, 18, 40, 37, 21, 43, 46, 38, 18, 35, 23, 35, 35, 38, 29, 31, 43, 38] },
+  { code: 'LEV', name: 'Leviticus', testament: 'OT', abbreviations: ['Lev', 'Lv'], aliases: [], verses: [17, 16, 17, 35, 19, 30, 38, 36, 24, 20, 47, 8, 59, 57, 33, 34, 16, 30, 37, 27, 24, 33, 44, 23, 55, 46, 34] },
+  { code: 'NUM', name: 'Numbers', testament: 'OT', abbreviations: ['Num', 'Nm'], aliases: [], verses: [54, 34, 51, 49, 31, 27, 89, 26, 23, 36, 35, 16, 33, 45, 41, 50, 13, 32, 22, 29, 35, 41, 30, 25, 18, 65, 23, 31, 40, 16, 54, 42, 56, 29, 34, 13] },
+  { code: 'DEU', name: 'Deuteronomy', testament: 'OT', abbreviations: ['Deut', 'Deu', 'Dt'], aliases: [], verses: [46, 37, 29, 49, 33, 25, 26, 20, 29, 22, 32, 32, 18, 29, 23, 22, 20, 22, 21, 20, 23, 30, 25, 22, 19, 19, 26, 68, 29, 20, 30, 52, 29, 12] },
+  { code: 'JOS', name: 'Joshua', testament: 'OT', abbreviations: ['Josh'], aliases: [], verses: [18, 24, 17, 24, 15, 27, 26, 35, 27, 43, 23, 24, 33, 15, 63, 10, 18, 28, 51, 9, 45, 34, 16, 33] },
+  { code: 'JDG', name: 'Judges', testament: 'OT', abbreviations: ['Judg', 'Jdg'], aliases: [], verses: [36, 23, 31, 24, 31, 40, 25, 35, 57, 18, 40, 15, 25, 20, 20, 31, 13, 31, 30, 48, 25] },
+  { code: 'RUT', name: 'Ruth', testament: 'OT', abbreviations: ['Rth'], aliases: [], verses: [22, 23, 18, 22] },
+  { code: '1SA', name: '1 Samuel', testament: 'OT', abbreviations: ['1 Sam', '1Sam', '1 Sa'], aliases: [], verses: [28, 36, 21, 22, 12, 21, 17, 22, 27, 27, 15, 25, 23, 52, 35, 23, 58, 30, 24, 42, 15, 23, 29, 22, 44, 25, 12, 25, 11, 31, 13] },
+  { code: '2SA', name: '2 Samuel', testament: 'OT', abbreviations: ['2 Sam', '2Sam', '2 Sa'], aliases: [], verses: [27, 32, 39, 12, 25, 23, 29, 18, 13, 19, 27, 31, 39, 33, 37, 23, 29, 33, 43, 26, 22, 51, 39, 25] },
+  { code: '1KI', name: '1 Kings', testament: 'OT', abbreviations: ['1 Kgs', '1Kgs', '1 Ki'], aliases: [], verses: [53, 46, 28, 34, 18, 38, 51, 66, 28, 29, 43, 33, 34, 31, 34, 34, 24, 46, 21, 43, 29, 53] },
+  { code: '2KI', name: '2 Kings', testament: 'OT', abbreviations: ['2 Kgs', '2Kgs', '2 Ki'], aliases: [], verses: [18, 25, 27, 44, 27, 33, 20, 29, 37, 36, 21, 21, 25, 29, 38, 20, 41, 37, 37, 21, 26, 20, 37, 20, 30] },
+  { code: '1CH', name: '1 Chronicles', testament: 'OT', abbreviations: ['1 Chr', '1Chr', '1 Chron'], aliases: [], verses: [54, 55, 24, 43, 26, 81, 40, 40, 44, 14, 47, 40, 14, 17, 29, 43, 27, 17, 19, 8, 30, 19, 32, 31, 31, 32, 34, 21, 30] },
+  { code: '2CH', name: '2 Chronicles', testament: 'OT', abbreviations: ['2 Chr', '2Chr', '2 Chron'], aliases: [], verses: [17, 18, 17, 22, 14, 42, 22, 18, 31, 19, 23, 16, 22, 15, 19, 14, 19, 34, 11, 37, 20, 12, 21, 27, 28, 23, 9, 27, 36, 27, 21, 33, 25, 33, 27, 23] },
+  { code: 'EZR', name: 'Ezra', testament: 'OT', abbreviations: ['Ezr'], aliases: [], verses: [11, 70, 13, 24, 17, 22, 28, 36, 15, 44] },
+  { code: 'NEH', name: 'Nehemiah', testament: 'OT', abbreviations: ['Neh'], aliases: [], verses: [11, 20, 32, 23, 19, 19, 73, 18, 38, 39, 36, 47, 31] },
+  { code: 'EST', name: 'Esther', testament: 'OT', abbreviations: ['Esth', 'Est'], aliases: [], verses: [22, 23, 15, 17, 14, 14, 10, 17, 32, 3] },
+  { code: 'JOB', name: 'Job', testament: 'OT', abbreviations: [], aliases: [], verses: [22, 13, 26, 21, 27, 30, 21, 22, 35, 22, 20, 25, 28, 22, 35, 22, 16, 21, 29, 29, 34, 30, 17, 25, 6, 14, 23, 28, 25, 31, 40, 22, 33, 37, 16, 33, 24, 41, 30, 24, 34, 17] },
+  { code: 'PSA', name: 'Psalms', testament: 'OT', abbreviations: ['Psalm', 'Ps', 'Psa'], aliases: ['Pss'], verses: [6, 12, 8, 8, 12, 10, 17, 9, 20, 18, 7, 8, 6, 7, 5, 11, 15, 50, 14, 9, 13, 31, 6, 10, 22, 12, 14, 9, 11, 12, 24, 11, 22, 22, 28, 12, 40, 22, 13, 17, 13, 11, 5, 26, 17, 11, 9, 14, 20, 23, 19, 9, 6, 7, 23, 13, 11, 11, 17, 12, 8, 12, 11, 10, 13, 20, 7, 35, 36, 5, 24, 20, 28, 23, 10, 12, 20, 72, 13, 19, 16, 8, 18, 12, 13, 17, 7, 18, 52, 17, 16, 15, 5, 23, 11, 13, 12, 9, 9, 5, 8, 28, 22, 35, 45, 48, 43, 13, 31, 7, 10, 10, 9, 8, 18, 19, 2, 29, 176, 7, 8, 9, 4, 8, 5, 6, 5, 6, 8, 8, 3, 18, 3, 3, 21, 26, 9, 8, 24, 13, 10, 7, 12, 15, 21, 10, 20, 14, 9, 6] },
+  { code: 'PRO', name: 'Proverbs', testament: 'OT', abbreviations: ['Prov', 'Pro', 'Prv'], aliases: [], verses: [33, 22, 35, 27, 23, 35, 27, 36, 18, 32, 31, 28, 25, 35, 33, 33, 28, 24, 29, 30, 31, 29, 35, 34, 28, 28, 27, 28, 27, 33, 31] },
+  { code: 'ECC', name: 'Ecclesiastes', testament: 'OT', abbreviations: ['Eccl', 'Ecc', 'Qoh'], aliases: [], verses: [18, 26, 22, 16, 20, 12, 29, 17, 18, 20, 10, 14] },
+  { code: 'SNG', name: 'Song of Solomon', testament: 'OT', abbreviations: ['Song of Songs', 'Song'], aliases: ['Sos', 'SS', 'Canticles'], verses: [17, 17, 11, 16, 16, 13, 13, 14] },
+  { code: 'ISA', name: 'Isaiah', testament: 'OT', abbreviations: ['Isa'], aliases: [], verses: [31, 22, 26, 6, 30, 13, 25, 22, 21, 34, 16, 6, 22, 32, 9, 14, 14, 7, 25, 6, 17, 25, 18, 23, 12, 21, 13, 29, 24, 33, 9, 20, 24, 17, 10, 22, 38, 22, 8, 31, 29, 25, 28, 28, 25, 13, 15, 22, 26, 11, 23, 15, 12, 17, 13, 12, 21, 14, 21, 22, 11, 12, 19, 12, 25, 24] },
+  { code: 'JER', name: 'Jeremiah', testament: 'OT', abbreviations: ['Jer'], aliases: [], verses: [19, 37, 25, 31, 31, 30, 34, 22, 26, 25, 23, 17, 27, 22, 21, 21, 27, 23, 15, 18, 14, 30, 40, 10, 38, 24, 22, 17, 32, 24, 40, 44, 26, 22, 19, 32, 21, 28, 18, 16, 18, 22, 13, 30, 5, 28, 7, 47, 39, 46, 64, 34] },
+  { code: 'LAM', name: 'Lamentations', testament: 'OT', abbreviations: ['Lam'], aliases: [], verses: [22, 22, 66, 22, 22] },
+  { code: 'EZK', name: 'Ezekiel', testament: 'OT', abbreviations: ['Ezek', 'Eze'], aliases: [], verses: [28, 10, 27, 17, 17, 14, 27, 18, 11, 22, 25, 28, 23, 23, 8, 63, 24, 32, 14, 49, 32, 31, 49, 27, 17, 21, 36, 26, 21, 26, 18, 32, 33, 31, 15, 38, 28, 23, 29, 49, 26, 20, 27, 31, 25, 24, 23, 35] },
+  { code: 'DAN', name: 'Daniel', testament: 'OT', abbreviations: ['Dan', 'Dn'], aliases: [], verses: [21, 49, 30, 37, 31, 28, 28, 27, 27, 21, 45, 13] },
+  { code: 'HOS', name: 'Hosea', testament: 'OT', abbreviations: ['Hos'], aliases: [], verses: [11, 23, 5, 19, 15, 11, 16, 14, 17, 15, 12, 14, 16, 9] },
+  { code: 'JOL', name: 'Joel', testament: 'OT', abbreviations: [], aliases: ['Joe'], verses: [20, 32, 21] },
+  { code: 'AMO', name: 'Amos', testament: 'OT', abbreviations: [], aliases: ['Amo'], verses: [15, 16, 15, 13, 27, 14, 17, 14, 15] },
+  { code: 'OBA', name: 'Obadiah', testament: 'OT', abbreviations: ['Obad'], aliases: ['Ob', 'Oba'], verses: [21] },
+  { code: 'JON', name: 'Jonah', testament: 'OT', abbreviations: ['Jon'], aliases: [], verses: [17, 10, 10, 11] },
+  { code: 'MIC', name: 'Micah', testament: 'OT', abbreviations: ['Mic'], aliases: [], verses: [16, 13, 12, 13, 15, 16, 20] },
+  { code: 'NAM', name: 'Nahum', testament: 'OT', abbreviations: ['Nah'], aliases: [], verses: [15, 13, 19] },
+  { code: 'HAB', name: 'Habakkuk', testament: 'OT', abbreviations: ['Hab'], aliases: [], verses: [17, 20, 19] },
+  { code: 'ZEP', name: 'Zephaniah', testament: 'OT', abbreviations: ['Zeph', 'Zep'], aliases: [], verses: [18, 15, 20] },
+  { code: 'HAG', name: 'Haggai', testament: 'OT', abbreviations: ['Hag'], aliases: [], verses: [15, 23] },
+  { code: 'ZEC', name: 'Zechariah', testament: 'OT', abbreviations: ['Zech', 'Zec'], aliases: [], verses: [21, 13, 10, 14, 11, 15, 14, 23, 17, 12, 17, 14, 9, 21] },
+  { code: 'MAL', name: 'Malachi', testament: 'OT', abbreviations: ['Mal'], aliases: [], verses: [14, 17, 18, 6] },
+  { code: 'MAT', name: 'Matthew', testament: 'NT', abbreviations: ['Matt', 'Mat', 'Mt'], aliases: [], verses: [25, 23, 17, 25, 48, 34, 29, 34, 38, 42, 30, 50, 58, 36, 39, 28, 27, 35, 30, 34, 46, 46, 39, 51, 46, 75, 66, 20] },
+  { code: 'MRK', name: 'Mark', testament: 'NT', abbreviations: ['Mrk', 'Mk'], aliases: ['Mr'], verses: [45, 28, 35, 41, 43, 56, 37, 38, 50, 52, 33, 44, 37, 72, 47, 20] },
+  { code: 'LUK', name: 'Luke', testament: 'NT', abbreviations: ['Luk', 'Lk'], aliases: [], verses: [80, 52, 38, 44, 39, 49, 50, 56, 62, 42, 54, 59, 35, 35, 32, 31, 37, 43, 48, 47, 38, 71, 56, 53] },
+  { code: 'JHN', name: 'John', testament: 'NT', abbreviations: ['Jn', 'Jhn'], aliases: ['Joh'], verses: [51, 25, 36, 54, 47, 71, 53, 59, 41, 42, 57, 50, 38, 31, 27, 33, 26, 40, 42, 31, 25] },
+  { code: 'ACT', name: 'Acts', testament: 'NT', abbreviations: [], aliases: ['Act'], verses: [26, 47, 26, 37, 42, 15, 60, 40, 43, 48, 30, 25, 52, 28, 41, 40, 34, 28, 41, 38, 40, 30, 35, 27, 27, 32, 44, 31] },
+  { code: 'ROM', name: 'Romans', testament: 'NT', abbreviations: ['Rom', 'Rm'], aliases: [], verses: [32, 29, 31, 25, 21, 23, 25, 39, 33, 21, 36, 21, 14, 23, 33, 27] },
+  { code: '1CO', name: '1 Corinthians', testament: 'NT', abbreviations: ['1 Cor', '1Cor'], aliases: [], verses: [31, 16, 23, 21, 13, 20, 40, 13, 27, 33, 34, 31, 13, 40, 58, 24] },
+  { code: '2CO', name: '2 Corinthians', testament: 'NT', abbreviations: ['2 Cor', '2Cor'], aliases: [], verses: [24, 17, 18, 18, 21, 18, 16, 24, 15, 18, 33, 21, 14] },
+  { code: 'GAL', name: 'Galatians', testament: 'NT', abbreviations: ['Gal'], aliases: [], verses: [24, 21, 29, 31, 26, 18] },
+  { code: 'EPH', name: 'Ephesians', testament: 'NT', abbreviations: ['Eph'], aliases: [], verses: [23, 22, 21, 32, 33, 24] },
+  { code: 'PHP', name: 'Philippians', testament: 'NT', abbreviations: ['Phil', 'Php'], aliases: [], verses: [30, 30, 21, 23] },
+  { code: 'COL', name: 'Colossians', testament: 'NT', abbreviations: ['Col'], aliases: [], verses: [29, 23, 25, 18] },
+  { code: '1TH', name: '1 Thessalonians', testament: 'NT', abbreviations: ['1 Thess', '1Thess', '1 Thes', '1 Th', '1Th'], aliases: [], verses: [10, 20, 13, 18, 28] },
+  { code: '2TH', name: '2 Thessalonians', testament: 'NT', abbreviations: ['2 Thess', '2Thess', '2 Thes', '2 Th', '2Th'], aliases: [], verses: [12, 17, 18] },
+  { code: '1TI', name: '1 Timothy', testament: 'NT', abbreviations: ['1 Tim', '1Tim'], aliases: [], verses: [20, 15, 16, 16, 25, 21] },
+  { code: '2TI', name: '2 Timothy', testament: 'NT', abbreviations: ['2 Tim', '2Tim'], aliases: [], verses: [18, 26, 17, 22] },
+  { code: 'TIT', name: 'Titus', testament: 'NT', abbreviations: ['Tit'], aliases: [], verses: [16, 15, 15] },
+  { code: 'PHM', name: 'Philemon', testament: 'NT', abbreviations: ['Phlm', 'Phm'], aliases: [], verses: [25] },
+  { code: 'HEB', name: 'Hebrews', testament: 'NT', abbreviations: ['Heb'], aliases: [], verses: [14, 18, 19, 16, 14, 20, 28, 13, 28, 39, 40, 29, 25] },
+  { code: 'JAS', name: 'James', testament: 'NT', abbreviations: ['Jas'], aliases: ['Jam'], verses: [27, 26, 18, 17, 20] },
+  { code: '1PE', name: '1 Peter', testament: 'NT', abbreviations: ['1 Pet', '1Pet', '1 Pe'], aliases: [], verses: [25, 25, 22, 19, 14] },
+  { code: '2PE', name: '2 Peter', testament: 'NT', abbreviations: ['2 Pet', '2Pet', '2 Pe'], aliases: [], verses: [21, 22, 18] },
+  { code: '1JN', name: '1 John', testament: 'NT', abbreviations: ['1 Jn', '1Jn', '1 Jhn'], aliases: ['1John'], verses: [10, 29, 24, 21, 21] },
+  { code: '2JN', name: '2 John', testament: 'NT', abbreviations: ['2 Jn', '2Jn', '2 Jhn'], aliases: ['2John'], verses: [13] },
+  { code: '3JN', name: '3 John', testament: 'NT', abbreviations: ['3 Jn', '3Jn', '3 Jhn'], aliases: ['3John'], verses: [15] },
+  { code: 'JUD', name: 'Jude', testament: 'NT', abbreviations: [], aliases: ['Jud'], verses: [25] },
+  { code: 'REV', name: 'Revelation', testament: 'NT', abbreviations: ['Rev', 'Rv'], aliases: ['Apo', 'Revelations'], verses: [20, 29, 22, 11, 14, 17, 17, 13, 21, 11, 19, 17, 18, 20, 8, 21, 18, 24, 21, 15, 27, 21] },
+];
+
+// ---------------------------------------------------------------------------
+// Book lookup
+// ---------------------------------------------------------------------------
+
+const ENGLISH = 'en';
+
+const bookIndex = new Map<string, BookInfo>();
+// Names detected in free text, per base language code
+const textNames = new Map<string, Map<string, BookInfo>>();
+const textPatterns = new Map<string, RegExp>();
+const englishTextKeys = new Set<string>();
+
+// Strip Latin diacritics only - marks in Devanagari and Arabic are part of the letter
+function stripAccents(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+}
+
+// Lookup key: case-, accent-, space- and period-insensitive
+function lookupKey(name: string): string {
+  return stripAccents(name).toLowerCase().replace(/[\s.]+/g, '');
+}
+
+// "es-419" → "es", "pt-BR" → "pt"
+function baseLanguage(language?: string): string {
+  return (language || ENGLISH).toLowerCase().split(/[-_]/)[0];
+}
+
+function addTextName(language: string, name: string, book: BookInfo) {
+  if (!textNames.has(language)) textNames.set(language, new Map());
+  textNames.get(language)!.set(name, book);
+  if (language === ENGLISH) englishTextKeys.add(lookupKey(name));
+  textPatterns.delete(language);
+}
+
+function indexBook(book: BookInfo) {
+  bookIndex.set(lookupKey(book.code), book);
+  [book.name, ...book.abbreviations, ...book.aliases].forEach(name => bookIndex.set(lookupKey(name), book));
+  [book.name, ...book.abbreviations].forEach(name => addTextName(ENGLISH, name, book));
+}
+
+BOOKS.forEach(indexBook);
+
+/**
+ * Register book names for a language, keyed by USFM code (e.g. { JHN: ['Juan'] }).
+ * Registered names resolve in findBook/parseRef everywhere and are detected in free
+ * text for that language. Can be called again with names taken from resource metadata.
+ */
+export function registerBookNames(language: string, names: Record<string, string[]>): void {
+  const lang = baseLanguage(language);
+  for (const [code, bookNames] of Object.entries(names)) {
+    const book = bookIndex.get(lookupKey(code));
+    if (!book) continue;
+    for (const name of bookNames) {
+      bookIndex.set(lookupKey(name), book);
+      addTextName(lang, name, book);
+      // Accept unaccented spellings in text too ("Exodo 3"), but not for very short names
+      const plain = stripAccents(name);
+      if (plain !== name && plain.length > 2) addTextName(lang, plain, book);
+    }
+  }
+}
+
+Object.entries(LOCALIZED_BOOK_NAMES).forEach(([language, names]) => registerBookNames(language, names));
+
+/**
+ * Languages with registered book names (besides English)
+ */
+export function getBookNameLanguages(): string[] {
+  return [...textNames.keys()].filter(language => language !== ENGLISH);
+}
+
+/**
+ * Find a book by English name, USFM code, abbreviation or registered localized name
+ * Examples:
+ *   findBook("1 John") / findBook("1jn") / findBook("1JN") → 1 John
+ *   findBook("Rom.") → Romans
+ *   findBook("Juan") / findBook("Mateus") → John / Matthew
+ */
+export function findBook(name: string): BookInfo | null {
+  if (!name) return null;
+  return bookIndex.get(lookupKey(name)) || null;
+}
+
+export function toUsfmCode(name: string): string | null {
+  return findBook(name)?.code || null;
+}
+
+/**
+ * Normalize any book name to its English name, returning the input unchanged if unknown
+ */
+export function normalizeBookName(name: string): string {
+  return findBook(name)?.name || name;
+}
+
+export function getChapterCount(name: string): number {
+  return findBook(name)?.verses.length || 0;
+}
+
+export function getVerseCount(name: string, chapter: number): number {
+  return findBook(name)?.verses[chapter - 1] || 0;
+}
+
+export function getTestament(name: string): Testament | null {
+  return findBook(name)?.testament || null;
+}
+
+// ---------------------------------------------------------------------------
+// Named scopes ("Bible", "OT", "Gospels", ...)
+// ---------------------------------------------------------------------------
+
+const NAMED_SCOPES: Record<string, { type: 'bible' | 'testament'; value: string }> = {
+  'bible': { type: 'bible', value: 'Bible' },
+  'all': { type: 'bible', value: 'Bible' },
+  'ot': { type: 'testament', value: 'OT' },
+  'old testament': { type: 'testament', value: 'OT' },
+  'nt': { type: 'testament', value: 'NT' },
+  'new testament': { type: 'testament', value: 'NT' },
+  'gospels': { type: 'testament', value: 'gospels' },
+  'pentateuch': { type: 'testament', value: 'pentateuch' },
+  'pauline epistles': { type: 'testament', value: 'pauline epistles' },
+  'prophets': { type: 'testament', value: 'prophets' },
+  'wisdom': { type: 'testament', value: 'wisdom' },
+  'law': { type: 'testament', value: 'law' },
+  'history': { type: 'testament', value: 'history' },
+};
+
+/**
+ * Resolve a broad scope name. Returns null for anything that is not a named scope.
+ * Examples:
+ *   getNamedScope("Old Testament") → { type: "testament", value: "OT" }
+ *   getNamedScope("Bible") → { type: "bible", value: "Bible" }
+ */
+export function getNamedScope(input: string): { type: 'bible' | 'testament'; value: string } | null {
+  if (!input) return null;
+  return NAMED_SCOPES[input.toLowerCase().trim()] || null;
+}
+
+/**
+ * Classify a scope string: named scope, or the level of the reference it contains.
+ * Unparseable input is treated as a book-level scope.
+ */
+export function getScopeType(input: string): ScopeType {
+  const named = getNamedScope(input);
+  if (named) return named.type;
+  const ref = parseRef(input);
+  return ref ? getReferenceLevel(ref) : 'book';
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const DASHES = /[‐-―−]/g;
+const REFERENCE_PATTERN = /^(.+?)\.?\s*(\d[\d\s:,;-]*)?$/;
+const VERSE_ITEM = /^(\d+):(\d+)(?:-(\d+)(?::(\d+))?)?$/;
+const NUMBER_ITEM = /^(\d+)(?:-(\d+))?$/;
+const CHAPTER_TO_VERSE_ITEM = /^(\d+)-(\d+):(\d+)$/;
+
+// Parse the chapter/verse part of a reference ("3:16-4:2", "1:1,5,7", "1-3")
+function parseChapterSpec(spec: string): ReferenceRange[] | null {
+  const ranges: ReferenceRange[] = [];
+
+  for (const group of spec.split(';')) {
+    // Chapter context for bare numbers in a comma list ("1:1,5,7")
+    let contextChapter: number | null = null;
+
+    for (const rawItem of group.split(',')) {
+      const item = rawItem.replace(/\s+/g, '');
+      if (!item) continue;
+
+      let match = item.match(VERSE_ITEM);
+      if (match) {
+        const chapter = parseInt(match[1], 10);
+        const verse = parseInt(match[2], 10);
+        const end: VersePoint = match[4]
+          ? { chapter: parseInt(match[3], 10), verse: parseInt(match[4], 10) }
+          : { chapter, verse: match[3] ? parseInt(match[3], 10) : verse };
+        ranges.push({ start: { chapter, verse }, end });
+        contextChapter = end.chapter;
+        continue;
+      }
+
+      match = item.match(CHAPTER_TO_VERSE_ITEM);
+      if (match) {
+        const end = { chapter: parseInt(match[2], 10), verse: parseInt(match[3], 10) };
+        ranges.push({ start: { chapter: parseInt(match[1], 10), verse: 1 }, end });
+        contextChapter = end.chapter;
+        continue;
+      }
+
+      match = item.match(NUMBER_ITEM);
+      if (match) {
+        const first = parseInt(match[1], 10);
+        const last = match[2] ? parseInt(match[2], 10) : first;
+        if (contextChapter !== null) {
+          ranges.push({ start: { chapter: contextChapter, verse: first }, end: { chapter: contextChapter, verse: last } });
+        } else {
+          ranges.push({ start: { chapter: first }, end: { chapter: last } });
+        }
+        continue;
+      }
+
+      return null;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Parse a reference string into the canonical model. Returns null when the book
+ * is unknown or the chapter/verse part is malformed (it does not check versification -
+ * use validateRef for that).
+ * Examples:
+ *   parseRef("John 3:16-4:2") → { code: "JHN", book: "John", ranges: [{ start: {3,16}, end: {4,2} }] }
+ *   parseRef("Rom 1:1,5,7") → three single-verse ranges in chapter 1
+ *   parseRef("1 Corinthians") → { code: "1CO", book: "1 Corinthians", ranges: [] }
+ */
+export function parseRef(input: string): ScriptureRef | null {
+  if (!input || typeof input !== 'string') return null;
+
+  const trimmed = toAsciiDigits(input).replace(DASHES, '-').replace(/،/g, ',').replace(/؛/g, ';').trim();
+  if (!trimmed || getNamedScope(trimmed)) return null;
+
+  const match = trimmed.match(REFERENCE_PATTERN);
+  if (!match) return null;
+
+  const book = findBook(match[1]);
+  if (!book) return null;
+
+  let ranges = match[2] ? parseChapterSpec(match[2]) : [];
+  if (!ranges) return null;
+
+  // Single-chapter books are cited by verse ("Jude 3" = Jude 1:3); "Jude 1" stays the whole chapter
+  if (book.verses.length === 1 && match[2] && !match[2].includes(':') && ranges.some(r => r.end.chapter > 1)) {
+    ranges = ranges.map(r => ({ start: { chapter: 1, verse: r.start.chapter }, end: { chapter: 1, verse: r.end.chapter } }));
+  }
+
+  return { code: book.code, book: book.name, ranges };
+}
+
+/**
+ * Check a reference against the versification. Returns a list of problems (empty when valid).
+ */
+export function validateRef(ref: ScriptureRef): string[] {
+  const book = findBook(ref.code);
+  if (!book) return [`Unknown book: ${ref.code}`];
+
+  const errors: string[] = [];
+  const checkPoint = (point: VersePoint) => {
+    const verseCount = book.verses[point.chapter - 1];
+    if (!verseCount || point.chapter < 1) {
+      errors.push(`${book.name} has ${book.verses.length} chapters, not ${point.chapter}`);
+    } else if (point.verse !== undefined && (point.verse < 1 || point.verse > verseCount)) {
+      errors.push(`${book.name} ${point.chapter} has ${verseCount} verses, not ${point.verse}`);
+    }
+  };
+
+  for (const range of ref.ranges) {
+    checkPoint(range.start);
+    if (range.end.chapter !== range.start.chapter || range.end.verse !== range.start.verse) {
+      checkPoint(range.end);
+    }
+    if (pointOrdinal(range.start, 'start') > pointOrdinal(range.end, 'end')) {
+      errors.push(`Range ends before it starts: ${formatRange(range)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate in one step - returns null for unknown books or verses that
+ * do not exist in the versification
+ */
+export function parseValidRef(input: string): ScriptureRef | null {
+  const ref = parseRef(input);
+  return ref && validateRef(ref).length === 0 ? ref : null;
+}
+
+/**
+ * Explain why a reference can't be fetched, for entry points to return to the caller.
+ * Null when it is valid, or when it isn't a known-book reference at all (named scopes and
+ * book names in other languages are left for the API to resolve)
+ * Example: referenceError("John 40:99") → 'Invalid reference "John 40:99": John has 21 chapters, not 40'
+ */
+export function referenceError(input: string): string | null {
+  const ref = parseRef(input);
+  const problems = ref ? validateRef(ref) : [];
+  return problems.length > 0 ? `Invalid reference "${input.trim()}": ${problems.join('; ')}` : null;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function formatRange(range: ReferenceRange, omitChapter = false): string {
+  const { start, end } = range;
+
+  if (start.verse === undefined) {
+    return end.chapter !== start.chapter ? `${start.chapter}-${end.chapter}` : `${start.chapter}`;
+  }
+
+  const startText = omitChapter ? `${start.verse}` : `${start.chapter}:${start.verse}`;
+  if (end.chapter === start.chapter && end.verse === start.verse) return startText;
+  if (end.chapter === start.chapter) return `${startText}-${end.verse}`;
+  return `${startText}-${end.chapter}:${end.verse ?? ''}`;
+}
+
+/**
+ * Format a reference for display
+ * Examples:
+ *   "John 3:16-4:2", "Romans 1:1, 5, 7", "Psalms 1-3", "Ruth"
+ *   formatRef(ref, { useCode: true }) → "JHN 3:16"
+ */
+export function formatRef(ref: ScriptureRef, options: { useCode?: boolean } = {}): string {
+  const bookLabel = options.useCode ? ref.code : ref.book;
+  if (ref.ranges.length === 0) return bookLabel;
+
+  let text = '';
+  let previousChapter: number | null = null;
+
+  ref.ranges.forEach((range, index) => {
+    const continuesChapter = range.start.verse !== undefined && previousChapter === range.start.chapter;
+    if (index > 0) {
+      text += continuesChapter || range.start.verse === undefined ? ', ' : '; ';
+    }
+    text += formatRange(range, continuesChapter);
+    previousChapter = range.start.verse !== undefined ? range.end.chapter : null;
+  });
+
+  return `${bookLabel} ${text}`;
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+// Sort key for a point; whole-chapter points expand to the chapter start or end
+function pointOrdinal(point: VersePoint, edge: 'start' | 'end'): number {
+  const verse = point.verse ?? (edge === 'start' ? 0 : 999);
+  return point.chapter * 1000 + verse;
+}
+
+function toSpans(ref: ScriptureRef): Array<[number, number]> {
+  if (ref.ranges.length === 0) return [[0, Number.MAX_SAFE_INTEGER]];
+  return ref.ranges.map(range => [pointOrdinal(range.start, 'start'), pointOrdinal(range.end, 'end')]);
+}
+
+/**
+ * Most specific level present in a reference
+ */
+export function getReferenceLevel(ref: ScriptureRef): ReferenceLevel {
+  if (ref.ranges.length === 0) return 'book';
+  return ref.ranges.some(r => r.start.verse !== undefined) ? 'verse' : 'chapter';
+}
+
+/**
+ * True when two references share at least one verse
+ */
+export function refsOverlap(a: ScriptureRef, b: ScriptureRef): boolean {
+  if (a.code !== b.code) return false;
+  const bSpans = toSpans(b);
+  return toSpans(a).some(([aStart, aEnd]) => bSpans.some(([bStart, bEnd]) => aStart <= bEnd && aEnd >= bStart));
+}
+
+/**
+ * True when every verse of inner lies inside outer
+ */
+export function refContains(outer: ScriptureRef, inner: ScriptureRef): boolean {
+  if (outer.code !== inner.code) return false;
+  const outerSpans = toSpans(outer);
+  return toSpans(inner).every(([start, end]) => outerSpans.some(([oStart, oEnd]) => start >= oStart && end <= oEnd));
+}
+
+const LEVEL_RANK: Record<ReferenceLevel, number> = { book: 0, chapter: 1, verse: 2 };
+
+/**
+ * True when a reference belongs to a scope: it overlaps the scope and is at least as
+ * specific (a chapter-level note is not inside a verse scope, but a verse note is inside
+ * its chapter and book)
+ */
+export function isRefInScope(ref: ScriptureRef, scope: ScriptureRef): boolean {
+  if (LEVEL_RANK[getReferenceLevel(ref)] < LEVEL_RANK[getReferenceLevel(scope)]) return false;
+  return refsOverlap(ref, scope);
+}
+
+/**
+ * Reduce a reference to a broader level
+ * Examples:
+ *   widenRef(John 3:16, "chapter") → John 3
+ *   widenRef(John 3:16-4:2, "book") → John
+ */
+export function widenRef(ref: ScriptureRef, level: ReferenceLevel): ScriptureRef {
+  if (level === 'book') return { ...ref, ranges: [] };
+  if (level === 'chapter') {
+    return {
+      ...ref,
+      ranges: ref.ranges.map(range => ({ start: { chapter: range.start.chapter }, end: { chapter: range.end.chapter } })),
+    };
+  }
+  return ref;
+}
+
+/**
+ * Chapter numbers touched by a reference (all chapters for a whole-book reference)
+ */
+export function getChapters(ref: ScriptureRef): number[] {
+  const book = findBook(ref.code);
+  if (!book) return [];
+  if (ref.ranges.length === 0) return book.verses.map((_, i) => i + 1);
+
+  const chapters = new Set<number>();
+  for (const range of ref.ranges) {
+    for (let c = range.start.chapter; c <= range.end.chapter; c++) chapters.add(c);
+  }
+  return [...chapters].sort((a, b) => a - b);
+}
+
+// ---------------------------------------------------------------------------
+// Free-text detection
+// ---------------------------------------------------------------------------
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ASCII, Arabic-Indic, Eastern Arabic-Indic and Devanagari digits
+const DIGIT = '[0-9\u0660-\u0669\u06f0-\u06f9\u0966-\u096f]';
+const NATIVE_DIGIT_ZEROS = [0x0660, 0x06f0, 0x0966];
+
+function toAsciiDigits(text: string): string {
+  return text.replace(/[\u0660-\u0669\u06f0-\u06f9\u0966-\u096f]/g, digit => {
+    const code = digit.charCodeAt(0);
+    const zero = NATIVE_DIGIT_ZEROS.find(z => code >= z && code <= z + 9)!;
+    return String(code - zero);
+  });
+}
+
+function buildTextPattern(language: string): RegExp {
+  const names = new Set(textNames.get(ENGLISH)?.keys());
+  if (language !== ENGLISH) textNames.get(language)?.forEach((_, name) => names.add(name));
+
+  // Longest names first so "1 John" wins over "John"
+  const alternatives = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(name => escapeRegex(name).replace(/\s+/g, '\\s?'));
+
+  const number = `${DIGIT}{1,3}`;
+  const point = `${number}(?::${number})?`;
+  const range = `${point}(?:\\s?[-–]\\s?${point})?`;
+  // Comma/semicolon lists only continue a chapter:verse reference ("Rom 1:1, 5, 7")
+  const spec = `${number}:${number}(?:\\s?[-–]\\s?${point})?(?:\\s?[,;،؛]\\s?${range})*|${number}(?:\\s?[-–]\\s?${number})?`;
+
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(${alternatives.join('|')})\\.?\\s+(${spec})(?![\\p{N}])`, 'giu');
+}
+
+// Localized names are proper nouns - require a capital so "bilangan 3" ("number 3") isn't a link
+function isLowercaseLocalizedName(name: string, language: string): boolean {
+  if (language === ENGLISH || englishTextKeys.has(lookupKey(name))) return false;
+  const firstLetter = name.match(/\p{L}/u)?.[0];
+  return !!firstLetter && firstLetter !== firstLetter.toUpperCase();
+}
+
+/**
+ * Find every scripture reference in free text. English names are always recognized;
+ * pass the UI language to also recognize that language's book names.
+ * Examples:
+ *   findReferencesInText("See John 3:16 and Rom 1:1, 5") → two matches
+ *   findReferencesInText("Lee Juan 3:16", "es-419") → John 3:16
+ */
+export function findReferencesInText(text: string, language?: string): ReferenceMatch[] {
+  if (!text) return [];
+
+  const lang = textNames.has(baseLanguage(language)) ? baseLanguage(language) : ENGLISH;
+  if (!textPatterns.has(lang)) textPatterns.set(lang, buildTextPattern(lang));
+  const pattern = textPatterns.get(lang)!;
+
+  const matches: ReferenceMatch[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (isLowercaseLocalizedName(match[1], lang)) continue;
+    const ref = parseRef(`${match[1]} ${match[2]}`);
+    if (!ref) continue;
+    matches.push({
+      text: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      ref,
+    });
+  }
+
+  return matches;
+}
@@ -0,0 +1,152 @@
+/**
+ * Agent loop for multi-agent-chat
+ *
+ * Each step asks the router which tools to call, runs those calls in parallel and hands their
+ * results back, so the router can follow up (read a passage, then search for a word in it).
+ * The loop ends when the router makes no new calls or the step budget (AGENT_MAX_STEPS,
+ * default 3) is spent. Callers see each call start and finish as it happens.
+ */
+
+import { chatCompletion, LlmMessage, LlmToolCall } from "../_shared/llm.ts";
+import { buildRouterRequest, FOLLOW_UP_NOTE_ACTIONS } from "./router.ts";
+import {
+  ChatResource,
+  executeToolCall,
+  NavigationHint,
+  SearchMatch,
+  SearchResults,
+  SubAgentCall,
+  ToolContext,
+  ToolOutcome,
+} from "./tools.ts";
+
+const DEFAULT_MAX_STEPS = 3;
+
+// Everything the tool calls of one message found, merged in call order
+export interface ChatToolState {
+  scriptureText: string | null;
+  scriptureReference: string | null;
+  resources: ChatResource[];
+  searchMatches: SearchMatch[];
+  search: SearchResults | null;
+  navigationHint: NavigationHint | null;
+  toolCalls: SubAgentCall[];
+}
+
+export interface AgentOptions {
+  message: string;
+  history: LlmMessage[];
+  context: ToolContext;
+  scriptureReference?: string | null; // What the user is looking at, until a tool finds another
+  maxSteps?: number;
+  onToolStart?: (call: LlmToolCall, step: number) => void;
+  onToolDone?: (call: LlmToolCall, step: number, state: ChatToolState) => void;
+}
+
+export interface AgentResult {
+  state: ChatToolState;
+  steps: number;
+}
+
+export function getMaxSteps(env: (name: string) => string | undefined = name => Deno.env.get(name)): number {
+  const steps = parseInt(env('AGENT_MAX_STEPS') || '', 10);
+  return Number.isFinite(steps) && steps > 0 ? steps : DEFAULT_MAX_STEPS;
+}
+
+/**
+ * Merge outcomes in the order the router asked for them, whatever order they finished in.
+ * Slots for calls still running are skipped. Later outcomes win for single values
+ * (passage, search view, navigation); lists are concatenated.
+ */
+export function foldOutcomes(outcomes: (ToolOutcome | undefined)[], scriptureReference: string | null = null): ChatToolState {
+  const state: ChatToolState = {
+    scriptureText: null,
+    scriptureReference,
+    resources: [],
+    searchMatches: [],
+    search: null,
+    navigationHint: null,
+    toolCalls: [],
+  };
+
+  for (const outcome of outcomes) {
+    if (!outcome) continue;
+    state.toolCalls.push(...outcome.subAgentCalls);
+    if (outcome.scriptureText !== undefined) state.scriptureText = outcome.scriptureText;
+    if (outcome.scriptureReference) state.scriptureReference = outcome.scriptureReference;
+    if (outcome.resources) state.resources.push(...outcome.resources);
+    if (outcome.searchMatches) state.searchMatches.push(...outcome.searchMatches);
+    if (outcome.search) state.search = outcome.search;
+    if (outcome.navigationHint) state.navigationHint = outcome.navigationHint;
+  }
+  return state;
+}
+
+const callKey = (call: LlmToolCall) => `${call.name} ${call.arguments}`;
+
+// Follow-up steps are only offered read-only note actions; a router that asks for a write anyway is refused
+function changesNotes(call: LlmToolCall): boolean {
+  if (call.name !== 'manage_notes') return false;
+  try {
+    return !FOLLOW_UP_NOTE_ACTIONS.includes(JSON.parse(call.arguments || '{}').action);
+  } catch {
+    return false; // executeToolCall reports the invalid arguments
+  }
+}
+
+export async function runAgent(options: AgentOptions): Promise<AgentResult> {
+  const { message, history, context, onToolStart, onToolDone } = options;
+  const maxSteps = options.maxSteps ?? getMaxSteps();
+  const initialReference = options.scriptureReference || null;
+
+  const outcomes: (ToolOutcome | undefined)[] = [];
+  const transcript: LlmMessage[] = []; // Earlier steps' calls and results, for the router
+  const made = new Set<string>();
+  let steps = 0;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    let routed;
+    try {
+      routed = await chatCompletion(buildRouterRequest(message, history, transcript));
+    } catch (error) {
+      // Without a first answer there is nothing to show; a failed follow-up keeps what was found
+      if (step === 1) throw error;
+      console.warn(`[multi-agent-chat] Follow-up routing failed, stopping after step ${steps}:`, error instanceof Error ? error.message : error);
+      break;
+    }
+
+    // A call already made on an earlier step would only fetch the same thing again
+    const calls = routed.toolCalls.filter(call => !made.has(callKey(call)));
+    console.log(`[multi-agent-chat] Step ${step}: ${routed.provider} (${routed.model}) made ${routed.toolCalls.length} tool call(s), ${calls.length} new`);
+    if (calls.length === 0) break;
+    calls.forEach(call => made.add(callKey(call)));
+    steps = step;
+
+    // Reserve each call's slot up front so the merged state keeps the router's order
+    const slots = calls.map(() => outcomes.push(undefined) - 1);
+    const results = await Promise.all(calls.map(async (call, i) => {
+      onToolStart?.(call, step);
+      let outcome: ToolOutcome;
+      try {
+        outcome = step > 1 && changesNotes(call)
+          ? { subAgentCalls: [], summary: `${call.name} not run: notes can only be changed on the first step` }
+          : await executeToolCall(call, context);
+      } catch (error) {
+        console.error(`[multi-agent-chat] ${call.name} failed:`, error);
+        outcome = { subAgentCalls: [], summary: `${call.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+      outcomes[slots[i]] = outcome;
+      onToolDone?.(call, step, foldOutcomes(outcomes, initialReference));
+      return outcome;
+    }));
+
+    transcript.push({ role: 'assistant', content: routed.content, toolCalls: calls });
+    calls.forEach((call, i) => transcript.push({ role: 'tool', toolCallId: call.id, content: results[i].summary }));
+
+    if (step === maxSteps) {
+      console.log(`[multi-agent-chat] Step budget of ${maxSteps} reached`);
+    }
+  }
+
+  return { state: foldOutcomes(outcomes, initialReference), steps };
+}
@@ -0,0 +1,205 @@
+/**
+ * Router definition for multi-agent-chat
+ *
+ * The system prompt and tools the router model picks from, kept apart from the handler so the
+ * golden-conversation harness (supabase/functions/tests/router/) sends exactly what the chat sends.
+ */
+
+import { LlmMessage, LlmRequest, LlmTool } from "../_shared/llm.ts";
+
+// System prompt for the routing AI
+export const ROUTER_SYSTEM_PROMPT = `You are a Bible study assistant that routes user requests to the right tools.
+
+TOOL SELECTION GUIDE:
+- get_scripture: User wants to READ a specific passage (e.g., "John 3:16", "show me Romans 8", "Mateo 5")
+- search_resources: User wants to FIND where something appears OR find resources about a topic
+  - resourceTypes options: "scripture" (verses), "notes" (translation notes), "questions" (comprehension questions), "words" (word definitions), "academy" (translation academy articles)
+  - When user says "articles" → use ["words", "academy"]
+  - When user says "notes" → use ["notes"]
+  - When user says "questions" → use ["questions"]
+  - When user says "word" or "words" or "definitions" → use ["words"]
+  - For general searches without specific type, use all: ["scripture", "notes", "questions", "words", "academy"]
+- get_resources: User is at a passage and wants related translation helps (not searching)
+- manage_notes: User wants to work with their PERSONAL notes (show/create/update/delete/search)
+  - Use action "search" with a query when they look for notes by topic or wording ("notes where I worried about 'redeem'")
+  - Tags ("key term", "ask consultant") go in tags when creating/updating and in tag when filtering ("show my ask consultant notes")
+  - "mark that note done" → action "update" with status "done"
+
+SCOPE EXAMPLES:
+- "in Ruth" → scope: "Ruth"
+- "in the Bible" or "everywhere" → scope: "Bible" 
+- "in the Old Testament" → scope: "OT"
+- "in the New Testament" → scope: "NT"
+- "in Romans 8" → scope: "Romans 8"
+
+You understand scripture references in ANY language (English, Spanish, Portuguese, Hindi, etc.).
+Always call a tool - never respond without using a tool first.
+Call several tools at once when the request needs them (e.g., "show me Ruth 1 and search for kinsman in Ruth").
+
+FOLLOW-UP STEPS:
+After your tools run you see their results. Call more tools only when the request needs a lookup that depends on them
+(e.g., "find the key term in John 3:16 and where else it appears" → get_scripture, then search_resources for the term).
+Notes can only be created, updated or deleted on the first step; follow-ups may read or search them.
+Otherwise reply "done" without calling a tool - another assistant writes the answer.`;
+
+// Note writes only happen on the router's first step, answering what the user asked for;
+// follow-up steps get a manage_notes that can only read and search
+export const FOLLOW_UP_NOTE_ACTIONS = ["read", "search"];
+
+function manageNotesTool(actions: string[]): LlmTool {
+  return {
+    type: "function",
+    function: {
+      name: "manage_notes",
+      description: "Manage user's personal notes. Use for 'show my notes', 'create a note about...', 'delete my note', 'find my notes about...'.",
+      parameters: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            enum: actions,
+            description: "What to do with notes"
+          },
+          query: {
+            type: "string",
+            description: "What to look for (for search) - words or a description of the topic"
+          },
+          mode: {
+            type: "string",
+            enum: ["keyword", "semantic", "hybrid"],
+            description: "keyword for exact words, semantic for meaning, hybrid (default) for both"
+          },
+          content: {
+            type: "string",
+            description: "Note content (for create/update)"
+          },
+          reference: {
+            type: "string",
+            description: "Scripture reference to attach to note"
+          },
+          scope: {
+            type: "string",
+            enum: ["all", "book", "chapter", "verse"],
+            description: "Scope for reading notes"
+          },
+          noteId: {
+            type: "string",
+            description: "Note ID (for update/delete)"
+          },
+          tags: {
+            type: "array",
+            items: { type: "string" },
+            description: "Tags to set on the note (for create/update), e.g. ['key term']"
+          },
+          tag: {
+            type: "string",
+            description: "Only notes with this tag (for read/search)"
+          },
+          status: {
+            type: "string",
+            enum: ["open", "done"],
+            description: "Checklist status to set (create/update) or filter by (read/search)"
+          }
+        },
+        required: ["action"]
+      }
+    }
+  };
+}
+
+// Tool definitions in OpenAI function-calling form (translated per provider by _shared/llm.ts)
+export const ROUTER_TOOLS: LlmTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_scripture",
+      description: "Fetch a scripture passage when user wants to READ a specific reference. Use for direct navigation like 'John 3:16', 'show me Romans 8', 'read Genesis 1'.",
+      parameters: {
+        type: "object",
+        properties: {
+          reference: {
+            type: "string",
+            description: "NORMALIZED scripture reference in FULL English book name format (e.g., user says '2 Tim 2:19' → output '2 Timothy 2:19', user says 'Mat 5' → output 'Matthew 5', user says 'Jn 3:16' → output 'John 3:16'). Always expand abbreviations to full book names."
+          }
+        },
+        required: ["reference"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "search_resources",
+      description: "Search for where a word/phrase appears in scripture OR find translation resources (notes, questions, words) about a topic. Use for queries like 'find love in John', 'notes about Boaz in Ruth', 'where is grace mentioned'.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "The search term or phrase to find"
+          },
+          scope: {
+            type: "string",
+            description: "Where to search: NORMALIZED book name (full English name like 'Matthew' not 'Mat'), chapter reference, 'OT', 'NT', or 'Bible' for everywhere. Always expand abbreviations."
+          },
+          resourceTypes: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: ["scripture", "notes", "questions", "words", "academy"]
+            },
+            description: "What to search. 'words' for word definitions, 'academy' for translation academy articles, 'notes' for translation notes, 'questions' for comprehension questions, 'scripture' for verses. When user says 'articles', use ['words', 'academy']."
+          }
+        },
+        required: ["query", "scope", "resourceTypes"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_resources",
+      description: "Fetch translation resources (notes, questions, word links) for a specific scripture reference. Use when user is viewing a passage and wants related helps, not when searching.",
+      parameters: {
+        type: "object",
+        properties: {
+          reference: {
+            type: "string",
+            description: "NORMALIZED scripture reference in FULL English book name format (e.g., '2 Tim 2:19' → '2 Timothy 2:19'). Always expand abbreviations to full book names."
+          },
+          types: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: ["notes", "questions", "word-links"]
+            },
+            description: "Types of resources to fetch. Default to all three."
+          }
+        },
+        required: ["reference"]
+      }
+    }
+  },
+  manageNotesTool(["create", "read", "update", "delete", "search"]),
+];
+
+const FOLLOW_UP_TOOLS: LlmTool[] = ROUTER_TOOLS.map(tool =>
+  tool.function.name === "manage_notes" ? manageNotesTool(FOLLOW_UP_NOTE_ACTIONS) : tool
+);
+
+// The router call for a user message, after the last few turns of history.
+// steps holds the tool calls and results of earlier agent steps for this message; the first
+// step must call a tool, later ones may stop.
+export function buildRouterRequest(message: string, history: LlmMessage[] = [], steps: LlmMessage[] = []): LlmRequest {
+  return {
+    task: 'router',
+    messages: [
+      { role: "system", content: ROUTER_SYSTEM_PROMPT },
+      ...history,
+      { role: "user", content: message },
+      ...steps
+    ],
+    tools: steps.length === 0 ? ROUTER_TOOLS : FOLLOW_UP_TOOLS,
+    toolChoice: steps.length === 0 ? "required" : "auto",
+  };
+}
@@ -0,0 +1,399 @@
+/**
+ * Router tool execution for multi-agent-chat
+ *
+ * Each router tool call becomes one or more sub-agent requests. An executor returns a
+ * ToolOutcome - what the call found, for the client and the response prompt - plus a short
+ * summary the router reads when deciding on follow-up calls. Executors don't touch shared
+ * state, so the agent loop can run a step's calls in parallel.
+ */
+
+import { parseRef, referenceError, getReferenceLevel, isRefInScope } from "../_shared/scriptureReference.ts";
+import { LlmToolCall } from "../_shared/llm.ts";
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+
+export type NavigationHint = 'scripture' | 'resources' | 'search' | 'notes';
+
+export interface ChatPrefs {
+  language: string;
+  organization: string;
+  resource: string;
+  deviceId?: string;
+  workspaceId?: string;
+}
+
+export interface ToolContext {
+  prefs: ChatPrefs;
+  authorization: string | null;
+}
+
+// A resource entry as the chat hands it to the client
+export interface ChatResource {
+  type: string;
+  title?: string;
+  content?: string;
+  reference?: string;
+  [key: string]: unknown;
+}
+
+export interface SearchMatch {
+  reference: string;
+  book?: string;
+  chapter?: number;
+  verse?: number;
+  text?: string;
+  rawMarkdown?: string;
+  metadata?: unknown;
+}
+
+export interface ResourceSearchResult {
+  markdown: string;
+  matches: SearchMatch[];
+  totalCount: number;
+  byBook?: Record<string, number>;
+  items?: { term?: string; title?: string }[];
+}
+
+// search-agent's response, or the same shape built from a passage lookup
+export interface SearchResults {
+  query: string;
+  scope: string;
+  scopeType: string;
+  scripture: ResourceSearchResult | null;
+  notes: ResourceSearchResult | null;
+  questions: ResourceSearchResult | null;
+  words: ResourceSearchResult | null;
+  academy: ResourceSearchResult | null;
+  toolCalls?: SubAgentCall[];
+}
+
+export interface SubAgentCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolOutcome {
+  subAgentCalls: SubAgentCall[];
+  scriptureText?: string;
+  scriptureReference?: string;
+  resources?: ChatResource[];
+  searchMatches?: SearchMatch[];
+  search?: SearchResults;
+  navigationHint?: NavigationHint;
+  summary: string; // Fed back to the router as the tool result
+}
+
+interface ScriptureAgentResult {
+  text?: string;
+  translation?: string;
+  verses?: unknown[];
+}
+
+type ToolArgs = Record<string, unknown>;
+
+const SEARCH_TYPE_TO_RESOURCE: Record<string, string> = {
+  notes: 'translation-note',
+  questions: 'translation-question',
+  words: 'translation-word',
+  academy: 'translation-academy',
+};
+
+// Dispatch to sub-agent - pass the caller's Authorization for agents that touch user data
+export async function invokeSubAgent<T>(name: string, body: Record<string, unknown>, authorization?: string | null): Promise<T | null> {
+  const url = `${SUPABASE_URL}/functions/v1/${name}`;
+  console.log(`[multi-agent-chat] Dispatching to ${name}:`, JSON.stringify(body).substring(0, 200));
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authorization || `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      console.error(`[multi-agent-chat] ${name} returned ${response.status}`);
+      const text = await response.text();
+      console.error(`[multi-agent-chat] ${name} error:`, text);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`[multi-agent-chat] Error invoking ${name}:`, error);
+    return null;
+  }
+}
+
+function toMatches(resources: ChatResource[]): ResourceSearchResult | null {
+  if (resources.length === 0) return null;
+  return {
+    markdown: '',
+    matches: resources.map(r => ({ reference: r.reference || '', text: r.content, rawMarkdown: r.content, metadata: r })),
+    totalCount: resources.length,
+  };
+}
+
+function countSummary(counts: Record<string, number>): string {
+  const parts = Object.entries(counts).filter(([, count]) => count > 0).map(([label, count]) => `${count} ${label}`);
+  return parts.length > 0 ? parts.join(', ') : 'nothing found';
+}
+
+async function getScripture(args: ToolArgs, { prefs }: ToolContext): Promise<ToolOutcome> {
+  const reference = String(args.reference || '');
+  // Tell the router the chapter or verse doesn't exist rather than fetching nothing
+  const invalid = referenceError(reference);
+  if (invalid) return { subAgentCalls: [], summary: invalid };
+
+  // Fetch multiple scripture versions in parallel
+  const scriptureVersions = ['ult', 'ust'];
+  const [resourceResult, ...scriptureResults] = await Promise.all([
+    invokeSubAgent<{ resources?: ChatResource[] }>('resource-agent', {
+      reference,
+      type: ['notes', 'questions', 'word-links'],
+      language: prefs.language,
+      organization: prefs.organization,
+    }),
+    ...scriptureVersions.map(res =>
+      invokeSubAgent<ScriptureAgentResult>('scripture-agent', {
+        reference,
+        language: prefs.language,
+        organization: prefs.organization,
+        resource: res,
+      })
+    ),
+  ]);
+
+  const outcome: ToolOutcome = {
+    subAgentCalls: [{ tool: 'scripture-agent', args: { reference, versions: scriptureVersions } }],
+    summary: '',
+  };
+
+  // Build scripture matches from all versions
+  const scriptureMatches: SearchMatch[] = [];
+  scriptureVersions.forEach((version, i) => {
+    const result = scriptureResults[i] as ScriptureAgentResult | null;
+    if (!result?.text) return;
+    scriptureMatches.push({
+      reference,
+      text: result.text,
+      rawMarkdown: result.text,
+      metadata: {
+        resource: version.toUpperCase(),
+        translation: result.translation,
+        verses: result.verses,
+      },
+    });
+    // Use first successful result for primary scripture display
+    if (!outcome.scriptureText) {
+      outcome.scriptureText = result.text;
+      outcome.scriptureReference = reference;
+    }
+  });
+
+  // Filter resources to only include verse-specific notes (not chapter intro notes)
+  const parsedReference = parseRef(reference);
+  const isVerseRef = !!parsedReference && getReferenceLevel(parsedReference) === 'verse';
+
+  let notes: ChatResource[] = [];
+  let questions: ChatResource[] = [];
+  let words: ChatResource[] = [];
+
+  const resources = (resourceResult as { resources?: ChatResource[] } | null)?.resources;
+  if (resources) {
+    outcome.resources = resources;
+    outcome.subAgentCalls.push({ tool: 'resource-agent', args: { reference, type: ['notes', 'questions', 'word-links'] } });
+
+    // Filter notes to only include those matching the exact verse reference
+    notes = resources.filter(r => {
+      if (r.type !== 'translation-note' && r.type !== 'note') return false;
+      // If it's a verse reference, only include notes that match the exact verse
+      if (isVerseRef && parsedReference) {
+        const noteRef = r.reference || '';
+        // Notes may cite only "chapter:verse" - read those against the requested book
+        const parsedNoteRef = parseRef(noteRef) || parseRef(`${parsedReference.book} ${noteRef}`);
+        return (!!parsedNoteRef && isRefInScope(parsedNoteRef, parsedReference)) || noteRef === reference;
+      }
+      return true;
+    });
+    questions = resources.filter(r => r.type === 'translation-question' || r.type === 'question');
+    words = resources.filter(r => r.type === 'translation-word' || r.type === 'word' || r.type === 'word-link');
+  }
+
+  outcome.search = {
+    query: reference,
+    scope: reference,
+    scopeType: isVerseRef ? 'verse' : 'chapter',
+    scripture: scriptureMatches.length > 0 ? {
+      markdown: '',
+      matches: scriptureMatches,
+      totalCount: scriptureMatches.length,
+    } : null,
+    notes: toMatches(notes),
+    questions: toMatches(questions),
+    words: toMatches(words),
+    academy: null,
+    toolCalls: outcome.subAgentCalls,
+  };
+
+  // Unified view: always navigate to search to show all resources
+  outcome.navigationHint = 'search';
+  outcome.summary = `${reference}: ${countSummary({
+    'translations': scriptureMatches.length,
+    'notes': notes.length,
+    'questions': questions.length,
+    'word links': words.length,
+  })}`;
+  if (outcome.scriptureText) outcome.summary += `\n${outcome.scriptureText.substring(0, 800)}`;
+  if (words.length) outcome.summary += `\nWords: ${words.slice(0, 10).map(w => w.title || w.content).join(', ')}`;
+  return outcome;
+}
+
+async function searchResources(args: ToolArgs, { prefs }: ToolContext): Promise<ToolOutcome> {
+  const resourceTypes = (args.resourceTypes as string[] | undefined) || ['scripture', 'notes', 'questions', 'words', 'academy'];
+  const searchResult = await invokeSubAgent<SearchResults>('search-agent', {
+    query: args.query,
+    scope: args.scope,
+    resourceTypes,
+    language: prefs.language,
+    organization: prefs.organization,
+    resource: prefs.resource,
+  });
+
+  if (!searchResult) {
+    return { subAgentCalls: [], summary: `Search for "${args.query}" in ${args.scope} failed` };
+  }
+
+  const outcome: ToolOutcome = {
+    subAgentCalls: [{ tool: 'search-agent', args: { query: args.query, scope: args.scope, resourceTypes: args.resourceTypes } }],
+    search: searchResult,
+    scriptureReference: args.scope as string,
+    resources: [],
+    navigationHint: 'search',
+    summary: '',
+  };
+
+  if (searchResult.scripture?.matches) {
+    outcome.searchMatches = searchResult.scripture.matches;
+    outcome.scriptureText = searchResult.scripture.markdown;
+  }
+  for (const [key, type] of Object.entries(SEARCH_TYPE_TO_RESOURCE)) {
+    const matches = searchResult[key as 'notes' | 'questions' | 'words' | 'academy'];
+    outcome.resources!.push(...(matches?.matches || []).map(m => ({
+      type,
+      title: m.reference,
+      content: m.text,
+      reference: m.reference,
+    })));
+  }
+
+  outcome.summary = `"${args.query}" in ${args.scope}: ${countSummary({
+    'verses': searchResult.scripture?.totalCount || 0,
+    'notes': searchResult.notes?.totalCount || 0,
+    'questions': searchResult.questions?.totalCount || 0,
+    'word articles': searchResult.words?.totalCount || 0,
+    'academy articles': searchResult.academy?.totalCount || 0,
+  })}`;
+  const topVerses = (searchResult.scripture?.matches || []).slice(0, 5).map(m => m.reference);
+  if (topVerses.length) outcome.summary += `\nFirst verses: ${topVerses.join(', ')}`;
+  return outcome;
+}
+
+async function getResources(args: ToolArgs, { prefs }: ToolContext): Promise<ToolOutcome> {
+  const reference = String(args.reference || '');
+  const invalid = referenceError(reference);
+  if (invalid) return { subAgentCalls: [], summary: invalid };
+
+  // For get_resources, we ALSO load scripture so the user can see the passage
+  const [scriptureResult, resourceResult] = await Promise.all([
+    invokeSubAgent<ScriptureAgentResult>('scripture-agent', {
+      reference,
+      language: prefs.language,
+      organization: prefs.organization,
+      resource: prefs.resource,
+    }),
+    invokeSubAgent<{ resources?: ChatResource[] }>('resource-agent', {
+      reference,
+      type: args.types || ['notes', 'questions', 'word-links'],
+      language: prefs.language,
+      organization: prefs.organization,
+    }),
+  ]);
+
+  // Navigate to scripture so user sees the passage with resources available
+  const outcome: ToolOutcome = { subAgentCalls: [], navigationHint: 'scripture', summary: '' };
+  if (scriptureResult?.text) {
+    outcome.scriptureText = scriptureResult.text;
+    outcome.scriptureReference = reference;
+    outcome.subAgentCalls.push({ tool: 'scripture-agent', args: { reference } });
+  }
+  if (resourceResult?.resources) {
+    outcome.resources = resourceResult.resources;
+    outcome.subAgentCalls.push({ tool: 'resource-agent', args: { reference, type: args.types } });
+  }
+
+  const resources = outcome.resources || [];
+  outcome.summary = `${reference}: ${scriptureResult?.text ? 'passage loaded' : 'passage not found'}, ${resources.length} resources`;
+  if (resources.length) outcome.summary += `\n${resources.slice(0, 10).map(r => `[${r.type}] ${r.title || r.reference}`).join('\n')}`;
+  return outcome;
+}
+
+async function manageNotes(args: ToolArgs, { prefs, authorization }: ToolContext): Promise<ToolOutcome> {
+  const noteResult = await invokeSubAgent<{ notes?: { content: string; source_reference?: string }[] }>('note-agent', {
+    action: args.action,
+    device_id: prefs.deviceId,
+    workspace_id: prefs.workspaceId,
+    content: args.content,
+    source_reference: args.reference,
+    scope: args.scope || 'all',
+    note_id: args.noteId,
+    query: args.query,
+    mode: args.mode,
+    tags: args.tags,
+    tag: args.tag,
+    status: args.status,
+    limit: 10,
+  }, authorization);
+
+  const notes = noteResult?.notes || [];
+  return {
+    subAgentCalls: [{ tool: 'note-agent', args: { action: args.action } }],
+    resources: noteResult?.notes ? notes.map(n => ({
+      type: 'note',
+      title: n.source_reference || 'Note',
+      content: n.content,
+      reference: n.source_reference,
+    })) : undefined,
+    navigationHint: 'notes',
+    summary: noteResult
+      ? `${args.action}: ${notes.length} notes${notes.length ? `\n${notes.slice(0, 5).map(n => `- ${n.source_reference || 'Note'}: ${n.content.substring(0, 120)}`).join('\n')}` : ''}`
+      : `${args.action} failed`,
+  };
+}
+
+const EXECUTORS: Record<string, (args: ToolArgs, context: ToolContext) => Promise<ToolOutcome>> = {
+  get_scripture: getScripture,
+  search_resources: searchResources,
+  get_resources: getResources,
+  manage_notes: manageNotes,
+};
+
+export async function executeToolCall(toolCall: LlmToolCall, context: ToolContext): Promise<ToolOutcome> {
+  const executor = EXECUTORS[toolCall.name];
+  if (!executor) {
+    return { subAgentCalls: [], summary: `Unknown tool ${toolCall.name}` };
+  }
+
+  let args: ToolArgs;
+  try {
+    args = JSON.parse(toolCall.arguments || '{}');
+  } catch {
+    return { subAgentCalls: [], summary: `Invalid arguments for ${toolCall.name}: ${toolCall.arguments}` };
+  }
+
+  console.log(`[multi-agent-chat] Executing tool: ${toolCall.name}`, args);
+  return await executor(args, context);
+}
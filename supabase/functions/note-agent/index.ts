@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { parseRef, widenRef, isRefInScope } from "../_shared/scriptureReference.ts";
+import { normalizeTag, normalizeTags } from "../_shared/noteTags.ts";
+import { createEmbeddings, loadLlmConfig } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,56 +11,130 @@ const corsHeaders = {
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') || '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const EMBED_CONFIG = loadLlmConfig('embed');
 
-type NoteAction = 'create' | 'read' | 'update' | 'delete';
+const EMBED_BATCH_SIZE = 50;
+const EMBEDDING_DIMENSIONS = 1536; // notes.embedding is vector(1536)
+const RRF_K = 60; // Reciprocal rank fusion constant - damps the weight of top ranks
+// workspace_id goes into PostgREST .or() filters, where anything else could add conditions
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Everything except the search columns - embeddings are large and never needed by callers
+const NOTE_COLUMNS = 'id, device_id, user_id, workspace_id, parent_id, mentions, resolved_at, content, source_reference, note_type, resource_type, resource_id, highlighted, tags, status, external_id, quote, occurrence, quote_source, created_at, updated_at';
+
+type NoteAction = 'create' | 'read' | 'update' | 'delete' | 'search';
 type NoteScope = 'all' | 'book' | 'chapter' | 'verse';
+type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+type NoteStatus = 'open' | 'done';
 
 interface NoteRequest {
   action: NoteAction;
-  device_id: string;
+  device_id?: string; // Device the request came from - ownership comes from the caller's JWT
+  workspace_id?: string; // Active team workspace - creates are shared with it and reads include its notes
   // For create/update
   content?: string;
   source_reference?: string;
   note_type?: 'note' | 'bug_report';
+  tags?: string[];
+  status?: NoteStatus; // Also filters read/search
+  // For create - anchor the note to a word span in the verse, as TN items do
+  quote?: string;
+  occurrence?: number;
+  quote_source?: string; // Translation the quote was taken from
+  // For read/search
+  tag?: string;
   // For read
   scope?: NoteScope;
   reference?: string;
   limit?: number;
   // For update/delete
   note_id?: string;
+  // For search
+  query?: string;
+  mode?: SearchMode; // Default hybrid - keyword ranking fused with embedding similarity
 }
 
 interface Note {
   id: string;
   device_id: string;
+  user_id: string | null;
+  workspace_id: string | null;
   content: string;
   source_reference: string | null;
   note_type: string;
   highlighted: boolean;
+  tags: string[];
+  status: NoteStatus;
+  quote: string | null;
+  occurrence: number | null;
+  quote_source: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface NoteMatch {
+  note_id: string;
+  score: number;
+  match: 'keyword' | 'semantic' | 'both';
+  headline?: string; // Keyword hits wrapped in **
+}
+
 interface NoteResponse {
   success: boolean;
   action: NoteAction;
   notes?: Note[];
+  matches?: NoteMatch[]; // Search only, in the same order as notes
   note?: Note;
   count?: number;
   error?: string;
   _timing?: { startMs: number; endMs: number; durationMs: number };
 }
 
-// Parse reference to extract book/chapter for scoping
-function parseReferenceScope(reference: string): { book?: string; chapter?: number } {
-  const match = reference.match(/^(.+?)\s+(\d+)/);
-  if (match) {
-    return {
-      book: match[1].trim(),
-      chapter: parseInt(match[2], 10),
-    };
+// The column has a fixed size, so a model with other dimensions fails here with the reason
+// rather than in the database
+async function embed(inputs: string[]): Promise<number[][]> {
+  const vectors = await createEmbeddings(inputs, EMBED_CONFIG);
+  const mismatch = vectors.find(vector => vector.length !== EMBEDDING_DIMENSIONS);
+  if (mismatch) {
+    throw new Error(`The embedding model returned ${mismatch.length} dimensions; note embeddings need ${EMBEDDING_DIMENSIONS}`);
   }
-  return { book: reference };
+  return vectors;
+}
+
+// Notes added in the app go straight to the database, so embed the un-embedded notes
+// the search covers - the caller's own and, with a workspace, their teammates' - before
+// each semantic search instead of on write
+async function embedPendingNotes(supabase: ReturnType<typeof createClient>, userId: string, workspaceId?: string): Promise<number> {
+  if (!SUPABASE_SERVICE_ROLE_KEY) throw new Error('SUPABASE_SERVICE_ROLE_KEY is required to store note embeddings');
+
+  let query = supabase
+    .from('notes')
+    .select('id, content')
+    .is('embedding', null)
+    .limit(EMBED_BATCH_SIZE);
+  query = workspaceId
+    ? query.or(`user_id.eq.${userId},workspace_id.eq.${workspaceId}`)
+    : query.eq('user_id', userId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  if (!data.length) return 0;
+
+  const vectors = await embed(data.map((note: { content: string }) => note.content));
+  // Only the service role may set embeddings, so callers can't plant vectors of their own
+  // on teammates' notes; the notes themselves were read as the caller
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const results = await Promise.all(data.map((note: { id: string; content: string }, i: number) =>
+    admin.rpc('set_note_embedding', {
+      p_note_id: note.id,
+      p_content: note.content,
+      p_embedding: JSON.stringify(vectors[i]),
+    })
+  ));
+  const failed = results.find(result => result.error);
+  if (failed) throw failed.error;
+  return data.length;
 }
 
 serve(async (req) => {
@@ -69,22 +146,39 @@ serve(async (req) => {
 
   try {
     const request: NoteRequest = await req.json();
-    const { action, device_id, content, source_reference, note_type, scope, reference, limit, note_id } = request;
+    const { action, device_id, workspace_id, content, source_reference, note_type, scope, reference, limit, note_id, query: searchQuery, mode, tags, status, tag, quote, occurrence, quote_source } = request;
+
+    // Queries run as the caller so row level security limits them to their own notes
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+    });
+    const { data: { user } } = await supabase.auth.getUser();
 
-    if (!device_id) {
+    if (!user) {
       return new Response(JSON.stringify({
         success: false,
         action,
-        error: 'device_id is required',
+        error: 'A signed-in user is required',
         _timing: { startMs, endMs: Date.now(), durationMs: Date.now() - startMs },
       }), {
-        status: 400,
+        status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
-    console.log(`[note-agent] Action: ${action} for device: ${device_id.substring(0, 8)}...`);
+    console.log(`[note-agent] Action: ${action} for user: ${user.id.substring(0, 8)}...`);
+
+    if (workspace_id && !UUID_PATTERN.test(workspace_id)) {
+      return new Response(JSON.stringify({
+        success: false,
+        action,
+        error: 'workspace_id must be a UUID',
+        _timing: { startMs, endMs: Date.now(), durationMs: Date.now() - startMs },
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
     let response: NoteResponse;
 
@@ -105,12 +199,19 @@ serve(async (req) => {
         const { data, error } = await supabase
           .from('notes')
           .insert({
-            device_id,
+            device_id: device_id || 'note-agent',
+            user_id: user.id,
+            workspace_id: workspace_id || null,
             content,
             source_reference: source_reference || null,
             note_type: note_type || 'note',
+            tags: normalizeTags(tags || []),
+            status: status || 'open',
+            quote: quote || null,
+            occurrence: quote ? Math.max(occurrence || 1, 1) : null,
+            quote_source: quote ? quote_source || null : null,
           })
-          .select()
+          .select(NOTE_COLUMNS)
           .single();
 
         if (error) throw error;
@@ -123,38 +224,136 @@ serve(async (req) => {
       case 'read': {
         let query = supabase
           .from('notes')
-          .select('*')
-          .eq('device_id', device_id)
+          .select(NOTE_COLUMNS)
           .order('created_at', { ascending: false });
 
-        // Apply scope filtering
-        if (scope && scope !== 'all' && reference) {
-          const parsed = parseReferenceScope(reference);
-          
-          if (scope === 'verse') {
-            // Exact reference match
-            query = query.eq('source_reference', reference);
-          } else if (scope === 'chapter' && parsed.book && parsed.chapter) {
-            // Match chapter prefix (e.g., "John 3" matches "John 3:16", "John 3:5")
-            query = query.like('source_reference', `${parsed.book} ${parsed.chapter}%`);
-          } else if (scope === 'book' && parsed.book) {
-            // Match book prefix (e.g., "John" matches "John 3:16", "John 1:1")
-            query = query.like('source_reference', `${parsed.book}%`);
-          }
+        // RLS already limits rows to the caller's own notes and their workspaces' notes;
+        // the explicit filter keeps other workspaces out of the answer
+        query = workspace_id
+          ? query.or(`user_id.eq.${user.id},workspace_id.eq.${workspace_id}`)
+          : query.eq('user_id', user.id);
+        if (tag) query = query.contains('tags', [normalizeTag(tag)]);
+        if (status) query = query.eq('status', status);
+
+        // Scope filtering happens after the query so abbreviations and ranges match
+        // (e.g. "Rom 3:16-18" is in "Romans 3", "John 3" does not match "John 30:1")
+        const parsedReference = scope && scope !== 'all' && reference ? parseRef(reference) : null;
+        const scopeRef = parsedReference ? widenRef(parsedReference, scope as Exclude<NoteScope, 'all'>) : null;
+
+        if (scope && scope !== 'all' && reference && !parsedReference) {
+          // Unrecognized book name - only exact references can match
+          query = query.eq('source_reference', reference);
         }
 
-        if (limit) {
+        if (limit && !scopeRef) {
           query = query.limit(limit);
         }
 
-        const { data, error } = await query;
+        const { data: allNotes, error } = await query;
         if (error) throw error;
 
+        let data = allNotes;
+        if (scopeRef) {
+          data = allNotes.filter((note: Note) => {
+            const noteRef = note.source_reference ? parseRef(note.source_reference) : null;
+            return !!noteRef && isRefInScope(noteRef, scopeRef);
+          });
+          if (limit) data = data.slice(0, limit);
+        }
+
         console.log(`[note-agent] Read ${data.length} notes`);
         response = { success: true, action, notes: data, count: data.length };
         break;
       }
 
+      case 'search': {
+        if (!searchQuery?.trim()) {
+          return new Response(JSON.stringify({
+            success: false,
+            action,
+            error: 'query is required for search',
+            _timing: { startMs, endMs: Date.now(), durationMs: Date.now() - startMs },
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const searchMode: SearchMode = mode || 'hybrid';
+        const matchCount = limit || 20;
+        const fused = new Map<string, NoteMatch>();
+        const addRanked = (id: string, rank: number, match: 'keyword' | 'semantic', headline?: string) => {
+          const score = 1 / (RRF_K + rank);
+          const existing = fused.get(id);
+          if (existing) {
+            existing.score += score;
+            existing.match = 'both';
+            existing.headline = existing.headline || headline;
+          } else {
+            fused.set(id, { note_id: id, score, match, headline });
+          }
+        };
+
+        if (searchMode !== 'semantic') {
+          const { data, error } = await supabase.rpc('search_notes', {
+            p_query: searchQuery,
+            p_workspace_id: workspace_id || null,
+            p_limit: matchCount,
+          });
+          if (error) throw error;
+          data.forEach((hit: { id: string; headline: string }, rank: number) => addRanked(hit.id, rank, 'keyword', hit.headline));
+        }
+
+        // Semantic search degrades to keyword-only when no embedding provider is configured,
+        // and hybrid search keeps its keyword results when embedding fails
+        if (searchMode !== 'keyword' && EMBED_CONFIG.providers.length > 0) {
+          try {
+            const embedded = await embedPendingNotes(supabase, user.id, workspace_id);
+            if (embedded > 0) console.log(`[note-agent] Embedded ${embedded} notes`);
+
+            const [queryVector] = await embed([searchQuery]);
+            const { data, error } = await supabase.rpc('match_notes', {
+              p_embedding: JSON.stringify(queryVector),
+              p_workspace_id: workspace_id || null,
+              p_limit: matchCount,
+            });
+            if (error) throw error;
+            data.forEach((hit: { id: string }, rank: number) => addRanked(hit.id, rank, 'semantic'));
+          } catch (error) {
+            if (searchMode === 'semantic') throw error;
+            console.warn('[note-agent] Semantic search failed, using keyword results only:', error instanceof Error ? error.message : error);
+          }
+        }
+
+        const matches = Array.from(fused.values())
+          .sort((a, b) => b.score - a.score)
+          .slice(0, matchCount);
+
+        let notes: Note[] = [];
+        if (matches.length > 0) {
+          let notesQuery = supabase
+            .from('notes')
+            .select(NOTE_COLUMNS)
+            .in('id', matches.map(m => m.note_id));
+          if (tag) notesQuery = notesQuery.contains('tags', [normalizeTag(tag)]);
+          if (status) notesQuery = notesQuery.eq('status', status);
+          const { data, error } = await notesQuery;
+          if (error) throw error;
+          const byId = new Map(data.map((note: Note) => [note.id, note]));
+          notes = matches.map(m => byId.get(m.note_id)).filter(Boolean) as Note[];
+        }
+
+        console.log(`[note-agent] Search "${searchQuery}" (${searchMode}) found ${notes.length} notes`);
+        response = {
+          success: true,
+          action,
+          notes,
+          matches: matches.filter(m => notes.some(n => n.id === m.note_id)),
+          count: notes.length,
+        };
+        break;
+      }
+
       case 'update': {
         if (!note_id) {
           return new Response(JSON.stringify({
@@ -172,13 +371,15 @@ serve(async (req) => {
         if (content !== undefined) updateData.content = content;
         if (source_reference !== undefined) updateData.source_reference = source_reference;
         if (note_type !== undefined) updateData.note_type = note_type;
+        if (tags !== undefined) updateData.tags = normalizeTags(tags);
+        if (status !== undefined) updateData.status = status;
 
         const { data, error } = await supabase
           .from('notes')
           .update(updateData)
           .eq('id', note_id)
-          .eq('device_id', device_id) // Ensure user owns the note
-          .select()
+          .eq('user_id', user.id) // Ensure user owns the note
+          .select(NOTE_COLUMNS)
           .single();
 
         if (error) throw error;
@@ -205,7 +406,7 @@ serve(async (req) => {
           .from('notes')
           .delete()
           .eq('id', note_id)
-          .eq('device_id', device_id); // Ensure user owns the note
+          .eq('user_id', user.id); // Ensure user owns the note
 
         if (error) throw error;
 
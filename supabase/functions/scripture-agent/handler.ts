@@ -0,0 +1,146 @@
+import { getNamedScope, parseRef, formatRef, referenceError } from "../_shared/scriptureReference.ts";
+import { getMcpBaseUrl } from "../_shared/mcp.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MCP_BASE_URL = getMcpBaseUrl();
+
+interface ScriptureRequest {
+  reference: string;
+  language?: string;
+  organization?: string;
+  resource?: string;
+}
+
+interface ScriptureVerse {
+  verse: number;
+  text: string;
+}
+
+interface ScriptureResponse {
+  reference: string;
+  text: string;
+  verses: ScriptureVerse[];
+  translation: string;
+  book?: string;
+  metadata?: Record<string, unknown>;
+  _timing?: { startMs: number; endMs: number; durationMs: number };
+}
+
+// Testament value ("OT"/"NT") when the reference is testament-level
+function getTestamentScope(reference: string): string | null {
+  const named = getNamedScope(reference);
+  return named && (named.value === 'OT' || named.value === 'NT') ? named.value : null;
+}
+
+export async function handler(req: Request): Promise<Response> {
+  const startMs = Date.now();
+  
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: ScriptureRequest = await req.json();
+    const {
+      reference,
+      language = 'en',
+      organization = 'unfoldingWord',
+      resource = 'ult',
+    } = request;
+
+    console.log(`[scripture-agent] Fetching: ${reference} (${language}/${organization}/${resource})`);
+
+    // Reject chapters and verses the book doesn't have instead of asking the MCP server for them
+    const invalid = referenceError(reference);
+    if (invalid) {
+      const endMs = Date.now();
+      console.log(`[scripture-agent] ${invalid}`);
+      return new Response(JSON.stringify({
+        error: invalid,
+        reference,
+        _timing: { startMs, endMs, durationMs: endMs - startMs },
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Build URL with correct parameter (testament vs reference)
+    let url = `${MCP_BASE_URL}/api/fetch-scripture?`;
+    
+    const testament = getTestamentScope(reference);
+    const parsedReference = parseRef(reference);
+    if (testament) {
+      url += `testament=${encodeURIComponent(testament)}`;
+    } else {
+      // Send the canonical form so abbreviations resolve ("Rom 3:16" → "Romans 3:16")
+      url += `reference=${encodeURIComponent(parsedReference ? formatRef(parsedReference) : reference)}`;
+    }
+    
+    url += `&language=${encodeURIComponent(language)}`;
+    url += `&organization=${encodeURIComponent(organization)}`;
+    url += `&resource=${encodeURIComponent(resource)}`;
+
+    console.log(`[scripture-agent] URL: ${url}`);
+
+    const response = await fetch(url);
+    const endMs = Date.now();
+
+    if (!response.ok) {
+      console.log(`[scripture-agent] MCP returned ${response.status}`);
+      return new Response(JSON.stringify({
+        error: `Scripture not found: ${response.status}`,
+        reference,
+        _timing: { startMs, endMs, durationMs: endMs - startMs },
+      }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    let result: ScriptureResponse;
+
+    if (contentType.includes('application/json')) {
+      const data = await response.json();
+      result = {
+        reference,
+        text: data.text || data.passage || data.content || '',
+        verses: data.verses || [],
+        translation: resource,
+        book: data.book,
+        metadata: data.metadata,
+        _timing: { startMs, endMs, durationMs: endMs - startMs },
+      };
+    } else {
+      const text = await response.text();
+      result = {
+        reference,
+        text,
+        verses: [],
+        translation: resource,
+        _timing: { startMs, endMs, durationMs: endMs - startMs },
+      };
+    }
+
+    console.log(`[scripture-agent] Success: ${result.verses.length} verses (${endMs - startMs}ms)`);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('[scripture-agent] Error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      _timing: { startMs, endMs: Date.now(), durationMs: Date.now() - startMs },
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// Test helpers: swap the global fetch the handlers call for canned answers.
+// mcpFixtures() answers from the mock MCP server's fixtures, so the edge function tests and
+// `npm run mock:mcp` agree on what the MCP server says.
+
+import { findFixture } from "../../../mock-mcp/server.js";
+
+type Responder = (url: URL, init?: RequestInit) => Response | Promise<Response>;
+
+interface Fixture {
+  params?: Record<string, string>;
+  status?: number;
+  contentType?: string;
+  body?: unknown;
+  bodyFile?: string;
+}
+
+export interface FetchStub {
+  calls: URL[];
+  restore(): void;
+}
+
+const FIXTURES_DIR = new URL("../../../mock-mcp/fixtures/", import.meta.url);
+
+export function stubFetch(respond: Responder): FetchStub {
+  const original = globalThis.fetch;
+  const calls: URL[] = [];
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    calls.push(url);
+    return await respond(url, init);
+  };
+
+  return { calls, restore: () => { globalThis.fetch = original; } };
+}
+
+export function mcpFixtures(): Responder {
+  return async (url) => {
+    const file = new URL(`.${url.pathname}.json`, FIXTURES_DIR);
+    let fixtures: Fixture[] = [];
+    try {
+      fixtures = JSON.parse(await Deno.readTextFile(file));
+    } catch {
+      // No fixtures for this endpoint
+    }
+
+    const fixture: Fixture | null = findFixture(fixtures, Object.fromEntries(url.searchParams.entries()));
+    if (!fixture) return jsonResponse({ error: `No fixture for ${url.pathname}` }, 404);
+
+    const body = fixture.bodyFile
+      ? await Deno.readTextFile(new URL(fixture.bodyFile, file))
+      : typeof fixture.body === "string" ? fixture.body : JSON.stringify(fixture.body ?? null);
+    return new Response(body, {
+      status: fixture.status || 200,
+      headers: { "Content-Type": fixture.contentType || (fixture.bodyFile ? "text/markdown; charset=utf-8" : "application/json") },
+    });
+  };
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+export function postJson(body: unknown): Request {
+  return new Request("http://localhost/functions/v1/test", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
@@ -0,0 +1,146 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { jsonResponse, stubFetch } from "./fetchStub.ts";
+
+// tools.ts reads the sub-agent base URL when it loads, so set env before importing the agent
+Deno.env.set("SUPABASE_URL", "http://supabase.test");
+Deno.env.set("LLM_ROUTER_PROVIDERS", "local");
+const { foldOutcomes, runAgent } = await import("../multi-agent-chat/agent.ts");
+
+type RouterCall = [name: string, args: Record<string, unknown>];
+
+interface RouterRequest {
+  messages: { role: string; content: string; tool_call_id?: string }[];
+  tools: { function: { name: string; parameters: { properties: Record<string, { enum?: string[] }> } } }[];
+}
+
+const context = { prefs: { language: "en", organization: "unfoldingWord", resource: "ult" }, authorization: null };
+
+const SUB_AGENTS: Record<string, unknown> = {
+  "scripture-agent": { text: "In the days when the judges ruled...", translation: "ULT" },
+  "resource-agent": { resources: [{ type: "translation-word", title: "Boaz", content: "A man of Bethlehem" }] },
+  "search-agent": {
+    query: "Boaz", scope: "Ruth", scopeType: "book",
+    scripture: { markdown: "", matches: [{ reference: "Ruth 2:1", text: "Naomi had a relative" }], totalCount: 1 },
+    notes: null, questions: null, words: null, academy: null,
+  },
+  "note-agent": { notes: [{ content: "Boaz is a kinsman-redeemer", source_reference: "Ruth 2:1" }] },
+};
+
+// Answers the router from a script, one entry per step, and the sub-agents from SUB_AGENTS
+function stubAgents(script: (step: number) => RouterCall[]) {
+  const routerRequests: RouterRequest[] = [];
+  const subAgentRequests: { agent: string; body: Record<string, unknown> }[] = [];
+  const fetchStub = stubFetch((url, init) => {
+    if (url.pathname.endsWith("/chat/completions")) {
+      routerRequests.push(JSON.parse(String(init?.body)));
+      const step = routerRequests.length;
+      const toolCalls = script(step).map(([name, args], i) => ({
+        id: `call_${step}_${i}`,
+        type: "function",
+        function: { name, arguments: JSON.stringify(args) },
+      }));
+      return jsonResponse({ choices: [{ message: { content: toolCalls.length ? "" : "done", tool_calls: toolCalls } }] });
+    }
+    const agent = url.pathname.split("/").pop() || "";
+    subAgentRequests.push({ agent, body: JSON.parse(String(init?.body)) });
+    return SUB_AGENTS[agent] ? jsonResponse(SUB_AGENTS[agent]) : jsonResponse({ error: "unknown" }, 404);
+  });
+  return { routerRequests, subAgentRequests, fetchStub };
+}
+
+Deno.test("foldOutcomes merges in router order and skips calls still running", () => {
+  const state = foldOutcomes([
+    { subAgentCalls: [{ tool: "search-agent", args: {} }], scriptureReference: "Ruth", resources: [{ type: "note" }], summary: "" },
+    undefined,
+    { subAgentCalls: [{ tool: "scripture-agent", args: {} }], scriptureReference: "Ruth 2", scriptureText: "Ruth 2 text", resources: [{ type: "word" }], summary: "" },
+  ], "John 3");
+
+  assertEquals(state.scriptureReference, "Ruth 2");
+  assertEquals(state.scriptureText, "Ruth 2 text");
+  assertEquals(state.resources.map(r => r.type), ["note", "word"]);
+  assertEquals(state.toolCalls.map(c => c.tool), ["search-agent", "scripture-agent"]);
+  assertEquals(foldOutcomes([], "John 3").scriptureReference, "John 3");
+});
+
+Deno.test("runAgent runs a step's calls in parallel and feeds results to follow-up steps", async () => {
+  const { routerRequests, fetchStub } = stubAgents(step => {
+    if (step === 1) return [["get_scripture", { reference: "Ruth 1" }], ["search_resources", { query: "Boaz", scope: "Ruth" }]];
+    // Repeating a call from step 1 is dropped; the new one runs
+    if (step === 2) return [["get_scripture", { reference: "Ruth 1" }], ["get_resources", { reference: "Ruth 2:1" }]];
+    return [];
+  });
+  try {
+    const events: string[] = [];
+    const { state, steps } = await runAgent({
+      message: "Who is Boaz in Ruth?",
+      history: [],
+      context,
+      maxSteps: 5,
+      onToolStart: (call, step) => events.push(`start ${step} ${call.name}`),
+      onToolDone: (call, step) => events.push(`done ${step} ${call.name}`),
+    });
+
+    assertEquals(steps, 2);
+    assertEquals(routerRequests.length, 3);
+    assertEquals(events.slice(0, 2), ["start 1 get_scripture", "start 1 search_resources"]);
+    assertEquals(events.filter(e => e.startsWith("start 2")), ["start 2 get_resources"]);
+    assertEquals(events.length, 6);
+
+    // The follow-up router request carries each call's result
+    const toolTurns = routerRequests[1].messages.filter(m => m.role === "tool");
+    assertEquals(toolTurns.map(m => m.tool_call_id), ["call_1_0", "call_1_1"]);
+    assertEquals(toolTurns[1].content.startsWith('"Boaz" in Ruth: 1 verses'), true);
+
+    assertEquals(state.scriptureReference, "Ruth 2:1");
+    assertEquals(state.search?.query, "Boaz");
+    assertEquals(state.toolCalls.map(c => c.tool), ["scripture-agent", "resource-agent", "search-agent", "scripture-agent", "resource-agent"]);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("runAgent stops when the step budget is spent", async () => {
+  const { routerRequests, fetchStub } = stubAgents(step => [["get_scripture", { reference: `Ruth ${step}` }]]);
+  try {
+    const { state, steps } = await runAgent({ message: "Read Ruth", history: [], context, maxSteps: 2 });
+
+    assertEquals(steps, 2);
+    assertEquals(routerRequests.length, 2);
+    assertEquals(state.scriptureReference, "Ruth 2");
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("runAgent only changes notes on the first step", async () => {
+  const { routerRequests, subAgentRequests, fetchStub } = stubAgents(step => {
+    if (step === 1) return [["manage_notes", { action: "create", content: "Boaz", reference: "Ruth 2:1" }]];
+    if (step === 2) return [["manage_notes", { action: "delete", noteId: "n1" }], ["manage_notes", { action: "search", query: "Boaz" }]];
+    return [];
+  });
+  try {
+    const { steps } = await runAgent({ message: "Note that Boaz is a kinsman-redeemer", history: [], context, maxSteps: 3 });
+
+    assertEquals(steps, 2);
+    assertEquals(subAgentRequests.map(r => r.body.action), ["create", "search"]);
+
+    // Follow-up steps are offered read-only note actions, and a write asked for anyway is refused
+    const noteActions = (request: RouterRequest) =>
+      request.tools.find(t => t.function.name === "manage_notes")?.function.parameters.properties.action.enum;
+    assertEquals(noteActions(routerRequests[0]), ["create", "read", "update", "delete", "search"]);
+    assertEquals(noteActions(routerRequests[1]), ["read", "search"]);
+    const refused = routerRequests[2].messages.find(m => m.tool_call_id === "call_2_0");
+    assertEquals(refused?.content, "manage_notes not run: notes can only be changed on the first step");
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("runAgent fails when the first routing step fails", async () => {
+  const fetchStub = stubFetch(() => jsonResponse({ error: "down" }, 500));
+  try {
+    await assertRejects(() => runAgent({ message: "Read Ruth", history: [], context, maxSteps: 2 }));
+  } finally {
+    fetchStub.restore();
+  }
+});
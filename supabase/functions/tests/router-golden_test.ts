@@ -0,0 +1,75 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { checkCase, CorpusCase, diffResults, loadCorpus, loadRecording, routerPromptHash } from "./router/golden.ts";
+
+const readMatthew: CorpusCase = {
+  id: "read-abbreviated-book",
+  language: "en",
+  message: "Show me Mat 5",
+  expect: { tool: "get_scripture", args: { reference: "Matthew 5" } },
+};
+
+const notesAboutBoaz: CorpusCase = {
+  id: "search-notes-only",
+  language: "en",
+  message: "notes about Boaz in Ruth",
+  expect: { tool: "search_resources", args: { scope: "Ruth", resourceTypes: ["notes", "questions"] } },
+};
+
+Deno.test("checkCase accepts the expected tool with normalized arguments", () => {
+  assertEquals(checkCase(readMatthew, [{ name: "get_scripture", arguments: { reference: " matthew 5" } }]), []);
+  assertEquals(checkCase(notesAboutBoaz, [
+    { name: "search_resources", arguments: { query: "Boaz", scope: "Ruth", resourceTypes: ["questions", "notes"] } },
+  ]), []);
+});
+
+Deno.test("checkCase reports the wrong tool and unnormalized arguments", () => {
+  assertEquals(checkCase(readMatthew, [{ name: "get_scripture", arguments: { reference: "Mat 5" } }]), [
+    'get_scripture reference: expected "Matthew 5", got "Mat 5"',
+  ]);
+  assertEquals(checkCase(readMatthew, [{ name: "search_resources", arguments: { query: "Mat 5" } }]), [
+    'expected get_scripture, got search_resources(query: "Mat 5")',
+  ]);
+});
+
+Deno.test("diffResults separates regressions, fixes and changes", () => {
+  const recording = {
+    promptHash: "",
+    provider: "openai",
+    model: "gpt-4o-mini",
+    recordedAt: "",
+    calls: {
+      "read-abbreviated-book": [{ name: "get_scripture", arguments: { reference: "Matthew 5" } }],
+      "search-notes-only": [{ name: "search_resources", arguments: { query: "Boaz", scope: "Ruth", resourceTypes: ["notes"] } }],
+    },
+  };
+  const report = diffResults([readMatthew, notesAboutBoaz, { ...readMatthew, id: "new-case" }], recording, [
+    { id: "read-abbreviated-book", calls: [{ name: "get_scripture", arguments: { reference: "Mat 5" } }], problems: ["reference"] },
+    { id: "search-notes-only", calls: [{ name: "search_resources", arguments: { query: "Boaz", scope: "Ruth", resourceTypes: ["notes", "questions"] } }], problems: [] },
+    { id: "new-case", calls: [], problems: ["no call"] },
+  ]);
+
+  assertEquals(report.regressions.length, 1);
+  assertEquals(report.regressions[0].startsWith("read-abbreviated-book"), true);
+  assertEquals(report.fixed, ["search-notes-only"]);
+  assertEquals(report.changed, []);
+  assertEquals(report.added, ["new-case"]);
+});
+
+// Replay the last recorded run, so a corpus edit that contradicts it fails without calling a model
+const corpus = await loadCorpus();
+const recording = await loadRecording();
+const promptHash = await routerPromptHash();
+
+Deno.test("router golden: recorded.json matches the current router prompt", () => {
+  assert(recording, "recorded.json is missing - record it with golden.ts --record");
+  assert(recording.provider && recording.provider !== "none", "recorded.json was not recorded against a model - record it with golden.ts --record");
+  assertEquals(recording.promptHash, promptHash, "recorded.json predates the current router prompt - re-record with golden.ts --record");
+});
+
+for (const testCase of corpus) {
+  Deno.test(`router golden: ${testCase.id}`, () => {
+    const calls = recording?.calls[testCase.id];
+    assert(calls, `${testCase.id} is not in recorded.json - record it with golden.ts --record --case ${testCase.id}`);
+    assertEquals(checkCase(testCase, calls), []);
+  });
+}
@@ -0,0 +1,219 @@
+/**
+ * Golden-conversation harness for the multi-agent-chat router
+ *
+ * Sends every utterance in corpus.json through the router (same prompt and tools as the chat,
+ * with the model from the usual LLM_* env) and checks the tool it picked and its arguments.
+ * Results are compared with recorded.json, the last accepted run, and printed as a diff:
+ *
+ *   deno run --allow-env --allow-net --allow-read --allow-write supabase/functions/tests/router/golden.ts
+ *     --record          save this run as the new recorded.json
+ *     --case <id>       only this case (repeatable)
+ *     --language <code> only cases in this language
+ *
+ * Exits non-zero when a case fails. router-golden_test.ts replays recorded.json without a model.
+ */
+
+import { parse } from "https://deno.land/std@0.168.0/flags/mod.ts";
+import { chatCompletion, LlmMessage, LlmToolCall } from "../../_shared/llm.ts";
+import { buildRouterRequest, ROUTER_SYSTEM_PROMPT, ROUTER_TOOLS } from "../../multi-agent-chat/router.ts";
+
+export interface CorpusCase {
+  id: string;
+  language: string;
+  message: string;
+  history?: LlmMessage[];
+  expect: {
+    tool: string;
+    args?: Record<string, unknown>; // Only these are checked; strings ignore case, arrays ignore order
+  };
+}
+
+export interface RoutedCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface Recording {
+  promptHash: string;   // Of the prompt and tools the calls were recorded against
+  provider: string;
+  model: string;
+  recordedAt: string;
+  calls: Record<string, RoutedCall[]>;
+}
+
+export interface CaseResult {
+  id: string;
+  calls: RoutedCall[];
+  problems: string[];
+}
+
+export interface RegressionReport {
+  regressions: string[]; // Passed in the recording, fail now
+  fixed: string[];       // Failed in the recording, pass now
+  changed: string[];     // Pass both times with different calls
+  added: string[];       // Not in the recording
+}
+
+const CORPUS_URL = new URL("./corpus.json", import.meta.url);
+const RECORDING_URL = new URL("./recorded.json", import.meta.url);
+
+export async function loadCorpus(): Promise<CorpusCase[]> {
+  return JSON.parse(await Deno.readTextFile(CORPUS_URL));
+}
+
+export async function loadRecording(): Promise<Recording | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(RECORDING_URL));
+  } catch {
+    return null;
+  }
+}
+
+// Changes whenever the prompt or a tool definition does, so stale recordings are noticed
+export async function routerPromptHash(): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify({ prompt: ROUTER_SYSTEM_PROMPT, tools: ROUTER_TOOLS }));
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest).slice(0, 6), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function toRoutedCall(toolCall: LlmToolCall): RoutedCall {
+  try {
+    return { name: toolCall.name, arguments: JSON.parse(toolCall.arguments) };
+  } catch {
+    return { name: toolCall.name, arguments: { _invalidJson: toolCall.arguments } };
+  }
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === "string") return value.trim().toLowerCase();
+  if (Array.isArray(value)) return value.map(item => JSON.stringify(normalizeValue(item))).sort();
+  return value;
+}
+
+function sameValue(expected: unknown, actual: unknown): boolean {
+  return JSON.stringify(normalizeValue(expected)) === JSON.stringify(normalizeValue(actual));
+}
+
+export function formatCall(call: RoutedCall): string {
+  const args = Object.entries(call.arguments).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `${call.name}(${args.join(", ")})`;
+}
+
+/** What is wrong with the router's calls for a case; empty when it routed as expected */
+export function checkCase(testCase: CorpusCase, calls: RoutedCall[]): string[] {
+  const call = calls.find(c => c.name === testCase.expect.tool);
+  if (!call) {
+    return [`expected ${testCase.expect.tool}, got ${calls.map(formatCall).join("; ") || "no tool call"}`];
+  }
+  return Object.entries(testCase.expect.args || {})
+    .filter(([key, value]) => !sameValue(value, call.arguments[key]))
+    .map(([key, value]) => `${call.name} ${key}: expected ${JSON.stringify(value)}, got ${JSON.stringify(call.arguments[key])}`);
+}
+
+export function diffResults(corpus: CorpusCase[], recording: Recording | null, results: CaseResult[]): RegressionReport {
+  const report: RegressionReport = { regressions: [], fixed: [], changed: [], added: [] };
+  const byId = new Map(corpus.map(c => [c.id, c]));
+
+  for (const result of results) {
+    const before = recording?.calls[result.id];
+    const testCase = byId.get(result.id);
+    if (!before || !testCase) {
+      report.added.push(result.id);
+      continue;
+    }
+
+    const passedBefore = checkCase(testCase, before).length === 0;
+    const passesNow = result.problems.length === 0;
+    const beforeText = before.map(formatCall).join("; ");
+    const nowText = result.calls.map(formatCall).join("; ");
+
+    if (passedBefore && !passesNow) {
+      report.regressions.push(`${result.id}\n    - ${beforeText}\n    + ${nowText}\n    ${result.problems.join("\n    ")}`);
+    } else if (!passedBefore && passesNow) {
+      report.fixed.push(result.id);
+    } else if (passesNow && beforeText !== nowText) {
+      report.changed.push(`${result.id}\n    - ${beforeText}\n    + ${nowText}`);
+    }
+  }
+  return report;
+}
+
+interface CaseRun {
+  result: CaseResult;
+  provider: string;
+  model: string;
+  failed?: boolean; // The model could not be reached - nothing to record
+}
+
+async function runCase(testCase: CorpusCase): Promise<CaseRun> {
+  try {
+    const routed = await chatCompletion(buildRouterRequest(testCase.message, testCase.history));
+    const calls = routed.toolCalls.map(toRoutedCall);
+    return { result: { id: testCase.id, calls, problems: checkCase(testCase, calls) }, provider: routed.provider, model: routed.model };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { result: { id: testCase.id, calls: [], problems: [`router failed: ${message}`] }, provider: "", model: "", failed: true };
+  }
+}
+
+function printSection(title: string, lines: string[]) {
+  if (lines.length === 0) return;
+  console.log(`\n${title} (${lines.length})`);
+  lines.forEach(line => console.log(`  ${line}`));
+}
+
+async function main() {
+  const flags = parse(Deno.args, { boolean: ["record"], string: ["case", "language"], collect: ["case"] });
+  const onlyCases = (flags.case as string[]).map(String);
+
+  const corpus = (await loadCorpus()).filter(c =>
+    (onlyCases.length === 0 || onlyCases.includes(c.id)) && (!flags.language || c.language === flags.language));
+  const recording = await loadRecording();
+  const promptHash = await routerPromptHash();
+
+  if (recording && recording.promptHash !== promptHash) {
+    console.log(`Router prompt changed since recorded.json (${recording.promptHash} → ${promptHash})`);
+  }
+
+  const results: CaseResult[] = [];
+  const unreachable = new Set<string>();
+  let provider = "";
+  let model = "";
+  for (const testCase of corpus) {
+    const run = await runCase(testCase);
+    results.push(run.result);
+    if (run.failed) unreachable.add(testCase.id);
+    provider = run.provider || provider;
+    model = run.model || model;
+    console.log(`${run.result.problems.length === 0 ? "PASS" : "FAIL"} ${testCase.id} [${testCase.language}] ${run.result.calls.map(formatCall).join("; ")}`);
+    run.result.problems.forEach(problem => console.log(`       ${problem}`));
+  }
+
+  const report = diffResults(corpus, recording, results);
+  printSection("Regressions", report.regressions);
+  printSection("Fixed", report.fixed);
+  printSection("Changed", report.changed);
+  printSection("Not in recorded.json", report.added);
+
+  const failed = results.filter(r => r.problems.length > 0).length;
+  console.log(`\n${results.length - failed}/${results.length} passed with ${provider || "no provider"} ${model}`);
+
+  if (flags.record) {
+    // Merge so a filtered run only replaces the cases it ran
+    const recorded = results.filter(r => !unreachable.has(r.id));
+    if (recorded.length === 0) {
+      console.log("No case reached a model - recorded.json left unchanged");
+      Deno.exit(1);
+    }
+    const calls = { ...(recording?.calls || {}), ...Object.fromEntries(recorded.map(r => [r.id, r.calls])) };
+    const next: Recording = { promptHash, provider, model, recordedAt: new Date().toISOString(), calls };
+    await Deno.writeTextFile(RECORDING_URL, JSON.stringify(next, null, 2) + "\n");
+    console.log(`Recorded ${recorded.length} case(s) to ${RECORDING_URL.pathname}`);
+  }
+
+  if (failed > 0) Deno.exit(1);
+}
+
+if (import.meta.main) {
+  await main();
+}
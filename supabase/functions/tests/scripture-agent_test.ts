@@ -0,0 +1,63 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handler } from "../scripture-agent/handler.ts";
+import { jsonResponse, mcpFixtures, postJson, stubFetch } from "./fetchStub.ts";
+
+Deno.test("scripture-agent sends the canonical reference", async () => {
+  const fetchStub = stubFetch(mcpFixtures());
+  try {
+    const response = await handler(postJson({ reference: "Rut 1", resource: "ust" }));
+    const body = await response.json();
+
+    assertEquals(response.status, 200);
+    assertEquals(fetchStub.calls[0].searchParams.get("reference"), "Ruth 1");
+    assertEquals(fetchStub.calls[0].searchParams.get("resource"), "ust");
+    assertEquals(body.translation, "ust");
+    assertStringIncludes(body.text, "**UST v86");
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("scripture-agent asks for a testament instead of a reference", async () => {
+  const fetchStub = stubFetch(() => jsonResponse({ text: "..." }));
+  try {
+    await handler(postJson({ reference: "New Testament" }));
+    assertEquals(fetchStub.calls[0].searchParams.get("testament"), "NT");
+    assertEquals(fetchStub.calls[0].searchParams.has("reference"), false);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("scripture-agent reports a missing passage as 404", async () => {
+  const fetchStub = stubFetch(mcpFixtures());
+  try {
+    const response = await handler(postJson({ reference: "Obadiah 1" }));
+    const body = await response.json();
+
+    assertEquals(response.status, 404);
+    assertEquals(body.error, "Scripture not found: 404");
+    assertEquals(body.reference, "Obadiah 1");
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("scripture-agent rejects chapters and verses the book does not have", async () => {
+  const fetchStub = stubFetch(mcpFixtures());
+  try {
+    const response = await handler(postJson({ reference: "John 40:99" }));
+    const body = await response.json();
+
+    assertEquals(response.status, 400);
+    assertEquals(body.error, 'Invalid reference "John 40:99": John has 21 chapters, not 40');
+    assertEquals(fetchStub.calls.length, 0);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("scripture-agent answers CORS preflight", async () => {
+  const response = await handler(new Request("http://localhost", { method: "OPTIONS" }));
+  assertEquals(response.headers.get("Access-Control-Allow-Origin"), "*");
+});
@@ -0,0 +1,45 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildSearchParams, handler, normalizeScopes, normalizeScopeValue } from "../search-agent/handler.ts";
+import { mcpFixtures, postJson, stubFetch } from "./fetchStub.ts";
+
+Deno.test("normalizeScopeValue canonicalizes named scopes and references", () => {
+  assertEquals(normalizeScopeValue("old testament"), "OT");
+  assertEquals(normalizeScopeValue("Rom 3"), "Romans 3");
+  assertEquals(normalizeScopeValue("Juan 3:16"), "John 3:16");
+  assertEquals(normalizeScopeValue("somewhere"), "somewhere");
+});
+
+Deno.test("normalizeScopes splits the Bible into testaments", () => {
+  assertEquals(normalizeScopes("Bible", "bible"), ["OT", "NT"]);
+  assertEquals(normalizeScopes("1 Cor", "book"), ["1 Corinthians"]);
+});
+
+Deno.test("buildSearchParams picks testament or reference by scope", () => {
+  const testament = buildSearchParams("testament", "NT", "grace", "en", "unfoldingWord", "ult");
+  assertEquals(Object.fromEntries(testament), { testament: "NT", filter: "grace", language: "en", organization: "unfoldingWord", resource: "ult" });
+
+  const book = buildSearchParams("book", "Ruth", "kinsman", "en", "unfoldingWord");
+  assertEquals(book.get("reference"), "Ruth");
+  assertEquals(book.has("resource"), false);
+
+  const bible = buildSearchParams("bible", null, "love", "en", "unfoldingWord");
+  assertEquals(bible.has("reference") || bible.has("testament"), false);
+});
+
+Deno.test("search-agent searches scripture and notes in the requested scope", async () => {
+  const fetchStub = stubFetch(mcpFixtures());
+  try {
+    const response = await handler(postJson({ query: "kinsman", scope: "Ruth", resourceTypes: ["scripture", "notes"] }));
+    const body = await response.json();
+
+    assertEquals(response.status, 200);
+    assertEquals(body.scopeType, "book");
+    assertEquals(fetchStub.calls.every(url => url.searchParams.get("reference") === "Ruth"), true);
+    assertEquals(body.scripture.matches[0].reference, "Ruth 2:20");
+    assertEquals(body.scripture.matches[0].chapter, 2);
+    assertEquals(body.notes.matches.length > 0, true);
+    assertEquals(body.questions, null);
+  } finally {
+    fetchStub.restore();
+  }
+});
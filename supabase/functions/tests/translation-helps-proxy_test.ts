@@ -0,0 +1,44 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handler } from "../translation-helps-proxy/handler.ts";
+import { mcpFixtures, postJson, stubFetch } from "./fetchStub.ts";
+
+Deno.test("translation-helps-proxy maps endpoint aliases and drops empty params", async () => {
+  const fetchStub = stubFetch(mcpFixtures());
+  try {
+    await handler(postJson({ endpoint: "notes", params: { reference: "Ruth 1", language: "en", organization: "", resource: null } }));
+
+    const [url] = fetchStub.calls;
+    assertEquals(url.pathname, "/api/fetch-translation-notes");
+    assertEquals(Object.fromEntries(url.searchParams), { reference: "Ruth 1", language: "en" });
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("translation-helps-proxy wraps markdown and passes JSON through", async () => {
+  const fetchStub = stubFetch(mcpFixtures());
+  try {
+    const markdown = await (await handler(postJson({ endpoint: "scripture", params: { reference: "John 3:16" } }))).json();
+    assertEquals(markdown.format, "markdown");
+    assertStringIncludes(markdown.content, "For God so loved the world");
+
+    const json = await (await handler(postJson({ endpoint: "notes", params: { reference: "Ruth 1", format: "json" } }))).json();
+    assertEquals(json[0].ID, "abc1");
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test("translation-helps-proxy returns upstream errors as 200 so the client can fall back", async () => {
+  const fetchStub = stubFetch(mcpFixtures());
+  try {
+    const response = await handler(postJson({ endpoint: "scripture", params: { reference: "Obadiah 1" } }));
+    const body = await response.json();
+
+    assertEquals(response.status, 200);
+    assertEquals(body.status, 404);
+    assertEquals(body.error, "API returned 404");
+  } finally {
+    fetchStub.restore();
+  }
+});
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatCompletion, LlmError } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,17 +30,12 @@ serve(async (req) => {
 
   try {
     const body = await req.json();
-    
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
 
     // Check if this is a batch request
     if (body.items && Array.isArray(body.items)) {
-      return handleBatchTranslation(body as BatchRequest, LOVABLE_API_KEY);
+      return handleBatchTranslation(body as BatchRequest);
     } else {
-      return handleSingleTranslation(body as SingleRequest, LOVABLE_API_KEY);
+      return handleSingleTranslation(body as SingleRequest);
     }
   } catch (error) {
     console.error('[translate-content] Error:', error);
@@ -52,13 +48,13 @@ serve(async (req) => {
   }
 });
 
-async function handleSingleTranslation(request: SingleRequest, apiKey: string): Promise<Response> {
+async function handleSingleTranslation(request: SingleRequest): Promise<Response> {
   const { content, targetLanguage, contentType } = request;
   
   console.log(`[translate-content] Translating ${contentType} to ${targetLanguage}`);
   console.log(`[translate-content] Content preview: ${content.substring(0, 100)}...`);
 
-  const translatedContent = await translateText(content, targetLanguage, contentType, apiKey);
+  const translatedContent = await translateText(content, targetLanguage, contentType);
   
   if ('error' in translatedContent) {
     return new Response(JSON.stringify({ error: translatedContent.error }), {
@@ -76,7 +72,7 @@ async function handleSingleTranslation(request: SingleRequest, apiKey: string):
   });
 }
 
-async function handleBatchTranslation(request: BatchRequest, apiKey: string): Promise<Response> {
+async function handleBatchTranslation(request: BatchRequest): Promise<Response> {
   const { items, targetLanguage } = request;
   
   console.log(`[translate-content] Batch translating ${items.length} items to ${targetLanguage}`);
@@ -100,48 +96,14 @@ You MUST:
 Return the translated content with the same item markers intact.`;
 
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: combinedContent }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "AI usage limit reached. Please add credits to continue." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("[translate-content] AI gateway error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "Translation service unavailable" }), {
-        status: 500,
+    const result = await requestTranslation(systemPrompt, combinedContent);
+    if ('error' in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
-
-    const data = await response.json();
-    const translatedCombined = data.choices?.[0]?.message?.content;
-
-    if (!translatedCombined) {
-      throw new Error("No translation returned from AI");
-    }
+    const translatedCombined = result.text;
 
     // Parse the combined response back into individual items
     const translations: Record<string, string> = {};
@@ -184,8 +146,7 @@ Return the translated content with the same item markers intact.`;
 async function translateText(
   content: string, 
   targetLanguage: string, 
-  contentType: string, 
-  apiKey: string
+  contentType: string
 ): Promise<{ text: string } | { error: string; status: number }> {
   const systemPrompt = `You are a professional Bible translation assistant. Translate the following ${contentType} content to ${targetLanguage}. 
 
@@ -199,40 +160,40 @@ Important guidelines:
 
 Return ONLY the translated content, no explanations or metadata.`;
 
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "google/gemini-2.5-flash",
+  const result = await requestTranslation(systemPrompt, content);
+  if ('text' in result) {
+    console.log(`[translate-content] Translation complete, length: ${result.text.length}`);
+  }
+  return result;
+}
+
+async function requestTranslation(
+  systemPrompt: string,
+  content: string
+): Promise<{ text: string } | { error: string; status: number }> {
+  let text: string;
+  try {
+    text = (await chatCompletion({
+      task: 'translate',
       messages: [
         { role: "system", content: systemPrompt },
-        { role: "user", content: content }
+        { role: "user", content }
       ],
-    }),
-  });
-
-  if (!response.ok) {
-    if (response.status === 429) {
+    })).content;
+  } catch (error) {
+    const status = error instanceof LlmError ? error.status : undefined;
+    if (status === 429) {
       return { error: "Rate limit exceeded. Please try again later.", status: 429 };
     }
-    if (response.status === 402) {
+    if (status === 402) {
       return { error: "AI usage limit reached. Please add credits to continue.", status: 402 };
     }
-    const errorText = await response.text();
-    console.error("[translate-content] AI gateway error:", response.status, errorText);
+    console.error("[translate-content] AI provider error:", error);
     return { error: "Translation service unavailable", status: 500 };
   }
 
-  const data = await response.json();
-  const translatedContent = data.choices?.[0]?.message?.content;
-
-  if (!translatedContent) {
+  if (!text) {
     return { error: "No translation returned from AI", status: 500 };
   }
-
-  console.log(`[translate-content] Translation complete, length: ${translatedContent.length}`);
-  return { text: translatedContent };
+  return { text };
 }
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatCompletion, LlmError } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,11 +21,6 @@ serve(async (req) => {
       strings: StringToTranslate[];
       targetLanguage: string;
     };
-    
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
 
     console.log(`[translate-ui] Translating ${strings.length} UI strings to ${targetLanguage}`);
 
@@ -45,45 +41,36 @@ CRITICAL RULES:
 
 Return the translated JSON object only, no explanation.`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
+    let translatedContent: string;
+    try {
+      translatedContent = (await chatCompletion({
+        task: 'translate',
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: stringsJson }
         ],
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
+      })).content;
+    } catch (error) {
+      const status = error instanceof LlmError ? error.status : undefined;
+      if (status === 429) {
         return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
           status: 429,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      if (response.status === 402) {
+      if (status === 402) {
         return new Response(JSON.stringify({ error: "AI usage limit reached. Please add credits to continue." }), {
           status: 402,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      const errorText = await response.text();
-      console.error("[translate-ui] AI gateway error:", response.status, errorText);
+      console.error("[translate-ui] AI provider error:", error);
       return new Response(JSON.stringify({ error: "Translation service unavailable" }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    const data = await response.json();
-    let translatedContent = data.choices?.[0]?.message?.content;
-
     if (!translatedContent) {
       throw new Error("No translation returned from AI");
     }
@@ -0,0 +1,26 @@
+-- Verse-level revisions of imported translation drafts
+CREATE TABLE public.draft_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  draft_id TEXT NOT NULL,
+  source_reference TEXT NOT NULL,
+  content TEXT NOT NULL,
+  previous_content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.draft_revisions.draft_id IS 'Draft identifier: USFM book code and imported file name, e.g. JHN:john-draft.usfm';
+COMMENT ON COLUMN public.draft_revisions.source_reference IS 'Verse the revision applies to, e.g. John 3:16';
+COMMENT ON COLUMN public.draft_revisions.previous_content IS 'Verse text before this revision, so every row can be diffed on its own';
+
+ALTER TABLE public.draft_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are shared with reviewers of the same draft, so reads are not device-scoped
+CREATE POLICY "Anyone can view draft revisions" ON public.draft_revisions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Device can insert draft revisions" ON public.draft_revisions
+  FOR INSERT WITH CHECK (true);
+
+CREATE INDEX idx_draft_revisions_draft_reference ON public.draft_revisions(draft_id, source_reference);
+CREATE INDEX idx_draft_revisions_device_id ON public.draft_revisions(device_id);
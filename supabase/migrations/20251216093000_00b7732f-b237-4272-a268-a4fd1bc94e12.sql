@@ -0,0 +1,37 @@
+-- Reviewer verdicts on Translation Notes / Translation Questions, per device and reference
+CREATE TABLE public.verse_checks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  source_reference TEXT NOT NULL,
+  resource_type TEXT NOT NULL,
+  resource_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT verse_checks_resource_type_check CHECK (resource_type IN ('tn', 'tq')),
+  CONSTRAINT verse_checks_status_check CHECK (status IN ('pass', 'fail', 'discuss')),
+  CONSTRAINT verse_checks_item_unique UNIQUE (device_id, source_reference, resource_type, resource_id)
+);
+
+COMMENT ON COLUMN public.verse_checks.resource_id IS 'Hash of the checked TN/TQ item text, stable across fetch scopes';
+
+ALTER TABLE public.verse_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Device can view own checks" ON public.verse_checks
+  FOR SELECT USING (true);
+
+CREATE POLICY "Device can insert own checks" ON public.verse_checks
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Device can update own checks" ON public.verse_checks
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Device can delete own checks" ON public.verse_checks
+  FOR DELETE USING (true);
+
+CREATE INDEX idx_verse_checks_device_id ON public.verse_checks(device_id);
+
+CREATE TRIGGER update_verse_checks_updated_at
+  BEFORE UPDATE ON public.verse_checks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
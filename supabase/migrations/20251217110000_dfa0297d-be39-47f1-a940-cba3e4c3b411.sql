@@ -0,0 +1,212 @@
+-- Move persistence from device_id to Supabase auth users.
+-- device_id stays on every row as the device that wrote it; ownership is user_id.
+
+ALTER TABLE public.notes
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE public.conversations
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE public.draft_revisions
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE public.verse_checks
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX idx_notes_user_id ON public.notes(user_id);
+CREATE INDEX idx_conversations_user_language ON public.conversations(user_id, language);
+CREATE INDEX idx_draft_revisions_user_id ON public.draft_revisions(user_id);
+
+-- A verdict belongs to the reviewer, whichever device they checked on
+ALTER TABLE public.verse_checks DROP CONSTRAINT verse_checks_item_unique;
+ALTER TABLE public.verse_checks
+  ADD CONSTRAINT verse_checks_item_unique UNIQUE (user_id, source_reference, resource_type, resource_id);
+
+-- Guest data follows a guest into an existing account. The claim has to prove the caller
+-- held the guest session: while still anonymous the client asks for a claim token, which
+-- only the server can tie to that guest's uid; after signing in it redeems the token once.
+-- device_id proves nothing (other users can read it), so it never moves a guest's rows.
+-- Rows written before accounts existed (user_id NULL) have nothing better; the upgraded
+-- client claims those once per device with claim_legacy_device_data (20251227090000).
+CREATE TABLE public.guest_claims (
+  token UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  guest_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Per-user tables a claim moves, with the columns that identify the same item when both
+-- the guest and the account have one (the account's copy wins). Later tables add a row.
+CREATE TABLE public.guest_claim_tables (
+  table_name TEXT NOT NULL PRIMARY KEY,
+  conflict_columns TEXT[] NOT NULL DEFAULT '{}'
+);
+
+INSERT INTO public.guest_claim_tables (table_name, conflict_columns) VALUES
+  ('notes', '{}'),
+  ('conversations', '{}'),
+  ('draft_revisions', '{}'),
+  ('verse_checks', '{source_reference,resource_type,resource_id}');
+
+-- Only the functions below touch these
+ALTER TABLE public.guest_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guest_claim_tables ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.guest_claims, public.guest_claim_tables FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_guest_claim()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim_token UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = auth.uid() AND is_anonymous) THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.guest_claims WHERE created_at < now() - interval '1 day';
+  INSERT INTO public.guest_claims (guest_id) VALUES (auth.uid()) RETURNING token INTO claim_token;
+  RETURN claim_token;
+END;
+$$;
+
+-- Move the guest's rows to the signed-in caller; the token is single-use and lasts a day
+CREATE OR REPLACE FUNCTION public.claim_guest_data(p_token UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed INTEGER := 0;
+  row_count INTEGER;
+  guest UUID;
+  claim_table RECORD;
+  same_item TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR p_token IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.guest_claims
+  WHERE token = p_token AND created_at >= now() - interval '1 day'
+  RETURNING guest_id INTO guest;
+
+  IF guest IS NULL OR guest = auth.uid()
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = guest AND is_anonymous) THEN
+    RETURN 0;
+  END IF;
+
+  FOR claim_table IN SELECT table_name, conflict_columns FROM public.guest_claim_tables LOOP
+    IF cardinality(claim_table.conflict_columns) > 0 THEN
+      SELECT string_agg(format('own.%1$I = guest_row.%1$I', col), ' AND ') INTO same_item
+      FROM unnest(claim_table.conflict_columns) AS col;
+
+      EXECUTE format(
+        'DELETE FROM public.%1$I guest_row WHERE guest_row.user_id = $1 '
+        'AND EXISTS (SELECT 1 FROM public.%1$I own WHERE own.user_id = $2 AND %2$s)',
+        claim_table.table_name, same_item
+      ) USING guest, auth.uid();
+    END IF;
+
+    EXECUTE format('UPDATE public.%I SET user_id = $2 WHERE user_id = $1', claim_table.table_name)
+      USING guest, auth.uid();
+    GET DIAGNOSTICS row_count = ROW_COUNT;
+    claimed := claimed + row_count;
+  END LOOP;
+
+  RETURN claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_guest_claim() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_guest_claim() TO authenticated;
+REVOKE ALL ON FUNCTION public.claim_guest_data(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_guest_data(UUID) TO authenticated;
+
+-- Replace the open device policies with owner-only access
+DROP POLICY "Device can view own notes" ON public.notes;
+DROP POLICY "Device can insert own notes" ON public.notes;
+DROP POLICY "Device can update own notes" ON public.notes;
+DROP POLICY "Device can delete own notes" ON public.notes;
+
+CREATE POLICY "Users can view own notes" ON public.notes
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notes" ON public.notes
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notes" ON public.notes
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notes" ON public.notes
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+DROP POLICY "Device can view own conversations" ON public.conversations;
+DROP POLICY "Device can insert own conversations" ON public.conversations;
+DROP POLICY "Device can update own conversations" ON public.conversations;
+DROP POLICY "Device can delete own conversations" ON public.conversations;
+
+CREATE POLICY "Users can view own conversations" ON public.conversations
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own conversations" ON public.conversations
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conversations" ON public.conversations
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations" ON public.conversations
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Messages are owned through their conversation
+DROP POLICY "Anyone can view messages" ON public.messages;
+DROP POLICY "Anyone can insert messages" ON public.messages;
+
+CREATE POLICY "Users can view messages in own conversations" ON public.messages
+  FOR SELECT TO authenticated USING (
+    EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert messages in own conversations" ON public.messages
+  FOR INSERT TO authenticated WITH CHECK (
+    EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete messages in own conversations" ON public.messages
+  FOR DELETE TO authenticated USING (
+    EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid())
+  );
+
+DROP POLICY "Anyone can view draft revisions" ON public.draft_revisions;
+DROP POLICY "Device can insert draft revisions" ON public.draft_revisions;
+
+-- Reviewers of the same draft still see each other's revisions, but only signed-in ones,
+-- and without the writing device - authors are told apart by user_id
+CREATE POLICY "Signed-in users can view draft revisions" ON public.draft_revisions
+  FOR SELECT TO authenticated USING (true);
+
+REVOKE SELECT ON public.draft_revisions FROM anon, authenticated;
+GRANT SELECT (id, user_id, draft_id, source_reference, content, previous_content, created_at)
+  ON public.draft_revisions TO authenticated;
+
+CREATE POLICY "Users can insert own draft revisions" ON public.draft_revisions
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY "Device can view own checks" ON public.verse_checks;
+DROP POLICY "Device can insert own checks" ON public.verse_checks;
+DROP POLICY "Device can update own checks" ON public.verse_checks;
+DROP POLICY "Device can delete own checks" ON public.verse_checks;
+
+CREATE POLICY "Users can view own checks" ON public.verse_checks
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own checks" ON public.verse_checks
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own checks" ON public.verse_checks
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own checks" ON public.verse_checks
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
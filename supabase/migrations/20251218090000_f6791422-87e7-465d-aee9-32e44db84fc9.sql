@@ -0,0 +1,203 @@
+-- Team workspaces: a translation project (language + organization + book set) whose
+-- members share notes, reply in threads, @mention each other and resolve threads.
+
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  language TEXT NOT NULL,
+  organization TEXT NOT NULL,
+  books TEXT[] NOT NULL DEFAULT '{}',
+  invite_code TEXT NOT NULL UNIQUE DEFAULT substr(replace(gen_random_uuid()::text, '-', ''), 1, 10),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.workspaces.books IS 'USFM book codes in the project; empty = whole Bible';
+
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member',
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id),
+  CONSTRAINT workspace_members_role_check CHECK (role IN ('owner', 'member'))
+);
+
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members(user_id);
+
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Notes can be shared into a workspace; replies point at their thread's root note
+ALTER TABLE public.notes
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL,
+  ADD COLUMN parent_id UUID REFERENCES public.notes(id) ON DELETE CASCADE,
+  ADD COLUMN mentions UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_notes_workspace_id ON public.notes(workspace_id);
+CREATE INDEX idx_notes_parent_id ON public.notes(parent_id);
+
+-- Membership check used by policies; SECURITY DEFINER so it doesn't recurse through RLS
+CREATE OR REPLACE FUNCTION public.is_workspace_member(p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = auth.uid()
+  );
+$$;
+
+-- Replies must point at a thread root in the same workspace
+CREATE OR REPLACE FUNCTION public.is_workspace_thread(p_parent_id UUID, p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.notes
+    WHERE id = p_parent_id AND parent_id IS NULL AND workspace_id = p_workspace_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_workspace(
+  p_name TEXT,
+  p_language TEXT,
+  p_organization TEXT,
+  p_books TEXT[],
+  p_display_name TEXT
+)
+RETURNS public.workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created public.workspaces;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a workspace';
+  END IF;
+
+  INSERT INTO public.workspaces (name, language, organization, books, created_by)
+  VALUES (p_name, p_language, p_organization, COALESCE(p_books, '{}'), auth.uid())
+  RETURNING * INTO created;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, display_name, role)
+  VALUES (created.id, auth.uid(), p_display_name, 'owner');
+
+  RETURN created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_workspace(p_invite_code TEXT, p_display_name TEXT)
+RETURNS public.workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found public.workspaces;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a workspace';
+  END IF;
+
+  SELECT * INTO found FROM public.workspaces WHERE invite_code = trim(p_invite_code);
+  IF found.id IS NULL THEN
+    RAISE EXCEPTION 'No workspace has that invite code';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, display_name)
+  VALUES (found.id, auth.uid(), p_display_name)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET display_name = EXCLUDED.display_name;
+
+  RETURN found;
+END;
+$$;
+
+-- Any member may resolve or reopen a thread, not just its author
+CREATE OR REPLACE FUNCTION public.set_thread_resolved(p_note_id UUID, p_resolved BOOLEAN)
+RETURNS public.notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated public.notes;
+BEGIN
+  UPDATE public.notes
+  SET resolved_at = CASE WHEN p_resolved THEN now() ELSE NULL END,
+      resolved_by = CASE WHEN p_resolved THEN auth.uid() ELSE NULL END
+  WHERE id = p_note_id
+    AND parent_id IS NULL
+    AND (user_id = auth.uid() OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id)))
+  RETURNING * INTO updated;
+
+  IF updated.id IS NULL THEN
+    RAISE EXCEPTION 'Thread not found';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_workspace(TEXT, TEXT, TEXT, TEXT[], TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.join_workspace(TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.set_thread_resolved(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_workspace(TEXT, TEXT, TEXT, TEXT[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_workspace(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_thread_resolved(UUID, BOOLEAN) TO authenticated;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces" ON public.workspaces
+  FOR SELECT TO authenticated USING (public.is_workspace_member(id));
+
+CREATE POLICY "Owners can update their workspaces" ON public.workspaces
+  FOR UPDATE TO authenticated USING (auth.uid() = created_by);
+
+CREATE POLICY "Owners can delete their workspaces" ON public.workspaces
+  FOR DELETE TO authenticated USING (auth.uid() = created_by);
+
+CREATE POLICY "Members can view fellow members" ON public.workspace_members
+  FOR SELECT TO authenticated USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can leave workspaces" ON public.workspace_members
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Team notes are readable by every member; writing stays with the author
+DROP POLICY "Users can view own notes" ON public.notes;
+DROP POLICY "Users can insert own notes" ON public.notes;
+DROP POLICY "Users can update own notes" ON public.notes;
+
+CREATE POLICY "Users can view own and team notes" ON public.notes
+  FOR SELECT TO authenticated USING (
+    auth.uid() = user_id
+    OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id))
+  );
+
+CREATE POLICY "Users can insert own notes" ON public.notes
+  FOR INSERT TO authenticated WITH CHECK (
+    auth.uid() = user_id
+    AND (workspace_id IS NULL OR public.is_workspace_member(workspace_id))
+    AND (parent_id IS NULL OR public.is_workspace_thread(parent_id, workspace_id))
+  );
+
+CREATE POLICY "Users can update own notes" ON public.notes
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (
+    auth.uid() = user_id
+    AND (workspace_id IS NULL OR public.is_workspace_member(workspace_id))
+    AND (parent_id IS NULL OR public.is_workspace_thread(parent_id, workspace_id))
+  );
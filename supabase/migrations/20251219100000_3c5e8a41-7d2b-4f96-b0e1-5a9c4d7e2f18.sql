@@ -0,0 +1,3 @@
+-- Stream note changes to workspace members over Supabase Realtime.
+-- Realtime applies the notes RLS policies, so subscribers only receive rows they can select.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notes;
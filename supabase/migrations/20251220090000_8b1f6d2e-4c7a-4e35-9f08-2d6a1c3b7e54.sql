@@ -0,0 +1,99 @@
+-- Keyword and semantic search over notes.
+-- Notes are written in many languages, so the 'simple' text search config is used (no stemming or stop words).
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.notes
+  ADD COLUMN search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, '') || ' ' || coalesce(source_reference, ''))) STORED,
+  -- text-embedding-3-small; filled in lazily by note-agent
+  ADD COLUMN embedding extensions.vector(1536);
+
+CREATE INDEX idx_notes_search_vector ON public.notes USING gin (search_vector);
+CREATE INDEX idx_notes_embedding ON public.notes USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Edits change the meaning, so drop the stale embedding and let note-agent re-embed
+CREATE OR REPLACE FUNCTION public.clear_note_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.embedding = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_note_embedding
+  BEFORE UPDATE ON public.notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_note_embedding();
+
+-- Both search functions run as the caller, so RLS still decides which notes are visible.
+-- Without a workspace only the caller's own notes are searched.
+
+CREATE OR REPLACE FUNCTION public.search_notes(
+  p_query TEXT,
+  p_workspace_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (id UUID, score REAL, headline TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    n.id,
+    ts_rank(n.search_vector, q) AS score,
+    ts_headline('simple', n.content, q, 'StartSel=**, StopSel=**, MaxFragments=2, MinWords=5, MaxWords=20') AS headline
+  FROM public.notes n, websearch_to_tsquery('simple', p_query) q
+  WHERE n.search_vector @@ q
+    AND (n.user_id = auth.uid() OR (p_workspace_id IS NOT NULL AND n.workspace_id = p_workspace_id))
+  ORDER BY score DESC, n.created_at DESC
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_notes(
+  p_embedding extensions.vector(1536),
+  p_workspace_id UUID DEFAULT NULL,
+  p_match_threshold REAL DEFAULT 0.3,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (id UUID, similarity REAL)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT n.id, (1 - (n.embedding <=> p_embedding))::REAL AS similarity
+  FROM public.notes n
+  WHERE n.embedding IS NOT NULL
+    AND (n.user_id = auth.uid() OR (p_workspace_id IS NOT NULL AND n.workspace_id = p_workspace_id))
+    AND 1 - (n.embedding <=> p_embedding) >= p_match_threshold
+  ORDER BY n.embedding <=> p_embedding
+  LIMIT p_limit;
+$$;
+
+-- note-agent embeds every note a search covers, including teammates' workspace notes the
+-- caller can read but not update. Only the embedding is written, and only while the note
+-- still has the content that was embedded.
+CREATE OR REPLACE FUNCTION public.set_note_embedding(
+  p_note_id UUID,
+  p_content TEXT,
+  p_embedding extensions.vector(1536)
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  UPDATE public.notes
+  SET embedding = p_embedding
+  WHERE id = p_note_id
+    AND content = p_content
+    AND (user_id = auth.uid() OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id)));
+$$;
+
+REVOKE ALL ON FUNCTION public.set_note_embedding(UUID, TEXT, extensions.vector) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_note_embedding(UUID, TEXT, extensions.vector) TO authenticated;
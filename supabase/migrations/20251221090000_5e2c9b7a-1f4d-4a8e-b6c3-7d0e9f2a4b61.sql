@@ -0,0 +1,6 @@
+-- User-defined tags and an open/done status so notes can double as checklists
+ALTER TABLE public.notes
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done'));
+
+CREATE INDEX idx_notes_tags ON public.notes USING gin (tags);
@@ -0,0 +1,5 @@
+-- Row ID of a note imported from a spreadsheet (e.g. a TN ID), so a re-import can
+-- recognise notes it already created and flag edits as conflicts
+ALTER TABLE public.notes ADD COLUMN external_id TEXT;
+
+CREATE INDEX idx_notes_external_id ON public.notes (user_id, external_id) WHERE external_id IS NOT NULL;
@@ -0,0 +1,43 @@
+-- Colour highlights on a whole verse or on a word span within it, per user
+CREATE TABLE public.verse_highlights (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  source_reference TEXT NOT NULL,
+  quote TEXT NOT NULL DEFAULT '',
+  occurrence INTEGER NOT NULL DEFAULT 1,
+  color TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT verse_highlights_color_check CHECK (color IN ('yellow', 'green', 'blue', 'pink', 'purple')),
+  CONSTRAINT verse_highlights_occurrence_check CHECK (occurrence >= 1),
+  CONSTRAINT verse_highlights_span_unique UNIQUE (user_id, source_reference, quote, occurrence)
+);
+
+COMMENT ON COLUMN public.verse_highlights.quote IS 'Highlighted words within the verse; empty highlights the whole verse';
+COMMENT ON COLUMN public.verse_highlights.occurrence IS 'Which occurrence of quote in the verse text, from 1';
+
+ALTER TABLE public.verse_highlights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own highlights" ON public.verse_highlights
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own highlights" ON public.verse_highlights
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own highlights" ON public.verse_highlights
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own highlights" ON public.verse_highlights
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+CREATE INDEX idx_verse_highlights_user_id ON public.verse_highlights(user_id);
+
+CREATE TRIGGER update_verse_highlights_updated_at
+  BEFORE UPDATE ON public.verse_highlights
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Guest highlights move to the account on sign-in like the other per-user tables;
+-- the account's own highlight of the same span wins over the guest's
+INSERT INTO public.guest_claim_tables (table_name, conflict_columns) VALUES
+  ('verse_highlights', '{source_reference,quote,occurrence}');
@@ -0,0 +1,10 @@
+-- Anchor a note to a word span within its verse, the way TN items target Quote + Occurrence.
+-- quote_source records which text the quote was taken from (e.g. ULT, UST or a draft) so
+-- the app can tell a reworded verse from a quote that never matched.
+ALTER TABLE public.notes
+  ADD COLUMN quote TEXT,
+  ADD COLUMN occurrence INTEGER CHECK (occurrence >= 1),
+  ADD COLUMN quote_source TEXT;
+
+COMMENT ON COLUMN public.notes.quote IS 'Quoted words within source_reference; null for whole-reference notes';
+COMMENT ON COLUMN public.notes.occurrence IS 'Which occurrence of quote in the verse text, from 1';
@@ -0,0 +1,62 @@
+-- Organising and searching conversation history.
+-- Pinned conversations sort first; a folder is a free-text label the user picks.
+
+ALTER TABLE public.conversations
+  ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN folder TEXT,
+  ADD COLUMN search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(preview, '') || ' ' || coalesce(scripture_reference, ''))) STORED;
+
+-- Conversations are in many languages, so 'simple' like notes search
+ALTER TABLE public.messages
+  ADD COLUMN search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+CREATE INDEX idx_conversations_search_vector ON public.conversations USING gin (search_vector);
+CREATE INDEX idx_messages_search_vector ON public.messages USING gin (search_vector);
+CREATE INDEX idx_conversations_user_folder ON public.conversations (user_id, folder) WHERE folder IS NOT NULL;
+
+-- One row per matching conversation, ranked by its best hit in the title/preview or any message.
+-- Title hits count double. Runs as the caller, so RLS limits it to their own conversations.
+CREATE OR REPLACE FUNCTION public.search_conversations(
+  p_query TEXT,
+  p_language TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (id UUID, score REAL, headline TEXT, message_id UUID)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (SELECT websearch_to_tsquery('simple', p_query) AS q),
+  hits AS (
+    SELECT
+      c.id,
+      ts_rank(c.search_vector, q.q) * 2 AS score,
+      ts_headline('simple', c.title || ' - ' || coalesce(c.preview, ''), q.q, 'StartSel=**, StopSel=**, MaxFragments=1, MinWords=5, MaxWords=20') AS headline,
+      NULL::UUID AS message_id
+    FROM public.conversations c, q
+    WHERE c.search_vector @@ q.q
+      AND c.user_id = auth.uid()
+      AND (p_language IS NULL OR c.language = p_language)
+    UNION ALL
+    SELECT
+      c.id,
+      ts_rank(m.search_vector, q.q) AS score,
+      ts_headline('simple', m.content, q.q, 'StartSel=**, StopSel=**, MaxFragments=1, MinWords=5, MaxWords=20') AS headline,
+      m.id AS message_id
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id, q
+    WHERE m.search_vector @@ q.q
+      AND c.user_id = auth.uid()
+      AND (p_language IS NULL OR c.language = p_language)
+  )
+  SELECT best.id, best.score, best.headline, best.message_id
+  FROM (
+    SELECT DISTINCT ON (hits.id) hits.id, hits.score, hits.headline, hits.message_id
+    FROM hits
+    ORDER BY hits.id, hits.score DESC
+  ) best
+  ORDER BY best.score DESC
+  LIMIT p_limit;
+$$;
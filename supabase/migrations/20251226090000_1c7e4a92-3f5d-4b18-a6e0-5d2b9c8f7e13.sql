@@ -0,0 +1,20 @@
+-- Conversation branches: editing a user message starts a sibling branch under the same
+-- parent instead of replacing history. The conversation remembers which branch was open.
+
+ALTER TABLE public.messages
+  ADD COLUMN parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+ALTER TABLE public.conversations
+  ADD COLUMN active_leaf_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_parent_id ON public.messages (parent_id);
+
+-- Existing conversations become a single branch, each message following the one before it
+UPDATE public.messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM public.messages
+) ordered
+WHERE m.id = ordered.id
+  AND ordered.previous_id IS NOT NULL;
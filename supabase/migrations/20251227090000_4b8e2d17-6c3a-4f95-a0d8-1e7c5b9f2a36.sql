@@ -0,0 +1,71 @@
+-- Rows written before accounts existed have no user_id, so owner-only access hides them.
+-- The upgraded client claims them on its first session by the device_id it still holds.
+-- device_id is weak proof (draft revisions showed it to everyone before accounts), so each
+-- device is claimed at most once: whoever claims it first, later calls for it claim nothing.
+CREATE TABLE public.legacy_device_claims (
+  device_id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the function below touches it
+ALTER TABLE public.legacy_device_claims ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.legacy_device_claims FROM anon, authenticated;
+
+-- Move the device's ownerless rows to the caller, across the guest claim tables that keep
+-- device_id; the caller's own copy of the same item wins, as in claim_guest_data
+CREATE OR REPLACE FUNCTION public.claim_legacy_device_data(p_device_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed INTEGER := 0;
+  row_count INTEGER;
+  claim_table RECORD;
+  same_item TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR coalesce(p_device_id, '') = '' THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.legacy_device_claims (device_id, user_id)
+  VALUES (p_device_id, auth.uid())
+  ON CONFLICT (device_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR claim_table IN
+    SELECT t.table_name, t.conflict_columns
+    FROM public.guest_claim_tables t
+    WHERE EXISTS (
+      SELECT 1 FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = t.table_name AND c.column_name = 'device_id'
+    )
+  LOOP
+    IF cardinality(claim_table.conflict_columns) > 0 THEN
+      SELECT string_agg(format('own.%1$I = legacy_row.%1$I', col), ' AND ') INTO same_item
+      FROM unnest(claim_table.conflict_columns) AS col;
+
+      EXECUTE format(
+        'DELETE FROM public.%1$I legacy_row WHERE legacy_row.user_id IS NULL AND legacy_row.device_id = $1 '
+        'AND EXISTS (SELECT 1 FROM public.%1$I own WHERE own.user_id = $2 AND %2$s)',
+        claim_table.table_name, same_item
+      ) USING p_device_id, auth.uid();
+    END IF;
+
+    EXECUTE format('UPDATE public.%I SET user_id = $2 WHERE user_id IS NULL AND device_id = $1', claim_table.table_name)
+      USING p_device_id, auth.uid();
+    GET DIAGNOSTICS row_count = ROW_COUNT;
+    claimed := claimed + row_count;
+  END LOOP;
+
+  RETURN claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_legacy_device_data(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_legacy_device_data(TEXT) TO authenticated;
@@ -0,0 +1,22 @@
+-- Note embeddings are computed by note-agent only. Any workspace member could call
+-- set_note_embedding with a vector of their own and skew how a teammate's note ranks,
+-- so it now runs only for the service role, which note-agent uses to store what it embedded.
+-- notes.embedding stays vector(1536): the embedding model must produce 1536 dimensions
+-- (note-agent checks before storing).
+CREATE OR REPLACE FUNCTION public.set_note_embedding(
+  p_note_id UUID,
+  p_content TEXT,
+  p_embedding extensions.vector(1536)
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public, extensions
+AS $$
+  UPDATE public.notes
+  SET embedding = p_embedding
+  WHERE id = p_note_id
+    AND content = p_content;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_note_embedding(UUID, TEXT, extensions.vector) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_note_embedding(UUID, TEXT, extensions.vector) TO service_role;